@@ -22,7 +22,11 @@ import ProcessSelections from './pages/ProcessSelections';
 import SelectionResults from './pages/SelectionResults';
 import DriverSelectionResults from './pages/DriverSelectionResults';
 import DriverSelectionForm from './pages/DriverSelectionForm';
+import SecondRoundSelection from './pages/SecondRoundSelection';
+import DraftBoard from './pages/DraftBoard';
+import AssignmentSimulator from './pages/AssignmentSimulator';
 import RouteSelectionGuidelines from './pages/RouteSelectionGuidelines';
+import BatchProcessing from './pages/BatchProcessing';
 
 const queryClient = new QueryClient({
   defaultOptions: {
@@ -64,9 +68,13 @@ function App() {
               <Route path="manual-selections" element={<ManualSelections />} />
               <Route path="print-forms" element={<PrintForms />} />
               <Route path="process-selections/:periodId" element={<ProcessSelections />} />
+              <Route path="batch-processing" element={<BatchProcessing />} />
               <Route path="selection-results/:periodId" element={<SelectionResults />} />
               <Route path="driver-results/:periodId" element={<DriverSelectionResults />} />
               <Route path="submit-selection/:periodId" element={<DriverSelectionForm />} />
+              <Route path="second-round/:periodId" element={<SecondRoundSelection />} />
+              <Route path="draft/:periodId" element={<DraftBoard />} />
+              <Route path="simulate/:periodId" element={<AssignmentSimulator />} />
               <Route path="guidelines" element={<RouteSelectionGuidelines />} />
             </Route>
           </Routes>
@@ -0,0 +1,48 @@
+import apiClient from './client';
+
+export interface JobProgress {
+  id: string;
+  status: 'QUEUED' | 'RUNNING' | 'SUCCEEDED' | 'FAILED';
+  phase: string | null;
+  processed: number;
+  total: number;
+  error: string | null;
+}
+
+const POLL_INTERVAL_MS = 1000;
+
+// Polls a background job until it finishes, resolving with its result or rejecting with its error
+export const waitForJob = async <T>(jobId: string, onProgress?: (job: JobProgress) => void): Promise<T> => {
+  for (;;) {
+    const response = await apiClient.get(`/jobs/${jobId}`);
+    const job = response.data as JobProgress & { result: T };
+    onProgress?.(job);
+
+    if (job.status === 'SUCCEEDED') {
+      return job.result;
+    }
+    if (job.status === 'FAILED') {
+      throw new Error(job.error || 'Job failed');
+    }
+
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+};
+
+export const describeJobProgress = (job: JobProgress | null): string => {
+  if (!job || job.status === 'QUEUED') {
+    return 'Queued...';
+  }
+  switch (job.phase) {
+    case 'LOADING':
+      return 'Loading selections...';
+    case 'ASSIGNING':
+      return `Assigning ${job.processed} of ${job.total}...`;
+    case 'SAVING':
+      return 'Saving results...';
+    case 'PROCESSING_PERIODS':
+      return `Processed ${job.processed} of ${job.total} periods...`;
+    default:
+      return 'Processing...';
+  }
+};
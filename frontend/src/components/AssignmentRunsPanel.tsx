@@ -0,0 +1,247 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { GitCompare, Upload, RotateCcw } from 'lucide-react';
+import apiClient from '../api/client';
+import { toast } from 'react-hot-toast';
+
+interface AssignmentRun {
+  id: string;
+  version: number;
+  round: number;
+  status: 'DRAFT' | 'PUBLISHED' | 'SUPERSEDED';
+  inputsHash: string;
+  assignmentStrategy: string;
+  strategyParams: Record<string, unknown> | null;
+  summary: {
+    totalEmployees?: number;
+    assignedRoutes?: number;
+    floatPoolEmployees?: number;
+  };
+  createdAt: string;
+  publishedAt: string | null;
+  createdBy: { email: string; name: string | null } | null;
+  publishedBy: { email: string; name: string | null } | null;
+}
+
+interface RunDiff {
+  sameInputs: boolean;
+  changes: {
+    employeeId: string;
+    employeeNumber?: string;
+    employeeName: string;
+    fromRunNumber: string | null | undefined;
+    toRunNumber: string | null | undefined;
+  }[];
+}
+
+interface AssignmentRunsPanelProps {
+  periodId: string;
+}
+
+const STATUS_STYLES: Record<AssignmentRun['status'], string> = {
+  DRAFT: 'bg-yellow-100 text-yellow-800',
+  PUBLISHED: 'bg-green-100 text-green-800',
+  SUPERSEDED: 'bg-gray-100 text-gray-700',
+};
+
+const describeRoute = (runNumber: string | null | undefined) => {
+  if (runNumber === undefined) return 'Not in run';
+  return runNumber || 'Float pool';
+};
+
+const AssignmentRunsPanel = ({ periodId }: AssignmentRunsPanelProps) => {
+  const queryClient = useQueryClient();
+  const [diffFrom, setDiffFrom] = useState('');
+  const [diffTo, setDiffTo] = useState('');
+
+  const { data: runs = [] } = useQuery<AssignmentRun[]>({
+    queryKey: ['assignment-runs', periodId],
+    queryFn: async () => {
+      const response = await apiClient.get(`/assignment-runs/period/${periodId}`);
+      return response.data;
+    },
+  });
+
+  const { data: diff, isFetching: diffLoading } = useQuery<RunDiff>({
+    queryKey: ['assignment-run-diff', diffFrom, diffTo],
+    queryFn: async () => {
+      const response = await apiClient.get('/assignment-runs/diff', {
+        params: { from: diffFrom, to: diffTo },
+      });
+      return response.data;
+    },
+    enabled: !!diffFrom && !!diffTo && diffFrom !== diffTo,
+  });
+
+  const onRunApplied = (message: string) => {
+    toast.success(message);
+    queryClient.invalidateQueries({ queryKey: ['assignment-runs', periodId] });
+    queryClient.invalidateQueries({ queryKey: ['assignment-trace', periodId] });
+    // The first run published completes the period
+    queryClient.invalidateQueries({ queryKey: ['period', periodId] });
+  };
+
+  const publishMutation = useMutation({
+    mutationFn: async (runId: string) => {
+      const response = await apiClient.post(`/assignment-runs/${runId}/publish`);
+      return response.data as { cascadeBid: { id: string; name: string; routes: number } | null };
+    },
+    onSuccess: (data) => {
+      onRunApplied('Run published to drivers\' current routes');
+      // Publishing a cascading vacancy bid opens another for the routes its winners gave up
+      if (data.cascadeBid) {
+        toast.success(`Opened ${data.cascadeBid.name} for ${data.cascadeBid.routes} vacated route${data.cascadeBid.routes !== 1 ? 's' : ''}`);
+        queryClient.invalidateQueries({ queryKey: ['periods'] });
+      }
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to publish run');
+    },
+  });
+
+  const rollbackMutation = useMutation({
+    mutationFn: async (runId: string) => {
+      await apiClient.post(`/assignment-runs/${runId}/rollback`);
+    },
+    onSuccess: () => onRunApplied('Rolled back to the selected run'),
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to roll back run');
+    },
+  });
+
+  if (runs.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mt-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-1">Assignment Runs</h2>
+      <p className="text-sm text-gray-600 mb-4">
+        Each processing run is kept. Drivers' current routes only change when a run is published.
+      </p>
+
+      <div className="overflow-x-auto mb-6">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 border-b border-gray-200">
+              <th className="py-2">Run</th>
+              <th className="py-2">Status</th>
+              <th className="py-2">Processed</th>
+              <th className="py-2 text-right">Assigned</th>
+              <th className="py-2 text-right">Float</th>
+              <th className="py-2">Inputs</th>
+              <th className="py-2"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {runs.map(run => (
+              <tr key={run.id} className="border-b border-gray-100">
+                <td className="py-2 font-medium">
+                  v{run.version}
+                  {run.round > 1 && <span className="text-xs text-gray-500 ml-1">(round {run.round})</span>}
+                </td>
+                <td className="py-2">
+                  <span className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[run.status]}`}>
+                    {run.status}
+                  </span>
+                </td>
+                <td className="py-2 text-gray-600">
+                  {new Date(run.createdAt).toLocaleString()}
+                  {run.createdBy && <span className="block text-xs">{run.createdBy.name || run.createdBy.email}</span>}
+                </td>
+                <td className="py-2 text-right">{run.summary.assignedRoutes ?? '-'}</td>
+                <td className="py-2 text-right">{run.summary.floatPoolEmployees ?? '-'}</td>
+                <td className="py-2 text-xs text-gray-500">
+                  <span className="font-mono" title={run.inputsHash}>{run.inputsHash.slice(0, 8)}</span>
+                  <span className="block" title={run.strategyParams ? JSON.stringify(run.strategyParams) : undefined}>
+                    {run.assignmentStrategy}
+                  </span>
+                </td>
+                <td className="py-2 text-right">
+                  {run.status === 'DRAFT' && (
+                    <button
+                      onClick={() => {
+                        if (window.confirm(`Publish run v${run.version}? Drivers' current routes will be updated.`)) {
+                          publishMutation.mutate(run.id);
+                        }
+                      }}
+                      disabled={publishMutation.isPending}
+                      className="inline-flex items-center px-3 py-1 bg-primary-600 hover:bg-primary-700 text-white rounded-lg text-xs transition-colors disabled:opacity-50"
+                    >
+                      <Upload className="w-3 h-3 mr-1" />
+                      Publish
+                    </button>
+                  )}
+                  {run.status === 'SUPERSEDED' && (
+                    <button
+                      onClick={() => {
+                        if (window.confirm(`Roll back to run v${run.version}? Drivers' current routes will be restored.`)) {
+                          rollbackMutation.mutate(run.id);
+                        }
+                      }}
+                      disabled={rollbackMutation.isPending}
+                      className="inline-flex items-center px-3 py-1 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-lg text-xs transition-colors disabled:opacity-50"
+                    >
+                      <RotateCcw className="w-3 h-3 mr-1" />
+                      Roll Back
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {runs.length > 1 && (
+        <div>
+          <div className="flex items-center gap-2 mb-3">
+            <GitCompare className="w-4 h-4 text-gray-500" />
+            <span className="text-sm font-medium text-gray-700">Compare</span>
+            <select value={diffFrom} onChange={(e) => setDiffFrom(e.target.value)} className="input-field w-32">
+              <option value="">From...</option>
+              {runs.map(run => <option key={run.id} value={run.id}>v{run.version}</option>)}
+            </select>
+            <span className="text-gray-500">→</span>
+            <select value={diffTo} onChange={(e) => setDiffTo(e.target.value)} className="input-field w-32">
+              <option value="">To...</option>
+              {runs.map(run => <option key={run.id} value={run.id}>v{run.version}</option>)}
+            </select>
+          </div>
+          {diffLoading && <p className="text-sm text-gray-500">Comparing...</p>}
+          {diff && !diffLoading && (
+            diff.changes.length === 0 ? (
+              <p className="text-sm text-gray-600">
+                No driver changed routes between these runs{diff.sameInputs ? ' (identical inputs)' : ''}.
+              </p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b border-gray-200">
+                    <th className="py-1">Driver</th>
+                    <th className="py-1">From</th>
+                    <th className="py-1">To</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {diff.changes.map(change => (
+                    <tr key={change.employeeId} className="border-b border-gray-100">
+                      <td className="py-1">
+                        {change.employeeName}
+                        {change.employeeNumber && <span className="text-gray-400 ml-1">({change.employeeNumber})</span>}
+                      </td>
+                      <td className="py-1">{describeRoute(change.fromRunNumber)}</td>
+                      <td className="py-1 font-medium">{describeRoute(change.toRunNumber)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AssignmentRunsPanel;
@@ -0,0 +1,137 @@
+import { useQuery } from '@tanstack/react-query';
+import apiClient from '../api/client';
+
+interface AssignmentStrategy {
+  name: string;
+  label: string;
+  description: string;
+  incumbencyPriority: boolean;
+}
+
+interface Qualification {
+  id: string;
+  name: string;
+}
+
+interface AssignmentStrategyFieldsProps {
+  strategy: string;
+  params: Record<string, unknown>;
+  onChange: (strategy: string, params: Record<string, unknown>) => void;
+}
+
+// Strategy picker for the period modals; parameters left blank take the server's defaults
+const AssignmentStrategyFields = ({ strategy, params, onChange }: AssignmentStrategyFieldsProps) => {
+  const { data: strategies = [] } = useQuery<AssignmentStrategy[]>({
+    queryKey: ['assignment-strategies'],
+    queryFn: async () => {
+      const response = await apiClient.get('/periods/strategies');
+      return response.data;
+    },
+  });
+
+  const { data: qualifications = [] } = useQuery<Qualification[]>({
+    queryKey: ['qualifications', 'active'],
+    queryFn: async () => {
+      const response = await apiClient.get('/qualifications?isActive=true');
+      return response.data;
+    },
+    enabled: strategy === 'CLASS_ROUND_ROBIN',
+  });
+
+  const selected = strategies.find(s => s.name === strategy);
+  const classQualificationIds = (params.classQualificationIds as string[] | undefined) || [];
+
+  const setParam = (key: string, value: unknown) => {
+    const next = { ...params };
+    if (value === undefined || value === '') {
+      delete next[key];
+    } else {
+      next[key] = value;
+    }
+    onChange(strategy, next);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Assignment Strategy</label>
+        <select
+          value={strategy}
+          onChange={(e) => onChange(e.target.value, {})}
+          className="input-field"
+        >
+          {strategies.length === 0 && <option value={strategy}>{strategy}</option>}
+          {strategies.map(s => (
+            <option key={s.name} value={s.name}>{s.label}</option>
+          ))}
+        </select>
+        {selected && (
+          <p className="text-xs text-gray-500 mt-1">{selected.description}</p>
+        )}
+      </div>
+
+      {strategy === 'PROBATIONARY_LOTTERY' && (
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Probation (days)</label>
+            <input
+              type="number"
+              min={1}
+              max={3650}
+              value={(params.probationDays as number | undefined) ?? ''}
+              onChange={(e) => setParam('probationDays', e.target.value ? parseInt(e.target.value) : undefined)}
+              placeholder="90"
+              className="input-field"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Lottery Seed</label>
+            <input
+              type="text"
+              value={(params.seed as string | undefined) ?? ''}
+              onChange={(e) => setParam('seed', e.target.value)}
+              placeholder="Generated on save"
+              className="input-field"
+            />
+          </div>
+        </div>
+      )}
+
+      {strategy === 'CLASS_ROUND_ROBIN' && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Classes</label>
+          <div className="border border-gray-200 rounded-lg p-3 max-h-40 overflow-y-auto space-y-1">
+            {qualifications.length === 0 ? (
+              <p className="text-sm text-gray-500">No active qualifications</p>
+            ) : (
+              qualifications.map(qualification => (
+                <label key={qualification.id} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={classQualificationIds.includes(qualification.id)}
+                    onChange={(e) => setParam(
+                      'classQualificationIds',
+                      e.target.checked
+                        ? [...classQualificationIds, qualification.id]
+                        : classQualificationIds.filter(id => id !== qualification.id),
+                    )}
+                    className="rounded border-gray-300"
+                  />
+                  {qualification.name}
+                  {classQualificationIds.includes(qualification.id) && (
+                    <span className="text-xs text-gray-500">class {classQualificationIds.indexOf(qualification.id) + 1}</span>
+                  )}
+                </label>
+              ))
+            )}
+          </div>
+          <p className="text-xs text-gray-500 mt-1">
+            Drivers join the class of the first ticked qualification they hold, in the order ticked.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AssignmentStrategyFields;
@@ -0,0 +1,155 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Users } from 'lucide-react';
+import apiClient from '../api/client';
+import { toast } from 'react-hot-toast';
+
+interface TeamMember {
+  id: string;
+  employeeId: string;
+  firstName: string;
+  lastName: string;
+}
+
+export interface BidTeam {
+  id: string;
+  leadEmployeeId: string;
+  partnerEmployeeId: string;
+  confirmedAt: string | null;
+  lead: TeamMember;
+  partner: TeamMember;
+}
+
+interface BidTeamPanelProps {
+  periodId: string;
+  // The signed-in driver's Employee.id
+  employeeId: string;
+  team: BidTeam | null;
+}
+
+const BidTeamPanel = ({ periodId, employeeId, team }: BidTeamPanelProps) => {
+  const queryClient = useQueryClient();
+  const [partnerEmployeeId, setPartnerEmployeeId] = useState('');
+
+  const refreshTeam = () => {
+    queryClient.invalidateQueries({ queryKey: ['my-team', periodId] });
+  };
+
+  const inviteMutation = useMutation({
+    mutationFn: async () => {
+      await apiClient.post(`/teams/period/${periodId}`, { partnerEmployeeId });
+    },
+    onSuccess: () => {
+      toast.success('Invitation sent; your partner must confirm it');
+      setPartnerEmployeeId('');
+      refreshTeam();
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to invite partner');
+    },
+  });
+
+  const confirmMutation = useMutation({
+    mutationFn: async (teamId: string) => {
+      await apiClient.post(`/teams/${teamId}/confirm`);
+    },
+    onSuccess: () => {
+      toast.success('You are now bidding as a team');
+      refreshTeam();
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to confirm team');
+    },
+  });
+
+  const dissolveMutation = useMutation({
+    mutationFn: async (teamId: string) => {
+      await apiClient.delete(`/teams/${teamId}`);
+    },
+    onSuccess: () => {
+      toast.success('Team dissolved');
+      refreshTeam();
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to dissolve team');
+    },
+  });
+
+  const isLead = team?.leadEmployeeId === employeeId;
+  const teammate = team ? (isLead ? team.partner : team.lead) : null;
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-6">
+      <div className="flex items-center gap-2 mb-2">
+        <Users className="w-5 h-5 text-primary-600" />
+        <h3 className="text-lg font-semibold text-gray-900">Team Bid</h3>
+      </div>
+
+      {!team || !teammate ? (
+        <>
+          <p className="text-sm text-gray-600 mb-4">
+            Two-driver team routes can only be awarded to a team. Invite a partner to bid on your ranked
+            list together; you are both awarded the same route or neither is.
+          </p>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              inviteMutation.mutate();
+            }}
+            className="flex gap-3"
+          >
+            <input
+              type="text"
+              value={partnerEmployeeId}
+              onChange={(e) => setPartnerEmployeeId(e.target.value)}
+              placeholder="Partner's employee number"
+              className="input-field flex-1"
+              required
+            />
+            <button type="submit" disabled={inviteMutation.isPending} className="btn-primary">
+              {inviteMutation.isPending ? 'Inviting...' : 'Invite Partner'}
+            </button>
+          </form>
+        </>
+      ) : (
+        <div className="flex items-center justify-between gap-4">
+          <div className="text-sm">
+            <p className="font-medium text-gray-900">
+              {team.confirmedAt ? 'Teamed with' : isLead ? 'Waiting for' : 'Invited by'}{' '}
+              {teammate.firstName} {teammate.lastName} ({teammate.employeeId})
+            </p>
+            <p className="text-gray-600 mt-1">
+              {!team.confirmedAt
+                ? isLead
+                  ? 'Your partner must confirm before you bid as a team.'
+                  : 'Confirm to bid on their ranked list as a team.'
+                : isLead
+                ? 'Your ranked choices below are the team\'s joint list.'
+                : `Your team's joint list is submitted by ${team.lead.firstName} ${team.lead.lastName}.`}
+            </p>
+          </div>
+          <div className="flex gap-2 flex-shrink-0">
+            {!isLead && !team.confirmedAt && (
+              <button
+                onClick={() => confirmMutation.mutate(team.id)}
+                disabled={confirmMutation.isPending}
+                className="btn-primary"
+              >
+                Confirm
+              </button>
+            )}
+            <button
+              onClick={() => dissolveMutation.mutate(team.id)}
+              disabled={dissolveMutation.isPending}
+              className="btn-secondary"
+            >
+              {team.confirmedAt ? 'Leave Team' : isLead ? 'Cancel Invite' : 'Decline'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BidTeamPanel;
@@ -0,0 +1,136 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { AlertTriangle } from 'lucide-react';
+import apiClient from '../api/client';
+import { toast } from 'react-hot-toast';
+
+interface BumpOption {
+  routeId: string;
+  runNumber: string;
+  origin: string;
+  destination: string;
+  holder: {
+    id: string;
+    employeeId: string;
+    firstName: string;
+    lastName: string;
+  };
+}
+
+interface MyDisplacement {
+  id: string;
+  status: 'PENDING' | 'ACTIVE';
+  windowEnd: string | null;
+  fromRoute: { id: string; runNumber: string; origin: string; destination: string };
+  options: BumpOption[];
+}
+
+// Shown to a driver displaced by a route abolishment while they wait for or hold a bump window
+const BumpRightsPanel = () => {
+  const queryClient = useQueryClient();
+  const [routeId, setRouteId] = useState('');
+
+  const { data: displacement } = useQuery<MyDisplacement | null>({
+    queryKey: ['my-displacement'],
+    queryFn: async () => {
+      const response = await apiClient.get('/abolishments/displacements/my');
+      return response.data;
+    },
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['my-displacement'] });
+    queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] });
+  };
+
+  const bumpMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiClient.post(`/abolishments/displacements/${id}/bump`, { routeId });
+    },
+    onSuccess: () => {
+      toast.success('Route claimed');
+      setRouteId('');
+      invalidate();
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to bump onto route');
+    },
+  });
+
+  const declineMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiClient.post(`/abolishments/displacements/${id}/decline`);
+    },
+    onSuccess: () => {
+      toast.success('You have been placed in the float pool');
+      invalidate();
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to decline bump');
+    },
+  });
+
+  if (!displacement) {
+    return null;
+  }
+
+  return (
+    <div className="bg-amber-50 border border-amber-200 rounded-lg p-6">
+      <div className="flex items-start gap-3">
+        <AlertTriangle className="w-5 h-5 text-amber-600 flex-shrink-0 mt-0.5" />
+        <div className="flex-1">
+          <h2 className="font-semibold text-amber-900">
+            You have been displaced from route {displacement.fromRoute.runNumber}
+          </h2>
+          {displacement.status === 'PENDING' ? (
+            <p className="text-sm text-amber-800 mt-1">
+              Displaced drivers bump in seniority order. You will be emailed when your bump window opens.
+            </p>
+          ) : (
+            <>
+              <p className="text-sm text-amber-800 mt-1">
+                Claim a route held by a more junior driver by{' '}
+                {displacement.windowEnd && new Date(displacement.windowEnd).toLocaleString()}, or you will be
+                placed in the float pool.
+              </p>
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  bumpMutation.mutate(displacement.id);
+                }}
+                className="flex flex-col md:flex-row gap-3 mt-4"
+              >
+                <select
+                  value={routeId}
+                  onChange={(e) => setRouteId(e.target.value)}
+                  className="input-field flex-1"
+                  required
+                >
+                  <option value="">Select a route to bump onto...</option>
+                  {displacement.options.map(option => (
+                    <option key={option.routeId} value={option.routeId}>
+                      {option.runNumber} - {option.origin} → {option.destination} (held by {option.holder.firstName} {option.holder.lastName})
+                    </option>
+                  ))}
+                </select>
+                <button type="submit" disabled={bumpMutation.isPending} className="btn-primary">
+                  {bumpMutation.isPending ? 'Claiming...' : 'Bump'}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => declineMutation.mutate(displacement.id)}
+                  disabled={declineMutation.isPending}
+                  className="btn-secondary"
+                >
+                  Go to Float Pool
+                </button>
+              </form>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BumpRightsPanel;
@@ -0,0 +1,237 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { AlertTriangle, Copy, X } from 'lucide-react';
+import apiClient from '../api/client';
+import { toast } from 'react-hot-toast';
+
+interface TemplateRoute {
+  id: string;
+  runNumber: string;
+  type: string;
+  origin: string;
+  destination: string;
+}
+
+interface ClonePreview {
+  source: {
+    id: string;
+    name: string;
+    description: string | null;
+    requiredSelections: number;
+    mode: 'BID' | 'DRAFT';
+    assignmentStrategy: string;
+  };
+  startDate: string;
+  endDate: string;
+  carriedRoutes: TemplateRoute[];
+  inactiveRoutes: TemplateRoute[];
+  newRoutes: TemplateRoute[];
+}
+
+interface ClonePeriodModalProps {
+  periodId: string;
+  onClose: () => void;
+}
+
+const ClonePeriodModal = ({ periodId, onClose }: ClonePeriodModalProps) => {
+  const queryClient = useQueryClient();
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [addRouteIds, setAddRouteIds] = useState<string[]>([]);
+
+  const { data: preview, isLoading } = useQuery<ClonePreview>({
+    queryKey: ['clone-preview', periodId],
+    queryFn: async () => {
+      const response = await apiClient.get(`/periods/${periodId}/clone-preview`);
+      return response.data;
+    },
+  });
+
+  // Start from the source's settings and its dates moved on to the next bid
+  useEffect(() => {
+    if (preview) {
+      setName(`${preview.source.name} (copy)`);
+      setDescription(preview.source.description || '');
+      setStartDate(preview.startDate);
+      setEndDate(preview.endDate);
+    }
+  }, [preview]);
+
+  const cloneMutation = useMutation({
+    mutationFn: async () => {
+      await apiClient.post(`/periods/${periodId}/clone`, {
+        name,
+        description: description || null,
+        startDate,
+        endDate,
+        addRouteIds,
+      });
+    },
+    onSuccess: () => {
+      toast.success('Period cloned');
+      queryClient.invalidateQueries({ queryKey: ['periods'] });
+      onClose();
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to clone period');
+    },
+  });
+
+  const toggleRoute = (routeId: string) => {
+    setAddRouteIds(current => current.includes(routeId)
+      ? current.filter(id => id !== routeId)
+      : [...current, routeId]);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl max-w-2xl w-full p-6 animate-slide-up max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center gap-3">
+            <div className="bg-primary-100 p-2 rounded-lg">
+              <Copy className="w-5 h-5 text-primary-600" />
+            </div>
+            <h3 className="text-lg font-semibold text-gray-900">Clone Period</h3>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg transition-colors">
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        {isLoading || !preview ? (
+          <p className="text-sm text-gray-500">Loading period...</p>
+        ) : (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              cloneMutation.mutate();
+            }}
+            className="space-y-4"
+          >
+            <p className="text-sm text-gray-600">
+              Copies the settings of "{preview.source.name}" ({preview.source.requiredSelections} required selections,
+              {preview.source.mode === 'DRAFT' ? ' live draft' : ' preference bid'}, {preview.source.assignmentStrategy.toLowerCase().replace(/_/g, ' ')} strategy)
+              and its {preview.carriedRoutes.length} active routes into a new upcoming period.
+            </p>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor="clone-name">
+                Name
+              </label>
+              <input
+                id="clone-name"
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="input-field"
+                required
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor="clone-description">
+                Description
+              </label>
+              <textarea
+                id="clone-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                className="input-field"
+                rows={2}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor="clone-start">
+                  Start Date
+                </label>
+                <input
+                  id="clone-start"
+                  type="date"
+                  value={startDate}
+                  onChange={(e) => setStartDate(e.target.value)}
+                  className="input-field"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor="clone-end">
+                  End Date
+                </label>
+                <input
+                  id="clone-end"
+                  type="date"
+                  value={endDate}
+                  min={startDate}
+                  onChange={(e) => setEndDate(e.target.value)}
+                  className="input-field"
+                  required
+                />
+              </div>
+            </div>
+
+            {preview.inactiveRoutes.length > 0 && (
+              <div className="bg-amber-50 border border-amber-200 rounded-lg p-3">
+                <p className="text-sm font-medium text-amber-900 flex items-center gap-2">
+                  <AlertTriangle className="w-4 h-4" />
+                  {preview.inactiveRoutes.length} route{preview.inactiveRoutes.length === 1 ? ' has' : 's have'} been deactivated and will be left out
+                </p>
+                <ul className="text-xs text-amber-800 mt-2 space-y-0.5">
+                  {preview.inactiveRoutes.map(route => (
+                    <li key={route.id}>{route.runNumber} - {route.origin} → {route.destination}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <div>
+              <p className="block text-sm font-medium text-gray-700 mb-1">New Routes at the Terminal</p>
+              {preview.newRoutes.length === 0 ? (
+                <p className="text-sm text-gray-500">Every active route at the terminal was in the source period.</p>
+              ) : (
+                <>
+                  <p className="text-xs text-gray-500 mb-2">
+                    Active routes the source period didn't offer. Tick any to include them.
+                  </p>
+                  <div className="border border-gray-200 rounded-lg divide-y divide-gray-100 max-h-60 overflow-y-auto">
+                    {preview.newRoutes.map(route => (
+                      <label key={route.id} className="flex items-center gap-3 px-3 py-2 text-sm cursor-pointer hover:bg-gray-50">
+                        <input
+                          type="checkbox"
+                          checked={addRouteIds.includes(route.id)}
+                          onChange={() => toggleRoute(route.id)}
+                          className="w-4 h-4 text-primary-600 border-gray-300 rounded focus:ring-primary-500"
+                        />
+                        <span className="font-medium text-gray-900">{route.runNumber}</span>
+                        <span className="text-gray-500 flex-1">{route.origin} → {route.destination}</span>
+                        <span className="text-xs text-gray-500">{route.type}</span>
+                      </label>
+                    ))}
+                  </div>
+                </>
+              )}
+            </div>
+
+            <div className="flex gap-3 justify-end pt-4">
+              <button type="button" onClick={onClose} className="btn-secondary">
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={cloneMutation.isPending}
+                className="btn-primary"
+              >
+                {cloneMutation.isPending ? 'Cloning...' : 'Create Period'}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ClonePeriodModal;
@@ -18,7 +18,8 @@ import {
   Building2,
   ClipboardList,
   FileText,
-  BookOpen
+  BookOpen,
+  Layers
 } from 'lucide-react';
 import { useState } from 'react';
 
@@ -44,6 +45,7 @@ const Layout = () => {
     { path: '/periods', label: 'Selection Periods', icon: Calendar, roles: ['Admin', 'Manager'] },
     { path: '/selections', label: 'My Selections', icon: CheckSquare, adminLabel: 'Selection Results' },
     { path: '/manual-selections', label: 'Manual Entry', icon: ClipboardList, roles: ['Admin', 'Manager'] },
+    { path: '/batch-processing', label: 'Batch Processing', icon: Layers, roles: ['Admin', 'Manager'] },
     { path: '/print-forms', label: 'Print Forms', icon: FileText, roles: ['Admin', 'Manager'] },
     { path: '/import-export', label: 'Import/Export', icon: FileUp, roles: ['Admin'] },
     { path: '/users', label: 'User Management', icon: UserCircle, roles: ['Admin', 'Manager'] },
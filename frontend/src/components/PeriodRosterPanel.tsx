@@ -0,0 +1,276 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Plus, UserMinus, Users } from 'lucide-react';
+import apiClient from '../api/client';
+import { toast } from 'react-hot-toast';
+import { formatZonedDateTime } from '../utils/timeZone';
+
+interface RosterUser {
+  id: string;
+  name: string | null;
+  email: string;
+}
+
+interface PeriodParticipant {
+  id: string;
+  source: 'SNAPSHOT' | 'ADDED';
+  band: number | null;
+  addReason: string | null;
+  removedAt: string | null;
+  removeReason: string | null;
+  employee: { id: string; employeeId: string; firstName: string; lastName: string; isEligible: boolean };
+  addedBy: RosterUser | null;
+  removedBy: RosterUser | null;
+}
+
+interface PeriodRoster {
+  rosterCapturedAt: string | null;
+  participants: PeriodParticipant[];
+}
+
+interface Employee {
+  id: string;
+  employeeId: string;
+  firstName: string;
+  lastName: string;
+}
+
+interface PeriodRosterPanelProps {
+  periodId: string;
+  terminalId: string;
+  timeZone: string;
+  // The roster is locked once the period is processed or the draft starts
+  editable: boolean;
+}
+
+const userName = (user: RosterUser | null) => (user ? user.name || user.email : 'Unknown');
+
+const PeriodRosterPanel = ({ periodId, terminalId, timeZone, editable }: PeriodRosterPanelProps) => {
+  const queryClient = useQueryClient();
+  const [employeeId, setEmployeeId] = useState('');
+  const [reason, setReason] = useState('');
+  const [removingEmployeeId, setRemovingEmployeeId] = useState<string | null>(null);
+  const [removeReason, setRemoveReason] = useState('');
+
+  const { data: roster } = useQuery<PeriodRoster>({
+    queryKey: ['period-roster', periodId],
+    queryFn: async () => {
+      const response = await apiClient.get(`/participants/period/${periodId}`);
+      return response.data;
+    },
+  });
+
+  const canEdit = editable && !!roster?.rosterCapturedAt;
+
+  const { data: employees = [] } = useQuery<Employee[]>({
+    queryKey: ['employees', terminalId],
+    queryFn: async () => {
+      const response = await apiClient.get('/employees', {
+        params: { terminalId },
+      });
+      return response.data;
+    },
+    enabled: canEdit,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['period-roster', periodId] });
+  };
+
+  const addParticipantMutation = useMutation({
+    mutationFn: async () => {
+      await apiClient.post(`/participants/period/${periodId}`, { employeeId, reason });
+    },
+    onSuccess: () => {
+      toast.success('Driver added to the roster');
+      setEmployeeId('');
+      setReason('');
+      invalidate();
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to add driver');
+    },
+  });
+
+  const removeParticipantMutation = useMutation({
+    mutationFn: async () => {
+      await apiClient.delete(`/participants/period/${periodId}/${removingEmployeeId}`, {
+        data: { reason: removeReason },
+      });
+    },
+    onSuccess: () => {
+      toast.success('Driver removed from the roster');
+      setRemovingEmployeeId(null);
+      setRemoveReason('');
+      invalidate();
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to remove driver');
+    },
+  });
+
+  if (!roster) {
+    return null;
+  }
+
+  const participants = roster.participants;
+  const activeCount = participants.filter(p => !p.removedAt).length;
+  const activeEmployeeIds = new Set(participants.filter(p => !p.removedAt).map(p => p.employee.id));
+  const availableEmployees = employees.filter(employee => !activeEmployeeIds.has(employee.id));
+  const hasBands = participants.some(p => p.band !== null);
+
+  return (
+    <div className="card">
+      <div className="p-6 border-b border-gray-200 flex items-center gap-3">
+        <div className="bg-blue-100 p-2 rounded-lg">
+          <Users className="w-5 h-5 text-blue-600" />
+        </div>
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Bid Roster</h2>
+          <p className="text-sm text-gray-600">
+            {roster.rosterCapturedAt
+              ? `${activeCount} drivers compete in this bid. Captured from the eligible drivers at ${formatZonedDateTime(roster.rosterCapturedAt, timeZone)}.`
+              : 'The roster is captured from the terminal\'s eligible drivers when the period opens.'}
+          </p>
+        </div>
+      </div>
+
+      {roster.rosterCapturedAt && (
+        <div className="p-6 space-y-4">
+          <div className="max-h-96 overflow-y-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-200">
+                  <th className="py-2">Driver</th>
+                  {hasBands && <th className="py-2">Band</th>}
+                  <th className="py-2">Joined</th>
+                  <th className="py-2">Status</th>
+                  {canEdit && <th className="py-2" />}
+                </tr>
+              </thead>
+              <tbody>
+                {participants.map(participant => (
+                  <tr key={participant.id} className={`border-b border-gray-100 ${participant.removedAt ? 'text-gray-400' : ''}`}>
+                    <td className="py-2">
+                      <span className={participant.removedAt ? 'line-through' : 'text-gray-900'}>
+                        {participant.employee.lastName}, {participant.employee.firstName}
+                      </span>
+                      <span className="text-gray-500"> ({participant.employee.employeeId})</span>
+                    </td>
+                    {hasBands && <td className="py-2 text-gray-600">{participant.band ?? '-'}</td>}
+                    <td className="py-2 text-gray-600">
+                      {participant.source === 'ADDED'
+                        ? `Added by ${userName(participant.addedBy)}: ${participant.addReason}`
+                        : 'When the period opened'}
+                    </td>
+                    <td className="py-2">
+                      {removingEmployeeId === participant.employee.id ? (
+                        <form
+                          onSubmit={(e) => {
+                            e.preventDefault();
+                            removeParticipantMutation.mutate();
+                          }}
+                          className="flex gap-2"
+                        >
+                          <input
+                            type="text"
+                            value={removeReason}
+                            onChange={(e) => setRemoveReason(e.target.value)}
+                            placeholder="Reason (e.g. disqualified)"
+                            className="input-field py-1"
+                            minLength={3}
+                            autoFocus
+                            required
+                          />
+                          <button
+                            type="submit"
+                            disabled={removeParticipantMutation.isPending}
+                            className="btn-primary py-1"
+                          >
+                            Remove
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => setRemovingEmployeeId(null)}
+                            className="btn-secondary py-1"
+                          >
+                            Cancel
+                          </button>
+                        </form>
+                      ) : participant.removedAt ? (
+                        <span>
+                          Removed by {userName(participant.removedBy)}: {participant.removeReason}
+                        </span>
+                      ) : (
+                        <span className="text-green-700">On roster</span>
+                      )}
+                    </td>
+                    {canEdit && (
+                      <td className="py-2 text-right">
+                        {!participant.removedAt && removingEmployeeId !== participant.employee.id && (
+                          <button
+                            onClick={() => {
+                              setRemovingEmployeeId(participant.employee.id);
+                              setRemoveReason('');
+                            }}
+                            className="p-1 text-red-500 hover:text-red-700"
+                            title="Remove from roster"
+                          >
+                            <UserMinus className="w-4 h-4" />
+                          </button>
+                        )}
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {canEdit && (
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                addParticipantMutation.mutate();
+              }}
+              className="flex flex-col lg:flex-row gap-3 pt-2"
+            >
+              <select
+                value={employeeId}
+                onChange={(e) => setEmployeeId(e.target.value)}
+                className="input-field lg:w-64"
+                required
+              >
+                <option value="">Select driver...</option>
+                {availableEmployees.map(employee => (
+                  <option key={employee.id} value={employee.id}>
+                    {employee.lastName}, {employee.firstName} ({employee.employeeId})
+                  </option>
+                ))}
+              </select>
+              <input
+                type="text"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Reason (e.g. new hire, reinstated after appeal)"
+                className="input-field flex-1"
+                minLength={3}
+                required
+              />
+              <button
+                type="submit"
+                disabled={addParticipantMutation.isPending}
+                className="btn-primary flex items-center justify-center gap-2"
+              >
+                <Plus className="w-4 h-4" />
+                Add
+              </button>
+            </form>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PeriodRosterPanel;
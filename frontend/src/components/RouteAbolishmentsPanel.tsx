@@ -0,0 +1,256 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Ban, X } from 'lucide-react';
+import apiClient from '../api/client';
+import { toast } from 'react-hot-toast';
+
+interface RouteSummary {
+  id: string;
+  runNumber: string;
+  origin: string;
+  destination: string;
+}
+
+interface EmployeeSummary {
+  id: string;
+  employeeId: string;
+  firstName: string;
+  lastName: string;
+}
+
+interface Displacement {
+  id: string;
+  generation: number;
+  status: 'PENDING' | 'ACTIVE' | 'BUMPED' | 'DECLINED' | 'EXPIRED' | 'NO_OPTIONS';
+  windowEnd: string | null;
+  employee: EmployeeSummary;
+  fromRoute: RouteSummary;
+  bumpedRoute: RouteSummary | null;
+  bumpedEmployee: EmployeeSummary | null;
+}
+
+interface RouteAbolishment {
+  id: string;
+  effectiveDate: string;
+  bumpWindowHours: number;
+  status: 'SCHEDULED' | 'IN_PROGRESS' | 'COMPLETED' | 'CANCELLED';
+  reason: string | null;
+  route: RouteSummary;
+  createdBy: { id: string; name: string | null };
+  displacements: Displacement[];
+}
+
+interface RouteAbolishmentsPanelProps {
+  terminalId: string;
+  // Active routes that can be picked for abolishment
+  routes: RouteSummary[];
+}
+
+const describeDisplacement = (displacement: Displacement) => {
+  switch (displacement.status) {
+    case 'ACTIVE':
+      return `choosing a route until ${displacement.windowEnd ? new Date(displacement.windowEnd).toLocaleString() : ''}`;
+    case 'BUMPED':
+      return `bumped ${displacement.bumpedEmployee?.firstName} ${displacement.bumpedEmployee?.lastName} from ${displacement.bumpedRoute?.runNumber}`;
+    case 'DECLINED':
+      return 'declined to bump - float pool';
+    case 'EXPIRED':
+      return 'bump window lapsed - float pool';
+    case 'NO_OPTIONS':
+      return 'no junior-held routes to bump - float pool';
+    default:
+      return 'waiting for their bump window';
+  }
+};
+
+const getStatusColor = (status: RouteAbolishment['status']) => {
+  switch (status) {
+    case 'SCHEDULED':
+      return 'bg-gray-100 text-gray-800';
+    case 'IN_PROGRESS':
+      return 'bg-amber-100 text-amber-800';
+    case 'COMPLETED':
+      return 'bg-green-100 text-green-800';
+    default:
+      return 'bg-gray-100 text-gray-500';
+  }
+};
+
+const RouteAbolishmentsPanel = ({ terminalId, routes }: RouteAbolishmentsPanelProps) => {
+  const queryClient = useQueryClient();
+  const [routeId, setRouteId] = useState('');
+  const [effectiveDate, setEffectiveDate] = useState(new Date().toISOString().split('T')[0]);
+  const [bumpWindowHours, setBumpWindowHours] = useState(48);
+  const [reason, setReason] = useState('');
+
+  const { data: abolishments = [] } = useQuery<RouteAbolishment[]>({
+    queryKey: ['route-abolishments', terminalId],
+    queryFn: async () => {
+      const response = await apiClient.get('/abolishments', {
+        params: { terminalId },
+      });
+      return response.data;
+    },
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['route-abolishments', terminalId] });
+    queryClient.invalidateQueries({ queryKey: ['routes'] });
+  };
+
+  const abolishMutation = useMutation({
+    mutationFn: async () => {
+      await apiClient.post('/abolishments', {
+        routeId,
+        effectiveDate,
+        bumpWindowHours,
+        reason: reason || undefined,
+      });
+    },
+    onSuccess: () => {
+      toast.success('Route abolishment scheduled');
+      setRouteId('');
+      setReason('');
+      invalidate();
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to abolish route');
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiClient.delete(`/abolishments/${id}`);
+    },
+    onSuccess: () => {
+      toast.success('Abolishment cancelled');
+      invalidate();
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to cancel abolishment');
+    },
+  });
+
+  return (
+    <div className="card">
+      <div className="p-6 border-b border-gray-200 flex items-center gap-3">
+        <div className="bg-red-100 p-2 rounded-lg">
+          <Ban className="w-5 h-5 text-red-600" />
+        </div>
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Route Abolishments</h2>
+          <p className="text-sm text-gray-600">
+            On the effective date the route is deactivated and its drivers may bump a more junior driver,
+            most senior first. Drivers bumped in turn get the same right.
+          </p>
+        </div>
+      </div>
+
+      <div className="p-6 space-y-4">
+        {abolishments.length === 0 ? (
+          <p className="text-sm text-gray-500">No routes have been abolished at this terminal.</p>
+        ) : (
+          <div className="space-y-3">
+            {abolishments.map(abolishment => (
+              <div key={abolishment.id} className="border border-gray-200 rounded-lg p-4">
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <p className="font-medium text-gray-900">
+                      {abolishment.route.runNumber}
+                      <span className="text-gray-500 font-normal"> {abolishment.route.origin} → {abolishment.route.destination}</span>
+                    </p>
+                    <p className="text-xs text-gray-500 mt-0.5">
+                      Effective {new Date(abolishment.effectiveDate).toLocaleDateString()} • {abolishment.bumpWindowHours}h bump windows
+                      {abolishment.reason && ` • ${abolishment.reason}`}
+                      {abolishment.createdBy.name && ` • by ${abolishment.createdBy.name}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${getStatusColor(abolishment.status)}`}>
+                      {abolishment.status.replace('_', ' ')}
+                    </span>
+                    {abolishment.status === 'SCHEDULED' && (
+                      <button
+                        onClick={() => cancelMutation.mutate(abolishment.id)}
+                        disabled={cancelMutation.isPending}
+                        className="p-1 text-red-500 hover:text-red-700"
+                        title="Cancel abolishment"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+                {abolishment.displacements.length > 0 && (
+                  <ul className="mt-3 space-y-1 text-sm">
+                    {abolishment.displacements.map(displacement => (
+                      <li key={displacement.id} className="text-gray-700" style={{ paddingLeft: `${displacement.generation}rem` }}>
+                        <span className="font-medium text-gray-900">
+                          {displacement.employee.firstName} {displacement.employee.lastName}
+                        </span>
+                        <span className="text-gray-500"> ({displacement.employee.employeeId}) off {displacement.fromRoute.runNumber}: </span>
+                        {describeDisplacement(displacement)}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            abolishMutation.mutate();
+          }}
+          className="flex flex-col lg:flex-row gap-3 pt-2"
+        >
+          <select
+            value={routeId}
+            onChange={(e) => setRouteId(e.target.value)}
+            className="input-field lg:w-56"
+            required
+          >
+            <option value="">Select route...</option>
+            {routes.map(route => (
+              <option key={route.id} value={route.id}>
+                {route.runNumber} - {route.origin} → {route.destination}
+              </option>
+            ))}
+          </select>
+          <input
+            type="date"
+            value={effectiveDate}
+            onChange={(e) => setEffectiveDate(e.target.value)}
+            className="input-field lg:w-44"
+            title="Effective date"
+            required
+          />
+          <input
+            type="number"
+            min={1}
+            max={336}
+            value={bumpWindowHours}
+            onChange={(e) => setBumpWindowHours(parseInt(e.target.value) || 1)}
+            className="input-field lg:w-28"
+            title="Hours each displaced driver has to bump"
+            required
+          />
+          <input
+            type="text"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Reason (optional)"
+            className="input-field flex-1"
+          />
+          <button type="submit" disabled={abolishMutation.isPending} className="btn-danger">
+            {abolishMutation.isPending ? 'Scheduling...' : 'Abolish Route'}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default RouteAbolishmentsPanel;
@@ -0,0 +1,232 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Lock, Plus, Trash2 } from 'lucide-react';
+import apiClient from '../api/client';
+import { toast } from 'react-hot-toast';
+
+interface RouteReservation {
+  id: string;
+  reason: string;
+  createdAt: string;
+  route: { id: string; runNumber: string; origin: string; destination: string };
+  employee: { id: string; employeeId: string; firstName: string; lastName: string };
+  approvedBy: { id: string; name: string | null; email: string };
+}
+
+interface PeriodRoute {
+  id: string;
+  runNumber: string;
+  origin: string;
+  destination: string;
+  positions: number;
+  reservedPositions?: number;
+}
+
+interface Employee {
+  id: string;
+  employeeId: string;
+  firstName: string;
+  lastName: string;
+}
+
+interface RouteReservationsPanelProps {
+  periodId: string;
+  terminalId: string;
+  // Reservations are locked once the period is processed or the draft starts
+  editable: boolean;
+}
+
+const RouteReservationsPanel = ({ periodId, terminalId, editable }: RouteReservationsPanelProps) => {
+  const queryClient = useQueryClient();
+  const [routeId, setRouteId] = useState('');
+  const [employeeId, setEmployeeId] = useState('');
+  const [reason, setReason] = useState('');
+
+  const { data: reservations = [] } = useQuery<RouteReservation[]>({
+    queryKey: ['route-reservations', periodId],
+    queryFn: async () => {
+      const response = await apiClient.get(`/reservations/period/${periodId}`);
+      return response.data;
+    },
+  });
+
+  const { data: routes = [] } = useQuery<PeriodRoute[]>({
+    queryKey: ['period-routes', periodId],
+    queryFn: async () => {
+      const response = await apiClient.get(`/routes/period/${periodId}`);
+      return response.data;
+    },
+    enabled: editable,
+  });
+
+  const { data: employees = [] } = useQuery<Employee[]>({
+    queryKey: ['employees', terminalId],
+    queryFn: async () => {
+      const response = await apiClient.get('/employees', {
+        params: { terminalId },
+      });
+      return response.data;
+    },
+    enabled: editable,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['route-reservations', periodId] });
+    queryClient.invalidateQueries({ queryKey: ['period-routes', periodId] });
+  };
+
+  const createReservationMutation = useMutation({
+    mutationFn: async () => {
+      await apiClient.post(`/reservations/period/${periodId}`, { routeId, employeeId, reason });
+    },
+    onSuccess: () => {
+      toast.success('Route reserved');
+      setRouteId('');
+      setEmployeeId('');
+      setReason('');
+      invalidate();
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to reserve route');
+    },
+  });
+
+  const releaseReservationMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiClient.delete(`/reservations/${id}`);
+    },
+    onSuccess: () => {
+      toast.success('Reservation released');
+      invalidate();
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to release reservation');
+    },
+  });
+
+  const reservedEmployeeIds = new Set(reservations.map(r => r.employee.id));
+  const openRoutes = routes.filter(route => (route.reservedPositions || 0) < route.positions);
+  const availableEmployees = employees.filter(employee => !reservedEmployeeIds.has(employee.id));
+
+  if (!editable && reservations.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="card">
+      <div className="p-6 border-b border-gray-200 flex items-center gap-3">
+        <div className="bg-purple-100 p-2 rounded-lg">
+          <Lock className="w-5 h-5 text-purple-600" />
+        </div>
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Reserved Routes</h2>
+          <p className="text-sm text-gray-600">
+            Reserved positions are awarded to their holder before bidding and are not open to other drivers.
+          </p>
+        </div>
+      </div>
+
+      <div className="p-6 space-y-4">
+        {reservations.length === 0 ? (
+          <p className="text-sm text-gray-500">No routes reserved for this period.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b border-gray-200">
+                <th className="py-2">Route</th>
+                <th className="py-2">Driver</th>
+                <th className="py-2">Reason</th>
+                <th className="py-2">Approved By</th>
+                {editable && <th className="py-2" />}
+              </tr>
+            </thead>
+            <tbody>
+              {reservations.map(reservation => (
+                <tr key={reservation.id} className="border-b border-gray-100">
+                  <td className="py-2 font-medium text-gray-900">
+                    {reservation.route.runNumber}
+                    <span className="text-gray-500 font-normal"> {reservation.route.origin} → {reservation.route.destination}</span>
+                  </td>
+                  <td className="py-2 text-gray-900">
+                    {reservation.employee.firstName} {reservation.employee.lastName}
+                    <span className="text-gray-500"> ({reservation.employee.employeeId})</span>
+                  </td>
+                  <td className="py-2 text-gray-700">{reservation.reason}</td>
+                  <td className="py-2 text-gray-600">{reservation.approvedBy.name || reservation.approvedBy.email}</td>
+                  {editable && (
+                    <td className="py-2 text-right">
+                      <button
+                        onClick={() => releaseReservationMutation.mutate(reservation.id)}
+                        disabled={releaseReservationMutation.isPending}
+                        className="p-1 text-red-500 hover:text-red-700"
+                        title="Release reservation"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {editable && (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              createReservationMutation.mutate();
+            }}
+            className="flex flex-col lg:flex-row gap-3 pt-2"
+          >
+            <select
+              value={routeId}
+              onChange={(e) => setRouteId(e.target.value)}
+              className="input-field lg:w-56"
+              required
+            >
+              <option value="">Select route...</option>
+              {openRoutes.map(route => (
+                <option key={route.id} value={route.id}>
+                  {route.runNumber} - {route.origin} → {route.destination}
+                </option>
+              ))}
+            </select>
+            <select
+              value={employeeId}
+              onChange={(e) => setEmployeeId(e.target.value)}
+              className="input-field lg:w-56"
+              required
+            >
+              <option value="">Select driver...</option>
+              {availableEmployees.map(employee => (
+                <option key={employee.id} value={employee.id}>
+                  {employee.lastName}, {employee.firstName} ({employee.employeeId})
+                </option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Reason (e.g. light duty accommodation)"
+              className="input-field flex-1"
+              minLength={3}
+              required
+            />
+            <button
+              type="submit"
+              disabled={createReservationMutation.isPending}
+              className="btn-primary flex items-center justify-center gap-2"
+            >
+              <Plus className="w-4 h-4" />
+              Reserve
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RouteReservationsPanel;
@@ -0,0 +1,176 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { History, Plus, X } from 'lucide-react';
+import apiClient from '../api/client';
+import { toast } from 'react-hot-toast';
+
+interface SeniorityAdjustment {
+  id: string;
+  days: number;
+  reason: string;
+  createdAt: string;
+  approvedBy: { id: string; name: string | null; email: string };
+}
+
+interface SeniorityHistory {
+  hireDate: string;
+  seniorityDate: string | null;
+  effectiveSeniorityDate: string;
+  adjustments: SeniorityAdjustment[];
+}
+
+interface SeniorityHistoryModalProps {
+  employee: { id: string; firstName: string; lastName: string };
+  onClose: () => void;
+}
+
+const formatDays = (days: number) => `${days > 0 ? '+' : ''}${days} day${Math.abs(days) !== 1 ? 's' : ''}`;
+
+const SeniorityHistoryModal = ({ employee, onClose }: SeniorityHistoryModalProps) => {
+  const queryClient = useQueryClient();
+  const [days, setDays] = useState('');
+  const [reason, setReason] = useState('');
+
+  const { data: history, isLoading } = useQuery<SeniorityHistory>({
+    queryKey: ['seniority-adjustments', employee.id],
+    queryFn: async () => {
+      const response = await apiClient.get(`/employees/${employee.id}/seniority-adjustments`);
+      return response.data;
+    },
+  });
+
+  const addAdjustmentMutation = useMutation({
+    mutationFn: async () => {
+      await apiClient.post(`/employees/${employee.id}/seniority-adjustments`, {
+        days: parseInt(days, 10),
+        reason,
+      });
+    },
+    onSuccess: () => {
+      toast.success('Seniority adjustment recorded');
+      setDays('');
+      setReason('');
+      queryClient.invalidateQueries({ queryKey: ['seniority-adjustments', employee.id] });
+      queryClient.invalidateQueries({ queryKey: ['employees'] });
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to record adjustment');
+    },
+  });
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl max-w-2xl w-full p-6 animate-slide-up max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center gap-3">
+            <div className="bg-primary-100 p-2 rounded-lg">
+              <History className="w-5 h-5 text-primary-600" />
+            </div>
+            <h3 className="text-lg font-semibold text-gray-900">
+              Seniority History - {employee.firstName} {employee.lastName}
+            </h3>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg transition-colors">
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        {isLoading || !history ? (
+          <p className="text-sm text-gray-500">Loading history...</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-3 gap-4 mb-6 text-sm">
+              <div>
+                <p className="text-gray-500">Hire Date</p>
+                <p className="font-medium text-gray-900">{new Date(history.hireDate).toLocaleDateString()}</p>
+              </div>
+              <div>
+                <p className="text-gray-500">Seniority Date</p>
+                <p className="font-medium text-gray-900">
+                  {history.seniorityDate ? new Date(history.seniorityDate).toLocaleDateString() : 'Same as hire date'}
+                </p>
+              </div>
+              <div>
+                <p className="text-gray-500">Effective Seniority</p>
+                <p className="font-semibold text-primary-700">
+                  {new Date(history.effectiveSeniorityDate).toLocaleDateString()}
+                </p>
+              </div>
+            </div>
+
+            {history.adjustments.length === 0 ? (
+              <p className="text-sm text-gray-500 mb-6">No adjustments recorded.</p>
+            ) : (
+              <table className="w-full text-sm mb-6">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b border-gray-200">
+                    <th className="py-2">Recorded</th>
+                    <th className="py-2 text-right">Days</th>
+                    <th className="py-2 pl-4">Reason</th>
+                    <th className="py-2">Approved By</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {history.adjustments.map(adjustment => (
+                    <tr key={adjustment.id} className="border-b border-gray-100">
+                      <td className="py-2 text-gray-600">{new Date(adjustment.createdAt).toLocaleDateString()}</td>
+                      <td className={`py-2 text-right font-medium ${adjustment.days > 0 ? 'text-red-700' : 'text-green-700'}`}>
+                        {formatDays(adjustment.days)}
+                      </td>
+                      <td className="py-2 pl-4 text-gray-900">{adjustment.reason}</td>
+                      <td className="py-2 text-gray-600">{adjustment.approvedBy.name || adjustment.approvedBy.email}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </>
+        )}
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            addAdjustmentMutation.mutate();
+          }}
+          className="border-t border-gray-200 pt-4"
+        >
+          <p className="text-sm font-medium text-gray-700 mb-2">Record Adjustment</p>
+          <div className="flex flex-col sm:flex-row gap-3">
+            <input
+              type="number"
+              step="1"
+              value={days}
+              onChange={(e) => setDays(e.target.value)}
+              placeholder="Days"
+              className="input-field sm:w-28"
+              required
+            />
+            <input
+              type="text"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Reason (e.g. 45-day unpaid leave)"
+              className="input-field flex-1"
+              minLength={3}
+              required
+            />
+            <button
+              type="submit"
+              disabled={addAdjustmentMutation.isPending || !days || parseInt(days, 10) === 0}
+              className="btn-primary flex items-center gap-2"
+            >
+              <Plus className="w-4 h-4" />
+              Add
+            </button>
+          </div>
+          <p className="text-xs text-gray-500 mt-2">
+            Positive days move the seniority date later (less senior); negative days move it earlier.
+            Adjustments can't be edited, so correct a mistake with an offsetting entry.
+          </p>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default SeniorityHistoryModal;
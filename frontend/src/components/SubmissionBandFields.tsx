@@ -0,0 +1,99 @@
+import { Plus, Trash2 } from 'lucide-react';
+
+export interface SubmissionBand {
+  percent: number;
+  startDay: number;
+  endDay: number;
+}
+
+interface SubmissionBandFieldsProps {
+  bands: SubmissionBand[];
+  onChange: (bands: SubmissionBand[]) => void;
+}
+
+// Seniority-band submission windows for the period modals; no bands lets everyone submit for the whole period
+const SubmissionBandFields = ({ bands, onChange }: SubmissionBandFieldsProps) => {
+  const totalPercent = bands.reduce((sum, band) => sum + (band.percent || 0), 0);
+
+  const updateBand = (index: number, field: keyof SubmissionBand, value: string) => {
+    onChange(bands.map((band, i) => (i === index ? { ...band, [field]: parseInt(value) || 0 } : band)));
+  };
+
+  const addBand = () => {
+    const last = bands[bands.length - 1];
+    const startDay = last ? last.endDay + 1 : 1;
+    onChange([...bands, { percent: Math.max(0, 100 - totalPercent), startDay, endDay: startDay + 2 }]);
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-1">
+        <label className="block text-sm font-medium text-gray-700">Seniority Band Windows</label>
+        <button
+          type="button"
+          onClick={addBand}
+          className="inline-flex items-center gap-1 text-sm text-primary-600 hover:text-primary-700"
+        >
+          <Plus className="w-4 h-4" />
+          Add band
+        </button>
+      </div>
+      {bands.length === 0 ? (
+        <p className="text-xs text-gray-500">Every driver may submit at any time while the period is open.</p>
+      ) : (
+        <>
+          <div className="space-y-2">
+            <div className="grid grid-cols-[auto_1fr_1fr_1fr_auto] gap-2 text-xs text-gray-500">
+              <span className="w-12">Band</span>
+              <span>% of drivers</span>
+              <span>From day</span>
+              <span>To day</span>
+              <span className="w-8" />
+            </div>
+            {bands.map((band, index) => (
+              <div key={index} className="grid grid-cols-[auto_1fr_1fr_1fr_auto] gap-2 items-center">
+                <span className="w-12 text-sm text-gray-700">{index + 1}</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={100}
+                  value={band.percent}
+                  onChange={(e) => updateBand(index, 'percent', e.target.value)}
+                  className="input-field"
+                />
+                <input
+                  type="number"
+                  min={1}
+                  value={band.startDay}
+                  onChange={(e) => updateBand(index, 'startDay', e.target.value)}
+                  className="input-field"
+                />
+                <input
+                  type="number"
+                  min={band.startDay}
+                  value={band.endDay}
+                  onChange={(e) => updateBand(index, 'endDay', e.target.value)}
+                  className="input-field"
+                />
+                <button
+                  type="button"
+                  onClick={() => onChange(bands.filter((_, i) => i !== index))}
+                  className="w-8 p-2 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded-lg transition-all"
+                  title="Remove band"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+          <p className={`text-xs mt-1 ${totalPercent === 100 ? 'text-gray-500' : 'text-red-600'}`}>
+            Band 1 is the most senior. Bands cover {totalPercent}% of drivers; they must cover 100%.
+            Day 1 is the period's start date.
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SubmissionBandFields;
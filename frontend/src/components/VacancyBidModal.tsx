@@ -0,0 +1,228 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Megaphone, X } from 'lucide-react';
+import apiClient from '../api/client';
+import { toast } from 'react-hot-toast';
+
+interface VacantRoute {
+  id: string;
+  runNumber: string;
+  origin: string;
+  destination: string;
+  positions: number;
+  openPositions: number;
+}
+
+interface CompletedPeriod {
+  id: string;
+  name: string;
+}
+
+interface VacancyBidModalProps {
+  terminalId: string;
+  // Completed periods a vacancy bid can be recorded as following from
+  completedPeriods: CompletedPeriod[];
+  onClose: () => void;
+}
+
+const VacancyBidModal = ({ terminalId, completedPeriods, onClose }: VacancyBidModalProps) => {
+  const queryClient = useQueryClient();
+  const today = new Date().toISOString().split('T')[0];
+  const [name, setName] = useState('');
+  const [startDate, setStartDate] = useState(today);
+  const [endDate, setEndDate] = useState('');
+  const [routeIds, setRouteIds] = useState<string[]>([]);
+  const [parentPeriodId, setParentPeriodId] = useState('');
+  const [cascadeVacancies, setCascadeVacancies] = useState(false);
+
+  const { data: vacantRoutes = [], isLoading } = useQuery<VacantRoute[]>({
+    queryKey: ['vacant-routes', terminalId],
+    queryFn: async () => {
+      const response = await apiClient.get('/vacancy-bids/vacant-routes', {
+        params: { terminalId },
+      });
+      return response.data;
+    },
+  });
+
+  const createVacancyBidMutation = useMutation({
+    mutationFn: async () => {
+      await apiClient.post('/vacancy-bids', {
+        terminalId,
+        name,
+        startDate,
+        endDate,
+        routeIds,
+        parentPeriodId: parentPeriodId || null,
+        cascadeVacancies,
+      });
+    },
+    onSuccess: () => {
+      toast.success('Vacancy bid created');
+      queryClient.invalidateQueries({ queryKey: ['periods'] });
+      queryClient.invalidateQueries({ queryKey: ['vacant-routes', terminalId] });
+      onClose();
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to create vacancy bid');
+    },
+  });
+
+  const toggleRoute = (routeId: string) => {
+    setRouteIds(current => current.includes(routeId)
+      ? current.filter(id => id !== routeId)
+      : [...current, routeId]);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl max-w-2xl w-full p-6 animate-slide-up max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center gap-3">
+            <div className="bg-amber-100 p-2 rounded-lg">
+              <Megaphone className="w-5 h-5 text-amber-600" />
+            </div>
+            <h3 className="text-lg font-semibold text-gray-900">New Vacancy Bid</h3>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg transition-colors">
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-600 mb-4">
+          Re-bid routes left vacant mid-term. Only drivers who submit preferences take part; anyone
+          who isn't awarded a vacancy keeps their current route.
+        </p>
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            createVacancyBidMutation.mutate();
+          }}
+          className="space-y-4"
+        >
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor="vacancy-name">
+              Name
+            </label>
+            <input
+              id="vacancy-name"
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Vacancy bid - R014"
+              className="input-field"
+              required
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor="vacancy-start">
+                Opens
+              </label>
+              <input
+                id="vacancy-start"
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                className="input-field"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor="vacancy-end">
+                Closes
+              </label>
+              <input
+                id="vacancy-end"
+                type="date"
+                value={endDate}
+                min={startDate}
+                onChange={(e) => setEndDate(e.target.value)}
+                className="input-field"
+                required
+              />
+            </div>
+          </div>
+
+          <div>
+            <p className="block text-sm font-medium text-gray-700 mb-1">Vacated Routes</p>
+            {isLoading ? (
+              <p className="text-sm text-gray-500">Loading vacant routes...</p>
+            ) : vacantRoutes.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                No routes have vacant positions. A route becomes vacant when its driver leaves or is marked ineligible.
+              </p>
+            ) : (
+              <div className="border border-gray-200 rounded-lg divide-y divide-gray-100 max-h-60 overflow-y-auto">
+                {vacantRoutes.map(route => (
+                  <label key={route.id} className="flex items-center gap-3 px-3 py-2 text-sm cursor-pointer hover:bg-gray-50">
+                    <input
+                      type="checkbox"
+                      checked={routeIds.includes(route.id)}
+                      onChange={() => toggleRoute(route.id)}
+                      className="w-4 h-4 text-primary-600 border-gray-300 rounded focus:ring-primary-500"
+                    />
+                    <span className="font-medium text-gray-900">{route.runNumber}</span>
+                    <span className="text-gray-500 flex-1">{route.origin} → {route.destination}</span>
+                    <span className="text-xs text-gray-500">
+                      {route.openPositions} of {route.positions} open
+                    </span>
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor="vacancy-parent">
+              Follows From
+            </label>
+            <select
+              id="vacancy-parent"
+              value={parentPeriodId}
+              onChange={(e) => setParentPeriodId(e.target.value)}
+              className="input-field"
+            >
+              <option value="">Not linked to a period</option>
+              {completedPeriods.map(period => (
+                <option key={period.id} value={period.id}>{period.name}</option>
+              ))}
+            </select>
+          </div>
+
+          <label className="flex items-start gap-2">
+            <input
+              type="checkbox"
+              checked={cascadeVacancies}
+              onChange={(e) => setCascadeVacancies(e.target.checked)}
+              className="w-4 h-4 mt-0.5 text-primary-600 border-gray-300 rounded focus:ring-primary-500"
+            />
+            <span className="text-sm text-gray-700">
+              Re-bid cascading vacancies
+              <span className="block text-xs text-gray-500">
+                When results are published, routes given up by the winners open in a follow-up vacancy bid of the same length.
+              </span>
+            </span>
+          </label>
+
+          <div className="flex gap-3 justify-end pt-4">
+            <button type="button" onClick={onClose} className="btn-secondary">
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={createVacancyBidMutation.isPending || routeIds.length === 0}
+              className="btn-primary"
+            >
+              {createVacancyBidMutation.isPending ? 'Creating...' : 'Open Vacancy Bid'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default VacancyBidModal;
@@ -0,0 +1,516 @@
+import { useState } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { ArrowLeft, FlaskConical, Plus, X, RotateCcw, Search } from 'lucide-react';
+import apiClient from '../api/client';
+import { useTerminal } from '../contexts/TerminalContext';
+import { toast } from 'react-hot-toast';
+import LoadingSpinner from '../components/LoadingSpinner';
+import type { Qualification, HeldQualification, RouteRequirement } from '../utils/qualifications';
+import { isQualificationExpired } from '../utils/qualifications';
+
+interface Route {
+  id: string;
+  runNumber: string;
+  origin: string;
+  destination: string;
+  requirements: RouteRequirement[];
+}
+
+interface Employee {
+  id: string;
+  employeeId: string;
+  firstName: string;
+  lastName: string;
+  qualifications: HeldQualification[];
+  isEligible: boolean;
+}
+
+interface AddedRoute {
+  runNumber: string;
+  positions: number;
+  requirementIds: string[];
+}
+
+interface EmployeeOverride {
+  employeeId: string;
+  qualificationIds?: string[];
+  isEligible?: boolean;
+}
+
+interface Summary {
+  totalEmployees: number;
+  totalRoutes: number;
+  totalPositions: number;
+  assignedRoutes: number;
+  assignedPositions: number;
+  forcedAssignments: number;
+  floatPoolEmployees: number;
+  // Keyed by preference rank
+  choiceDistribution: { byRank: Record<number, number>; float: number };
+}
+
+interface SimulationResult {
+  baseline: { summary: Summary; validation: { isValid: boolean; errors: string[] } };
+  simulation: { summary: Summary; validation: { isValid: boolean; errors: string[] } };
+  changes: {
+    employeeId: string;
+    employeeNumber?: string;
+    employeeName: string;
+    baselineRunNumber?: string | null;
+    simulatedRunNumber?: string | null;
+    inBaseline: boolean;
+    inSimulation: boolean;
+  }[];
+}
+
+type SummaryRow = { label: string; value: (s: Summary) => number };
+
+const SUMMARY_ROWS: SummaryRow[] = [
+  { label: 'Drivers competing', value: s => s.totalEmployees },
+  { label: 'Routes in bid', value: s => s.totalRoutes },
+  { label: 'Positions in bid', value: s => s.totalPositions },
+  { label: 'Positions awarded', value: s => s.assignedPositions },
+];
+
+const TRAILING_SUMMARY_ROWS: SummaryRow[] = [
+  { label: 'Force-assigned', value: s => s.forcedAssignments },
+  { label: 'Float pool', value: s => s.floatPoolEmployees },
+];
+
+// One row per preference rank awarded in either run
+const getChoiceRows = (...summaries: Summary[]): SummaryRow[] => {
+  const ranks = new Set(summaries.flatMap(s => Object.keys(s.choiceDistribution.byRank).map(Number)));
+  return Array.from(ranks)
+    .sort((a, b) => a - b)
+    .map(rank => ({ label: `Choice #${rank}`, value: s => s.choiceDistribution.byRank[rank] || 0 }));
+};
+
+// Expired qualifications don't count toward requirements, so the simulator starts them unchecked
+const currentQualificationIds = (employee: Employee) => {
+  return employee.qualifications.filter(q => !isQualificationExpired(q)).map(q => q.qualificationId);
+};
+
+const sameIds = (a: string[], b: string[]) => {
+  return a.length === b.length && a.every(id => b.includes(id));
+};
+
+const describeOutcome = (runNumber: string | null | undefined, present: boolean) => {
+  if (!present) return 'Not competing';
+  return runNumber || 'Float pool';
+};
+
+const AssignmentSimulator = () => {
+  const { periodId } = useParams();
+  const navigate = useNavigate();
+  const { selectedTerminal } = useTerminal();
+  const [removedRouteIds, setRemovedRouteIds] = useState<string[]>([]);
+  const [addedRoutes, setAddedRoutes] = useState<AddedRoute[]>([]);
+  const [newRoute, setNewRoute] = useState<AddedRoute>({
+    runNumber: '',
+    positions: 1,
+    requirementIds: [],
+  });
+  const [employeeOverrides, setEmployeeOverrides] = useState<Record<string, EmployeeOverride>>({});
+  const [employeeSearch, setEmployeeSearch] = useState('');
+  const [result, setResult] = useState<SimulationResult | null>(null);
+
+  const { data: period } = useQuery<{ id: string; name: string }>({
+    queryKey: ['period', periodId],
+    queryFn: async () => {
+      const response = await apiClient.get(`/periods/${periodId}`);
+      return response.data;
+    },
+    enabled: !!periodId,
+  });
+
+  const { data: routes = [], isLoading: routesLoading } = useQuery<Route[]>({
+    queryKey: ['period-routes', periodId],
+    queryFn: async () => {
+      const response = await apiClient.get(`/routes/period/${periodId}`);
+      return response.data;
+    },
+    enabled: !!periodId,
+  });
+
+  const { data: employees = [], isLoading: employeesLoading } = useQuery<Employee[]>({
+    queryKey: ['employees', selectedTerminal?.id],
+    queryFn: async () => {
+      const response = await apiClient.get('/employees', {
+        params: { terminalId: selectedTerminal?.id },
+      });
+      return response.data;
+    },
+    enabled: !!selectedTerminal,
+  });
+
+  const { data: qualificationCatalog = [] } = useQuery<Qualification[]>({
+    queryKey: ['qualifications', 'active'],
+    queryFn: async () => {
+      const response = await apiClient.get('/qualifications?isActive=true');
+      return response.data;
+    },
+  });
+
+  const simulateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiClient.post(`/assignments/simulate/${periodId}`, {
+        routes: {
+          remove: removedRouteIds,
+          add: addedRoutes,
+        },
+        employees: Object.values(employeeOverrides),
+      });
+      return response.data;
+    },
+    onSuccess: (data: SimulationResult) => {
+      setResult(data);
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Simulation failed');
+    },
+  });
+
+  const toggleRemoved = (routeId: string) => {
+    setRemovedRouteIds(removedRouteIds.includes(routeId)
+      ? removedRouteIds.filter(id => id !== routeId)
+      : [...removedRouteIds, routeId]);
+  };
+
+  const addRoute = () => {
+    const runNumber = newRoute.runNumber.trim();
+    if (!runNumber) return;
+    if (routes.some(r => r.runNumber === runNumber) || addedRoutes.some(r => r.runNumber === runNumber)) {
+      toast.error(`Route ${runNumber} already exists`);
+      return;
+    }
+    setAddedRoutes([...addedRoutes, { ...newRoute, runNumber }]);
+    setNewRoute({ runNumber: '', positions: 1, requirementIds: [] });
+  };
+
+  const toggleNewRouteRequirement = (qualificationId: string, checked: boolean) => {
+    setNewRoute({
+      ...newRoute,
+      requirementIds: checked
+        ? [...newRoute.requirementIds, qualificationId]
+        : newRoute.requirementIds.filter(id => id !== qualificationId),
+    });
+  };
+
+  // Stores only the fields that differ from the employee's live record
+  const saveOverride = (employee: Employee, override: EmployeeOverride) => {
+    const current = { ...override };
+    if (current.isEligible === employee.isEligible) {
+      delete current.isEligible;
+    }
+    if (current.qualificationIds && sameIds(current.qualificationIds, currentQualificationIds(employee))) {
+      delete current.qualificationIds;
+    }
+    const next = { ...employeeOverrides };
+    if (Object.keys(current).length > 1) {
+      next[employee.id] = current;
+    } else {
+      delete next[employee.id];
+    }
+    setEmployeeOverrides(next);
+  };
+
+  const effectiveEligible = (employee: Employee) => {
+    return employeeOverrides[employee.id]?.isEligible ?? employee.isEligible;
+  };
+
+  const effectiveQualificationIds = (employee: Employee) => {
+    return employeeOverrides[employee.id]?.qualificationIds ?? currentQualificationIds(employee);
+  };
+
+  const setEligible = (employee: Employee, isEligible: boolean) => {
+    saveOverride(employee, { ...(employeeOverrides[employee.id] || { employeeId: employee.id }), isEligible });
+  };
+
+  const setQualification = (employee: Employee, qualificationId: string, held: boolean) => {
+    const ids = effectiveQualificationIds(employee);
+    saveOverride(employee, {
+      ...(employeeOverrides[employee.id] || { employeeId: employee.id }),
+      qualificationIds: held ? [...ids, qualificationId] : ids.filter(id => id !== qualificationId),
+    });
+  };
+
+  const qualificationCode = (qualificationId: string) => {
+    return qualificationCatalog.find(q => q.id === qualificationId)?.code || qualificationId;
+  };
+
+  const resetAll = () => {
+    setRemovedRouteIds([]);
+    setAddedRoutes([]);
+    setEmployeeOverrides({});
+    setResult(null);
+  };
+
+  const filteredEmployees = employees.filter(e =>
+    employeeSearch === '' ||
+    `${e.firstName} ${e.lastName} ${e.employeeId}`.toLowerCase().includes(employeeSearch.toLowerCase())
+  );
+
+  const editCount = removedRouteIds.length + addedRoutes.length + Object.keys(employeeOverrides).length;
+
+  if (routesLoading || employeesLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <LoadingSpinner size="lg" text="Loading simulator..." />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-7xl">
+      <div className="mb-6">
+        <button
+          onClick={() => navigate('/periods')}
+          className="inline-flex items-center text-gray-600 hover:text-gray-900 mb-4"
+        >
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back to Periods
+        </button>
+        <div className="flex justify-between items-start">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">What-If Simulator</h1>
+            <p className="text-gray-600 mt-1">
+              {period?.name} • Edits are applied in memory only and never saved
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={resetAll}
+              className="inline-flex items-center px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              <RotateCcw className="w-4 h-4 mr-2" />
+              Reset
+            </button>
+            <button
+              onClick={() => simulateMutation.mutate()}
+              disabled={simulateMutation.isPending}
+              className="inline-flex items-center px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white rounded-lg transition-colors disabled:opacity-50"
+            >
+              <FlaskConical className="w-4 h-4 mr-2" />
+              {simulateMutation.isPending ? 'Running...' : `Run Simulation (${editCount} edit${editCount !== 1 ? 's' : ''})`}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+        {/* Route edits */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Routes</h3>
+          <div className="space-y-1 max-h-72 overflow-y-auto mb-4">
+            {routes.map(route => {
+              const removed = removedRouteIds.includes(route.id);
+              return (
+                <label key={route.id} className="flex items-center gap-2 text-sm p-1 rounded hover:bg-gray-50 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={!removed}
+                    onChange={() => toggleRemoved(route.id)}
+                    className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                  />
+                  <span className={removed ? 'line-through text-gray-400' : 'text-gray-900'}>
+                    {route.runNumber} - {route.origin} → {route.destination}
+                  </span>
+                </label>
+              );
+            })}
+            {addedRoutes.map(route => (
+              <div key={route.runNumber} className="flex items-center justify-between text-sm p-1 bg-green-50 rounded">
+                <span className="text-green-800">
+                  + {route.runNumber} (hypothetical{route.positions > 1 ? `, ${route.positions} positions` : ''})
+                  {route.requirementIds.map(id => ` • ${qualificationCode(id)}`).join('')}
+                </span>
+                <button
+                  onClick={() => setAddedRoutes(addedRoutes.filter(r => r.runNumber !== route.runNumber))}
+                  className="p-1 text-red-500 hover:text-red-700"
+                  title="Remove"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+          <div className="flex flex-wrap items-center gap-3 pt-4 border-t border-gray-100">
+            <input
+              type="text"
+              placeholder="New run number"
+              value={newRoute.runNumber}
+              onChange={(e) => setNewRoute({ ...newRoute, runNumber: e.target.value })}
+              className="input-field w-40"
+            />
+            <input
+              type="number"
+              min="1"
+              step="1"
+              value={newRoute.positions}
+              onChange={(e) => setNewRoute({ ...newRoute, positions: parseInt(e.target.value, 10) || 1 })}
+              className="input-field w-20"
+              title="Positions"
+            />
+            {qualificationCatalog.map(qualification => (
+              <label key={qualification.id} className="flex items-center gap-1 text-sm text-gray-700" title={qualification.name}>
+                <input
+                  type="checkbox"
+                  checked={newRoute.requirementIds.includes(qualification.id)}
+                  onChange={(e) => toggleNewRouteRequirement(qualification.id, e.target.checked)}
+                  className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                />
+                {qualification.code}
+              </label>
+            ))}
+            <button onClick={addRoute} className="btn-secondary inline-flex items-center">
+              <Plus className="w-4 h-4 mr-1" />
+              Add Route
+            </button>
+          </div>
+          <p className="text-xs text-gray-500 mt-2">
+            Hypothetical routes are only awarded to drivers whose preferences include them.
+          </p>
+        </div>
+
+        {/* Employee edits */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Drivers</h3>
+          <div className="relative mb-3">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
+            <input
+              type="text"
+              placeholder="Search drivers..."
+              value={employeeSearch}
+              onChange={(e) => setEmployeeSearch(e.target.value)}
+              className="w-full pl-9 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary-500"
+            />
+          </div>
+          <div className="max-h-80 overflow-y-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-200">
+                  <th className="py-1">Driver</th>
+                  <th className="py-1 text-center">Eligible</th>
+                  {qualificationCatalog.map(qualification => (
+                    <th key={qualification.id} className="py-1 text-center" title={qualification.name}>
+                      {qualification.code}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {filteredEmployees.map(employee => (
+                  <tr
+                    key={employee.id}
+                    className={`border-b border-gray-100 ${employeeOverrides[employee.id] ? 'bg-yellow-50' : ''}`}
+                  >
+                    <td className="py-1">
+                      {employee.lastName}, {employee.firstName}
+                      <span className="text-gray-400 ml-1">({employee.employeeId})</span>
+                    </td>
+                    <td className="py-1 text-center">
+                      <input
+                        type="checkbox"
+                        checked={effectiveEligible(employee)}
+                        onChange={(e) => setEligible(employee, e.target.checked)}
+                        className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                      />
+                    </td>
+                    {qualificationCatalog.map(qualification => (
+                      <td key={qualification.id} className="py-1 text-center">
+                        <input
+                          type="checkbox"
+                          checked={effectiveQualificationIds(employee).includes(qualification.id)}
+                          onChange={(e) => setQualification(employee, qualification.id, e.target.checked)}
+                          className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+
+      {/* Results */}
+      {result && (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">Summary</h3>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-200">
+                  <th className="py-1"></th>
+                  <th className="py-1 text-right">Baseline</th>
+                  <th className="py-1 text-right">Simulated</th>
+                </tr>
+              </thead>
+              <tbody>
+                {[
+                  ...SUMMARY_ROWS,
+                  ...getChoiceRows(result.baseline.summary, result.simulation.summary),
+                  ...TRAILING_SUMMARY_ROWS,
+                ].map(row => {
+                  const before = row.value(result.baseline.summary);
+                  const after = row.value(result.simulation.summary);
+                  return (
+                    <tr key={row.label} className="border-b border-gray-100">
+                      <td className="py-1 text-gray-700">{row.label}</td>
+                      <td className="py-1 text-right">{before}</td>
+                      <td className={`py-1 text-right font-medium ${after > before ? 'text-green-700' : after < before ? 'text-red-700' : ''}`}>
+                        {after}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            {!result.simulation.validation.isValid && (
+              <div className="mt-4 text-sm text-red-700">
+                {result.simulation.validation.errors.map(error => (
+                  <p key={error}>{error}</p>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="lg:col-span-2 bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">
+              Drivers With a Different Outcome ({result.changes.length})
+            </h3>
+            {result.changes.length === 0 ? (
+              <p className="text-gray-500 text-sm">No driver's award changes under these edits.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b border-gray-200">
+                    <th className="py-1">Driver</th>
+                    <th className="py-1">Baseline</th>
+                    <th className="py-1">Simulated</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.changes.map(change => (
+                    <tr key={change.employeeId} className="border-b border-gray-100">
+                      <td className="py-1">
+                        {change.employeeName}
+                        {change.employeeNumber && <span className="text-gray-400 ml-1">({change.employeeNumber})</span>}
+                      </td>
+                      <td className="py-1">{describeOutcome(change.baselineRunNumber, change.inBaseline)}</td>
+                      <td className="py-1 font-medium">{describeOutcome(change.simulatedRunNumber, change.inSimulation)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AssignmentSimulator;
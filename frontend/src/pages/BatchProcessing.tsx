@@ -0,0 +1,197 @@
+import { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { Layers, Play, Download, CheckCircle, XCircle, AlertTriangle } from 'lucide-react';
+import { toast } from 'react-hot-toast';
+import apiClient from '../api/client';
+import { waitForJob, describeJobProgress } from '../api/jobs';
+import type { JobProgress } from '../api/jobs';
+import { useTerminal } from '../contexts/TerminalContext';
+
+interface BatchPeriodReport {
+  selectionPeriodId: string;
+  periodName: string;
+  terminalId: string;
+  terminalName: string;
+  outcome: 'PROCESSED' | 'VALIDATION_FAILED' | 'FAILED';
+  runId?: string;
+  summary?: {
+    totalEmployees: number;
+    assignedRoutes: number;
+    floatPoolEmployees: number;
+  };
+  errors?: string[];
+}
+
+interface BatchResult {
+  processed: number;
+  validationFailed: number;
+  failed: number;
+  periods: BatchPeriodReport[];
+}
+
+const OUTCOME_LABELS: Record<BatchPeriodReport['outcome'], string> = {
+  PROCESSED: 'Processed',
+  VALIDATION_FAILED: 'Validation failed',
+  FAILED: 'Failed',
+};
+
+const BatchProcessing = () => {
+  const { terminals } = useTerminal();
+  const [terminalIds, setTerminalIds] = useState<string[]>([]);
+  const [jobId, setJobId] = useState<string | null>(null);
+  const [jobProgress, setJobProgress] = useState<JobProgress | null>(null);
+  const [result, setResult] = useState<BatchResult | null>(null);
+
+  const activeTerminals = terminals.filter(t => t.isActive);
+
+  const batchMutation = useMutation({
+    mutationFn: async () => {
+      setResult(null);
+      setJobProgress(null);
+      const response = await apiClient.post('/assignments/batch', {
+        terminalIds: terminalIds.length > 0 ? terminalIds : undefined,
+      });
+      setJobId(response.data.jobId);
+      return waitForJob<BatchResult>(response.data.jobId, setJobProgress);
+    },
+    onSuccess: (data) => {
+      setResult(data);
+      toast.success(`Processed ${data.processed} of ${data.periods.length} periods. Publish each run to update drivers' current routes.`);
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || error.message || 'Failed to process periods');
+    },
+  });
+
+  const toggleTerminal = (id: string) => {
+    setTerminalIds(terminalIds.includes(id) ? terminalIds.filter(t => t !== id) : [...terminalIds, id]);
+  };
+
+  const handleDownload = async () => {
+    try {
+      const response = await apiClient.get(`/assignments/batch/${jobId}/download`, {
+        responseType: 'blob',
+      });
+
+      const url = window.URL.createObjectURL(new Blob([response.data]));
+      const link = document.createElement('a');
+      link.href = url;
+      link.setAttribute('download', `batch-assignment-results-${jobId}.csv`);
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      window.URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Download error:', error);
+      toast.error('Failed to download results');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Batch Processing</h1>
+        <p className="text-gray-600">Process every closed selection period across several terminals at once</p>
+      </div>
+
+      <div className="card p-6 space-y-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900 mb-1">Terminals</h2>
+          <p className="text-sm text-gray-600">Leave all unticked to process every terminal you manage.</p>
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2">
+          {activeTerminals.map(terminal => (
+            <label key={terminal.id} className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={terminalIds.includes(terminal.id)}
+                onChange={() => toggleTerminal(terminal.id)}
+                className="rounded border-gray-300"
+              />
+              {terminal.code} - {terminal.name}
+            </label>
+          ))}
+        </div>
+        <button
+          onClick={() => batchMutation.mutate()}
+          disabled={batchMutation.isPending}
+          className="btn-primary inline-flex items-center"
+        >
+          {batchMutation.isPending ? (
+            <>
+              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
+              {describeJobProgress(jobProgress)}
+            </>
+          ) : (
+            <>
+              <Play className="w-4 h-4 mr-2" />
+              Process Closed Periods
+            </>
+          )}
+        </button>
+      </div>
+
+      {result && (
+        <div className="card">
+          <div className="p-6 border-b border-gray-200 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+            <div className="flex items-center gap-3">
+              <div className="bg-primary-100 p-2 rounded-lg">
+                <Layers className="w-5 h-5 text-primary-600" />
+              </div>
+              <div>
+                <h2 className="text-lg font-semibold text-gray-900">Batch Report</h2>
+                <p className="text-sm text-gray-600">
+                  {result.processed} processed • {result.validationFailed} failed validation • {result.failed} failed
+                </p>
+              </div>
+            </div>
+            <button onClick={handleDownload} className="btn-secondary inline-flex items-center">
+              <Download className="w-4 h-4 mr-2" />
+              Download All Results
+            </button>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-200">
+                  <th className="px-6 py-2">Terminal</th>
+                  <th className="px-6 py-2">Period</th>
+                  <th className="px-6 py-2">Outcome</th>
+                  <th className="px-6 py-2 text-right">Drivers</th>
+                  <th className="px-6 py-2 text-right">Assigned</th>
+                  <th className="px-6 py-2 text-right">Float</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.periods.map(report => (
+                  <tr key={report.selectionPeriodId} className="border-b border-gray-100 align-top">
+                    <td className="px-6 py-2">{report.terminalName}</td>
+                    <td className="px-6 py-2 font-medium text-gray-900">{report.periodName}</td>
+                    <td className="px-6 py-2">
+                      <span className="inline-flex items-center gap-1">
+                        {report.outcome === 'PROCESSED' && <CheckCircle className="w-4 h-4 text-green-600" />}
+                        {report.outcome === 'VALIDATION_FAILED' && <AlertTriangle className="w-4 h-4 text-amber-600" />}
+                        {report.outcome === 'FAILED' && <XCircle className="w-4 h-4 text-red-600" />}
+                        {OUTCOME_LABELS[report.outcome]}
+                      </span>
+                      {report.errors && report.errors.length > 0 && (
+                        <ul className="text-xs text-gray-500 mt-1 space-y-0.5">
+                          {report.errors.map((error, index) => <li key={index}>{error}</li>)}
+                        </ul>
+                      )}
+                    </td>
+                    <td className="px-6 py-2 text-right">{report.summary?.totalEmployees ?? '-'}</td>
+                    <td className="px-6 py-2 text-right">{report.summary?.assignedRoutes ?? '-'}</td>
+                    <td className="px-6 py-2 text-right">{report.summary?.floatPoolEmployees ?? '-'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BatchProcessing;
@@ -1,8 +1,10 @@
 import { useQuery } from '@tanstack/react-query';
 import { Users, Route, Calendar, CheckSquare, TrendingUp, AlertCircle, ArrowUp, ArrowDown, Clock, Activity, Shield } from 'lucide-react';
 import apiClient from '../api/client';
+import { formatZonedDate, formatZonedDateTime } from '../utils/timeZone';
 import { useAuth } from '../contexts/AuthContext';
 import { Link } from 'react-router-dom';
+import BumpRightsPanel from '../components/BumpRightsPanel';
 
 interface DashboardStats {
   totalEmployees: number;
@@ -12,9 +14,17 @@ interface DashboardStats {
     name: string;
     startDate: string;
     endDate: string;
+    terminal: { timeZone: string };
   } | null;
   pendingSelections: number;
   completedSelections: number;
+  // The signed-in driver's seniority band window, when the active period staggers submissions
+  submissionWindow: {
+    band: number;
+    bandCount: number;
+    opensAt: string;
+    closesAt: string;
+  } | null;
 }
 
 interface Activity {
@@ -211,6 +221,9 @@ const Dashboard = () => {
         </div>
       </div>
 
+      {/* Bump Rights */}
+      {user?.role === 'Driver' && <BumpRightsPanel />}
+
       {/* Stats Grid */}
       {user?.role === 'Driver' ? (
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -319,13 +332,13 @@ const Dashboard = () => {
               <div>
                 <p className="text-sm text-gray-600 mb-1">Start Date</p>
                 <p className="font-semibold text-gray-900">
-                  {new Date(stats.activePeriod.startDate).toLocaleDateString()}
+                  {formatZonedDate(stats.activePeriod.startDate, stats.activePeriod.terminal.timeZone)}
                 </p>
               </div>
               <div>
                 <p className="text-sm text-gray-600 mb-1">End Date</p>
                 <p className="font-semibold text-gray-900">
-                  {new Date(stats.activePeriod.endDate).toLocaleDateString()}
+                  {formatZonedDateTime(stats.activePeriod.endDate, stats.activePeriod.terminal.timeZone)}
                 </p>
               </div>
             </div>
@@ -351,14 +364,29 @@ const Dashboard = () => {
             )}
 
             {/* Time remaining for drivers */}
-            {user?.role === 'Driver' && (
+            {user?.role === 'Driver' && stats.submissionWindow && (
+              <div className="mt-6 p-4 bg-amber-50 border border-amber-200 rounded-lg">
+                <div className="flex items-center gap-3">
+                  <Clock className="w-5 h-5 text-amber-600" />
+                  <div>
+                    <p className="text-sm font-medium text-amber-900">
+                      Your Submission Window (seniority band {stats.submissionWindow.band} of {stats.submissionWindow.bandCount})
+                    </p>
+                    <p className="text-xs text-amber-700 mt-1">
+                      Submit or change your route preferences between {formatZonedDateTime(stats.submissionWindow.opensAt, stats.activePeriod.terminal.timeZone)} and {formatZonedDateTime(stats.submissionWindow.closesAt, stats.activePeriod.terminal.timeZone)}
+                    </p>
+                  </div>
+                </div>
+              </div>
+            )}
+            {user?.role === 'Driver' && !stats.submissionWindow && (
               <div className="mt-6 p-4 bg-amber-50 border border-amber-200 rounded-lg">
                 <div className="flex items-center gap-3">
                   <Clock className="w-5 h-5 text-amber-600" />
                   <div>
                     <p className="text-sm font-medium text-amber-900">Selection Period Closing Soon</p>
                     <p className="text-xs text-amber-700 mt-1">
-                      Submit your route preferences before {new Date(stats.activePeriod.endDate).toLocaleDateString()}
+                      Submit your route preferences before {formatZonedDateTime(stats.activePeriod.endDate, stats.activePeriod.terminal.timeZone)}
                     </p>
                   </div>
                 </div>
@@ -0,0 +1,316 @@
+import { useEffect, useState } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { ArrowLeft, Play, SkipForward, Timer, CheckCircle, Clock, XCircle, Lock } from 'lucide-react';
+import apiClient from '../api/client';
+import { useAuth } from '../contexts/AuthContext';
+import { toast } from 'react-hot-toast';
+import LoadingSpinner from '../components/LoadingSpinner';
+
+interface DraftPick {
+  id: string;
+  employeeId: string;
+  position: number;
+  seniorityRank: number;
+  status: 'PENDING' | 'ACTIVE' | 'PICKED' | 'SKIPPED' | 'RESERVED';
+  requeueCount: number;
+  windowEnd: string | null;
+  employee: {
+    id: string;
+    employeeId: string;
+    firstName: string;
+    lastName: string;
+  };
+  route: {
+    id: string;
+    runNumber: string;
+  } | null;
+}
+
+interface BoardRoute {
+  id: string;
+  runNumber: string;
+  origin: string;
+  destination: string;
+  type: string;
+  startTime: string;
+  positions: number;
+  takenBy: string[];
+  remainingPositions: number;
+  missingRequirements: string[];
+}
+
+interface DraftBoardData {
+  period: {
+    id: string;
+    name: string;
+    status: string;
+    draftPickMinutes: number;
+    draftSkipPolicy: string;
+    draftStartedAt: string | null;
+  };
+  picks: DraftPick[];
+  currentPick: DraftPick | null;
+  myPick: DraftPick | null;
+  routes: BoardRoute[];
+}
+
+const formatCountdown = (ms: number) => {
+  if (ms <= 0) return '0:00';
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const mmss = `${minutes}:${seconds.toString().padStart(2, '0')}`;
+  return hours > 0 ? `${hours}:${mmss.padStart(5, '0')}` : mmss;
+};
+
+const pickStatusIcon = (status: DraftPick['status']) => {
+  switch (status) {
+    case 'PICKED':
+      return <CheckCircle className="w-4 h-4 text-green-600" />;
+    case 'ACTIVE':
+      return <Timer className="w-4 h-4 text-orange-600" />;
+    case 'SKIPPED':
+      return <XCircle className="w-4 h-4 text-gray-400" />;
+    case 'RESERVED':
+      return <Lock className="w-4 h-4 text-purple-600" />;
+    default:
+      return <Clock className="w-4 h-4 text-gray-400" />;
+  }
+};
+
+const DraftBoard = () => {
+  const { periodId } = useParams();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const isAdmin = user?.role !== 'Driver';
+  const [now, setNow] = useState(Date.now());
+
+  // Poll so every screen follows the draft as picks come in
+  const { data: board, isLoading, refetch } = useQuery<DraftBoardData>({
+    queryKey: ['draft-board', periodId],
+    queryFn: async () => {
+      const response = await apiClient.get(`/draft/${periodId}/board`);
+      return response.data;
+    },
+    enabled: !!periodId,
+    refetchInterval: 15000,
+  });
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const startMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiClient.post(`/draft/${periodId}/start`);
+      return response.data;
+    },
+    onSuccess: (data) => {
+      toast.success(`Draft started with ${data.participants} drivers`);
+      refetch();
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to start draft');
+    },
+  });
+
+  const pickMutation = useMutation({
+    mutationFn: async (routeId: string) => {
+      const response = await apiClient.post(`/draft/${periodId}/pick`, { routeId });
+      return response.data;
+    },
+    onSuccess: (data) => {
+      toast.success(`Route ${data.runNumber} claimed`);
+      refetch();
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to claim route');
+      refetch();
+    },
+  });
+
+  const skipMutation = useMutation({
+    mutationFn: async (draftPickId: string) => {
+      const response = await apiClient.post(`/draft/${periodId}/skip`, { draftPickId });
+      return response.data;
+    },
+    onSuccess: () => {
+      toast.success('Driver skipped');
+      refetch();
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to skip driver');
+      refetch();
+    },
+  });
+
+  if (isLoading || !board) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <LoadingSpinner size="lg" text="Loading draft board..." />
+      </div>
+    );
+  }
+
+  const { period, picks, currentPick, myPick, routes } = board;
+  const isMyTurn = !!currentPick && currentPick.employeeId === myPick?.employeeId;
+  const canPick = !!currentPick && (isAdmin || isMyTurn);
+  const timeLeft = currentPick?.windowEnd ? new Date(currentPick.windowEnd).getTime() - now : 0;
+  const openPositions = routes.reduce((total, r) => total + r.remainingPositions, 0);
+  const totalPositions = routes.reduce((total, r) => total + r.positions, 0);
+
+  // Admins enter picks for whoever is on the clock; the server checks that driver's qualifications
+  const isQualified = (route: BoardRoute) => isAdmin || route.missingRequirements.length === 0;
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-7xl">
+      <div className="mb-6">
+        <button
+          onClick={() => navigate(isAdmin ? '/periods' : '/selections')}
+          className="inline-flex items-center text-gray-600 hover:text-gray-900 mb-4"
+        >
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back
+        </button>
+        <div className="flex justify-between items-start">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Live Draft Board</h1>
+            <p className="text-gray-600 mt-1">
+              {period.name} • {period.draftPickMinutes} minute picks • {openPositions} of {totalPositions} positions open
+            </p>
+          </div>
+          {isAdmin && !period.draftStartedAt && (
+            <button
+              onClick={() => startMutation.mutate()}
+              disabled={startMutation.isPending}
+              className="inline-flex items-center px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg transition-colors disabled:opacity-50"
+            >
+              <Play className="w-4 h-4 mr-2" />
+              {startMutation.isPending ? 'Starting...' : 'Start Draft'}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* On the clock */}
+      {currentPick ? (
+        <div className={`rounded-lg border p-4 mb-6 flex items-center justify-between ${isMyTurn ? 'bg-orange-50 border-orange-300' : 'bg-blue-50 border-blue-200'}`}>
+          <div>
+            <p className="text-sm text-gray-600">On the clock</p>
+            <p className="text-lg font-semibold text-gray-900">
+              {isMyTurn ? "It's your turn!" : `${currentPick.employee.firstName} ${currentPick.employee.lastName}`}
+              <span className="text-sm font-normal text-gray-600 ml-2">Pick #{currentPick.position}</span>
+            </p>
+          </div>
+          <div className="flex items-center gap-4">
+            <div className="text-right">
+              <p className="text-sm text-gray-600">Time left</p>
+              <p className="text-2xl font-mono font-semibold text-orange-600">{formatCountdown(timeLeft)}</p>
+            </div>
+            {isAdmin && (
+              <button
+                onClick={() => skipMutation.mutate(currentPick.id)}
+                disabled={skipMutation.isPending}
+                className="inline-flex items-center px-3 py-2 bg-gray-100 text-gray-700 hover:bg-gray-200 rounded-lg text-sm font-medium transition-colors"
+              >
+                <SkipForward className="w-4 h-4 mr-1" />
+                Skip
+              </button>
+            )}
+          </div>
+        </div>
+      ) : period.draftStartedAt ? (
+        <div className="rounded-lg border border-green-200 bg-green-50 p-4 mb-6">
+          <p className="font-semibold text-green-900">The draft is complete.</p>
+        </div>
+      ) : (
+        <div className="rounded-lg border border-gray-200 bg-gray-50 p-4 mb-6">
+          <p className="text-gray-700">The draft has not started yet.</p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Pick order */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Pick Order</h3>
+          {picks.length === 0 ? (
+            <p className="text-gray-500 text-sm">The pick order is built from the seniority list when the draft starts.</p>
+          ) : (
+            <ol className="space-y-1 max-h-[600px] overflow-y-auto">
+              {picks.map(pick => (
+                <li
+                  key={pick.id}
+                  className={`flex items-center gap-2 text-sm px-2 py-1 rounded ${pick.status === 'ACTIVE' ? 'bg-orange-50' : ''} ${pick.employeeId === myPick?.employeeId ? 'font-semibold' : ''}`}
+                >
+                  <span className="w-8 text-gray-500">{pick.position}.</span>
+                  {pickStatusIcon(pick.status)}
+                  <span className="flex-1 text-gray-900">
+                    {pick.employee.firstName} {pick.employee.lastName}
+                    {pick.requeueCount > 0 && <span className="text-xs text-gray-500 ml-1">(re-queued)</span>}
+                    {pick.status === 'RESERVED' && <span className="text-xs text-purple-600 ml-1">(reserved)</span>}
+                  </span>
+                  <span className="text-gray-600">
+                    {pick.route ? pick.route.runNumber : pick.status === 'SKIPPED' ? 'Float pool' : ''}
+                  </span>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+
+        {/* Routes */}
+        <div className="lg:col-span-2 bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Routes</h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {routes.map(route => {
+              const qualified = isQualified(route);
+              const full = route.remainingPositions === 0;
+              return (
+                <div
+                  key={route.id}
+                  className={`p-3 border rounded-lg ${full ? 'bg-gray-50 border-gray-200 opacity-70' : 'border-green-200'}`}
+                >
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <div className="font-medium text-gray-900">
+                        {route.runNumber} - {route.origin} → {route.destination}
+                      </div>
+                      <div className="text-xs text-gray-600 mt-1">
+                        {route.type} • Start: {route.startTime}
+                        {route.positions > 1 && ` • ${route.remainingPositions} of ${route.positions} positions open`}
+                      </div>
+                      {route.takenBy.length > 0 && (
+                        <div className="text-xs text-gray-700 mt-1">Taken by {route.takenBy.join(', ')}</div>
+                      )}
+                      {!full && !qualified && (
+                        <div className="text-xs text-red-600 mt-1">Requires {route.missingRequirements.join(' & ')}</div>
+                      )}
+                    </div>
+                    {!full && canPick && qualified && (
+                      <button
+                        onClick={() => {
+                          if (window.confirm(`Claim route ${route.runNumber}${isMyTurn ? '' : ` for ${currentPick!.employee.firstName} ${currentPick!.employee.lastName}`}?`)) {
+                            pickMutation.mutate(route.id);
+                          }
+                        }}
+                        disabled={pickMutation.isPending}
+                        className="px-3 py-1 bg-primary-600 hover:bg-primary-700 text-white text-sm rounded-lg transition-colors disabled:opacity-50"
+                      >
+                        Claim
+                      </button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DraftBoard;
@@ -1,11 +1,16 @@
 import { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useQuery, useMutation } from '@tanstack/react-query';
-import { ArrowLeft, AlertCircle, CheckCircle, Info, Search } from 'lucide-react';
+import { ArrowLeft, AlertCircle, CheckCircle, Info, Search, ChevronUp, ChevronDown, X, Lock, Home, Users } from 'lucide-react';
 import apiClient from '../api/client';
 import { useAuth } from '../contexts/AuthContext';
 import { toast } from 'react-hot-toast';
 import LoadingSpinner from '../components/LoadingSpinner';
+import BidTeamPanel from '../components/BidTeamPanel';
+import type { BidTeam } from '../components/BidTeamPanel';
+import type { HeldQualification } from '../utils/qualifications';
+import { isQualificationExpired } from '../utils/qualifications';
+import { formatZonedDateTime } from '../utils/timeZone';
 
 interface Route {
   id: string;
@@ -16,12 +21,19 @@ interface Route {
   startTime: string | null;
   endTime: string | null;
   estimatedHours: number | null;
-  requiresDoublesEndorsement: boolean;
-  requiresChainExperience: boolean;
   terminalId: string;
   distance: number | null;
   workTime: number | null;
   rateType: string | null;
+  positions: number;
+  teamOnly: boolean;
+  // Set by the API from the driver's qualifications
+  qualified?: boolean;
+  missingRequirements?: string[];
+  // Positions held out of the bid; a fully reserved route can't be ranked
+  reservedPositions?: number;
+  reserved?: boolean;
+  reservedForMe?: boolean;
 }
 
 interface SelectionPeriod {
@@ -31,6 +43,10 @@ interface SelectionPeriod {
   startDate: string;
   endDate: string;
   requiredSelections: number;
+  incumbencyRule: 'FIRST_CHOICE' | 'PRIORITY';
+  kind: 'REGULAR' | 'VACANCY';
+  mode: 'BID' | 'DRAFT';
+  terminal: { timeZone: string };
 }
 
 interface Employee {
@@ -38,15 +54,17 @@ interface Employee {
   employeeId: string;
   firstName: string;
   lastName: string;
-  doublesEndorsement: boolean;
-  chainExperience: boolean;
+  currentRouteId: string | null;
+  qualifications: HeldQualification[];
 }
 
 interface ExistingSelection {
   id: string;
-  firstChoiceId: string | null;
-  secondChoiceId: string | null;
-  thirdChoiceId: string | null;
+  retainCurrentRoute: boolean;
+  choices: {
+    routeId: string;
+    rank: number;
+  }[];
 }
 
 const DriverSelectionForm = () => {
@@ -54,9 +72,8 @@ const DriverSelectionForm = () => {
   const navigate = useNavigate();
   const { user } = useAuth();
   const [searchTerm, setSearchTerm] = useState('');
-  const [firstChoice, setFirstChoice] = useState<string | null>(null);
-  const [secondChoice, setSecondChoice] = useState<string | null>(null);
-  const [thirdChoice, setThirdChoice] = useState<string | null>(null);
+  const [choices, setChoices] = useState<string[]>([]);
+  const [retainCurrentRoute, setRetainCurrentRoute] = useState(false);
   const [filterQualified, setFilterQualified] = useState(true);
 
   // Fetch selection period details
@@ -106,18 +123,31 @@ const DriverSelectionForm = () => {
     enabled: !!periodId,
   });
 
+  // The driver's two-driver team for the period, if any
+  const { data: team = null } = useQuery<BidTeam | null>({
+    queryKey: ['my-team', periodId],
+    queryFn: async () => {
+      const response = await apiClient.get(`/teams/period/${periodId}/my`);
+      return response.data;
+    },
+    enabled: !!periodId,
+  });
+
   // Set existing selections if they exist
   useEffect(() => {
     if (existingSelection) {
-      setFirstChoice(existingSelection.firstChoiceId);
-      setSecondChoice(existingSelection.secondChoiceId);
-      setThirdChoice(existingSelection.thirdChoiceId);
+      setChoices(existingSelection.choices.map(choice => choice.routeId));
+      setRetainCurrentRoute(existingSelection.retainCurrentRoute);
     }
   }, [existingSelection]);
 
   // Submit selection mutation
   const submitMutation = useMutation({
-    mutationFn: async (data: { firstChoiceId: string | null; secondChoiceId: string | null; thirdChoiceId: string | null }) => {
+    mutationFn: async (data: { choiceIds: string[]; retainCurrentRoute: boolean }) => {
+      if (existingSelection) {
+        const response = await apiClient.put(`/selections/${existingSelection.id}`, data);
+        return response.data;
+      }
       const response = await apiClient.post('/selections', {
         selectionPeriodId: periodId,
         ...data,
@@ -134,13 +164,19 @@ const DriverSelectionForm = () => {
     },
   });
 
-  // Filter routes based on qualifications
-  const isQualified = (route: Route) => {
-    if (!employee) return true;
-    if (route.requiresDoublesEndorsement && !employee.doublesEndorsement) return false;
-    if (route.requiresChainExperience && !employee.chainExperience) return false;
-    return true;
-  };
+  // Filter routes based on qualifications, as checked by the server
+  const isQualified = (route: Route) => route.qualified !== false;
+  // A vacancy bidder already holds their own route, so it isn't one of their choices
+  const isHeldVacancyRoute = (route: Route) => period?.kind === 'VACANCY' && route.id === employee?.currentRouteId;
+  // Team routes can only be ranked by the lead of a confirmed team
+  const isTeamLead = !!team?.confirmedAt && team.leadEmployeeId === employee?.id;
+  const isTeamPartner = !!team?.confirmedAt && team.partnerEmployeeId === employee?.id;
+  const isBiddable = (route: Route) => isQualified(route) && !route.reserved && !isHeldVacancyRoute(route)
+    && (!route.teamOnly || isTeamLead);
+  const myReservedRoute = routes.find(route => route.reservedForMe);
+  // Drivers can only bid to keep a current route that is in this period and open to them
+  const currentRoute = routes.find(route => route.id === employee?.currentRouteId && isBiddable(route));
+  const keepsCurrentRoute = retainCurrentRoute && !!currentRoute;
 
   // Format rate type for display
   const formatRateType = (rateType: string | null): string => {
@@ -169,32 +205,38 @@ const DriverSelectionForm = () => {
     return matchesSearch && matchesQualification;
   });
 
-  // Get available routes for each choice level
-  const getAvailableRoutes = (choiceLevel: 1 | 2 | 3) => {
-    return filteredRoutes.filter(route => {
-      // Don't show already selected routes
-      if (choiceLevel === 2 && route.id === firstChoice) return false;
-      if (choiceLevel === 3 && (route.id === firstChoice || route.id === secondChoice)) return false;
-      
-      return true;
-    });
-  };
+  const maxChoices = period?.requiredSelections || 3;
 
-  const handleSubmit = () => {
-    if (period?.requiredSelections === 3 && (!firstChoice || !secondChoice || !thirdChoice)) {
-      toast.error('Please select all three route choices');
+  // Add a route to the end of the ranked list, or remove it if already ranked
+  const toggleChoice = (routeId: string) => {
+    if (choices.includes(routeId)) {
+      setChoices(choices.filter(id => id !== routeId));
+      return;
+    }
+    if (choices.length >= maxChoices) {
+      toast.error(`You can rank up to ${maxChoices} routes`);
       return;
     }
+    setChoices([...choices, routeId]);
+  };
+
+  const moveChoice = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= choices.length) return;
+    const reordered = [...choices];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setChoices(reordered);
+  };
 
-    if (!firstChoice) {
+  const handleSubmit = () => {
+    if (choices.length === 0 && !keepsCurrentRoute) {
       toast.error('Please select at least your first choice');
       return;
     }
 
     submitMutation.mutate({
-      firstChoiceId: firstChoice,
-      secondChoiceId: secondChoice,
-      thirdChoiceId: thirdChoice,
+      choiceIds: choices,
+      retainCurrentRoute: keepsCurrentRoute,
     });
   };
 
@@ -236,7 +278,10 @@ const DriverSelectionForm = () => {
 
   const now = new Date();
   const endDate = new Date(period.endDate);
-  const daysRemaining = Math.ceil((endDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
+  const hoursRemaining = Math.max(0, Math.floor((endDate.getTime() - now.getTime()) / (1000 * 60 * 60)));
+  const timeRemaining = hoursRemaining < 24
+    ? `${hoursRemaining} hours`
+    : `${Math.floor(hoursRemaining / 24)} days ${hoursRemaining % 24} hours`;
 
   return (
     <div className="container mx-auto px-4 py-8 max-w-6xl">
@@ -257,7 +302,8 @@ const DriverSelectionForm = () => {
           </div>
           <div className="text-right">
             <p className="text-sm text-gray-600">Time Remaining</p>
-            <p className="text-lg font-semibold text-primary-600">{daysRemaining} days</p>
+            <p className="text-lg font-semibold text-primary-600">{timeRemaining}</p>
+            <p className="text-xs text-gray-500">Closes {formatZonedDateTime(period.endDate, period.terminal.timeZone)}</p>
           </div>
         </div>
       </div>
@@ -269,9 +315,14 @@ const DriverSelectionForm = () => {
             <Info className="w-5 h-5 text-blue-600 flex-shrink-0 mt-0.5" />
             <div className="text-sm">
               <p className="font-semibold text-blue-900 mb-1">Your Qualifications</p>
-              <div className="flex gap-4 text-blue-800">
-                <span>Doubles Endorsement: {employee.doublesEndorsement ? '✓ Yes' : '✗ No'}</span>
-                <span>Chain Experience: {employee.chainExperience ? '✓ Yes' : '✗ No'}</span>
+              <div className="flex flex-wrap gap-4 text-blue-800">
+                {employee.qualifications.length === 0 && <span>None on file</span>}
+                {employee.qualifications.map(held => (
+                  <span key={held.qualificationId} className={isQualificationExpired(held) ? 'text-red-700' : ''}>
+                    {isQualificationExpired(held) ? '✗' : '✓'} {held.qualification?.name}
+                    {held.expiresAt && ` (${isQualificationExpired(held) ? 'expired' : 'expires'} ${new Date(held.expiresAt).toLocaleDateString()})`}
+                  </span>
+                ))}
               </div>
             </div>
           </div>
@@ -291,6 +342,42 @@ const DriverSelectionForm = () => {
         </div>
       )}
 
+      {/* Reservation Notice */}
+      {myReservedRoute && (
+        <div className="bg-purple-50 border border-purple-200 rounded-lg p-4 mb-6">
+          <div className="flex items-start gap-3">
+            <Lock className="w-5 h-5 text-purple-600 flex-shrink-0 mt-0.5" />
+            <div className="text-sm">
+              <p className="font-semibold text-purple-900 mb-1">
+                Route {myReservedRoute.runNumber} is reserved for you
+              </p>
+              <p className="text-purple-800">You will be placed on it this period regardless of the preferences below.</p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Vacancy Bid Notice */}
+      {period.kind === 'VACANCY' && (
+        <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 mb-6">
+          <div className="flex items-start gap-3">
+            <Info className="w-5 h-5 text-amber-600 flex-shrink-0 mt-0.5" />
+            <div className="text-sm">
+              <p className="font-semibold text-amber-900 mb-1">This is a vacancy bid</p>
+              <p className="text-amber-800">
+                Only drivers who submit choices take part. Vacancies are awarded by seniority, and if you
+                aren't awarded one you keep your current route.
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Team Bid */}
+      {employee && period.mode === 'BID' && (!myReservedRoute || team) && (
+        <BidTeamPanel periodId={period.id} employeeId={employee.id} team={team} />
+      )}
+
       {/* Search and Filter */}
       <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-6">
         <div className="flex flex-col md:flex-row gap-4 mb-4">
@@ -322,251 +409,189 @@ const DriverSelectionForm = () => {
         </p>
       </div>
 
-      {/* Selection Form */}
-      <div className="space-y-6 mb-8">
-        {/* First Choice */}
-        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
-          <h3 className="text-lg font-semibold text-gray-900 mb-4">First Choice (Required)</h3>
-          <div className="space-y-2">
-            {getAvailableRoutes(1).length === 0 ? (
-              <p className="text-gray-500 text-center py-4">No routes match your search criteria</p>
-            ) : (
-              getAvailableRoutes(1).map(route => {
-                const qualified = isQualified(route);
-                return (
-                  <label
-                    key={route.id}
-                    className={`block p-4 border rounded-lg cursor-pointer transition-all ${
-                      firstChoice === route.id
-                        ? 'border-primary-500 bg-primary-50'
-                        : qualified
-                        ? 'border-gray-200 hover:border-primary-300 hover:bg-gray-50'
-                        : 'border-gray-200 bg-gray-50 opacity-60'
-                    }`}
-                  >
-                    <input
-                      type="radio"
-                      name="firstChoice"
-                      value={route.id}
-                      checked={firstChoice === route.id}
-                      onChange={(e) => setFirstChoice(e.target.value)}
-                      disabled={!qualified}
-                      className="sr-only"
-                    />
-                    <div className="flex items-start justify-between">
-                      <div className="flex-1">
-                        <div className="font-medium text-gray-900">
-                          {route.runNumber} - {route.origin} → {route.destination}
-                        </div>
-                        <div className="text-sm text-gray-600 mt-1">
-                          Type: {route.type}
-                          {route.estimatedHours && ` • ${route.estimatedHours} hours`}
-                          {route.startTime && ` • Start: ${route.startTime}`}
-                        </div>
-                        <div className="text-sm text-gray-600 mt-1">
-                          {route.distance && `Distance: ${route.distance} mi`}
-                          {route.distance && route.workTime && ' • '}
-                          {route.workTime && `Work Time: ${route.workTime}h`}
-                          {(route.distance || route.workTime) && route.rateType && ' • '}
-                          {route.rateType && `Rate: ${formatRateType(route.rateType)}`}
-                        </div>
-                        {!qualified && (
-                          <div className="text-xs text-red-600 mt-1">
-                            Requires: {route.requiresDoublesEndorsement && 'Doubles Endorsement'} 
-                            {route.requiresDoublesEndorsement && route.requiresChainExperience && ' & '}
-                            {route.requiresChainExperience && 'Chain Experience'}
-                          </div>
-                        )}
-                      </div>
-                      <div className="ml-4">
-                        <div className={`w-5 h-5 rounded-full border-2 ${
-                          firstChoice === route.id
-                            ? 'border-primary-500 bg-primary-500'
-                            : 'border-gray-300'
-                        }`}>
-                          {firstChoice === route.id && (
-                            <CheckCircle className="w-4 h-4 text-white" />
-                          )}
-                        </div>
-                      </div>
-                    </div>
-                  </label>
-                );
-              })
-            )}
-          </div>
+      {/* Keep Current Route */}
+      {currentRoute && !myReservedRoute && (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-6">
+          <label className="flex items-start gap-3 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={retainCurrentRoute}
+              onChange={(e) => setRetainCurrentRoute(e.target.checked)}
+              className="mt-1 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+            />
+            <div>
+              <p className="font-medium text-gray-900 flex items-center gap-2">
+                <Home className="w-4 h-4 text-primary-600" />
+                Keep my current route ({currentRoute.runNumber} - {currentRoute.origin} → {currentRoute.destination})
+              </p>
+              <p className="text-sm text-gray-600 mt-1">
+                {period.incumbencyRule === 'PRIORITY'
+                  ? 'Incumbents keep their route ahead of seniority this period. Your ranked choices are only used if you lose it.'
+                  : 'Your current route is bid as your first choice in seniority order, ahead of the ranked choices below.'}
+              </p>
+            </div>
+          </label>
         </div>
+      )}
 
-        {/* Second Choice */}
-        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
-          <h3 className="text-lg font-semibold text-gray-900 mb-4">
-            Second Choice {period.requiredSelections >= 2 ? '(Required)' : '(Optional)'}
-          </h3>
-          {!firstChoice ? (
-            <p className="text-gray-500 text-center py-4">Please select your first choice first</p>
-          ) : (
-            <div className="space-y-2">
-              {getAvailableRoutes(2).length === 0 ? (
-                <p className="text-gray-500 text-center py-4">No additional routes available</p>
-              ) : (
-                getAvailableRoutes(2).map(route => {
-                  const qualified = isQualified(route);
-                  return (
-                    <label
-                      key={route.id}
-                      className={`block p-4 border rounded-lg cursor-pointer transition-all ${
-                        secondChoice === route.id
-                          ? 'border-primary-500 bg-primary-50'
-                          : qualified
-                          ? 'border-gray-200 hover:border-primary-300 hover:bg-gray-50'
-                          : 'border-gray-200 bg-gray-50 opacity-60'
-                      }`}
+      {/* Ranked Choices */}
+      <div className="bg-gray-50 rounded-lg border border-gray-200 p-6 mb-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-1">Your Ranked Choices</h3>
+        <p className="text-sm text-gray-600 mb-4">
+          {choices.length} of {maxChoices} selected. Routes are awarded in this order when available.
+        </p>
+        {choices.length === 0 ? (
+          <p className="text-gray-500 text-center py-4">Select routes below to build your ranked list</p>
+        ) : (
+          <ol className="space-y-2">
+            {choices.map((routeId, index) => {
+              const route = getRouteById(routeId);
+              return (
+                <li
+                  key={routeId}
+                  className="flex items-center justify-between bg-white border border-gray-200 rounded-lg px-4 py-2"
+                >
+                  <div className="flex items-center gap-3">
+                    <span className="w-7 h-7 flex items-center justify-center rounded-full bg-primary-600 text-white text-sm font-semibold">
+                      {index + 1}
+                    </span>
+                    <span className="font-medium text-gray-900">
+                      {route ? `${route.runNumber} - ${route.origin} → ${route.destination}` : 'Route unavailable'}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <button
+                      onClick={() => moveChoice(index, -1)}
+                      disabled={index === 0}
+                      className="p-1 text-gray-500 hover:text-gray-900 disabled:opacity-30"
+                      title="Move up"
                     >
-                      <input
-                        type="radio"
-                        name="secondChoice"
-                        value={route.id}
-                        checked={secondChoice === route.id}
-                        onChange={(e) => setSecondChoice(e.target.value)}
-                        disabled={!qualified}
-                        className="sr-only"
-                      />
-                      <div className="flex items-start justify-between">
-                        <div className="flex-1">
-                          <div className="font-medium text-gray-900">
-                            {route.runNumber} - {route.origin} → {route.destination}
-                          </div>
-                          <div className="text-sm text-gray-600 mt-1">
-                            Type: {route.type}
-                            {route.estimatedHours && ` • ${route.estimatedHours} hours`}
-                            {route.startTime && ` • Start: ${route.startTime}`}
-                          </div>
-                          {!qualified && (
-                            <div className="text-xs text-red-600 mt-1">
-                              Requires: {route.requiresDoublesEndorsement && 'Doubles Endorsement'} 
-                              {route.requiresDoublesEndorsement && route.requiresChainExperience && ' & '}
-                              {route.requiresChainExperience && 'Chain Experience'}
-                            </div>
-                          )}
-                        </div>
-                        <div className="ml-4">
-                          <div className={`w-5 h-5 rounded-full border-2 ${
-                            secondChoice === route.id
-                              ? 'border-primary-500 bg-primary-500'
-                              : 'border-gray-300'
-                          }`}>
-                            {secondChoice === route.id && (
-                              <CheckCircle className="w-4 h-4 text-white" />
-                            )}
-                          </div>
-                        </div>
-                      </div>
-                    </label>
-                  );
-                })
-              )}
-            </div>
-          )}
-        </div>
+                      <ChevronUp className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => moveChoice(index, 1)}
+                      disabled={index === choices.length - 1}
+                      className="p-1 text-gray-500 hover:text-gray-900 disabled:opacity-30"
+                      title="Move down"
+                    >
+                      <ChevronDown className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => toggleChoice(routeId)}
+                      className="p-1 text-red-500 hover:text-red-700"
+                      title="Remove"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </div>
 
-        {/* Third Choice */}
-        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
-          <h3 className="text-lg font-semibold text-gray-900 mb-4">
-            Third Choice {period.requiredSelections >= 3 ? '(Required)' : '(Optional)'}
-          </h3>
-          {!secondChoice ? (
-            <p className="text-gray-500 text-center py-4">Please select your second choice first</p>
+      {/* Route List */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-8">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">Available Routes</h3>
+        <div className="space-y-2">
+          {filteredRoutes.length === 0 ? (
+            <p className="text-gray-500 text-center py-4">No routes match your search criteria</p>
           ) : (
-            <div className="space-y-2">
-              {getAvailableRoutes(3).length === 0 ? (
-                <p className="text-gray-500 text-center py-4">No additional routes available</p>
-              ) : (
-                getAvailableRoutes(3).map(route => {
-                  const qualified = isQualified(route);
-                  return (
-                    <label
-                      key={route.id}
-                      className={`block p-4 border rounded-lg cursor-pointer transition-all ${
-                        thirdChoice === route.id
-                          ? 'border-primary-500 bg-primary-50'
-                          : qualified
-                          ? 'border-gray-200 hover:border-primary-300 hover:bg-gray-50'
-                          : 'border-gray-200 bg-gray-50 opacity-60'
-                      }`}
-                    >
-                      <input
-                        type="radio"
-                        name="thirdChoice"
-                        value={route.id}
-                        checked={thirdChoice === route.id}
-                        onChange={(e) => setThirdChoice(e.target.value)}
-                        disabled={!qualified}
-                        className="sr-only"
-                      />
-                      <div className="flex items-start justify-between">
-                        <div className="flex-1">
-                          <div className="font-medium text-gray-900">
-                            {route.runNumber} - {route.origin} → {route.destination}
-                          </div>
-                          <div className="text-sm text-gray-600 mt-1">
-                            Type: {route.type}
-                            {route.estimatedHours && ` • ${route.estimatedHours} hours`}
-                            {route.startTime && ` • Start: ${route.startTime}`}
-                          </div>
-                          {!qualified && (
-                            <div className="text-xs text-red-600 mt-1">
-                              Requires: {route.requiresDoublesEndorsement && 'Doubles Endorsement'} 
-                              {route.requiresDoublesEndorsement && route.requiresChainExperience && ' & '}
-                              {route.requiresChainExperience && 'Chain Experience'}
-                            </div>
-                          )}
+            filteredRoutes.map(route => {
+              const qualified = isQualified(route);
+              const biddable = isBiddable(route);
+              const rank = choices.indexOf(route.id) + 1;
+              return (
+                <label
+                  key={route.id}
+                  className={`block p-4 border rounded-lg cursor-pointer transition-all ${
+                    rank > 0
+                      ? 'border-primary-500 bg-primary-50'
+                      : biddable
+                      ? 'border-gray-200 hover:border-primary-300 hover:bg-gray-50'
+                      : 'border-gray-200 bg-gray-50 opacity-60'
+                  }`}
+                >
+                  <input
+                    type="checkbox"
+                    value={route.id}
+                    checked={rank > 0}
+                    onChange={() => toggleChoice(route.id)}
+                    disabled={!biddable}
+                    className="sr-only"
+                  />
+                  <div className="flex items-start justify-between">
+                    <div className="flex-1">
+                      <div className="font-medium text-gray-900">
+                        {route.runNumber} - {route.origin} → {route.destination}
+                        {route.reserved && (
+                          <span className="ml-2 inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium bg-purple-100 text-purple-800">
+                            <Lock className="w-3 h-3" />
+                            Reserved
+                          </span>
+                        )}
+                        {isHeldVacancyRoute(route) && (
+                          <span className="ml-2 inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+                            <Home className="w-3 h-3" />
+                            Your route
+                          </span>
+                        )}
+                        {route.teamOnly && (
+                          <span className="ml-2 inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                            <Users className="w-3 h-3" />
+                            Team route
+                          </span>
+                        )}
+                      </div>
+                      <div className="text-sm text-gray-600 mt-1">
+                        Type: {route.type}
+                        {route.estimatedHours && ` • ${route.estimatedHours} hours`}
+                        {route.startTime && ` • Start: ${route.startTime}`}
+                        {route.positions > 1 && ` • ${route.positions} positions`}
+                        {!route.reserved && !!route.reservedPositions && ` • ${route.reservedPositions} reserved`}
+                      </div>
+                      <div className="text-sm text-gray-600 mt-1">
+                        {route.distance && `Distance: ${route.distance} mi`}
+                        {route.distance && route.workTime && ' • '}
+                        {route.workTime && `Work Time: ${route.workTime}h`}
+                        {(route.distance || route.workTime) && route.rateType && ' • '}
+                        {route.rateType && `Rate: ${formatRateType(route.rateType)}`}
+                      </div>
+                      {route.reserved && (
+                        <div className="text-xs text-purple-700 mt-1">
+                          Held out of open bidding
                         </div>
-                        <div className="ml-4">
-                          <div className={`w-5 h-5 rounded-full border-2 ${
-                            thirdChoice === route.id
-                              ? 'border-primary-500 bg-primary-500'
-                              : 'border-gray-300'
-                          }`}>
-                            {thirdChoice === route.id && (
-                              <CheckCircle className="w-4 h-4 text-white" />
-                            )}
-                          </div>
+                      )}
+                      {!route.reserved && route.teamOnly && !isTeamLead && (
+                        <div className="text-xs text-blue-700 mt-1">
+                          Awarded only to two-driver teams; the team lead ranks it
                         </div>
-                      </div>
-                    </label>
-                  );
-                })
-              )}
-            </div>
+                      )}
+                      {!route.reserved && !qualified && (
+                        <div className="text-xs text-red-600 mt-1">
+                          Requires: {route.missingRequirements?.join(' & ')}
+                        </div>
+                      )}
+                    </div>
+                    <div className="ml-4">
+                      {rank > 0 ? (
+                        <span className="inline-flex items-center gap-1 text-sm font-semibold text-primary-700">
+                          <CheckCircle className="w-5 h-5" />
+                          #{rank}
+                        </span>
+                      ) : (
+                        <div className="w-5 h-5 rounded-full border-2 border-gray-300" />
+                      )}
+                    </div>
+                  </div>
+                </label>
+              );
+            })
           )}
         </div>
       </div>
 
-      {/* Summary */}
-      <div className="bg-gray-50 rounded-lg border border-gray-200 p-6 mb-6">
-        <h3 className="text-lg font-semibold text-gray-900 mb-4">Selection Summary</h3>
-        <div className="space-y-2">
-          <div className="flex justify-between">
-            <span className="text-gray-600">First Choice:</span>
-            <span className="font-medium text-gray-900">
-              {firstChoice ? getRouteById(firstChoice)?.runNumber : 'Not selected'}
-            </span>
-          </div>
-          <div className="flex justify-between">
-            <span className="text-gray-600">Second Choice:</span>
-            <span className="font-medium text-gray-900">
-              {secondChoice ? getRouteById(secondChoice)?.runNumber : 'Not selected'}
-            </span>
-          </div>
-          <div className="flex justify-between">
-            <span className="text-gray-600">Third Choice:</span>
-            <span className="font-medium text-gray-900">
-              {thirdChoice ? getRouteById(thirdChoice)?.runNumber : 'Not selected'}
-            </span>
-          </div>
-        </div>
-      </div>
-
       {/* Submit Button */}
       <div className="flex gap-4">
         <button
@@ -577,7 +602,7 @@ const DriverSelectionForm = () => {
         </button>
         <button
           onClick={handleSubmit}
-          disabled={!firstChoice || submitMutation.isPending}
+          disabled={(choices.length === 0 && !keepsCurrentRoute) || isTeamPartner || submitMutation.isPending}
           className="flex-1 px-6 py-3 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
         >
           {submitMutation.isPending ? 'Submitting...' : existingSelection ? 'Update Selection' : 'Submit Selection'}
@@ -4,6 +4,7 @@ import { useQuery } from '@tanstack/react-query';
 import apiClient from '../api/client';
 import { ArrowLeft, Route as RouteIcon, CheckCircle, XCircle, Calendar, MapPin, FileText } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
+import { getOrdinal } from '../utils/choiceRanks';
 
 interface Route {
   id: string;
@@ -58,12 +59,7 @@ const DriverSelectionResults = () => {
   });
 
   const getChoiceLabel = (choice: number | null) => {
-    switch (choice) {
-      case 1: return '1st Choice';
-      case 2: return '2nd Choice';
-      case 3: return '3rd Choice';
-      default: return 'Not from choices';
-    }
+    return choice ? `${getOrdinal(choice)} Choice` : 'Not from choices';
   };
 
   const getChoiceColor = (choice: number | null) => {
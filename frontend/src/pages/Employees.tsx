@@ -15,12 +15,16 @@ import {
   Award,
   Truck,
   X,
-  Building2
+  Building2,
+  History
 } from 'lucide-react';
 import apiClient from '../api/client';
 import { useAuth } from '../contexts/AuthContext';
 import { useTerminal } from '../contexts/TerminalContext';
 import LoadingSpinner from '../components/LoadingSpinner';
+import SeniorityHistoryModal from '../components/SeniorityHistoryModal';
+import type { HeldQualification, Qualification } from '../utils/qualifications';
+import { isQualificationExpired } from '../utils/qualifications';
 
 interface Employee {
   id: string;
@@ -30,8 +34,9 @@ interface Employee {
   email: string;
   phone?: string;
   hireDate: string;
-  doublesEndorsement: boolean;
-  chainExperience: boolean;
+  seniorityDate: string | null;
+  effectiveSeniorityDate: string;
+  qualifications: HeldQualification[];
   isEligible: boolean;
   user?: {
     id: string;
@@ -47,6 +52,63 @@ interface Terminal {
   isActive: boolean;
 }
 
+const EXPIRY_WARNING_DAYS = 30;
+
+const isExpiringSoon = (held: HeldQualification) => {
+  if (!held.expiresAt || isQualificationExpired(held)) return false;
+  return new Date(held.expiresAt).getTime() - Date.now() < EXPIRY_WARNING_DAYS * 24 * 60 * 60 * 1000;
+};
+
+// Checked catalog entries, with their optional expiry dates, as the API expects them
+const readQualifications = (formData: FormData, catalog: Qualification[]): HeldQualification[] => {
+  return catalog
+    .filter(q => formData.get(`qualification-${q.id}`) === 'on')
+    .map(q => ({
+      qualificationId: q.id,
+      expiresAt: (formData.get(`qualificationExpires-${q.id}`) as string) || null,
+    }));
+};
+
+interface QualificationFieldsProps {
+  catalog: Qualification[];
+  held?: HeldQualification[];
+}
+
+const QualificationFields = ({ catalog, held = [] }: QualificationFieldsProps) => {
+  const heldById = new Map(held.map(q => [q.qualificationId, q]));
+
+  return (
+    <div>
+      <p className="label">Qualifications</p>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {catalog.map(qualification => {
+          const current = heldById.get(qualification.id);
+          return (
+            <div key={qualification.id} className="flex items-center gap-3">
+              <label className="flex items-center gap-3 flex-1">
+                <input
+                  type="checkbox"
+                  name={`qualification-${qualification.id}`}
+                  defaultChecked={!!current}
+                  className="w-4 h-4 text-primary-600 border-gray-300 rounded focus:ring-primary-500"
+                />
+                <span className="text-sm font-medium text-gray-700">{qualification.name}</span>
+              </label>
+              <input
+                type="date"
+                name={`qualificationExpires-${qualification.id}`}
+                defaultValue={current?.expiresAt?.split('T')[0]}
+                title="Expiry date (leave blank if it never expires)"
+                className="input-field w-40 py-1 text-sm"
+              />
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
 const Employees = () => {
   const { user } = useAuth();
   const { selectedTerminal } = useTerminal();
@@ -57,6 +119,7 @@ const Employees = () => {
   const [showEditModal, setShowEditModal] = useState(false);
   const [selectedEmployee, setSelectedEmployee] = useState<Employee | null>(null);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
+  const [historyEmployee, setHistoryEmployee] = useState<Employee | null>(null);
   const [selectedTerminalId, setSelectedTerminalId] = useState<string>('');
 
   // Fetch employees
@@ -72,6 +135,14 @@ const Employees = () => {
     enabled: !!selectedTerminal,
   });
 
+  const { data: qualificationCatalog = [] } = useQuery<Qualification[]>({
+    queryKey: ['qualifications', 'active'],
+    queryFn: async () => {
+      const response = await apiClient.get('/qualifications?isActive=true');
+      return response.data;
+    },
+  });
+
   // Fetch all terminals (for admin to select when adding employees)
   const { data: terminals = [] } = useQuery({
     queryKey: ['terminals'],
@@ -243,9 +314,9 @@ const Employees = () => {
         <div className="card p-6">
           <div className="flex items-center justify-between">
             <div>
-              <p className="text-sm text-gray-600">Doubles Endorsed</p>
+              <p className="text-sm text-gray-600">With Qualifications</p>
               <p className="text-2xl font-bold text-gray-900">
-                {employees?.filter(e => e.doublesEndorsement).length || 0}
+                {employees?.filter(e => e.qualifications.some(q => !isQualificationExpired(q))).length || 0}
               </p>
             </div>
             <div className="bg-green-100 p-3 rounded-xl">
@@ -256,9 +327,9 @@ const Employees = () => {
         <div className="card p-6">
           <div className="flex items-center justify-between">
             <div>
-              <p className="text-sm text-gray-600">Chain Experience</p>
+              <p className="text-sm text-gray-600">Expiring in {EXPIRY_WARNING_DAYS} Days</p>
               <p className="text-2xl font-bold text-gray-900">
-                {employees?.filter(e => e.chainExperience).length || 0}
+                {employees?.filter(e => e.qualifications.some(isExpiringSoon)).length || 0}
               </p>
             </div>
             <div className="bg-yellow-100 p-3 rounded-xl">
@@ -338,19 +409,29 @@ const Employees = () => {
                       <Calendar className="w-3 h-3" />
                       {new Date(employee.hireDate).toLocaleDateString()}
                     </div>
+                    {employee.effectiveSeniorityDate.split('T')[0] !== employee.hireDate.split('T')[0] && (
+                      <div className="text-xs text-primary-700 mt-1">
+                        Seniority: {new Date(employee.effectiveSeniorityDate).toLocaleDateString()}
+                      </div>
+                    )}
                   </td>
                   <td className="py-4 px-6">
                     <div className="flex flex-wrap gap-1">
-                      {employee.doublesEndorsement && (
-                        <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800">
-                          Doubles
-                        </span>
-                      )}
-                      {employee.chainExperience && (
-                        <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
-                          Chains
+                      {employee.qualifications.map(held => (
+                        <span
+                          key={held.qualificationId}
+                          title={held.expiresAt ? `Expires ${new Date(held.expiresAt).toLocaleDateString()}` : undefined}
+                          className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
+                            isQualificationExpired(held)
+                              ? 'bg-red-100 text-red-800 line-through'
+                              : isExpiringSoon(held)
+                              ? 'bg-yellow-100 text-yellow-800'
+                              : 'bg-green-100 text-green-800'
+                          }`}
+                        >
+                          {held.qualification?.name}
                         </span>
-                      )}
+                      ))}
                     </div>
                   </td>
                   <td className="py-4 px-6">
@@ -383,6 +464,13 @@ const Employees = () => {
                         >
                           <Edit className="w-4 h-4" />
                         </button>
+                        <button
+                          onClick={() => setHistoryEmployee(employee)}
+                          className="p-2 text-gray-500 hover:text-primary-600 hover:bg-primary-50 rounded-lg transition-all"
+                          title="Seniority history"
+                        >
+                          <History className="w-4 h-4" />
+                        </button>
                         <button
                           onClick={() => handleDelete(employee)}
                           className="p-2 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded-lg transition-all"
@@ -443,6 +531,10 @@ const Employees = () => {
         </div>
       )}
 
+      {historyEmployee && (
+        <SeniorityHistoryModal employee={historyEmployee} onClose={() => setHistoryEmployee(null)} />
+      )}
+
       {/* Edit Employee Modal */}
       {showEditModal && selectedEmployee && (
         <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
@@ -468,8 +560,8 @@ const Employees = () => {
                   email: formData.get('email') as string,
                   phone: formData.get('phone') as string || undefined,
                   hireDate: formData.get('hireDate') as string,
-                  doublesEndorsement: formData.get('doublesEndorsement') === 'on',
-                  chainExperience: formData.get('chainExperience') === 'on',
+                  seniorityDate: (formData.get('seniorityDate') as string) || null,
+                  qualifications: readQualifications(formData, qualificationCatalog),
                   isEligible: formData.get('isEligible') === 'on',
                 });
               }}
@@ -550,26 +642,20 @@ const Employees = () => {
                     required
                   />
                 </div>
-              </div>
-              <div className="space-y-3">
-                <label className="flex items-center gap-3">
-                  <input
-                    type="checkbox"
-                    name="doublesEndorsement"
-                    defaultChecked={selectedEmployee.doublesEndorsement}
-                    className="w-4 h-4 text-primary-600 border-gray-300 rounded focus:ring-primary-500"
-                  />
-                  <span className="text-sm font-medium text-gray-700">Doubles Endorsement</span>
-                </label>
-                <label className="flex items-center gap-3">
+                <div>
+                  <label className="label" htmlFor="seniorityDate">Seniority Date</label>
                   <input
-                    type="checkbox"
-                    name="chainExperience"
-                    defaultChecked={selectedEmployee.chainExperience}
-                    className="w-4 h-4 text-primary-600 border-gray-300 rounded focus:ring-primary-500"
+                    type="date"
+                    id="seniorityDate"
+                    name="seniorityDate"
+                    defaultValue={selectedEmployee.seniorityDate?.split('T')[0]}
+                    title="Leave blank when seniority runs from the hire date"
+                    className="input-field"
                   />
-                  <span className="text-sm font-medium text-gray-700">Chain Experience</span>
-                </label>
+                </div>
+              </div>
+              <QualificationFields catalog={qualificationCatalog} held={selectedEmployee.qualifications} />
+              <div className="space-y-3">
                 <label className="flex items-center gap-3">
                   <input
                     type="checkbox"
@@ -625,8 +711,7 @@ const Employees = () => {
                   email: formData.get('email') as string,
                   phone: formData.get('phone') as string || undefined,
                   hireDate: formData.get('hireDate') as string,
-                  doublesEndorsement: formData.get('doublesEndorsement') === 'on',
-                  chainExperience: formData.get('chainExperience') === 'on',
+                  qualifications: readQualifications(formData, qualificationCatalog),
                   isEligible: formData.get('isEligible') !== 'off',
                   terminalId: user?.role === 'Admin' ? selectedTerminalId : selectedTerminal?.id,
                 };
@@ -733,23 +818,8 @@ const Employees = () => {
                   />
                 </div>
               </div>
+              <QualificationFields catalog={qualificationCatalog} />
               <div className="space-y-3">
-                <label className="flex items-center gap-3">
-                  <input
-                    type="checkbox"
-                    name="doublesEndorsement"
-                    className="w-4 h-4 text-primary-600 border-gray-300 rounded focus:ring-primary-500"
-                  />
-                  <span className="text-sm font-medium text-gray-700">Doubles Endorsement</span>
-                </label>
-                <label className="flex items-center gap-3">
-                  <input
-                    type="checkbox"
-                    name="chainExperience"
-                    className="w-4 h-4 text-primary-600 border-gray-300 rounded focus:ring-primary-500"
-                  />
-                  <span className="text-sm font-medium text-gray-700">Chain Experience</span>
-                </label>
                 <label className="flex items-center gap-3">
                   <input
                     type="checkbox"
@@ -15,6 +15,11 @@ interface ImportResult {
       field?: string;
       message: string;
     }>;
+    warnings?: Array<{
+      row: number;
+      field?: string;
+      message: string;
+    }>;
     summary: {
       totalRows: number;
       validRows: number;
@@ -400,6 +405,31 @@ const ImportExport = () => {
               </div>
             )}
 
+            {/* Schedule Warnings */}
+            {previewResult.result.warnings && previewResult.result.warnings.length > 0 && (
+              <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 mb-6">
+                <h4 className="font-medium text-amber-900 mb-2 flex items-center gap-2">
+                  <AlertCircle className="w-4 h-4" />
+                  Schedule Warnings
+                </h4>
+                <p className="text-sm text-amber-800 mb-2">
+                  These rows will still import, but their schedules break the terminal's hours-of-service limits or don't add up.
+                </p>
+                <div className="space-y-1 text-sm text-amber-700">
+                  {previewResult.result.warnings.slice(0, 10).map((warning, index) => (
+                    <div key={index}>
+                      Row {warning.row}: {warning.message}
+                    </div>
+                  ))}
+                  {previewResult.result.warnings.length > 10 && (
+                    <div className="text-amber-600 font-medium mt-2">
+                      ... and {previewResult.result.warnings.length - 10} more warnings
+                    </div>
+                  )}
+                </div>
+              </div>
+            )}
+
             {/* Success Message */}
             {previewResult.result.success && (
               <div className="bg-green-50 border border-green-200 rounded-lg p-4">
@@ -5,6 +5,8 @@ import apiClient from '../api/client';
 import { useTerminal } from '../contexts/TerminalContext';
 import { toast } from 'react-hot-toast';
 import { Save, FileText, Search } from 'lucide-react';
+import type { HeldQualification, RouteRequirement } from '../utils/qualifications';
+import { getMissingRequirements } from '../utils/qualifications';
 
 interface Employee {
   id: string;
@@ -13,8 +15,8 @@ interface Employee {
   lastName: string;
   email: string;
   hireDate: string;
-  doublesEndorsement: boolean;
-  chainExperience: boolean;
+  effectiveSeniorityDate: string;
+  qualifications: HeldQualification[];
 }
 
 interface Route {
@@ -22,8 +24,7 @@ interface Route {
   runNumber: string;
   origin: string;
   destination: string;
-  requiresDoublesEndorsement: boolean;
-  requiresChainExperience: boolean;
+  requirements: RouteRequirement[];
 }
 
 interface SelectionPeriod {
@@ -37,9 +38,8 @@ interface ManualSelection {
   employeeId: string;
   employeeName: string;
   employeeNumber: string;
-  choice1: string;
-  choice2: string;
-  choice3: string;
+  // Route IDs by rank; empty string means no route entered for that rank
+  choices: string[];
 }
 
 const ManualSelections = () => {
@@ -65,6 +65,9 @@ const ManualSelections = () => {
     enabled: !!selectedTerminal,
   });
 
+  const currentPeriod = periods.find(p => p.id === selectedPeriod);
+  const choiceCount = currentPeriod?.requiredSelections || 3;
+
   // Fetch employees and routes when period is selected
   const { data: employees = [], isLoading: loadingEmployees } = useQuery<Employee[]>({
     queryKey: ['employees', selectedTerminal?.id],
@@ -108,8 +111,8 @@ const ManualSelections = () => {
   useEffect(() => {
     if (employees.length > 0) {
       const sortedEmployees = [...employees].sort((a, b) => {
-        const dateA = new Date(a.hireDate).getTime();
-        const dateB = new Date(b.hireDate).getTime();
+        const dateA = new Date(a.effectiveSeniorityDate).getTime();
+        const dateB = new Date(b.effectiveSeniorityDate).getTime();
         if (dateA !== dateB) return dateA - dateB;
         return a.lastName.localeCompare(b.lastName);
       });
@@ -118,26 +121,22 @@ const ManualSelections = () => {
         employeeId: emp.id,
         employeeName: `${emp.firstName} ${emp.lastName}`,
         employeeNumber: emp.employeeId,
-        choice1: '',
-        choice2: '',
-        choice3: '',
+        choices: Array.from({ length: choiceCount }, () => ''),
       }));
       setSelections(initialSelections);
     }
-  }, [employees]);
+  }, [employees, choiceCount]);
 
   // Save selections mutation
   const saveMutation = useMutation({
     mutationFn: async (selections: ManualSelection[]) => {
-      const validSelections = selections.filter(sel => sel.choice1 || sel.choice2 || sel.choice3);
+      const validSelections = selections.filter(sel => sel.choices.some(choice => choice));
       
       const promises = validSelections.map(selection =>
         apiClient.post('/selections/admin', {
           employeeId: selection.employeeId,
           selectionPeriodId: selectedPeriod,
-          firstChoiceId: selection.choice1 || null,
-          secondChoiceId: selection.choice2 || null,
-          thirdChoiceId: selection.choice3 || null,
+          choiceIds: selection.choices.filter(choice => choice),
         })
       );
       
@@ -153,10 +152,10 @@ const ManualSelections = () => {
     },
   });
 
-  const handleSelectionChange = (employeeId: string, field: 'choice1' | 'choice2' | 'choice3', value: string) => {
+  const handleSelectionChange = (employeeId: string, rankIndex: number, value: string) => {
     setSelections(prev => prev.map(sel => 
       sel.employeeId === employeeId 
-        ? { ...sel, [field]: value }
+        ? { ...sel, choices: sel.choices.map((choice, i) => (i === rankIndex ? value : choice)) }
         : sel
     ));
   };
@@ -166,11 +165,7 @@ const ManualSelections = () => {
     if (!employee) return [];
 
     return routes
-      .filter(route => {
-        if (route.requiresDoublesEndorsement && !employee.doublesEndorsement) return false;
-        if (route.requiresChainExperience && !employee.chainExperience) return false;
-        return true;
-      })
+      .filter(route => getMissingRequirements(employee, route).length === 0)
       .sort((a, b) => {
         // Extract numeric part for proper numeric sorting
         const aNum = parseInt(a.runNumber.replace(/\D/g, '')) || 0;
@@ -185,7 +180,6 @@ const ManualSelections = () => {
            sel.employeeNumber.toLowerCase().includes(search);
   });
 
-  const currentPeriod = periods.find(p => p.id === selectedPeriod);
 
   return (
     <div className="space-y-6">
@@ -258,7 +252,7 @@ const ManualSelections = () => {
             <div className="px-6 py-4 border-b border-gray-200">
               <h2 className="text-lg font-semibold text-gray-900">Driver Route Selections</h2>
               <p className="text-sm text-gray-600 mt-1">
-                Enter up to {currentPeriod?.requiredSelections || 3} route choices for each driver
+                Enter up to {choiceCount} route choices for each driver
               </p>
             </div>
             <div className="overflow-x-auto">
@@ -271,15 +265,11 @@ const ManualSelections = () => {
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                       Employee #
                     </th>
-                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                      1st Choice
-                    </th>
-                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                      2nd Choice
-                    </th>
-                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                      3rd Choice
-                    </th>
+                    {Array.from({ length: choiceCount }, (_, i) => (
+                      <th key={i} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Choice {i + 1}
+                      </th>
+                    ))}
                   </tr>
                 </thead>
                 <tbody className="bg-white divide-y divide-gray-200">
@@ -303,48 +293,24 @@ const ManualSelections = () => {
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                           {selection.employeeNumber}
                         </td>
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <select
-                            value={selection.choice1}
-                            onChange={(e) => handleSelectionChange(selection.employeeId, 'choice1', e.target.value)}
-                            className="w-32 px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-primary-500"
-                          >
-                            <option value="">Select</option>
-                            {eligibleRoutes.map(route => (
-                              <option key={route.id} value={route.id}>
-                                {route.runNumber}
-                              </option>
-                            ))}
-                          </select>
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <select
-                            value={selection.choice2}
-                            onChange={(e) => handleSelectionChange(selection.employeeId, 'choice2', e.target.value)}
-                            className="w-32 px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-primary-500"
-                          >
-                            <option value="">Select</option>
-                            {eligibleRoutes.map(route => (
-                              <option key={route.id} value={route.id}>
-                                {route.runNumber}
-                              </option>
-                            ))}
-                          </select>
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <select
-                            value={selection.choice3}
-                            onChange={(e) => handleSelectionChange(selection.employeeId, 'choice3', e.target.value)}
-                            className="w-32 px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-primary-500"
-                          >
-                            <option value="">Select</option>
-                            {eligibleRoutes.map(route => (
-                              <option key={route.id} value={route.id}>
-                                {route.runNumber}
-                              </option>
-                            ))}
-                          </select>
-                        </td>
+                        {selection.choices.map((choice, rankIndex) => (
+                          <td key={rankIndex} className="px-6 py-4 whitespace-nowrap">
+                            <select
+                              value={choice}
+                              onChange={(e) => handleSelectionChange(selection.employeeId, rankIndex, e.target.value)}
+                              className="w-32 px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-primary-500"
+                            >
+                              <option value="">Select</option>
+                              {eligibleRoutes
+                                .filter(route => route.id === choice || !selection.choices.includes(route.id))
+                                .map(route => (
+                                  <option key={route.id} value={route.id}>
+                                    {route.runNumber}
+                                  </option>
+                                ))}
+                            </select>
+                          </td>
+                        ))}
                       </tr>
                     );
                   })}
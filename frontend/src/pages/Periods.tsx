@@ -17,12 +17,22 @@ import {
   Send,
   AlertCircle,
   Settings,
+  Timer,
+  FlaskConical,
+  Megaphone,
+  Copy,
   Route as RouteIcon
 } from 'lucide-react';
 import apiClient from '../api/client';
 import { useAuth } from '../contexts/AuthContext';
 import { useTerminal } from '../contexts/TerminalContext';
 import LoadingSpinner from '../components/LoadingSpinner';
+import VacancyBidModal from '../components/VacancyBidModal';
+import ClonePeriodModal from '../components/ClonePeriodModal';
+import AssignmentStrategyFields from '../components/AssignmentStrategyFields';
+import SubmissionBandFields from '../components/SubmissionBandFields';
+import type { SubmissionBand } from '../components/SubmissionBandFields';
+import { formatZonedDate, formatZonedDateTime, toZonedDateInput } from '../utils/timeZone';
 
 interface SelectionPeriod {
   id: string;
@@ -32,6 +42,11 @@ interface SelectionPeriod {
   endDate: string;
   status: 'UPCOMING' | 'OPEN' | 'CLOSED' | 'PROCESSING' | 'COMPLETED';
   requiredSelections: number;
+  mode: 'BID' | 'DRAFT';
+  kind: 'REGULAR' | 'VACANCY';
+  cascadeVacancies: boolean;
+  parentPeriod?: { id: string; name: string } | null;
+  terminal: { id: string; code: string; name: string; timeZone: string };
   createdAt: string;
   _count?: {
     selections: number;
@@ -46,6 +61,18 @@ interface PeriodFormData {
   endDate: string;
   routeIds?: string[];
   requiredSelections: number;
+  secondRoundEnabled: boolean;
+  secondRoundHours: number;
+  mode: 'BID' | 'DRAFT';
+  draftPickMinutes: number;
+  draftSkipPolicy: 'FLOAT_POOL' | 'REQUEUE';
+  incumbencyRule: 'FIRST_CHOICE' | 'PRIORITY';
+  teamSeniorityRule: 'JUNIOR' | 'SENIOR';
+  assignmentStrategy: string;
+  strategyParams: Record<string, unknown>;
+  submissionBands: SubmissionBand[];
+  forceAssignEnabled: boolean;
+  forceAssignCap: number | null;
 }
 
 const Periods = () => {
@@ -60,6 +87,8 @@ const Periods = () => {
   const [showDeleteModal, setShowDeleteModal] = useState(false);
   const [showNotifyModal, setShowNotifyModal] = useState(false);
   const [showCloseConfirmModal, setShowCloseConfirmModal] = useState(false);
+  const [showVacancyBidModal, setShowVacancyBidModal] = useState(false);
+  const [clonePeriodId, setClonePeriodId] = useState<string | null>(null);
   const [driversNotSubmitted, setDriversNotSubmitted] = useState<any[]>([]);
   const [submissionStatus, setSubmissionStatus] = useState<any>(null);
   const [statusFilter, setStatusFilter] = useState<'all' | 'UPCOMING' | 'OPEN' | 'CLOSED' | 'PROCESSING' | 'COMPLETED'>('all');
@@ -70,6 +99,18 @@ const Periods = () => {
     endDate: '',
     routeIds: [],
     requiredSelections: 3,
+    secondRoundEnabled: false,
+    secondRoundHours: 48,
+    mode: 'BID',
+    draftPickMinutes: 60,
+    draftSkipPolicy: 'FLOAT_POOL',
+    incumbencyRule: 'FIRST_CHOICE',
+    teamSeniorityRule: 'JUNIOR',
+    assignmentStrategy: 'SENIORITY',
+    strategyParams: {},
+    submissionBands: [],
+    forceAssignEnabled: false,
+    forceAssignCap: null,
   });
 
   // Fetch periods
@@ -249,6 +290,18 @@ const Periods = () => {
       endDate: '',
       routeIds: [],
       requiredSelections: 3,
+      secondRoundEnabled: false,
+      secondRoundHours: 48,
+      mode: 'BID',
+      draftPickMinutes: 60,
+      draftSkipPolicy: 'FLOAT_POOL',
+      incumbencyRule: 'FIRST_CHOICE',
+      teamSeniorityRule: 'JUNIOR',
+      assignmentStrategy: 'SENIORITY',
+      strategyParams: {},
+    submissionBands: [],
+      forceAssignEnabled: false,
+      forceAssignCap: null,
     });
   };
 
@@ -263,10 +316,22 @@ const Periods = () => {
       setFormData({
         name: fullPeriod.name,
         description: fullPeriod.description || '',
-        startDate: fullPeriod.startDate.split('T')[0],
-        endDate: fullPeriod.endDate.split('T')[0],
+        startDate: toZonedDateInput(fullPeriod.startDate, fullPeriod.terminal.timeZone),
+        endDate: toZonedDateInput(fullPeriod.endDate, fullPeriod.terminal.timeZone),
         routeIds: fullPeriod.routes?.map((pr: any) => pr.route.id) || [],
         requiredSelections: fullPeriod.requiredSelections || 3,
+        secondRoundEnabled: fullPeriod.secondRoundEnabled || false,
+        secondRoundHours: fullPeriod.secondRoundHours || 48,
+        mode: fullPeriod.mode || 'BID',
+        draftPickMinutes: fullPeriod.draftPickMinutes || 60,
+        draftSkipPolicy: fullPeriod.draftSkipPolicy || 'FLOAT_POOL',
+        incumbencyRule: fullPeriod.incumbencyRule || 'FIRST_CHOICE',
+        teamSeniorityRule: fullPeriod.teamSeniorityRule || 'JUNIOR',
+        assignmentStrategy: fullPeriod.assignmentStrategy || 'SENIORITY',
+        strategyParams: fullPeriod.strategyParams ? JSON.parse(fullPeriod.strategyParams) : {},
+        submissionBands: fullPeriod.submissionBands ? JSON.parse(fullPeriod.submissionBands) : [],
+        forceAssignEnabled: fullPeriod.forceAssignEnabled || false,
+        forceAssignCap: fullPeriod.forceAssignCap ?? null,
       });
       setShowEditModal(true);
     } catch (error) {
@@ -365,13 +430,23 @@ const Periods = () => {
           <p className="text-gray-600">Manage route selection periods and schedules</p>
         </div>
         {user?.role !== 'Driver' && (
-          <button
-            onClick={() => setShowAddModal(true)}
-            className="btn-primary flex items-center gap-2"
-          >
-            <Plus className="w-4 h-4" />
-            Create Period
-          </button>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => setShowVacancyBidModal(true)}
+              disabled={!selectedTerminal}
+              className="btn-secondary flex items-center gap-2"
+            >
+              <Megaphone className="w-4 h-4" />
+              Vacancy Bid
+            </button>
+            <button
+              onClick={() => setShowAddModal(true)}
+              className="btn-primary flex items-center gap-2"
+            >
+              <Plus className="w-4 h-4" />
+              Create Period
+            </button>
+          </div>
         )}
       </div>
 
@@ -463,8 +538,24 @@ const Periods = () => {
                   {period.description && (
                     <p className="text-sm text-gray-500 mt-1">{period.description}</p>
                   )}
+                  {period.parentPeriod && (
+                    <p className="text-xs text-gray-500 mt-1">Follows {period.parentPeriod.name}</p>
+                  )}
                 </div>
                 <div className="flex items-center gap-2">
+                  {period.kind === 'VACANCY' && (
+                    <span
+                      className="inline-flex items-center px-3 py-1 rounded-full text-xs font-medium bg-amber-100 text-amber-800"
+                      title={period.cascadeVacancies ? 'Routes the winners give up are re-bid automatically' : undefined}
+                    >
+                      Vacancy Bid{period.cascadeVacancies ? ' (cascading)' : ''}
+                    </span>
+                  )}
+                  {period.mode === 'DRAFT' && (
+                    <span className="inline-flex items-center px-3 py-1 rounded-full text-xs font-medium bg-orange-100 text-orange-800">
+                      Live Draft
+                    </span>
+                  )}
                   <span className={`inline-flex items-center gap-1 px-3 py-1 rounded-full text-xs font-medium ${getStatusColor(period.status)}`}>
                     {getStatusIcon(period.status)}
                     {period.status}
@@ -477,7 +568,7 @@ const Periods = () => {
                 <div className="flex items-center gap-2 text-sm text-gray-600">
                   <Calendar className="w-4 h-4" />
                   <span>
-                    {new Date(period.startDate).toLocaleDateString()} - {new Date(period.endDate).toLocaleDateString()}
+                    {formatZonedDate(period.startDate, period.terminal.timeZone)} - {formatZonedDateTime(period.endDate, period.terminal.timeZone)}
                   </span>
                 </div>
                 <div className="flex items-center gap-2 text-sm text-gray-600">
@@ -543,26 +634,15 @@ const Periods = () => {
                       Close
                     </button>
                   )}
-                  {period.status === 'CLOSED' && (
+                  {period.status === 'CLOSED' && period.mode === 'BID' && (
                     <button
-                      onClick={() => handleStatusChange(period, 'PROCESSING')}
-                      disabled={updateStatusMutation.isPending}
+                      onClick={() => navigate(`/process-selections/${period.id}`)}
                       className="flex items-center gap-2 px-3 py-2 bg-purple-100 text-purple-700 hover:bg-purple-200 rounded-lg text-sm font-medium transition-all"
                     >
                       <Activity className="w-4 h-4" />
                       Process
                     </button>
                   )}
-                  {period.status === 'PROCESSING' && (
-                    <button
-                      onClick={() => handleStatusChange(period, 'COMPLETED')}
-                      disabled={updateStatusMutation.isPending}
-                      className="flex items-center gap-2 px-3 py-2 bg-blue-100 text-blue-700 hover:bg-blue-200 rounded-lg text-sm font-medium transition-all"
-                    >
-                      <CheckSquare className="w-4 h-4" />
-                      Complete
-                    </button>
-                  )}
                   <div className="flex-1" />
                   {period.status === 'OPEN' && (
                     <button
@@ -582,6 +662,24 @@ const Periods = () => {
                       <Settings className="w-4 h-4" />
                     </button>
                   )}
+                  {period.mode === 'DRAFT' && period.status !== 'CLOSED' && (
+                    <button
+                      onClick={() => navigate(`/draft/${period.id}`)}
+                      className="p-2 text-gray-500 hover:text-orange-600 hover:bg-orange-50 rounded-lg transition-all"
+                      title="Draft board"
+                    >
+                      <Timer className="w-4 h-4" />
+                    </button>
+                  )}
+                  {period.mode === 'BID' && period.status !== 'COMPLETED' && (
+                    <button
+                      onClick={() => navigate(`/simulate/${period.id}`)}
+                      className="p-2 text-gray-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-all"
+                      title="What-if simulator"
+                    >
+                      <FlaskConical className="w-4 h-4" />
+                    </button>
+                  )}
                   {period.status === 'UPCOMING' && (
                     <button
                       onClick={() => handleNotify(period)}
@@ -591,6 +689,15 @@ const Periods = () => {
                       <Send className="w-4 h-4" />
                     </button>
                   )}
+                  {period.kind === 'REGULAR' && (
+                    <button
+                      onClick={() => setClonePeriodId(period.id)}
+                      className="p-2 text-gray-500 hover:text-primary-600 hover:bg-primary-50 rounded-lg transition-all"
+                      title="Clone as next period"
+                    >
+                      <Copy className="w-4 h-4" />
+                    </button>
+                  )}
                   <button
                     onClick={() => handleEdit(period)}
                     className="p-2 text-gray-500 hover:text-primary-600 hover:bg-primary-50 rounded-lg transition-all"
@@ -732,21 +839,147 @@ const Periods = () => {
                 />
               </div>
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">Required Selections</label>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Bidding Mode</label>
                 <select
-                  value={formData.requiredSelections}
-                  onChange={(e) => setFormData({ ...formData, requiredSelections: parseInt(e.target.value) })}
+                  value={formData.mode}
+                  onChange={(e) => setFormData({ ...formData, mode: e.target.value as PeriodFormData['mode'] })}
                   className="input-field"
-                  required
                 >
-                  <option value={1}>1 Route Selection</option>
-                  <option value={2}>2 Route Selections</option>
-                  <option value={3}>3 Route Selections</option>
+                  <option value="BID">Preference bid (ranked choices processed at close)</option>
+                  <option value="DRAFT">Live draft (timed picks in seniority order)</option>
                 </select>
+              </div>
+              {formData.mode === 'DRAFT' && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Pick Window (minutes)</label>
+                    <input
+                      type="number"
+                      min={1}
+                      value={formData.draftPickMinutes}
+                      onChange={(e) => setFormData({ ...formData, draftPickMinutes: parseInt(e.target.value) || 1 })}
+                      className="input-field"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Missed Pick</label>
+                    <select
+                      value={formData.draftSkipPolicy}
+                      onChange={(e) => setFormData({ ...formData, draftSkipPolicy: e.target.value as PeriodFormData['draftSkipPolicy'] })}
+                      className="input-field"
+                    >
+                      <option value="FLOAT_POOL">Send to float pool</option>
+                      <option value="REQUEUE">Re-queue once at the end</option>
+                    </select>
+                  </div>
+                </div>
+              )}
+              {formData.mode === 'BID' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Keeping Current Route</label>
+                  <select
+                    value={formData.incumbencyRule}
+                    onChange={(e) => setFormData({ ...formData, incumbencyRule: e.target.value as PeriodFormData['incumbencyRule'] })}
+                    className="input-field"
+                  >
+                    <option value="FIRST_CHOICE">Counts as the driver's first choice</option>
+                    <option value="PRIORITY">Incumbency beats seniority</option>
+                  </select>
+                  <p className="text-xs text-gray-500 mt-1">
+                    How a driver's request to keep their current route is weighed.
+                  </p>
+                </div>
+              )}
+              {formData.mode === 'BID' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Team Seniority</label>
+                  <select
+                    value={formData.teamSeniorityRule}
+                    onChange={(e) => setFormData({ ...formData, teamSeniorityRule: e.target.value as PeriodFormData['teamSeniorityRule'] })}
+                    className="input-field"
+                  >
+                    <option value="JUNIOR">Junior partner's seniority</option>
+                    <option value="SENIOR">Senior partner's seniority</option>
+                  </select>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Which partner's seniority places a two-driver team in the bid order.
+                  </p>
+                </div>
+              )}
+              <AssignmentStrategyFields
+                strategy={formData.assignmentStrategy}
+                params={formData.strategyParams}
+                onChange={(assignmentStrategy, strategyParams) => setFormData({ ...formData, assignmentStrategy, strategyParams })}
+              />
+              {formData.mode === 'BID' && (
+                <SubmissionBandFields
+                  bands={formData.submissionBands}
+                  onChange={(submissionBands) => setFormData({ ...formData, submissionBands })}
+                />
+              )}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Required Selections</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={formData.requiredSelections}
+                  onChange={(e) => setFormData({ ...formData, requiredSelections: parseInt(e.target.value) || 1 })}
+                  className="input-field"
+                  required
+                />
                 <p className="text-xs text-gray-500 mt-1">
                   How many route choices can drivers submit?
                 </p>
               </div>
+              <div>
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={formData.secondRoundEnabled}
+                    onChange={(e) => setFormData({ ...formData, secondRoundEnabled: e.target.checked })}
+                    className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                  />
+                  <span className="text-sm font-medium text-gray-700">Enable second round for float-pool drivers</span>
+                </label>
+                {formData.secondRoundEnabled && (
+                  <div className="mt-2">
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Second Round Window (hours)</label>
+                    <input
+                      type="number"
+                      min={1}
+                      value={formData.secondRoundHours}
+                      onChange={(e) => setFormData({ ...formData, secondRoundHours: parseInt(e.target.value) || 1 })}
+                      className="input-field"
+                    />
+                  </div>
+                )}
+              </div>
+              {formData.mode === 'BID' && (
+                <div>
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={formData.forceAssignEnabled}
+                      onChange={(e) => setFormData({ ...formData, forceAssignEnabled: e.target.checked })}
+                      className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                    />
+                    <span className="text-sm font-medium text-gray-700">Force-assign unclaimed routes to float-pool drivers (junior first)</span>
+                  </label>
+                  {formData.forceAssignEnabled && (
+                    <div className="mt-2">
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Maximum Forced Positions</label>
+                      <input
+                        type="number"
+                        min={1}
+                        value={formData.forceAssignCap ?? ''}
+                        onChange={(e) => setFormData({ ...formData, forceAssignCap: e.target.value ? parseInt(e.target.value) || 1 : null })}
+                        placeholder="No limit"
+                        className="input-field"
+                      />
+                    </div>
+                  )}
+                </div>
+              )}
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">Available Routes</label>
                 {allRoutes.length > 0 && (
@@ -887,21 +1120,147 @@ const Periods = () => {
                 />
               </div>
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">Required Selections</label>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Bidding Mode</label>
                 <select
-                  value={formData.requiredSelections}
-                  onChange={(e) => setFormData({ ...formData, requiredSelections: parseInt(e.target.value) })}
+                  value={formData.mode}
+                  onChange={(e) => setFormData({ ...formData, mode: e.target.value as PeriodFormData['mode'] })}
                   className="input-field"
-                  required
                 >
-                  <option value={1}>1 Route Selection</option>
-                  <option value={2}>2 Route Selections</option>
-                  <option value={3}>3 Route Selections</option>
+                  <option value="BID">Preference bid (ranked choices processed at close)</option>
+                  <option value="DRAFT">Live draft (timed picks in seniority order)</option>
                 </select>
+              </div>
+              {formData.mode === 'DRAFT' && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Pick Window (minutes)</label>
+                    <input
+                      type="number"
+                      min={1}
+                      value={formData.draftPickMinutes}
+                      onChange={(e) => setFormData({ ...formData, draftPickMinutes: parseInt(e.target.value) || 1 })}
+                      className="input-field"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Missed Pick</label>
+                    <select
+                      value={formData.draftSkipPolicy}
+                      onChange={(e) => setFormData({ ...formData, draftSkipPolicy: e.target.value as PeriodFormData['draftSkipPolicy'] })}
+                      className="input-field"
+                    >
+                      <option value="FLOAT_POOL">Send to float pool</option>
+                      <option value="REQUEUE">Re-queue once at the end</option>
+                    </select>
+                  </div>
+                </div>
+              )}
+              {formData.mode === 'BID' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Keeping Current Route</label>
+                  <select
+                    value={formData.incumbencyRule}
+                    onChange={(e) => setFormData({ ...formData, incumbencyRule: e.target.value as PeriodFormData['incumbencyRule'] })}
+                    className="input-field"
+                  >
+                    <option value="FIRST_CHOICE">Counts as the driver's first choice</option>
+                    <option value="PRIORITY">Incumbency beats seniority</option>
+                  </select>
+                  <p className="text-xs text-gray-500 mt-1">
+                    How a driver's request to keep their current route is weighed.
+                  </p>
+                </div>
+              )}
+              {formData.mode === 'BID' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Team Seniority</label>
+                  <select
+                    value={formData.teamSeniorityRule}
+                    onChange={(e) => setFormData({ ...formData, teamSeniorityRule: e.target.value as PeriodFormData['teamSeniorityRule'] })}
+                    className="input-field"
+                  >
+                    <option value="JUNIOR">Junior partner's seniority</option>
+                    <option value="SENIOR">Senior partner's seniority</option>
+                  </select>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Which partner's seniority places a two-driver team in the bid order.
+                  </p>
+                </div>
+              )}
+              <AssignmentStrategyFields
+                strategy={formData.assignmentStrategy}
+                params={formData.strategyParams}
+                onChange={(assignmentStrategy, strategyParams) => setFormData({ ...formData, assignmentStrategy, strategyParams })}
+              />
+              {formData.mode === 'BID' && (
+                <SubmissionBandFields
+                  bands={formData.submissionBands}
+                  onChange={(submissionBands) => setFormData({ ...formData, submissionBands })}
+                />
+              )}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Required Selections</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={formData.requiredSelections}
+                  onChange={(e) => setFormData({ ...formData, requiredSelections: parseInt(e.target.value) || 1 })}
+                  className="input-field"
+                  required
+                />
                 <p className="text-xs text-gray-500 mt-1">
                   How many route choices can drivers submit?
                 </p>
               </div>
+              <div>
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={formData.secondRoundEnabled}
+                    onChange={(e) => setFormData({ ...formData, secondRoundEnabled: e.target.checked })}
+                    className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                  />
+                  <span className="text-sm font-medium text-gray-700">Enable second round for float-pool drivers</span>
+                </label>
+                {formData.secondRoundEnabled && (
+                  <div className="mt-2">
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Second Round Window (hours)</label>
+                    <input
+                      type="number"
+                      min={1}
+                      value={formData.secondRoundHours}
+                      onChange={(e) => setFormData({ ...formData, secondRoundHours: parseInt(e.target.value) || 1 })}
+                      className="input-field"
+                    />
+                  </div>
+                )}
+              </div>
+              {formData.mode === 'BID' && (
+                <div>
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={formData.forceAssignEnabled}
+                      onChange={(e) => setFormData({ ...formData, forceAssignEnabled: e.target.checked })}
+                      className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                    />
+                    <span className="text-sm font-medium text-gray-700">Force-assign unclaimed routes to float-pool drivers (junior first)</span>
+                  </label>
+                  {formData.forceAssignEnabled && (
+                    <div className="mt-2">
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Maximum Forced Positions</label>
+                      <input
+                        type="number"
+                        min={1}
+                        value={formData.forceAssignCap ?? ''}
+                        onChange={(e) => setFormData({ ...formData, forceAssignCap: e.target.value ? parseInt(e.target.value) || 1 : null })}
+                        placeholder="No limit"
+                        className="input-field"
+                      />
+                    </div>
+                  )}
+                </div>
+              )}
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">Available Routes</label>
                 {allRoutes.length > 0 && (
@@ -1037,8 +1396,8 @@ const Periods = () => {
                       <br />
                       <p><strong>Selection Period Details:</strong></p>
                       <ul className="list-disc list-inside mt-2 ml-2">
-                        <li>Start Date: {new Date(selectedPeriod.startDate).toLocaleDateString()}</li>
-                        <li>End Date: {new Date(selectedPeriod.endDate).toLocaleDateString()}</li>
+                        <li>Start Date: {formatZonedDate(selectedPeriod.startDate, selectedPeriod.terminal.timeZone)}</li>
+                        <li>End Date: {formatZonedDateTime(selectedPeriod.endDate, selectedPeriod.terminal.timeZone)}</li>
                       </ul>
                       <br />
                       <p><strong>How to Submit Your Selection:</strong></p>
@@ -1194,6 +1553,21 @@ const Periods = () => {
           </div>
         </div>
       )}
+
+      {showVacancyBidModal && selectedTerminal && (
+        <VacancyBidModal
+          terminalId={selectedTerminal.id}
+          completedPeriods={(periods || []).filter(p => p.status === 'COMPLETED')}
+          onClose={() => setShowVacancyBidModal(false)}
+        />
+      )}
+
+      {clonePeriodId && (
+        <ClonePeriodModal
+          periodId={clonePeriodId}
+          onClose={() => setClonePeriodId(null)}
+        />
+      )}
     </div>
   );
 };
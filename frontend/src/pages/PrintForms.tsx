@@ -7,6 +7,8 @@ import { format } from 'date-fns';
 import { Download, ArrowLeft } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { generateRouteFormPDF } from '../utils/generateRouteFormPDF';
+import { formatZonedDate, formatZonedDateTime } from '../utils/timeZone';
+import type { RouteRequirement } from '../utils/qualifications';
 
 interface Route {
   id: string;
@@ -19,8 +21,7 @@ interface Route {
   endTime: string;
   distance: number;
   rateType: string;
-  requiresDoublesEndorsement: boolean;
-  requiresChainExperience: boolean;
+  requirements: RouteRequirement[];
 }
 
 interface SelectionPeriod {
@@ -37,6 +38,7 @@ interface Terminal {
   id: string;
   code: string;
   name: string;
+  timeZone: string;
 }
 
 const PrintForms = () => {
@@ -134,7 +136,8 @@ const PrintForms = () => {
         },
         terminal: {
           code: terminal.code,
-          name: terminal.name
+          name: terminal.name,
+          timeZone: terminal.timeZone
         },
         routes: routes
       });
@@ -359,7 +362,7 @@ const PrintForms = () => {
           <h1 className="text-2xl font-bold mb-2">ROUTE SELECTION FORM</h1>
           <h2 className="text-xl">{terminal.name}</h2>
           <p className="mt-2">
-            Selection Period: {format(new Date(period.startDate), 'MM/dd/yyyy')} - {format(new Date(period.endDate), 'MM/dd/yyyy')}
+            Selection Period: {formatZonedDate(period.startDate, terminal.timeZone)} - {formatZonedDateTime(period.endDate, terminal.timeZone)}
           </p>
         </div>
 
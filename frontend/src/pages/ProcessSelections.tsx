@@ -1,23 +1,29 @@
 import { useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { useQuery, useMutation } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import apiClient from '../api/client';
-import { ArrowLeft, Play, Eye, Download } from 'lucide-react';
+import { waitForJob, describeJobProgress } from '../api/jobs';
+import type { JobProgress } from '../api/jobs';
+import { ArrowLeft, Play, Eye, Download, ChevronDown, ChevronRight, Search } from 'lucide-react';
 import { toast } from 'react-hot-toast';
+import AssignmentRunsPanel from '../components/AssignmentRunsPanel';
+import { formatZonedDateTime } from '../utils/timeZone';
 
 interface SelectionPeriod {
   id: string;
   name: string;
   status: string;
   requiredSelections: number;
+  secondRoundEnabled: boolean;
+  secondRoundStartDate: string | null;
+  secondRoundEndDate: string | null;
+  secondRoundProcessedAt: string | null;
+  terminal: { timeZone: string };
 }
 
 interface Selection {
   id: string;
   employeeId: string;
-  firstChoiceId: string | null;
-  secondChoiceId: string | null;
-  thirdChoiceId: string | null;
   submittedAt: string;
   employee: {
     id: string;
@@ -25,18 +31,78 @@ interface Selection {
     firstName: string;
     lastName: string;
   };
-  firstChoice: { runNumber: string } | null;
-  secondChoice: { runNumber: string } | null;
-  thirdChoice: { runNumber: string } | null;
+  choices: {
+    rank: number;
+    route: { runNumber: string };
+  }[];
 }
 
+interface TraceStep {
+  round?: number;
+  choice: number;
+  routeId: string;
+  runNumber: string | null;
+  outcome: 'TAKEN' | 'ALREADY_AWARDED' | 'RESERVED' | 'DISQUALIFIED' | 'NOT_IN_PERIOD' | 'TEAM_ONLY' | 'TEAM_SPLIT';
+  awardedToEmployeeId?: string;
+  awardedToName?: string;
+  failedRequirement?: string;
+}
+
+interface EmployeeTrace {
+  id: string;
+  seniorityRank: number;
+  employee: {
+    id: string;
+    employeeId: string;
+    firstName: string;
+    lastName: string;
+    hireDate: string;
+  };
+  routeId: string | null;
+  runNumber: string | null;
+  choiceReceived: number | null;
+  reason: string;
+  steps: TraceStep[];
+}
+
+interface TraceResponse {
+  processedAt: string | null;
+  traces: EmployeeTrace[];
+}
+
+const describeStep = (step: TraceStep) => {
+  switch (step.outcome) {
+    case 'TAKEN':
+      return { label: 'Taken', className: 'text-green-700' };
+    case 'ALREADY_AWARDED':
+      return {
+        label: `Already awarded to ${step.awardedToName || 'a more senior driver'}${step.awardedToEmployeeId ? ` (${step.awardedToEmployeeId})` : ''}`,
+        className: 'text-yellow-700',
+      };
+    case 'RESERVED':
+      return { label: 'Reserved - held out of the bid', className: 'text-purple-700' };
+    case 'DISQUALIFIED':
+      return { label: `Disqualified - requires ${step.failedRequirement}`, className: 'text-red-700' };
+    case 'TEAM_ONLY':
+      return { label: 'Team route - awarded only to two-driver teams', className: 'text-blue-700' };
+    case 'TEAM_SPLIT':
+      return { label: 'Only one position left - team not split', className: 'text-yellow-700' };
+    default:
+      return { label: 'Route not part of this period', className: 'text-gray-500' };
+  }
+};
+
 const ProcessSelections = () => {
   const { periodId } = useParams();
   const navigate = useNavigate();
+  const queryClient = useQueryClient();
   const [results, setResults] = useState<any>(null);
+  const [jobProgress, setJobProgress] = useState<JobProgress | null>(null);
+  const [traceSearch, setTraceSearch] = useState('');
+  const [expandedTraces, setExpandedTraces] = useState<Set<string>>(new Set());
 
   // Fetch period details
-  const { data: period } = useQuery<SelectionPeriod>({
+  const { data: period, refetch: refetchPeriod } = useQuery<SelectionPeriod>({
     queryKey: ['period', periodId],
     queryFn: async () => {
       const response = await apiClient.get(`/periods/${periodId}`);
@@ -57,21 +123,71 @@ const ProcessSelections = () => {
     enabled: !!periodId,
   });
 
+  // Fetch the decision trace of the last processing run
+  const { data: traceData, refetch: refetchTrace } = useQuery<TraceResponse>({
+    queryKey: ['assignment-trace', periodId],
+    queryFn: async () => {
+      const response = await apiClient.get(`/assignments/trace/${periodId}`);
+      return response.data;
+    },
+    enabled: !!periodId && period?.status === 'COMPLETED',
+  });
+
   // Process selections mutation
   const processMutation = useMutation({
     mutationFn: async () => {
       const response = await apiClient.post(`/assignments/process/${periodId}`);
-      return response.data;
+      setJobProgress(null);
+      return waitForJob(response.data.jobId, setJobProgress);
     },
     onSuccess: (data) => {
       setResults(data);
-      toast.success('Selections processed successfully!');
+      refetchPeriod();
+      refetchTrace();
+      queryClient.invalidateQueries({ queryKey: ['assignment-runs', periodId] });
+      toast.success('Selections processed. Publish the run to update drivers\' current routes.');
     },
     onError: (error: any) => {
-      toast.error(error.response?.data?.error || 'Failed to process selections');
+      refetchPeriod();
+      toast.error(error.response?.data?.error || error.message || 'Failed to process selections');
     },
   });
 
+  // Open the second round for float-pool drivers
+  const openSecondRoundMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiClient.post(`/assignments/second-round/${periodId}/open`);
+      return response.data;
+    },
+    onSuccess: (data) => {
+      refetchPeriod();
+      toast.success(`Second round opened for ${data.floatPoolDrivers} drivers (${data.notificationsSent} notified)`);
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to open second round');
+    },
+  });
+
+  // Process second round rankings
+  const processSecondRoundMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiClient.post(`/assignments/second-round/${periodId}/process`);
+      return response.data;
+    },
+    onSuccess: (data) => {
+      refetchPeriod();
+      refetchTrace();
+      queryClient.invalidateQueries({ queryKey: ['assignment-runs', periodId] });
+      const awarded = data.assignments.filter((a: { routeId: string | null }) => a.routeId).length;
+      toast.success(`Second round processed: ${awarded} of ${data.assignments.length} drivers awarded a route`);
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to process second round');
+    },
+  });
+
+  const secondRoundWindowClosed = !!period?.secondRoundEndDate && new Date() > new Date(period.secondRoundEndDate);
+
   const handleViewResults = () => {
     navigate(`/selection-results/${periodId}`);
   };
@@ -97,8 +213,30 @@ const ProcessSelections = () => {
     }
   };
 
+  const toggleTrace = (id: string) => {
+    setExpandedTraces(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const filteredTraces = (traceData?.traces || []).filter(trace => {
+    if (!traceSearch) return true;
+    const term = traceSearch.toLowerCase();
+    return (
+      trace.employee.employeeId.toLowerCase().includes(term) ||
+      `${trace.employee.firstName} ${trace.employee.lastName}`.toLowerCase().includes(term) ||
+      trace.steps.some(step => step.runNumber?.toLowerCase().includes(term))
+    );
+  });
+
   const manualSelections = selections.filter(sel => 
-    sel.submittedAt && (sel.firstChoiceId || sel.secondChoiceId || sel.thirdChoiceId)
+    sel.submittedAt && sel.choices.length > 0
   );
 
   return (
@@ -175,9 +313,7 @@ const ProcessSelections = () => {
                       </span>
                     </div>
                     <div className="text-gray-600">
-                      Choices: {selection.firstChoice?.runNumber || '-'}, 
-                      {selection.secondChoice?.runNumber || '-'}, 
-                      {selection.thirdChoice?.runNumber || '-'}
+                      Choices: {selection.choices.map(choice => choice.route.runNumber).join(', ')}
                     </div>
                   </div>
                 ))}
@@ -215,6 +351,45 @@ const ProcessSelections = () => {
                 Export Results
               </button>
             </div>
+
+            {period.secondRoundEnabled && (
+              <div className="pt-4 border-t border-gray-200">
+                <h3 className="font-medium text-gray-900 mb-1">Second Round</h3>
+                {period.secondRoundProcessedAt ? (
+                  <p className="text-sm text-green-600">
+                    ✓ Second round processed {formatZonedDateTime(period.secondRoundProcessedAt, period.terminal.timeZone)}
+                  </p>
+                ) : period.secondRoundStartDate && period.secondRoundEndDate ? (
+                  <div className="space-y-2">
+                    <p className="text-sm text-gray-600">
+                      Float-pool drivers may rank unclaimed routes until {formatZonedDateTime(period.secondRoundEndDate, period.terminal.timeZone)}.
+                    </p>
+                    <button
+                      onClick={() => processSecondRoundMutation.mutate()}
+                      disabled={processSecondRoundMutation.isPending || !secondRoundWindowClosed}
+                      className="inline-flex items-center px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      <Play className="w-4 h-4 mr-2" />
+                      {processSecondRoundMutation.isPending ? 'Processing...' : 'Process Second Round'}
+                    </button>
+                  </div>
+                ) : (
+                  <div className="space-y-2">
+                    <p className="text-sm text-gray-600">
+                      Give float-pool drivers a window to rank the routes nobody claimed in round one. Each driver is emailed.
+                    </p>
+                    <button
+                      onClick={() => openSecondRoundMutation.mutate()}
+                      disabled={openSecondRoundMutation.isPending}
+                      className="inline-flex items-center px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      <Play className="w-4 h-4 mr-2" />
+                      {openSecondRoundMutation.isPending ? 'Opening...' : 'Open Second Round'}
+                    </button>
+                  </div>
+                )}
+              </div>
+            )}
           </div>
         ) : (
           <div className="space-y-4">
@@ -229,7 +404,7 @@ const ProcessSelections = () => {
               {processMutation.isPending ? (
                 <>
                   <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
-                  Processing...
+                  {describeJobProgress(jobProgress)}
                 </>
               ) : (
                 <>
@@ -252,6 +427,81 @@ const ProcessSelections = () => {
           </div>
         )}
       </div>
+
+      {/* Processed runs wait in a CLOSED period for review; publishing one completes the period */}
+      {(period?.status === 'CLOSED' || period?.status === 'COMPLETED') && periodId && <AssignmentRunsPanel periodId={periodId} />}
+
+      {/* Decision Trace */}
+      {traceData && traceData.traces.length > 0 && (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mt-6">
+          <div className="flex justify-between items-start mb-4">
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">Decision Trace</h2>
+              <p className="text-sm text-gray-600">
+                Every choice evaluated for each driver, in seniority order
+                {traceData.processedAt && ` • Processed ${new Date(traceData.processedAt).toLocaleString()}`}
+              </p>
+            </div>
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
+              <input
+                type="text"
+                placeholder="Search driver or run..."
+                value={traceSearch}
+                onChange={(e) => setTraceSearch(e.target.value)}
+                className="pl-9 pr-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+              />
+            </div>
+          </div>
+
+          <div className="divide-y divide-gray-100 border border-gray-200 rounded">
+            {filteredTraces.map(trace => {
+              const expanded = expandedTraces.has(trace.id);
+              return (
+                <div key={trace.id}>
+                  <button
+                    onClick={() => toggleTrace(trace.id)}
+                    className="w-full flex items-center justify-between p-3 text-sm hover:bg-gray-50 text-left"
+                  >
+                    <div className="flex items-center gap-2">
+                      {expanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                      <span className="text-gray-500 w-10">#{trace.seniorityRank}</span>
+                      <span className="font-medium">
+                        {trace.employee.firstName} {trace.employee.lastName}
+                      </span>
+                      <span className="text-gray-500">({trace.employee.employeeId})</span>
+                    </div>
+                    <span className={trace.runNumber ? 'text-green-700' : 'text-orange-600'}>
+                      {trace.runNumber ? `Route ${trace.runNumber}` : 'Float Pool'}
+                    </span>
+                  </button>
+                  {expanded && (
+                    <div className="px-10 pb-3 text-sm space-y-1">
+                      {trace.steps.length === 0 ? (
+                        <p className="text-gray-500">No choices evaluated</p>
+                      ) : (
+                        trace.steps.map(step => {
+                          const { label, className } = describeStep(step);
+                          return (
+                            <div key={`${trace.id}-${step.round ?? 1}-${step.choice}`} className="flex gap-2">
+                              <span className="text-gray-500 w-20">
+                                {step.round && step.round > 1 ? `R${step.round} ` : ''}Choice {step.choice}:
+                              </span>
+                              <span className="font-medium w-16">{step.runNumber || '-'}</span>
+                              <span className={className}>{label}</span>
+                            </div>
+                          );
+                        })
+                      )}
+                      <p className="text-gray-600 italic pt-1">{trace.reason}</p>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
     </div>
   );
 };
@@ -19,6 +19,9 @@ import apiClient from '../api/client';
 import { useAuth } from '../contexts/AuthContext';
 import { useTerminal } from '../contexts/TerminalContext';
 import LoadingSpinner from '../components/LoadingSpinner';
+import RouteAbolishmentsPanel from '../components/RouteAbolishmentsPanel';
+import type { Qualification, RouteRequirement } from '../utils/qualifications';
+import { formatRequirements } from '../utils/qualifications';
 
 interface Route {
   id: string;
@@ -32,8 +35,10 @@ interface Route {
   distance: number;
   rateType: string;
   workTime: number;
-  requiresDoublesEndorsement: boolean;
-  requiresChainExperience: boolean;
+  positions: number;
+  teamOnly: boolean;
+  requirements: RouteRequirement[];
+  scheduleWarnings?: string[];
   isActive: boolean;
   createdAt: string;
   updatedAt: string;
@@ -50,8 +55,9 @@ interface RouteFormData {
   distance: number;
   rateType: 'HOURLY' | 'MILEAGE' | 'FLAT_RATE';
   workTime: number;
-  requiresDoublesEndorsement: boolean;
-  requiresChainExperience: boolean;
+  positions: number;
+  teamOnly: boolean;
+  requirementIds: string[];
   isActive: boolean;
 }
 
@@ -76,8 +82,9 @@ const RouteManagement = () => {
     distance: 0,
     rateType: 'HOURLY',
     workTime: 0,
-    requiresDoublesEndorsement: false,
-    requiresChainExperience: false,
+    positions: 1,
+    teamOnly: false,
+    requirementIds: [],
     isActive: true,
   });
 
@@ -94,6 +101,16 @@ const RouteManagement = () => {
     enabled: !!selectedTerminal,
   });
 
+  const { data: qualificationCatalog = [] } = useQuery<Qualification[]>({
+    queryKey: ['qualifications', 'active'],
+    queryFn: async () => {
+      const response = await apiClient.get('/qualifications?isActive=true');
+      return response.data;
+    },
+  });
+
+  const doublesQualificationId = qualificationCatalog.find(q => q.code === 'DOUBLES')?.id;
+
   // Delete route mutation
   const deleteRouteMutation = useMutation({
     mutationFn: async (routeId: string) => {
@@ -204,8 +221,9 @@ const RouteManagement = () => {
       distance: 0,
       rateType: 'HOURLY',
       workTime: 0,
-      requiresDoublesEndorsement: false,
-      requiresChainExperience: false,
+      positions: 1,
+      teamOnly: false,
+      requirementIds: [],
       isActive: true,
     });
   };
@@ -273,8 +291,9 @@ const RouteManagement = () => {
       distance: route.distance,
       rateType: mapRateType(route.rateType),
       workTime: route.workTime,
-      requiresDoublesEndorsement: route.requiresDoublesEndorsement,
-      requiresChainExperience: route.requiresChainExperience,
+      positions: route.positions,
+      teamOnly: route.teamOnly,
+      requirementIds: route.requirements.map(r => r.qualificationId),
       isActive: route.isActive,
     });
     setShowEditModal(true);
@@ -297,11 +316,23 @@ const RouteManagement = () => {
     }
   };
 
+  const toggleRequirement = (qualificationId: string, checked: boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      requirementIds: checked
+        ? [...prev.requirementIds, qualificationId]
+        : prev.requirementIds.filter(id => id !== qualificationId),
+    }));
+  };
+
+  // Doubles routes always require the doubles endorsement; the API enforces the same rule
   useEffect(() => {
-    if (formData.type === 'DOUBLES') {
-      setFormData(prev => ({ ...prev, requiresDoublesEndorsement: true }));
+    if (formData.type === 'DOUBLES' && doublesQualificationId) {
+      setFormData(prev => prev.requirementIds.includes(doublesQualificationId)
+        ? prev
+        : { ...prev, requirementIds: [...prev.requirementIds, doublesQualificationId] });
     }
-  }, [formData.type]);
+  }, [formData.type, doublesQualificationId]);
 
   if (isLoading) {
     return (
@@ -328,8 +359,8 @@ const RouteManagement = () => {
   const routeStats = {
     total: routes?.length || 0,
     active: routes?.filter(r => r.isActive).length || 0,
-    requiresDoubles: routes?.filter(r => r.requiresDoublesEndorsement).length || 0,
-    requiresChains: routes?.filter(r => r.requiresChainExperience).length || 0,
+    withRequirements: routes?.filter(r => r.requirements.length > 0).length || 0,
+    unrestricted: routes?.filter(r => r.requirements.length === 0).length || 0,
   };
 
   return (
@@ -403,8 +434,8 @@ const RouteManagement = () => {
         <div className="card p-6">
           <div className="flex items-center justify-between">
             <div>
-              <p className="text-sm text-gray-600">Requires Doubles</p>
-              <p className="text-2xl font-bold text-gray-900">{routeStats.requiresDoubles}</p>
+              <p className="text-sm text-gray-600">With Requirements</p>
+              <p className="text-2xl font-bold text-gray-900">{routeStats.withRequirements}</p>
             </div>
             <div className="bg-yellow-100 p-3 rounded-xl">
               <Award className="w-6 h-6 text-yellow-600" />
@@ -414,8 +445,8 @@ const RouteManagement = () => {
         <div className="card p-6">
           <div className="flex items-center justify-between">
             <div>
-              <p className="text-sm text-gray-600">Requires Chains</p>
-              <p className="text-2xl font-bold text-gray-900">{routeStats.requiresChains}</p>
+              <p className="text-sm text-gray-600">Unrestricted</p>
+              <p className="text-2xl font-bold text-gray-900">{routeStats.unrestricted}</p>
             </div>
             <div className="bg-orange-100 p-3 rounded-xl">
               <AlertTriangle className="w-6 h-6 text-orange-600" />
@@ -454,9 +485,18 @@ const RouteManagement = () => {
                       </div>
                       <span className="font-medium text-gray-900">{route.runNumber}</span>
                     </div>
+                    {route.positions > 1 && (
+                      <div className="text-xs text-gray-500 mt-0.5">{route.positions} positions</div>
+                    )}
+                    {route.teamOnly && (
+                      <div className="text-xs text-gray-500 mt-0.5">Team route</div>
+                    )}
                   </td>
                   <td className="py-4 px-6">
                     <span className="text-sm text-gray-900">{route.type}</span>
+                    {route.requirements.length > 0 && (
+                      <div className="text-xs text-gray-500 mt-0.5">Requires {formatRequirements(route.requirements)}</div>
+                    )}
                   </td>
                   <td className="py-4 px-6">
                     <div className="flex items-center gap-2 text-sm text-gray-900">
@@ -468,7 +508,17 @@ const RouteManagement = () => {
                     <div className="flex items-center gap-2 text-sm text-gray-900">
                       <Clock className="w-4 h-4 text-gray-400" />
                       <span>{route.startTime} - {route.endTime}</span>
+                      {route.scheduleWarnings && route.scheduleWarnings.length > 0 && (
+                        <span title={route.scheduleWarnings.join('\n')}>
+                          <AlertTriangle className="w-4 h-4 text-amber-500" />
+                        </span>
+                      )}
                     </div>
+                    {route.scheduleWarnings && route.scheduleWarnings.length > 0 && (
+                      <div className="text-xs text-amber-700 mt-0.5">
+                        {route.scheduleWarnings.length} schedule warning{route.scheduleWarnings.length !== 1 ? 's' : ''}
+                      </div>
+                    )}
                   </td>
                   <td className="py-4 px-6">
                     <span className="text-sm text-gray-900">{route.days}</span>
@@ -561,6 +611,14 @@ const RouteManagement = () => {
         </div>
       )}
 
+      {/* Route Abolishments */}
+      {user?.role !== 'Driver' && selectedTerminal && (
+        <RouteAbolishmentsPanel
+          terminalId={selectedTerminal.id}
+          routes={(routes || []).filter(route => route.isActive)}
+        />
+      )}
+
       {/* Delete Confirmation Modal */}
       {showDeleteModal && selectedRoute && (
         <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
@@ -722,36 +780,53 @@ const RouteManagement = () => {
                     step="0.5"
                   />
                 </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Positions</label>
+                  <input
+                    type="number"
+                    value={formData.positions}
+                    onChange={(e) => setFormData({ ...formData, positions: parseInt(e.target.value, 10) || 1 })}
+                    className="input-field"
+                    min="1"
+                    step="1"
+                    title="Drivers who can hold this run at the same time"
+                  />
+                </div>
               </div>
 
               <div className="space-y-3">
+                <p className="text-sm font-medium text-gray-700">Required Qualifications</p>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                  {qualificationCatalog.map(qualification => (
+                    <label key={qualification.id} className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={formData.requirementIds.includes(qualification.id)}
+                        onChange={(e) => toggleRequirement(qualification.id, e.target.checked)}
+                        className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                        disabled={formData.type === 'DOUBLES' && qualification.id === doublesQualificationId}
+                      />
+                      <span className="text-sm text-gray-700">{qualification.name}</span>
+                    </label>
+                  ))}
+                </div>
                 <label className="flex items-center gap-2">
                   <input
                     type="checkbox"
-                    checked={formData.requiresDoublesEndorsement}
-                    onChange={(e) => setFormData({ ...formData, requiresDoublesEndorsement: e.target.checked })}
-                    className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
-                    disabled={formData.type === 'DOUBLES'}
-                  />
-                  <span className="text-sm text-gray-700">Requires Doubles Endorsement</span>
-                </label>
-                <label className="flex items-center gap-2">
-                  <input
-                    type="checkbox"
-                    checked={formData.requiresChainExperience}
-                    onChange={(e) => setFormData({ ...formData, requiresChainExperience: e.target.checked })}
+                    checked={formData.isActive}
+                    onChange={(e) => setFormData({ ...formData, isActive: e.target.checked })}
                     className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
                   />
-                  <span className="text-sm text-gray-700">Requires Chain Experience</span>
+                  <span className="text-sm text-gray-700">Active</span>
                 </label>
                 <label className="flex items-center gap-2">
                   <input
                     type="checkbox"
-                    checked={formData.isActive}
-                    onChange={(e) => setFormData({ ...formData, isActive: e.target.checked })}
+                    checked={formData.teamOnly}
+                    onChange={(e) => setFormData({ ...formData, teamOnly: e.target.checked })}
                     className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
                   />
-                  <span className="text-sm text-gray-700">Active</span>
+                  <span className="text-sm text-gray-700">Team route (awarded only to two-driver teams)</span>
                 </label>
               </div>
 
@@ -908,36 +983,53 @@ const RouteManagement = () => {
                     step="0.5"
                   />
                 </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Positions</label>
+                  <input
+                    type="number"
+                    value={formData.positions}
+                    onChange={(e) => setFormData({ ...formData, positions: parseInt(e.target.value, 10) || 1 })}
+                    className="input-field"
+                    min="1"
+                    step="1"
+                    title="Drivers who can hold this run at the same time"
+                  />
+                </div>
               </div>
 
               <div className="space-y-3">
+                <p className="text-sm font-medium text-gray-700">Required Qualifications</p>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                  {qualificationCatalog.map(qualification => (
+                    <label key={qualification.id} className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={formData.requirementIds.includes(qualification.id)}
+                        onChange={(e) => toggleRequirement(qualification.id, e.target.checked)}
+                        className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                        disabled={formData.type === 'DOUBLES' && qualification.id === doublesQualificationId}
+                      />
+                      <span className="text-sm text-gray-700">{qualification.name}</span>
+                    </label>
+                  ))}
+                </div>
                 <label className="flex items-center gap-2">
                   <input
                     type="checkbox"
-                    checked={formData.requiresDoublesEndorsement}
-                    onChange={(e) => setFormData({ ...formData, requiresDoublesEndorsement: e.target.checked })}
-                    className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
-                    disabled={formData.type === 'DOUBLES'}
-                  />
-                  <span className="text-sm text-gray-700">Requires Doubles Endorsement</span>
-                </label>
-                <label className="flex items-center gap-2">
-                  <input
-                    type="checkbox"
-                    checked={formData.requiresChainExperience}
-                    onChange={(e) => setFormData({ ...formData, requiresChainExperience: e.target.checked })}
+                    checked={formData.isActive}
+                    onChange={(e) => setFormData({ ...formData, isActive: e.target.checked })}
                     className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
                   />
-                  <span className="text-sm text-gray-700">Requires Chain Experience</span>
+                  <span className="text-sm text-gray-700">Active</span>
                 </label>
                 <label className="flex items-center gap-2">
                   <input
                     type="checkbox"
-                    checked={formData.isActive}
-                    onChange={(e) => setFormData({ ...formData, isActive: e.target.checked })}
+                    checked={formData.teamOnly}
+                    onChange={(e) => setFormData({ ...formData, teamOnly: e.target.checked })}
                     className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
                   />
-                  <span className="text-sm text-gray-700">Active</span>
+                  <span className="text-sm text-gray-700">Team route (awarded only to two-driver teams)</span>
                 </label>
               </div>
 
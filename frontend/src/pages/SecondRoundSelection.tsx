@@ -0,0 +1,287 @@
+import { useState, useEffect } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { ArrowLeft, AlertCircle, CheckCircle, Info, ChevronUp, ChevronDown, X } from 'lucide-react';
+import apiClient from '../api/client';
+import { toast } from 'react-hot-toast';
+import LoadingSpinner from '../components/LoadingSpinner';
+import { formatZonedDateTime } from '../utils/timeZone';
+
+interface Route {
+  id: string;
+  runNumber: string;
+  origin: string;
+  destination: string;
+  type: string;
+  startTime: string | null;
+  workTime: number | null;
+}
+
+interface SecondRoundData {
+  period: {
+    id: string;
+    name: string;
+    requiredSelections: number;
+    secondRoundStartDate: string | null;
+    secondRoundEndDate: string | null;
+    terminal: { timeZone: string };
+  };
+  isFloatPool: boolean;
+  isOpen: boolean;
+  availableRoutes: Route[];
+  choiceIds: string[];
+}
+
+const SecondRoundSelection = () => {
+  const { periodId } = useParams();
+  const navigate = useNavigate();
+  const [choices, setChoices] = useState<string[]>([]);
+
+  // Fetch second round window, leftover routes and any saved ranking
+  const { data, isLoading } = useQuery<SecondRoundData>({
+    queryKey: ['second-round', periodId],
+    queryFn: async () => {
+      const response = await apiClient.get(`/selections/second-round/${periodId}`);
+      return response.data;
+    },
+    enabled: !!periodId,
+  });
+
+  useEffect(() => {
+    if (data) {
+      setChoices(data.choiceIds);
+    }
+  }, [data]);
+
+  const submitMutation = useMutation({
+    mutationFn: async (choiceIds: string[]) => {
+      const response = await apiClient.put(`/selections/second-round/${periodId}`, { choiceIds });
+      return response.data;
+    },
+    onSuccess: () => {
+      toast.success('Second round ranking saved');
+      navigate('/selections');
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to save second round ranking');
+    },
+  });
+
+  const maxChoices = data?.period.requiredSelections || 3;
+
+  const toggleChoice = (routeId: string) => {
+    if (choices.includes(routeId)) {
+      setChoices(choices.filter(id => id !== routeId));
+      return;
+    }
+    if (choices.length >= maxChoices) {
+      toast.error(`You can rank up to ${maxChoices} routes`);
+      return;
+    }
+    setChoices([...choices, routeId]);
+  };
+
+  const moveChoice = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= choices.length) return;
+    const reordered = [...choices];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setChoices(reordered);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <LoadingSpinner size="lg" text="Loading second round..." />
+      </div>
+    );
+  }
+
+  if (!data || !data.isOpen || !data.isFloatPool) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-6 max-w-2xl mx-auto">
+          <div className="flex items-center gap-3">
+            <AlertCircle className="w-6 h-6 text-yellow-600" />
+            <div>
+              <h3 className="font-semibold text-yellow-900">Second Round Not Available</h3>
+              <p className="text-yellow-700">
+                {data && !data.isFloatPool
+                  ? 'Only drivers left in the float pool after round one can bid in the second round.'
+                  : 'The second round for this period is not currently open.'}
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={() => navigate('/selections')}
+            className="mt-4 inline-flex items-center px-4 py-2 bg-yellow-600 hover:bg-yellow-700 text-white rounded-lg transition-colors"
+          >
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Selections
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const routes = data.availableRoutes;
+  const getRouteById = (id: string) => routes.find(r => r.id === id);
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-6xl">
+      <div className="mb-6">
+        <button
+          onClick={() => navigate('/selections')}
+          className="inline-flex items-center text-gray-600 hover:text-gray-900 mb-4"
+        >
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back to Selections
+        </button>
+
+        <div className="flex justify-between items-start">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Second Round Selection</h1>
+            <p className="text-gray-600 mt-1">{data.period.name}</p>
+          </div>
+          {data.period.secondRoundEndDate && (
+            <div className="text-right">
+              <p className="text-sm text-gray-600">Closes</p>
+              <p className="text-lg font-semibold text-primary-600">
+                {formatZonedDateTime(data.period.secondRoundEndDate, data.period.terminal.timeZone)}
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-6">
+        <div className="flex items-start gap-3">
+          <Info className="w-5 h-5 text-blue-600 flex-shrink-0 mt-0.5" />
+          <p className="text-sm text-blue-800">
+            None of your round one choices were available. Rank the routes that were not claimed in round one;
+            they will be awarded in seniority order among float-pool drivers.
+          </p>
+        </div>
+      </div>
+
+      {/* Ranked Choices */}
+      <div className="bg-gray-50 rounded-lg border border-gray-200 p-6 mb-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-1">Your Ranked Choices</h3>
+        <p className="text-sm text-gray-600 mb-4">
+          {choices.length} of {maxChoices} selected.
+        </p>
+        {choices.length === 0 ? (
+          <p className="text-gray-500 text-center py-4">Select routes below to build your ranked list</p>
+        ) : (
+          <ol className="space-y-2">
+            {choices.map((routeId, index) => {
+              const route = getRouteById(routeId);
+              return (
+                <li
+                  key={routeId}
+                  className="flex items-center justify-between bg-white border border-gray-200 rounded-lg px-4 py-2"
+                >
+                  <div className="flex items-center gap-3">
+                    <span className="w-7 h-7 flex items-center justify-center rounded-full bg-primary-600 text-white text-sm font-semibold">
+                      {index + 1}
+                    </span>
+                    <span className="font-medium text-gray-900">
+                      {route ? `${route.runNumber} - ${route.origin} → ${route.destination}` : 'Route unavailable'}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <button
+                      onClick={() => moveChoice(index, -1)}
+                      disabled={index === 0}
+                      className="p-1 text-gray-500 hover:text-gray-900 disabled:opacity-30"
+                      title="Move up"
+                    >
+                      <ChevronUp className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => moveChoice(index, 1)}
+                      disabled={index === choices.length - 1}
+                      className="p-1 text-gray-500 hover:text-gray-900 disabled:opacity-30"
+                      title="Move down"
+                    >
+                      <ChevronDown className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => toggleChoice(routeId)}
+                      className="p-1 text-red-500 hover:text-red-700"
+                      title="Remove"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </div>
+
+      {/* Leftover Routes */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 mb-8">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">Unclaimed Routes</h3>
+        <div className="space-y-2">
+          {routes.length === 0 ? (
+            <p className="text-gray-500 text-center py-4">No routes were left unclaimed in round one</p>
+          ) : (
+            routes.map(route => {
+              const rank = choices.indexOf(route.id) + 1;
+              return (
+                <button
+                  key={route.id}
+                  onClick={() => toggleChoice(route.id)}
+                  className={`w-full text-left p-4 border rounded-lg transition-all ${
+                    rank > 0 ? 'border-primary-500 bg-primary-50' : 'border-gray-200 hover:border-primary-300 hover:bg-gray-50'
+                  }`}
+                >
+                  <div className="flex items-start justify-between">
+                    <div>
+                      <div className="font-medium text-gray-900">
+                        {route.runNumber} - {route.origin} → {route.destination}
+                      </div>
+                      <div className="text-sm text-gray-600 mt-1">
+                        Type: {route.type}
+                        {route.startTime && ` • Start: ${route.startTime}`}
+                        {route.workTime && ` • Work Time: ${route.workTime}h`}
+                      </div>
+                    </div>
+                    {rank > 0 ? (
+                      <span className="inline-flex items-center gap-1 text-sm font-semibold text-primary-700">
+                        <CheckCircle className="w-5 h-5" />
+                        #{rank}
+                      </span>
+                    ) : (
+                      <div className="w-5 h-5 rounded-full border-2 border-gray-300" />
+                    )}
+                  </div>
+                </button>
+              );
+            })
+          )}
+        </div>
+      </div>
+
+      <div className="flex gap-4">
+        <button
+          onClick={() => navigate('/selections')}
+          className="px-6 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={() => submitMutation.mutate(choices)}
+          disabled={choices.length === 0 || submitMutation.isPending}
+          className="flex-1 px-6 py-3 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+        >
+          {submitMutation.isPending ? 'Saving...' : 'Save Ranking'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SecondRoundSelection;
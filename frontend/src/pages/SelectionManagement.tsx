@@ -17,8 +17,16 @@ import {
   Download
 } from 'lucide-react';
 import apiClient from '../api/client';
+import { formatZonedDate, formatZonedDateTime } from '../utils/timeZone';
+import { waitForJob, describeJobProgress } from '../api/jobs';
+import type { JobProgress } from '../api/jobs';
 import { useAuth } from '../contexts/AuthContext';
 import LoadingSpinner from '../components/LoadingSpinner';
+import RouteReservationsPanel from '../components/RouteReservationsPanel';
+import PeriodRosterPanel from '../components/PeriodRosterPanel';
+import type { HeldQualification, RouteRequirement } from '../utils/qualifications';
+import { getMissingRequirements, isQualificationExpired } from '../utils/qualifications';
+import { countByRank, getAwardedRanks, getOrdinal } from '../utils/choiceRanks';
 
 interface Selection {
   id: string;
@@ -28,36 +36,20 @@ interface Selection {
     firstName: string;
     lastName: string;
     hireDate: string;
-    doublesEndorsement: boolean;
-    chainExperience: boolean;
+    qualifications: HeldQualification[];
   };
-  firstChoice: {
+  choices: {
     id: string;
-    runNumber: string;
-    origin: string;
-    destination: string;
-    type: string;
-    requiresDoublesEndorsement: boolean;
-    requiresChainExperience: boolean;
-  } | null;
-  secondChoice: {
-    id: string;
-    runNumber: string;
-    origin: string;
-    destination: string;
-    type: string;
-    requiresDoublesEndorsement: boolean;
-    requiresChainExperience: boolean;
-  } | null;
-  thirdChoice: {
-    id: string;
-    runNumber: string;
-    origin: string;
-    destination: string;
-    type: string;
-    requiresDoublesEndorsement: boolean;
-    requiresChainExperience: boolean;
-  } | null;
+    rank: number;
+    route: {
+      id: string;
+      runNumber: string;
+      origin: string;
+      destination: string;
+      type: string;
+      requirements: RouteRequirement[];
+    };
+  }[];
   submittedAt: string;
   confirmationNumber: string;
 }
@@ -84,8 +76,12 @@ interface PeriodDetails {
   id: string;
   name: string;
   status: string;
+  kind: 'REGULAR' | 'VACANCY';
+  terminalId: string;
+  draftStartedAt: string | null;
   startDate: string;
   endDate: string;
+  terminal: { timeZone: string };
   selections: Selection[];
   assignments: Assignment[];
 }
@@ -99,6 +95,7 @@ const SelectionManagement = () => {
   const [showProcessModal, setShowProcessModal] = useState(false);
   const [showResultsModal, setShowResultsModal] = useState(false);
   const [processingResults, setProcessingResults] = useState<any>(null);
+  const [jobProgress, setJobProgress] = useState<JobProgress | null>(null);
   const [showSubmissionStatus, setShowSubmissionStatus] = useState(false);
   const [submissionStatus, setSubmissionStatus] = useState<any>(null);
 
@@ -127,7 +124,8 @@ const SelectionManagement = () => {
   const processSelectionsMutation = useMutation({
     mutationFn: async () => {
       const response = await apiClient.post(`/assignments/process/${periodId}`);
-      return response.data;
+      setJobProgress(null);
+      return waitForJob(response.data.jobId, setJobProgress);
     },
     onSuccess: (data) => {
       setProcessingResults(data);
@@ -135,6 +133,10 @@ const SelectionManagement = () => {
       setShowResultsModal(true);
       queryClient.invalidateQueries({ queryKey: ['period', periodId] });
     },
+    onError: (error: any) => {
+      queryClient.invalidateQueries({ queryKey: ['period', periodId] });
+      alert(`Error: ${error.response?.data?.error || error.message || 'Failed to process assignments'}`);
+    },
   });
 
   // Notify employees mutation
@@ -166,12 +168,9 @@ const SelectionManagement = () => {
   const checkQualification = (employee: any, route: any) => {
     if (!route) return { qualified: true, reason: '' };
     
-    if (route.requiresDoublesEndorsement && !employee.doublesEndorsement) {
-      return { qualified: false, reason: 'Missing doubles endorsement' };
-    }
-    
-    if (route.requiresChainExperience && !employee.chainExperience) {
-      return { qualified: false, reason: 'Missing chain experience' };
+    const missing = getMissingRequirements(employee, route);
+    if (missing.length > 0) {
+      return { qualified: false, reason: `Missing ${missing.join(', ')}` };
     }
     
     return { qualified: true, reason: '' };
@@ -189,7 +188,7 @@ const SelectionManagement = () => {
       csvRows.push([
         assignment.employeeId || '',
         assignment.routeId || 'Float Pool',
-        assignment.choiceReceived || 'N/A',
+        assignment.forced ? 'Forced' : assignment.choiceReceived || 'N/A',
         assignment.reason || '',
       ]);
     });
@@ -234,9 +233,9 @@ const SelectionManagement = () => {
   const stats = {
     totalEmployees: period.selections.length,
     processedAssignments: period.assignments.length,
-    firstChoiceAwarded: period.assignments.filter(a => a.choiceReceived === 1).length,
-    secondChoiceAwarded: period.assignments.filter(a => a.choiceReceived === 2).length,
-    thirdChoiceAwarded: period.assignments.filter(a => a.choiceReceived === 3).length,
+    choicesByRank: countByRank(period.assignments),
+    // Drivers awarded any route they ranked
+    choiceAwarded: period.assignments.filter(a => a.choiceReceived !== null).length,
     floatPool: period.assignments.filter(a => a.choiceReceived === null).length,
   };
 
@@ -297,13 +296,13 @@ const SelectionManagement = () => {
           <div>
             <p className="text-sm text-gray-600">Start Date</p>
             <p className="font-medium text-gray-900">
-              {new Date(period.startDate).toLocaleDateString()}
+              {formatZonedDate(period.startDate, period.terminal.timeZone)}
             </p>
           </div>
           <div>
             <p className="text-sm text-gray-600">End Date</p>
             <p className="font-medium text-gray-900">
-              {new Date(period.endDate).toLocaleDateString()}
+              {formatZonedDateTime(period.endDate, period.terminal.timeZone)}
             </p>
           </div>
           <div>
@@ -368,33 +367,27 @@ const SelectionManagement = () => {
                   <Users className="w-8 h-8 text-gray-400" />
                 </div>
               </div>
-              <div className="card p-4">
-                <div className="flex items-center justify-between">
-                  <div>
-                    <p className="text-xs text-gray-600">1st Choice</p>
-                    <p className="text-xl font-bold text-green-600">{stats.firstChoiceAwarded}</p>
-                  </div>
-                  <CheckCircle className="w-8 h-8 text-green-400" />
-                </div>
-              </div>
-              <div className="card p-4">
-                <div className="flex items-center justify-between">
-                  <div>
-                    <p className="text-xs text-gray-600">2nd Choice</p>
-                    <p className="text-xl font-bold text-yellow-600">{stats.secondChoiceAwarded}</p>
+              {getAwardedRanks(stats.choicesByRank).map(rank => (
+                <div key={rank} className="card p-4">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="text-xs text-gray-600">{getOrdinal(rank)} Choice</p>
+                      <p className={`text-xl font-bold ${
+                        rank === 1 ? 'text-green-600' : rank === 2 ? 'text-yellow-600' : 'text-orange-600'
+                      }`}>
+                        {stats.choicesByRank[rank]}
+                      </p>
+                    </div>
+                    {rank === 1 ? (
+                      <CheckCircle className="w-8 h-8 text-green-400" />
+                    ) : rank === 2 ? (
+                      <Clock className="w-8 h-8 text-yellow-400" />
+                    ) : (
+                      <AlertTriangle className="w-8 h-8 text-orange-400" />
+                    )}
                   </div>
-                  <Clock className="w-8 h-8 text-yellow-400" />
                 </div>
-              </div>
-              <div className="card p-4">
-                <div className="flex items-center justify-between">
-                  <div>
-                    <p className="text-xs text-gray-600">3rd Choice</p>
-                    <p className="text-xl font-bold text-orange-600">{stats.thirdChoiceAwarded}</p>
-                  </div>
-                  <AlertTriangle className="w-8 h-8 text-orange-400" />
-                </div>
-              </div>
+              ))}
               <div className="card p-4">
                 <div className="flex items-center justify-between">
                   <div>
@@ -410,7 +403,7 @@ const SelectionManagement = () => {
                     <p className="text-xs text-gray-600">Success Rate</p>
                     <p className="text-xl font-bold text-primary-600">
                       {stats.processedAssignments > 0 
-                        ? Math.round(((stats.firstChoiceAwarded + stats.secondChoiceAwarded + stats.thirdChoiceAwarded) / stats.processedAssignments) * 100)
+                        ? Math.round((stats.choiceAwarded / stats.processedAssignments) * 100)
                         : 0}%
                     </p>
                   </div>
@@ -422,6 +415,23 @@ const SelectionManagement = () => {
         </div>
       )}
 
+      {/* Reserved Routes */}
+      <RouteReservationsPanel
+        periodId={period.id}
+        terminalId={period.terminalId}
+        editable={!['PROCESSING', 'COMPLETED'].includes(period.status) && !period.draftStartedAt}
+      />
+
+      {/* Bid Roster (vacancy bids are open to whoever opts in) */}
+      {period.kind === 'REGULAR' && (
+        <PeriodRosterPanel
+          periodId={period.id}
+          terminalId={period.terminalId}
+          timeZone={period.terminal.timeZone}
+          editable={!['PROCESSING', 'COMPLETED'].includes(period.status) && !period.draftStartedAt}
+        />
+      )}
+
       {/* Selections List */}
       <div className="card">
         <div className="p-6 border-b border-gray-200">
@@ -491,80 +501,23 @@ const SelectionManagement = () => {
                   {isExpanded && (
                     <div className="px-4 pb-4 bg-gray-50">
                       <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-4">
-                        {/* First Choice */}
-                        <div className="bg-white p-4 rounded-lg border border-gray-200">
-                          <h4 className="font-medium text-gray-900 mb-2">First Choice</h4>
-                          {selection.firstChoice ? (
-                            <div>
-                              <p className="font-medium text-gray-800">
-                                {selection.firstChoice.runNumber}
-                              </p>
-                              <p className="text-sm text-gray-600">
-                                {selection.firstChoice.origin} → {selection.firstChoice.destination}
-                              </p>
-                              <p className="text-sm text-gray-600">
-                                Type: {selection.firstChoice.type}
-                              </p>
-                              {(() => {
-                                const qual = checkQualification(selection.employee, selection.firstChoice);
-                                return !qual.qualified && (
-                                  <p className="text-xs text-red-600 mt-1 flex items-center gap-1">
-                                    <AlertTriangle className="w-3 h-3" />
-                                    {qual.reason}
-                                  </p>
-                                );
-                              })()}
-                            </div>
-                          ) : (
-                            <p className="text-sm text-gray-500 italic">No selection</p>
-                          )}
-                        </div>
-                        
-                        {/* Second Choice */}
-                        <div className="bg-white p-4 rounded-lg border border-gray-200">
-                          <h4 className="font-medium text-gray-900 mb-2">Second Choice</h4>
-                          {selection.secondChoice ? (
-                            <div>
-                              <p className="font-medium text-gray-800">
-                                {selection.secondChoice.runNumber}
-                              </p>
-                              <p className="text-sm text-gray-600">
-                                {selection.secondChoice.origin} → {selection.secondChoice.destination}
-                              </p>
-                              <p className="text-sm text-gray-600">
-                                Type: {selection.secondChoice.type}
-                              </p>
-                              {(() => {
-                                const qual = checkQualification(selection.employee, selection.secondChoice);
-                                return !qual.qualified && (
-                                  <p className="text-xs text-red-600 mt-1 flex items-center gap-1">
-                                    <AlertTriangle className="w-3 h-3" />
-                                    {qual.reason}
-                                  </p>
-                                );
-                              })()}
-                            </div>
-                          ) : (
-                            <p className="text-sm text-gray-500 italic">No selection</p>
-                          )}
-                        </div>
-                        
-                        {/* Third Choice */}
-                        <div className="bg-white p-4 rounded-lg border border-gray-200">
-                          <h4 className="font-medium text-gray-900 mb-2">Third Choice</h4>
-                          {selection.thirdChoice ? (
-                            <div>
+                        {selection.choices.length === 0 ? (
+                          <p className="text-sm text-gray-500 italic">No selection</p>
+                        ) : (
+                          selection.choices.map(choice => (
+                            <div key={choice.id} className="bg-white p-4 rounded-lg border border-gray-200">
+                              <h4 className="font-medium text-gray-900 mb-2">Choice {choice.rank}</h4>
                               <p className="font-medium text-gray-800">
-                                {selection.thirdChoice.runNumber}
+                                {choice.route.runNumber}
                               </p>
                               <p className="text-sm text-gray-600">
-                                {selection.thirdChoice.origin} → {selection.thirdChoice.destination}
+                                {choice.route.origin} → {choice.route.destination}
                               </p>
                               <p className="text-sm text-gray-600">
-                                Type: {selection.thirdChoice.type}
+                                Type: {choice.route.type}
                               </p>
                               {(() => {
-                                const qual = checkQualification(selection.employee, selection.thirdChoice);
+                                const qual = checkQualification(selection.employee, choice.route);
                                 return !qual.qualified && (
                                   <p className="text-xs text-red-600 mt-1 flex items-center gap-1">
                                     <AlertTriangle className="w-3 h-3" />
@@ -573,31 +526,27 @@ const SelectionManagement = () => {
                                 );
                               })()}
                             </div>
-                          ) : (
-                            <p className="text-sm text-gray-500 italic">No selection</p>
-                          )}
-                        </div>
+                          ))
+                        )}
                       </div>
                       
                       <div className="mt-4 flex items-center justify-between">
                         <p className="text-sm text-gray-600">
                           Confirmation #: <span className="font-mono">{selection.confirmationNumber}</span>
                         </p>
-                        <div className="flex items-center gap-2 text-sm">
-                          <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
-                            selection.employee.doublesEndorsement 
-                              ? 'bg-green-100 text-green-800' 
-                              : 'bg-gray-100 text-gray-800'
-                          }`}>
-                            Doubles: {selection.employee.doublesEndorsement ? 'Yes' : 'No'}
-                          </span>
-                          <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
-                            selection.employee.chainExperience 
-                              ? 'bg-green-100 text-green-800' 
-                              : 'bg-gray-100 text-gray-800'
-                          }`}>
-                            Chains: {selection.employee.chainExperience ? 'Yes' : 'No'}
-                          </span>
+                        <div className="flex flex-wrap items-center gap-2 text-sm">
+                          {selection.employee.qualifications.map(held => (
+                            <span
+                              key={held.qualificationId}
+                              className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
+                                isQualificationExpired(held)
+                                  ? 'bg-red-100 text-red-800'
+                                  : 'bg-green-100 text-green-800'
+                              }`}
+                            >
+                              {held.qualification?.code}{isQualificationExpired(held) && ' (expired)'}
+                            </span>
+                          ))}
                         </div>
                       </div>
                     </div>
@@ -649,7 +598,7 @@ const SelectionManagement = () => {
                 disabled={processSelectionsMutation.isPending}
                 className="btn-primary"
               >
-                {processSelectionsMutation.isPending ? 'Processing...' : 'Process Assignments'}
+                {processSelectionsMutation.isPending ? describeJobProgress(jobProgress) : 'Process Assignments'}
               </button>
             </div>
           </div>
@@ -676,24 +625,14 @@ const SelectionManagement = () => {
             <div className="space-y-6">
               {/* Summary Stats */}
               <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-                <div className="bg-green-50 p-4 rounded-lg">
-                  <p className="text-sm text-green-600">First Choice</p>
-                  <p className="text-2xl font-bold text-green-900">
-                    {processingResults.summary?.choiceDistribution?.first || 0}
-                  </p>
-                </div>
-                <div className="bg-yellow-50 p-4 rounded-lg">
-                  <p className="text-sm text-yellow-600">Second Choice</p>
-                  <p className="text-2xl font-bold text-yellow-900">
-                    {processingResults.summary?.choiceDistribution?.second || 0}
-                  </p>
-                </div>
-                <div className="bg-orange-50 p-4 rounded-lg">
-                  <p className="text-sm text-orange-600">Third Choice</p>
-                  <p className="text-2xl font-bold text-orange-900">
-                    {processingResults.summary?.choiceDistribution?.third || 0}
-                  </p>
-                </div>
+                {Object.entries(processingResults.summary?.choiceDistribution?.byRank || {})
+                  .sort(([a], [b]) => Number(a) - Number(b))
+                  .map(([rank, count]) => (
+                    <div key={rank} className="bg-green-50 p-4 rounded-lg">
+                      <p className="text-sm text-green-600">Choice #{rank}</p>
+                      <p className="text-2xl font-bold text-green-900">{count as number}</p>
+                    </div>
+                  ))}
                 <div className="bg-gray-50 p-4 rounded-lg">
                   <p className="text-sm text-gray-600">Float Pool</p>
                   <p className="text-2xl font-bold text-gray-900">
@@ -712,7 +651,9 @@ const SelectionManagement = () => {
                           Employee {assignment.employeeId}
                         </p>
                         <p className="text-sm text-gray-600">
-                          {assignment.routeId ? (
+                          {assignment.forced ? (
+                            assignment.reason
+                          ) : assignment.routeId ? (
                             <>
                               Assigned to Route (Choice #{assignment.choiceReceived || 'N/A'})
                             </>
@@ -731,6 +672,11 @@ const SelectionManagement = () => {
                             Choice #{assignment.choiceReceived}
                           </span>
                         )}
+                        {assignment.forced && (
+                          <span className="inline-flex items-center px-3 py-1 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                            Forced
+                          </span>
+                        )}
                       </div>
                     </div>
                   </div>
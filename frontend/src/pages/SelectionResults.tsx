@@ -4,6 +4,7 @@ import { useQuery } from '@tanstack/react-query';
 import apiClient from '../api/client';
 import { ArrowLeft, Download, Mail, FileText } from 'lucide-react';
 import { toast } from 'react-hot-toast';
+import { countByRank, getAwardedRanks, getOrdinal } from '../utils/choiceRanks';
 
 interface Employee {
   id: string;
@@ -20,6 +21,7 @@ interface Route {
   origin: string;
   destination: string;
   type: string;
+  positions: number;
 }
 
 interface Assignment {
@@ -27,6 +29,8 @@ interface Assignment {
   employeeId: string;
   routeId: string | null;
   choiceReceived: number | null;
+  viaIncumbency: boolean;
+  forced: boolean;
   employee: Employee;
   route: Route | null;
 }
@@ -65,6 +69,16 @@ const SelectionResults = () => {
     enabled: !!periodId,
   });
 
+  // Period routes, to report positions nobody was awarded
+  const { data: periodRoutes = [] } = useQuery<Route[]>({
+    queryKey: ['period-routes', periodId],
+    queryFn: async () => {
+      const response = await apiClient.get(`/routes/period/${periodId}`);
+      return response.data;
+    },
+    enabled: !!periodId,
+  });
+
   const handleExport = async (format: 'csv' | 'pdf') => {
     setDownloading(true);
     setDownloadFormat(format);
@@ -127,9 +141,17 @@ const SelectionResults = () => {
 
   const assignedCount = assignments.filter(a => a.route).length;
   const floatPoolCount = assignments.filter(a => !a.route).length;
-  const firstChoiceCount = assignments.filter(a => a.choiceReceived === 1).length;
-  const secondChoiceCount = assignments.filter(a => a.choiceReceived === 2).length;
-  const thirdChoiceCount = assignments.filter(a => a.choiceReceived === 3).length;
+  const choicesByRank = countByRank(assignments);
+  const firstChoiceCount = choicesByRank[1] || 0;
+
+  const awardsByRoute = new Map<string, number>();
+  assignments.forEach(a => {
+    if (a.routeId) awardsByRoute.set(a.routeId, (awardsByRoute.get(a.routeId) || 0) + 1);
+  });
+  const openPositions = periodRoutes.reduce(
+    (total, route) => total + Math.max(0, route.positions - (awardsByRoute.get(route.id) || 0)),
+    0
+  );
 
   if (isLoading) {
     return (
@@ -194,7 +216,7 @@ const SelectionResults = () => {
       </div>
 
       {/* Summary Stats */}
-      <div className="grid grid-cols-3 gap-4 mb-6">
+      <div className="grid grid-cols-4 gap-4 mb-6">
         <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
           <div className="text-2xl font-bold">{assignments.length}</div>
           <p className="text-sm text-gray-600">Total Drivers</p>
@@ -207,22 +229,20 @@ const SelectionResults = () => {
           <div className="text-2xl font-bold text-orange-600">{floatPoolCount}</div>
           <p className="text-sm text-gray-600">Float Pool</p>
         </div>
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <div className="text-2xl font-bold text-gray-600">{openPositions}</div>
+          <p className="text-sm text-gray-600">Open Positions</p>
+        </div>
       </div>
 
       {/* Choice Distribution */}
       <div className="grid grid-cols-4 gap-4 mb-6">
-        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
-          <div className="text-xl font-bold text-blue-600">{firstChoiceCount}</div>
-          <p className="text-sm text-gray-600">1st Choice</p>
-        </div>
-        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
-          <div className="text-xl font-bold text-purple-600">{secondChoiceCount}</div>
-          <p className="text-sm text-gray-600">2nd Choice</p>
-        </div>
-        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
-          <div className="text-xl font-bold text-pink-600">{thirdChoiceCount}</div>
-          <p className="text-sm text-gray-600">3rd Choice</p>
-        </div>
+        {getAwardedRanks(choicesByRank).map(rank => (
+          <div key={rank} className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+            <div className="text-xl font-bold text-blue-600">{choicesByRank[rank]}</div>
+            <p className="text-sm text-gray-600">{getOrdinal(rank)} Choice</p>
+          </div>
+        ))}
         <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
           <div className="text-xl font-bold text-gray-600">
             {assignedCount > 0 ? Math.round((firstChoiceCount / assignedCount) * 100) : 0}%
@@ -305,6 +325,11 @@ const SelectionResults = () => {
                           <div className="text-sm text-gray-500">
                             {assignment.route.origin} → {assignment.route.destination}
                           </div>
+                          {assignment.route.positions > 1 && (
+                            <div className="text-xs text-gray-500">
+                              {awardsByRoute.get(assignment.route.id) || 0} of {assignment.route.positions} positions filled
+                            </div>
+                          )}
                         </div>
                       ) : (
                         <span className="text-sm text-gray-500">Float Pool</span>
@@ -313,13 +338,21 @@ const SelectionResults = () => {
                     <td className="px-6 py-4 whitespace-nowrap">
                       {assignment.choiceReceived ? (
                         <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
-                          {assignment.choiceReceived === 1 && '1st Choice'}
-                          {assignment.choiceReceived === 2 && '2nd Choice'}
-                          {assignment.choiceReceived === 3 && '3rd Choice'}
+                          {getOrdinal(assignment.choiceReceived)} Choice
                         </span>
                       ) : (
                         <span className="text-sm text-gray-400">-</span>
                       )}
+                      {assignment.forced && (
+                        <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                          Forced
+                        </span>
+                      )}
+                      {assignment.viaIncumbency && (
+                        <span className="ml-1 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                          Incumbent
+                        </span>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       {assignment.route ? (
@@ -3,6 +3,7 @@ import { useQuery } from '@tanstack/react-query';
 import { Link } from 'react-router-dom';
 import { Calendar, Users, CheckCircle, Clock, ChevronRight } from 'lucide-react';
 import apiClient from '../api/client';
+import { formatZonedDate, formatZonedDateTime } from '../utils/timeZone';
 import { useAuth } from '../contexts/AuthContext';
 import { useTerminal } from '../contexts/TerminalContext';
 
@@ -13,6 +14,11 @@ interface SelectionPeriod {
   endDate: string;
   status: string;
   requiredSelections: number;
+  mode: 'BID' | 'DRAFT';
+  secondRoundStartDate: string | null;
+  secondRoundEndDate: string | null;
+  secondRoundProcessedAt: string | null;
+  terminal: { timeZone: string };
 }
 
 const Selections = () => {
@@ -110,6 +116,11 @@ const Selections = () => {
             const endDate = new Date(period.endDate);
             const now = new Date();
             const isActive = now >= startDate && now <= endDate;
+            const isSecondRoundOpen = !!period.secondRoundStartDate &&
+              !!period.secondRoundEndDate &&
+              !period.secondRoundProcessedAt &&
+              now >= new Date(period.secondRoundStartDate) &&
+              now <= new Date(period.secondRoundEndDate);
             
             return (
               <div 
@@ -132,7 +143,7 @@ const Selections = () => {
                         <div className="flex items-center gap-1">
                           <Calendar className="w-4 h-4" />
                           <span>
-                            {startDate.toLocaleDateString()} - {endDate.toLocaleDateString()}
+                            {formatZonedDate(startDate, period.terminal.timeZone)} - {formatZonedDateTime(endDate, period.terminal.timeZone)}
                           </span>
                         </div>
                         <div className="flex items-center gap-1">
@@ -153,28 +164,43 @@ const Selections = () => {
                       </div>
                     </div>
                     
-                    <Link
-                      to={
-                        user?.role === 'Driver' 
+                    <div className="flex items-center gap-2">
+                      {user?.role === 'Driver' && isSecondRoundOpen && (
+                        <Link
+                          to={`/second-round/${period.id}`}
+                          className="inline-flex items-center gap-2 px-4 py-2 border border-primary-600 text-primary-700 hover:bg-primary-50 font-medium rounded-lg transition-colors"
+                        >
+                          Second Round
+                          <ChevronRight className="w-4 h-4" />
+                        </Link>
+                      )}
+                      <Link
+                        to={
+                          user?.role === 'Driver' 
+                            ? period.status === 'COMPLETED' 
+                              ? `/driver-results/${period.id}` 
+                              : period.mode === 'DRAFT' && period.status === 'OPEN'
+                              ? `/draft/${period.id}`
+                              : period.status === 'OPEN' && isActive
+                                ? `/submit-selection/${period.id}`
+                                : `/periods/${period.id}/manage`
+                            : `/periods/${period.id}/manage`
+                        }
+                        className="inline-flex items-center gap-2 px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white font-medium rounded-lg transition-colors"
+                      >
+                        {user?.role === 'Driver' 
                           ? period.status === 'COMPLETED' 
-                            ? `/driver-results/${period.id}` 
+                            ? 'View My Result' 
+                            : period.mode === 'DRAFT' && period.status === 'OPEN'
+                            ? 'Draft Board'
                             : period.status === 'OPEN' && isActive
-                              ? `/submit-selection/${period.id}`
-                              : `/periods/${period.id}/manage`
-                          : `/periods/${period.id}/manage`
-                      }
-                      className="inline-flex items-center gap-2 px-4 py-2 bg-primary-600 hover:bg-primary-700 text-white font-medium rounded-lg transition-colors"
-                    >
-                      {user?.role === 'Driver' 
-                        ? period.status === 'COMPLETED' 
-                          ? 'View My Result' 
-                          : period.status === 'OPEN' && isActive
-                            ? 'Submit Selection'
-                            : 'View Details'
-                        : 'Manage Period'
-                      }
-                      <ChevronRight className="w-4 h-4" />
-                    </Link>
+                              ? 'Submit Selection'
+                              : 'View Details'
+                          : 'Manage Period'
+                        }
+                        <ChevronRight className="w-4 h-4" />
+                      </Link>
+                    </div>
                   </div>
                 </div>
               </div>
@@ -13,12 +13,19 @@ import {
 import apiClient from '../api/client';
 import { useAuth } from '../contexts/AuthContext';
 import LoadingSpinner from '../components/LoadingSpinner';
+import { DEFAULT_TIME_ZONE, TERMINAL_TIME_ZONES } from '../utils/timeZone';
 
 interface Terminal {
   id: string;
   code: string;
   name: string;
   isActive: boolean;
+  seniorityTieBreaker: TieBreakerPolicy;
+  lotterySeed: string | null;
+  maxShiftHours: number;
+  maxWeeklyHours: number;
+  minRestHours: number;
+  timeZone: string;
   createdAt: string;
   updatedAt: string;
   _count?: {
@@ -29,12 +36,26 @@ interface Terminal {
   };
 }
 
+type TieBreakerPolicy = 'LAST_NAME' | 'EMPLOYEE_NUMBER' | 'SSN_LAST_FOUR' | 'LOTTERY';
+
 interface TerminalFormData {
   code: string;
   name: string;
   isActive: boolean;
+  seniorityTieBreaker: TieBreakerPolicy;
+  maxShiftHours: number;
+  maxWeeklyHours: number;
+  minRestHours: number;
+  timeZone: string;
 }
 
+const TIE_BREAKER_LABELS: Record<TieBreakerPolicy, string> = {
+  LAST_NAME: 'Last name',
+  EMPLOYEE_NUMBER: 'Employee number',
+  SSN_LAST_FOUR: 'Last four of SSN',
+  LOTTERY: 'Seeded lottery',
+};
+
 const Terminals = () => {
   const { user } = useAuth();
   const queryClient = useQueryClient();
@@ -46,6 +67,11 @@ const Terminals = () => {
     code: '',
     name: '',
     isActive: true,
+    seniorityTieBreaker: 'LAST_NAME',
+    maxShiftHours: 14,
+    maxWeeklyHours: 60,
+    minRestHours: 10,
+    timeZone: DEFAULT_TIME_ZONE,
   });
 
   // Fetch terminals
@@ -114,6 +140,11 @@ const Terminals = () => {
       code: '',
       name: '',
       isActive: true,
+      seniorityTieBreaker: 'LAST_NAME',
+      maxShiftHours: 14,
+      maxWeeklyHours: 60,
+      minRestHours: 10,
+      timeZone: DEFAULT_TIME_ZONE,
     });
   };
 
@@ -123,6 +154,11 @@ const Terminals = () => {
       code: terminal.code,
       name: terminal.name,
       isActive: terminal.isActive,
+      seniorityTieBreaker: terminal.seniorityTieBreaker,
+      maxShiftHours: terminal.maxShiftHours,
+      maxWeeklyHours: terminal.maxWeeklyHours,
+      minRestHours: terminal.minRestHours,
+      timeZone: terminal.timeZone,
     });
     setShowEditModal(true);
   };
@@ -305,6 +341,26 @@ const Terminals = () => {
                   </div>
                 </>
               )}
+              <div className="flex justify-between">
+                <span>Seniority ties:</span>
+                <span className="font-medium">{TIE_BREAKER_LABELS[terminal.seniorityTieBreaker]}</span>
+              </div>
+              {terminal.seniorityTieBreaker === 'LOTTERY' && terminal.lotterySeed && (
+                <div className="flex justify-between">
+                  <span>Lottery seed:</span>
+                  <span className="font-mono">{terminal.lotterySeed}</span>
+                </div>
+              )}
+              <div className="flex justify-between">
+                <span>Time zone:</span>
+                <span className="font-medium">{terminal.timeZone}</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Hours of service:</span>
+                <span className="font-medium">
+                  {terminal.maxShiftHours}h shift / {terminal.maxWeeklyHours}h week / {terminal.minRestHours}h rest
+                </span>
+              </div>
             </div>
 
             <div className="flex items-center gap-2 pt-4 border-t border-gray-100">
@@ -390,6 +446,92 @@ const Terminals = () => {
                   <span className="text-sm font-medium text-gray-700">Active Terminal</span>
                 </label>
               </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor="add-tie-breaker">
+                  Seniority Tie-Breaker
+                </label>
+                <select
+                  id="add-tie-breaker"
+                  value={formData.seniorityTieBreaker}
+                  onChange={(e) => setFormData({ ...formData, seniorityTieBreaker: e.target.value as TieBreakerPolicy })}
+                  className="input-field"
+                >
+                  {Object.entries(TIE_BREAKER_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-500 mt-1">
+                  Orders drivers who share a hire date. Choosing the lottery stores a published seed.
+                </p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor="add-time-zone">
+                  Time Zone
+                </label>
+                <select
+                  id="add-time-zone"
+                  value={formData.timeZone}
+                  onChange={(e) => setFormData({ ...formData, timeZone: e.target.value })}
+                  className="input-field"
+                >
+                  {TERMINAL_TIME_ZONES.map(zone => (
+                    <option key={zone.value} value={zone.value}>{zone.label} ({zone.value})</option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-500 mt-1">
+                  Period dates open and close at midnight on this clock.
+                </p>
+              </div>
+              <div>
+                <p className="block text-sm font-medium text-gray-700 mb-1">Hours-of-Service Limits</p>
+                <div className="grid grid-cols-3 gap-3">
+                  <label className="text-xs text-gray-600" htmlFor="add-max-shift-hours">
+                    Max shift (h)
+                    <input
+                      id="add-max-shift-hours"
+                      type="number"
+                      min="1"
+                      max="24"
+                      step="0.5"
+                      value={formData.maxShiftHours}
+                      onChange={(e) => setFormData({ ...formData, maxShiftHours: parseFloat(e.target.value) })}
+                      className="input-field mt-1"
+                      required
+                    />
+                  </label>
+                  <label className="text-xs text-gray-600" htmlFor="add-max-weekly-hours">
+                    Max weekly (h)
+                    <input
+                      id="add-max-weekly-hours"
+                      type="number"
+                      min="1"
+                      max="168"
+                      step="0.5"
+                      value={formData.maxWeeklyHours}
+                      onChange={(e) => setFormData({ ...formData, maxWeeklyHours: parseFloat(e.target.value) })}
+                      className="input-field mt-1"
+                      required
+                    />
+                  </label>
+                  <label className="text-xs text-gray-600" htmlFor="add-min-rest-hours">
+                    Min rest (h)
+                    <input
+                      id="add-min-rest-hours"
+                      type="number"
+                      min="0"
+                      max="24"
+                      step="0.5"
+                      value={formData.minRestHours}
+                      onChange={(e) => setFormData({ ...formData, minRestHours: parseFloat(e.target.value) })}
+                      className="input-field mt-1"
+                      required
+                    />
+                  </label>
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  Routes whose schedules exceed these limits are flagged in route management and import previews.
+                </p>
+              </div>
               <div className="flex gap-3 justify-end pt-4">
                 <button
                   type="button"
@@ -471,6 +613,92 @@ const Terminals = () => {
                   <span className="text-sm font-medium text-gray-700">Active Terminal</span>
                 </label>
               </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor="edit-tie-breaker">
+                  Seniority Tie-Breaker
+                </label>
+                <select
+                  id="edit-tie-breaker"
+                  value={formData.seniorityTieBreaker}
+                  onChange={(e) => setFormData({ ...formData, seniorityTieBreaker: e.target.value as TieBreakerPolicy })}
+                  className="input-field"
+                >
+                  {Object.entries(TIE_BREAKER_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-500 mt-1">
+                  Orders drivers who share a hire date. Choosing the lottery stores a published seed.
+                </p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1" htmlFor="edit-time-zone">
+                  Time Zone
+                </label>
+                <select
+                  id="edit-time-zone"
+                  value={formData.timeZone}
+                  onChange={(e) => setFormData({ ...formData, timeZone: e.target.value })}
+                  className="input-field"
+                >
+                  {TERMINAL_TIME_ZONES.map(zone => (
+                    <option key={zone.value} value={zone.value}>{zone.label} ({zone.value})</option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-500 mt-1">
+                  Period dates open and close at midnight on this clock.
+                </p>
+              </div>
+              <div>
+                <p className="block text-sm font-medium text-gray-700 mb-1">Hours-of-Service Limits</p>
+                <div className="grid grid-cols-3 gap-3">
+                  <label className="text-xs text-gray-600" htmlFor="edit-max-shift-hours">
+                    Max shift (h)
+                    <input
+                      id="edit-max-shift-hours"
+                      type="number"
+                      min="1"
+                      max="24"
+                      step="0.5"
+                      value={formData.maxShiftHours}
+                      onChange={(e) => setFormData({ ...formData, maxShiftHours: parseFloat(e.target.value) })}
+                      className="input-field mt-1"
+                      required
+                    />
+                  </label>
+                  <label className="text-xs text-gray-600" htmlFor="edit-max-weekly-hours">
+                    Max weekly (h)
+                    <input
+                      id="edit-max-weekly-hours"
+                      type="number"
+                      min="1"
+                      max="168"
+                      step="0.5"
+                      value={formData.maxWeeklyHours}
+                      onChange={(e) => setFormData({ ...formData, maxWeeklyHours: parseFloat(e.target.value) })}
+                      className="input-field mt-1"
+                      required
+                    />
+                  </label>
+                  <label className="text-xs text-gray-600" htmlFor="edit-min-rest-hours">
+                    Min rest (h)
+                    <input
+                      id="edit-min-rest-hours"
+                      type="number"
+                      min="0"
+                      max="24"
+                      step="0.5"
+                      value={formData.minRestHours}
+                      onChange={(e) => setFormData({ ...formData, minRestHours: parseFloat(e.target.value) })}
+                      className="input-field mt-1"
+                      required
+                    />
+                  </label>
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  Routes whose schedules exceed these limits are flagged in route management and import previews.
+                </p>
+              </div>
               <div className="flex gap-3 justify-end pt-4">
                 <button
                   type="button"
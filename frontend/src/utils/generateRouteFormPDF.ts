@@ -1,5 +1,7 @@
 import jsPDF from 'jspdf';
 import { format } from 'date-fns';
+import type { RouteRequirement } from './qualifications';
+import { formatZonedDate, formatZonedDateTime } from './timeZone';
 
 interface Route {
   id: string;
@@ -12,8 +14,7 @@ interface Route {
   endTime: string;
   distance: number;
   rateType: string;
-  requiresDoublesEndorsement: boolean;
-  requiresChainExperience: boolean;
+  requirements: RouteRequirement[];
 }
 
 interface GeneratePDFParams {
@@ -26,6 +27,7 @@ interface GeneratePDFParams {
   terminal: {
     code: string;
     name: string;
+    timeZone: string;
   };
   routes: Route[];
 }
@@ -69,7 +71,7 @@ export const generateRouteFormPDF = ({ period, terminal, routes }: GeneratePDFPa
   yPosition += 8;
   
   centerText(
-    `Selection Period: ${format(new Date(period.startDate), 'MM/dd/yyyy')} - ${format(new Date(period.endDate), 'MM/dd/yyyy')}`,
+    `Selection Period: ${formatZonedDate(period.startDate, terminal.timeZone)} - ${formatZonedDateTime(period.endDate, terminal.timeZone)}`,
     yPosition,
     12
   );
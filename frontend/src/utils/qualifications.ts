@@ -0,0 +1,44 @@
+export interface Qualification {
+  id: string;
+  code: string;
+  name: string;
+  description: string | null;
+  isActive: boolean;
+}
+
+export interface HeldQualification {
+  qualificationId: string;
+  issuedAt?: string | null;
+  expiresAt: string | null;
+  qualification?: Pick<Qualification, 'code' | 'name'>;
+}
+
+export interface RouteRequirement {
+  qualificationId: string;
+  qualification: Pick<Qualification, 'code' | 'name'>;
+}
+
+export const isQualificationExpired = (held: Pick<HeldQualification, 'expiresAt'>, asOf: Date = new Date()) => {
+  return !!held.expiresAt && new Date(held.expiresAt) < asOf;
+};
+
+// Mirrors getMissingRequirements in the API so admin screens flag the same routes the server rejects
+export const getMissingRequirements = (
+  employee: { qualifications?: Pick<HeldQualification, 'qualificationId' | 'expiresAt'>[] },
+  route: { requirements?: RouteRequirement[] }
+): string[] => {
+  const heldById = new Map((employee.qualifications || []).map(q => [q.qualificationId, q]));
+
+  return (route.requirements || [])
+    .filter(requirement => {
+      const held = heldById.get(requirement.qualificationId);
+      return !held || isQualificationExpired(held);
+    })
+    .map(requirement => heldById.has(requirement.qualificationId)
+      ? `${requirement.qualification.name} (expired)`
+      : requirement.qualification.name);
+};
+
+export const formatRequirements = (requirements: RouteRequirement[] = []) => {
+  return requirements.map(r => r.qualification.name).join(' & ');
+};
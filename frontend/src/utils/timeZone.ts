@@ -0,0 +1,37 @@
+// Period dates are stored as instants and shown on the terminal's clock, whatever zone the browser is in
+
+export const DEFAULT_TIME_ZONE = 'America/New_York';
+
+// US zones our terminals sit in, offered when setting up a terminal
+export const TERMINAL_TIME_ZONES = [
+  { value: 'America/New_York', label: 'Eastern' },
+  { value: 'America/Chicago', label: 'Central' },
+  { value: 'America/Denver', label: 'Mountain' },
+  { value: 'America/Phoenix', label: 'Mountain (Arizona)' },
+  { value: 'America/Los_Angeles', label: 'Pacific' },
+  { value: 'America/Anchorage', label: 'Alaska' },
+  { value: 'Pacific/Honolulu', label: 'Hawaii' },
+];
+
+// e.g. "03/14/2025"
+export const formatZonedDate = (date: string | Date, timeZone: string = DEFAULT_TIME_ZONE) => {
+  return new Date(date).toLocaleDateString('en-US', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' });
+};
+
+// e.g. "03/14/2025, 11:59 PM PDT"
+export const formatZonedDateTime = (date: string | Date, timeZone: string = DEFAULT_TIME_ZONE) => {
+  return new Date(date).toLocaleString('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZoneName: 'short',
+  });
+};
+
+// The terminal's calendar date as YYYY-MM-DD, for date inputs
+export const toZonedDateInput = (date: string | Date, timeZone: string = DEFAULT_TIME_ZONE) => {
+  return new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(new Date(date));
+};
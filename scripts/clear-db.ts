@@ -14,6 +14,10 @@ async function clearDatabase() {
     const passwordResetTokens = await prisma.passwordResetToken.deleteMany();
     console.log(`✅ Deleted ${passwordResetTokens.count} password reset tokens`);
 
+    console.log('Deleting assignment traces...');
+    const assignmentTraces = await prisma.assignmentTrace.deleteMany();
+    console.log(`✅ Deleted ${assignmentTraces.count} assignment traces`);
+
     console.log('Deleting assignments...');
     const assignments = await prisma.assignment.deleteMany();
     console.log(`✅ Deleted ${assignments.count} assignments`);
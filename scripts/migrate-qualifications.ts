@@ -0,0 +1,118 @@
+#!/usr/bin/env node
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+// Kept in step with BUILT_IN_QUALIFICATIONS in src/utils/qualifications.ts
+const BUILT_IN_QUALIFICATIONS = [
+  { code: 'DOUBLES', name: 'Doubles Endorsement', description: 'CDL endorsement to pull double trailers' },
+  { code: 'CHAINS', name: 'Chain Experience', description: 'Experienced chaining up on mountain routes' },
+  { code: 'HAZMAT', name: 'Hazmat Endorsement', description: 'CDL endorsement to haul hazardous materials' },
+  { code: 'TANKER', name: 'Tanker Endorsement', description: 'CDL endorsement to haul liquid in bulk' },
+  { code: 'TWIC', name: 'TWIC Card', description: 'Transportation Worker Identification Credential for port access' },
+  { code: 'FORKLIFT', name: 'Forklift Certification', description: 'Certified to operate a forklift at customer docks' },
+];
+
+async function migrateQualifications() {
+  try {
+    console.log('📋 Ensuring the built-in qualification catalog exists...\n');
+
+    for (const qualification of BUILT_IN_QUALIFICATIONS) {
+      await prisma.qualification.upsert({
+        where: { code: qualification.code },
+        update: {},
+        create: qualification,
+      });
+    }
+
+    const doubles = await prisma.qualification.findUniqueOrThrow({ where: { code: 'DOUBLES' } });
+    const chains = await prisma.qualification.findUniqueOrThrow({ where: { code: 'CHAINS' } });
+
+    console.log('🔍 Copying legacy employee endorsement flags...');
+
+    const employees = await prisma.employee.findMany({
+      where: {
+        OR: [
+          { doublesEndorsement: true },
+          { chainExperience: true },
+        ],
+      },
+    });
+
+    let employeeRows = 0;
+    for (const employee of employees) {
+      const qualificationIds = [
+        ...(employee.doublesEndorsement ? [doubles.id] : []),
+        ...(employee.chainExperience ? [chains.id] : []),
+      ];
+
+      for (const qualificationId of qualificationIds) {
+        // Upsert so re-running the script never duplicates or resets an expiry entered since
+        await prisma.employeeQualification.upsert({
+          where: {
+            employeeId_qualificationId: {
+              employeeId: employee.id,
+              qualificationId,
+            },
+          },
+          update: {},
+          create: {
+            employeeId: employee.id,
+            qualificationId,
+          },
+        });
+        employeeRows++;
+      }
+    }
+
+    console.log(`✅ ${employeeRows} employee qualification(s) across ${employees.length} employee(s)`);
+
+    console.log('🔍 Copying legacy route requirement flags...');
+
+    const routes = await prisma.route.findMany({
+      where: {
+        OR: [
+          { requiresDoublesEndorsement: true },
+          { requiresChainExperience: true },
+          { type: 'DOUBLES' },
+        ],
+      },
+    });
+
+    let routeRows = 0;
+    for (const route of routes) {
+      const qualificationIds = [
+        ...(route.requiresDoublesEndorsement || route.type === 'DOUBLES' ? [doubles.id] : []),
+        ...(route.requiresChainExperience ? [chains.id] : []),
+      ];
+
+      for (const qualificationId of qualificationIds) {
+        await prisma.routeRequirement.upsert({
+          where: {
+            routeId_qualificationId: {
+              routeId: route.id,
+              qualificationId,
+            },
+          },
+          update: {},
+          create: {
+            routeId: route.id,
+            qualificationId,
+          },
+        });
+        routeRows++;
+      }
+    }
+
+    console.log(`✅ ${routeRows} route requirement(s) across ${routes.length} route(s)`);
+    console.log('\nℹ️  The legacy boolean columns are no longer read and can be dropped in a later release.');
+  } catch (error) {
+    console.error('❌ Error migrating qualifications:', error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// Run the script
+migrateQualifications();
@@ -0,0 +1,78 @@
+#!/usr/bin/env node
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+async function migrateSelectionChoices() {
+  try {
+    console.log('🔍 Finding selections with legacy first/second/third choices...\n');
+
+    const selections = await prisma.selection.findMany({
+      where: {
+        OR: [
+          { firstChoiceId: { not: null } },
+          { secondChoiceId: { not: null } },
+          { thirdChoiceId: { not: null } },
+        ],
+      },
+      include: {
+        _count: {
+          select: { choices: true },
+        },
+      },
+    });
+
+    if (selections.length === 0) {
+      console.log('✅ No legacy selections found. Nothing to migrate.');
+      return;
+    }
+
+    let migrated = 0;
+    let skipped = 0;
+
+    for (const selection of selections) {
+      // Selections already on ranked choices were re-submitted after the upgrade
+      if (selection._count.choices > 0) {
+        skipped++;
+        continue;
+      }
+
+      const routeIds = [selection.firstChoiceId, selection.secondChoiceId, selection.thirdChoiceId]
+        .filter((id): id is string => id !== null);
+      const uniqueRouteIds = [...new Set(routeIds)];
+
+      await prisma.$transaction([
+        prisma.selectionChoice.createMany({
+          data: uniqueRouteIds.map((routeId, index) => ({
+            selectionId: selection.id,
+            routeId,
+            rank: index + 1,
+          })),
+        }),
+        prisma.selection.update({
+          where: { id: selection.id },
+          data: {
+            firstChoiceId: null,
+            secondChoiceId: null,
+            thirdChoiceId: null,
+          },
+        }),
+      ]);
+
+      migrated++;
+    }
+
+    console.log(`✅ Migrated ${migrated} selection(s) to ranked choices`);
+    if (skipped > 0) {
+      console.log(`ℹ️  Skipped ${skipped} selection(s) that already had ranked choices`);
+    }
+  } catch (error) {
+    console.error('❌ Error migrating selection choices:', error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+// Run the script
+migrateSelectionChoices();
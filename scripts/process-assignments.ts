@@ -1,5 +1,7 @@
 import { AssignmentEngine } from '../src/services/assignmentEngine.js';
+import periodLifecycleService from '../src/services/periodLifecycle.js';
 import prisma from '../src/utils/database.js';
+import { getAwardedRanks, getOrdinal } from '../src/utils/choiceRanks.js';
 
 async function processAssignments() {
   const periodId = 'cmhkod0td0001abiy00cqcdyu';
@@ -29,15 +31,13 @@ async function processAssignments() {
     console.log(`Selections: ${period._count.selections}`);
     console.log(`Routes available: ${period._count.routes}`);
     
-    if (period.status !== 'OPEN') {
-      throw new Error(`Period status must be OPEN, current status: ${period.status}`);
+    const processingError = periodLifecycleService.getProcessingError(period);
+    if (processingError) {
+      throw new Error(processingError);
     }
     
     // Update status to processing
-    await prisma.selectionPeriod.update({
-      where: { id: periodId },
-      data: { status: 'PROCESSING' },
-    });
+    await periodLifecycleService.startProcessing(period, null);
     
     console.log('\nProcessing assignments...');
     const engine = new AssignmentEngine();
@@ -57,57 +57,63 @@ async function processAssignments() {
     console.log(`  Total Employees: ${summary.totalEmployees}`);
     console.log(`  Assigned Routes: ${summary.assignedRoutes}`);
     console.log(`  Float Pool: ${summary.floatPoolEmployees}`);
-    console.log(`  First Choice: ${summary.firstChoice}`);
-    console.log(`  Second Choice: ${summary.secondChoice}`);
-    console.log(`  Third Choice: ${summary.thirdChoice}`);
+    getAwardedRanks(summary.choiceDistribution.byRank).forEach(rank => {
+      console.log(`  ${getOrdinal(rank)} Choice: ${summary.choiceDistribution.byRank[rank]}`);
+    });
     
     // Save assignments
     console.log('\nSaving assignments to database...');
-    await engine.saveAssignments(periodId);
+    const runId = await engine.saveAssignments(periodId);
+    console.log(`Saved as run ${runId}. Publish it from Process Selections to update current routes.`);
     
-    // Update period status to completed
-    await prisma.selectionPeriod.update({
-      where: { id: periodId },
-      data: { status: 'COMPLETED' },
+    // Back to CLOSED for the run to be reviewed; publishing it completes the period
+    await periodLifecycleService.transition(periodId, 'CLOSED', {
+      trigger: 'SYSTEM',
+      reason: `Run ${runId} saved; awaiting publish`,
     });
     
     console.log('\n✅ Assignment processing completed successfully!');
     
-    // Show first few assignments
-    const savedAssignments = await prisma.assignment.findMany({
-      where: { selectionPeriodId: periodId },
-      include: {
-        employee: {
-          select: {
-            employeeId: true,
-            firstName: true,
-            lastName: true,
-          },
+    // Show first few assignments of the run
+    const firstResults = assignments.slice(0, 5);
+    const [employees, routes] = await Promise.all([
+      prisma.employee.findMany({
+        where: { id: { in: firstResults.map(result => result.employeeId) } },
+        select: {
+          id: true,
+          employeeId: true,
+          firstName: true,
+          lastName: true,
         },
-        route: {
-          select: {
-            runNumber: true,
-          },
+      }),
+      prisma.route.findMany({
+        where: { id: { in: firstResults.flatMap(result => (result.routeId ? [result.routeId] : [])) } },
+        select: {
+          id: true,
+          runNumber: true,
         },
-      },
-      take: 5,
-    });
+      }),
+    ]);
+    const employeesById = new Map(employees.map(employee => [employee.id, employee]));
+    const routesById = new Map(routes.map(route => [route.id, route]));
     
     console.log('\nFirst few assignments:');
-    savedAssignments.forEach((assignment, index) => {
-      console.log(`${index + 1}. ${assignment.employee.firstName} ${assignment.employee.lastName} (${assignment.employee.employeeId})`);
-      console.log(`   Route: ${assignment.route?.runNumber || 'Float Pool'}`);
+    firstResults.forEach((assignment, index) => {
+      const employee = employeesById.get(assignment.employeeId);
+      console.log(`${index + 1}. ${employee?.firstName} ${employee?.lastName} (${employee?.employeeId})`);
+      console.log(`   Route: ${(assignment.routeId && routesById.get(assignment.routeId)?.runNumber) || 'Float Pool'}`);
       console.log(`   Choice: ${assignment.choiceReceived || 'N/A'}`);
     });
     
   } catch (error) {
     console.error('\n❌ Error processing assignments:', error);
     
-    // Reset status back to OPEN on error
-    await prisma.selectionPeriod.update({
-      where: { id: periodId },
-      data: { status: 'OPEN' },
-    }).catch(console.error);
+    // Put the period back to CLOSED so it can be processed again
+    await periodLifecycleService.abandonProcessing(
+      periodId,
+      null,
+      error instanceof Error ? error.message : 'Assignment processing failed'
+    ).catch(console.error);
     
   } finally {
     await prisma.$disconnect();
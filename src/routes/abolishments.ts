@@ -0,0 +1,239 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import prisma from '../utils/database.js';
+import { authenticateToken, requireAdmin } from '../middleware/auth.js';
+import abolishmentService from '../services/abolishments.js';
+import { zonedTimeToInstant } from '../utils/timeZone.js';
+
+const router = Router();
+
+const createAbolishmentSchema = z.object({
+  routeId: z.string(),
+  effectiveDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format'),
+  // How long each displaced driver has to choose a route to bump onto
+  bumpWindowHours: z.number().int().min(1).max(336).optional().default(48),
+  reason: z.string().optional(),
+});
+
+const bumpSchema = z.object({
+  routeId: z.string(),
+});
+
+const employeeSummarySelect = {
+  id: true,
+  employeeId: true,
+  firstName: true,
+  lastName: true,
+} as const;
+
+const routeSummarySelect = {
+  id: true,
+  runNumber: true,
+  origin: true,
+  destination: true,
+} as const;
+
+const isAdminRole = (role?: string) => role === 'ADMIN' || role === 'MANAGER';
+
+// GET /api/abolishments - List route abolishments with their displacement chains (Admin only)
+router.get('/', authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const { terminalId } = req.query;
+
+    const abolishments = await prisma.routeAbolishment.findMany({
+      where: terminalId ? { route: { terminalId: terminalId as string } } : {},
+      orderBy: { createdAt: 'desc' },
+      include: {
+        route: { select: routeSummarySelect },
+        createdBy: { select: { id: true, name: true } },
+        displacements: {
+          orderBy: [{ generation: 'asc' }, { seniorityRank: 'asc' }],
+          include: {
+            employee: { select: employeeSummarySelect },
+            fromRoute: { select: routeSummarySelect },
+            bumpedRoute: { select: routeSummarySelect },
+            bumpedEmployee: { select: employeeSummarySelect },
+          },
+        },
+      },
+    });
+
+    res.json(abolishments);
+  } catch (error) {
+    console.error('Get abolishments error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/abolishments - Schedule a route's abolishment; holders get bump rights on the effective date (Admin only)
+router.post('/', authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const data = createAbolishmentSchema.parse(req.body);
+
+    const abolishmentError = await abolishmentService.getAbolishmentError(data.routeId);
+    if (abolishmentError) {
+      return res.status(400).json({ error: abolishmentError });
+    }
+
+    const route = await prisma.route.findUnique({
+      where: { id: data.routeId },
+      include: { terminal: true },
+    });
+
+    // The abolishment takes effect at the start of the day at the route's terminal
+    const effectiveDate = zonedTimeToInstant(data.effectiveDate, '00:00:00', route!.terminal.timeZone);
+    if (isNaN(effectiveDate.getTime())) {
+      return res.status(400).json({ error: 'Invalid date format' });
+    }
+
+    const abolishment = await abolishmentService.scheduleAbolishment({
+      ...data,
+      effectiveDate,
+    }, req.user!.id);
+
+    res.status(201).json(abolishment);
+  } catch (error) {
+    console.error('Create abolishment error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// DELETE /api/abolishments/:id - Cancel an abolishment before its effective date (Admin only)
+router.delete('/:id', authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const abolishment = await prisma.routeAbolishment.findUnique({
+      where: { id: req.params.id },
+      include: { route: true },
+    });
+
+    if (!abolishment) {
+      return res.status(404).json({ error: 'Abolishment not found' });
+    }
+
+    if (abolishment.status !== 'SCHEDULED') {
+      return res.status(400).json({ error: 'Only abolishments that have not taken effect can be cancelled' });
+    }
+
+    await prisma.routeAbolishment.update({
+      where: { id: abolishment.id },
+      data: { status: 'CANCELLED' },
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user!.id,
+        action: 'CANCEL_ROUTE_ABOLISHMENT',
+        resource: 'RouteAbolishment',
+        details: JSON.stringify({ abolishmentId: abolishment.id, route: abolishment.route.runNumber }),
+      },
+    });
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Cancel abolishment error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET /api/abolishments/displacements/my - The signed-in driver's open displacement and bump options
+router.get('/displacements/my', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.employeeId) {
+      return res.json(null);
+    }
+
+    const displacement = await prisma.displacement.findFirst({
+      where: {
+        employeeId: req.user.employeeId,
+        status: { in: ['PENDING', 'ACTIVE'] },
+      },
+      orderBy: { createdAt: 'desc' },
+      include: { fromRoute: { select: routeSummarySelect } },
+    });
+
+    if (!displacement) {
+      return res.json(null);
+    }
+
+    const options = displacement.status === 'ACTIVE'
+      ? await abolishmentService.getBumpOptions(displacement.id)
+      : [];
+
+    res.json({ ...displacement, options });
+  } catch (error) {
+    console.error('Get my displacement error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/abolishments/displacements/:id/bump - Claim a route held by a more junior driver
+router.post('/displacements/:id/bump', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const data = bumpSchema.parse(req.body);
+
+    const displacement = await prisma.displacement.findUnique({
+      where: { id: req.params.id },
+    });
+
+    if (!displacement) {
+      return res.status(404).json({ error: 'Displacement not found' });
+    }
+
+    if (displacement.employeeId !== req.user?.employeeId && !isAdminRole(req.user?.role)) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    if (displacement.status !== 'ACTIVE' || !displacement.windowEnd || displacement.windowEnd < new Date()) {
+      return res.status(400).json({ error: 'Your bump window is not open' });
+    }
+
+    const options = await abolishmentService.getBumpOptions(displacement.id);
+    const option = options.find(o => o.routeId === data.routeId);
+    if (!option) {
+      return res.status(400).json({ error: 'That route is not held by a more junior driver you can bump' });
+    }
+
+    await abolishmentService.exerciseBump(displacement.id, option, req.user!.id);
+
+    res.json({ routeId: option.routeId, bumpedEmployeeId: option.holder.employeeId });
+  } catch (error) {
+    console.error('Exercise bump error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/abolishments/displacements/:id/decline - Give up the bump right and go to the float pool
+router.post('/displacements/:id/decline', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const displacement = await prisma.displacement.findUnique({
+      where: { id: req.params.id },
+    });
+
+    if (!displacement) {
+      return res.status(404).json({ error: 'Displacement not found' });
+    }
+
+    if (displacement.employeeId !== req.user?.employeeId && !isAdminRole(req.user?.role)) {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    if (displacement.status !== 'ACTIVE') {
+      return res.status(400).json({ error: 'Your bump window is not open' });
+    }
+
+    await abolishmentService.declineBump(displacement.id, req.user!.id);
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Decline bump error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,241 @@
+import { Router, Request, Response } from 'express';
+import prisma from '../utils/database.js';
+import { authenticateToken, requireAdmin } from '../middleware/auth.js';
+import assignmentRunService, { RunResult } from '../services/assignmentRuns.js';
+import vacancyBidService from '../services/vacancyBids.js';
+
+const router = Router();
+
+// Resolves employee names and run numbers for the ids stored in run results
+const loadLabels = async (results: RunResult[]) => {
+  const employeeIds = [...new Set(results.map(r => r.employeeId))];
+  const routeIds = [...new Set(results.map(r => r.routeId).filter((id): id is string => !!id))];
+
+  const [employees, routes] = await Promise.all([
+    prisma.employee.findMany({
+      where: { id: { in: employeeIds } },
+      select: { id: true, employeeId: true, firstName: true, lastName: true },
+    }),
+    prisma.route.findMany({
+      where: { id: { in: routeIds } },
+      select: { id: true, runNumber: true },
+    }),
+  ]);
+
+  return {
+    employees: new Map(employees.map(e => [e.id, e])),
+    runNumbers: new Map(routes.map(r => [r.id, r.runNumber])),
+  };
+};
+
+// GET /api/assignment-runs/period/:periodId - List every run recorded for a period
+router.get('/period/:periodId', authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const { periodId } = req.params;
+
+    const runs = await prisma.assignmentRun.findMany({
+      where: { selectionPeriodId: periodId },
+      orderBy: { version: 'desc' },
+      select: {
+        id: true,
+        version: true,
+        round: true,
+        status: true,
+        inputsHash: true,
+        assignmentStrategy: true,
+        strategyParams: true,
+        summary: true,
+        createdAt: true,
+        publishedAt: true,
+        createdBy: {
+          select: { email: true, name: true },
+        },
+        publishedBy: {
+          select: { email: true, name: true },
+        },
+      },
+    });
+
+    res.json(runs.map(run => ({
+      ...run,
+      strategyParams: run.strategyParams ? JSON.parse(run.strategyParams) : null,
+      summary: JSON.parse(run.summary),
+    })));
+  } catch (error) {
+    console.error('Get assignment runs error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET /api/assignment-runs/diff?from=:runId&to=:runId - Drivers whose route differs between two runs
+router.get('/diff', authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const { from, to } = req.query;
+
+    if (!from || !to) {
+      return res.status(400).json({ error: 'Both from and to run ids are required' });
+    }
+
+    const [fromRun, toRun] = await Promise.all([
+      prisma.assignmentRun.findUnique({ where: { id: from as string } }),
+      prisma.assignmentRun.findUnique({ where: { id: to as string } }),
+    ]);
+
+    if (!fromRun || !toRun) {
+      return res.status(404).json({ error: 'Assignment run not found' });
+    }
+
+    if (fromRun.selectionPeriodId !== toRun.selectionPeriodId) {
+      return res.status(400).json({ error: 'Runs belong to different selection periods' });
+    }
+
+    const fromResults = assignmentRunService.getResults(fromRun);
+    const toResults = assignmentRunService.getResults(toRun);
+    const changes = assignmentRunService.diffRuns(fromResults, toResults);
+    const { employees, runNumbers } = await loadLabels([...fromResults, ...toResults]);
+
+    res.json({
+      from: { id: fromRun.id, version: fromRun.version, inputsHash: fromRun.inputsHash },
+      to: { id: toRun.id, version: toRun.version, inputsHash: toRun.inputsHash },
+      sameInputs: fromRun.inputsHash === toRun.inputsHash,
+      changes: changes.map(change => {
+        const employee = employees.get(change.employeeId);
+        return {
+          ...change,
+          employeeNumber: employee?.employeeId,
+          employeeName: employee ? `${employee.firstName} ${employee.lastName}` : change.employeeId,
+          fromRunNumber: change.fromRouteId ? runNumbers.get(change.fromRouteId) || null : change.fromRouteId,
+          toRunNumber: change.toRouteId ? runNumbers.get(change.toRouteId) || null : change.toRouteId,
+        };
+      }),
+    });
+  } catch (error) {
+    console.error('Diff assignment runs error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET /api/assignment-runs/:id - Get a run with its full results
+router.get('/:id', authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const run = await prisma.assignmentRun.findUnique({
+      where: { id: req.params.id },
+    });
+
+    if (!run) {
+      return res.status(404).json({ error: 'Assignment run not found' });
+    }
+
+    const results = assignmentRunService.getResults(run);
+    const { employees, runNumbers } = await loadLabels(results);
+
+    res.json({
+      ...run,
+      strategyParams: run.strategyParams ? JSON.parse(run.strategyParams) : null,
+      summary: JSON.parse(run.summary),
+      results: results.map(result => {
+        const employee = employees.get(result.employeeId);
+        return {
+          ...result,
+          employeeNumber: employee?.employeeId,
+          employeeName: employee ? `${employee.firstName} ${employee.lastName}` : result.employeeId,
+          runNumber: result.routeId ? runNumbers.get(result.routeId) || null : null,
+        };
+      }),
+    });
+  } catch (error) {
+    console.error('Get assignment run error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/assignment-runs/:id/publish - Apply a run to assignments and current routes
+router.post('/:id/publish', authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const run = await prisma.assignmentRun.findUnique({
+      where: { id: req.params.id },
+      include: { selectionPeriod: true },
+    });
+
+    if (!run) {
+      return res.status(404).json({ error: 'Assignment run not found' });
+    }
+
+    if (run.status !== 'DRAFT') {
+      return res.status(400).json({
+        error: run.status === 'PUBLISHED' ? 'Run is already published' : 'Use rollback to restore a previously published run'
+      });
+    }
+
+    // Publishing completes the period, which can't happen while drivers can still submit or a run is in progress
+    if (['OPEN', 'PROCESSING'].includes(run.selectionPeriod.status)) {
+      return res.status(400).json({ error: 'Runs can only be published once the period is closed and processed' });
+    }
+
+    // Winners' old routes have to be read before publishing moves them onto their new ones
+    const vacatedRouteIds = run.selectionPeriod.kind === 'VACANCY' && run.selectionPeriod.cascadeVacancies
+      ? await vacancyBidService.getRoutesVacatedByRun(run.id)
+      : [];
+
+    await assignmentRunService.publishRun(run.id, req.user!.id);
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user!.id,
+        action: 'PUBLISH_ASSIGNMENT_RUN',
+        resource: 'AssignmentRun',
+        details: `Published run v${run.version} for period ${run.selectionPeriod.name}`,
+      },
+    });
+
+    const cascadeBid = await vacancyBidService.openCascadeBid(run.selectionPeriodId, vacatedRouteIds, req.user!.id);
+
+    res.json({
+      success: true,
+      cascadeBid: cascadeBid ? { id: cascadeBid.id, name: cascadeBid.name, routes: cascadeBid.routes.length } : null,
+    });
+  } catch (error) {
+    console.error('Publish assignment run error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/assignment-runs/:id/rollback - Re-publish a run that was published before
+router.post('/:id/rollback', authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const run = await prisma.assignmentRun.findUnique({
+      where: { id: req.params.id },
+      include: { selectionPeriod: true },
+    });
+
+    if (!run) {
+      return res.status(404).json({ error: 'Assignment run not found' });
+    }
+
+    if (run.status !== 'SUPERSEDED') {
+      return res.status(400).json({ error: 'Only previously published runs can be rolled back to' });
+    }
+
+    const currentRun = await prisma.assignmentRun.findFirst({
+      where: { selectionPeriodId: run.selectionPeriodId, status: 'PUBLISHED' },
+    });
+
+    await assignmentRunService.publishRun(run.id, req.user!.id);
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user!.id,
+        action: 'ROLLBACK_ASSIGNMENT_RUN',
+        resource: 'AssignmentRun',
+        details: `Rolled back period ${run.selectionPeriod.name} from run v${currentRun?.version ?? '-'} to run v${run.version}`,
+      },
+    });
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Rollback assignment run error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -1,13 +1,54 @@
 import { Router, Request, Response } from 'express';
+import { z } from 'zod';
 import prisma from '../utils/database.js';
 import { authenticateToken, requireAdmin } from '../middleware/auth.js';
+import { checkTerminalAccess, TerminalAccessRequest } from '../middleware/terminalAccess.js';
 import { AssignmentEngine } from '../services/assignmentEngine.js';
 import emailService from '../services/email.js';
+import jobService, { BatchPayload, BatchPeriodReport } from '../services/jobs.js';
+import periodLifecycleService from '../services/periodLifecycle.js';
+import assignmentRunService from '../services/assignmentRuns.js';
+import periodRosterService from '../services/periodRoster.js';
+import { countByRank, getAwardedRanks, getOrdinal } from '../utils/choiceRanks.js';
 import { FileProcessor } from '../utils/fileProcessor.js';
+import { getMissingRequirement, routeRequirementsInclude } from '../utils/qualifications.js';
+import { countAwardsByRoute, getRemainingPositions } from '../utils/routePositions.js';
 import PDFDocument from 'pdfkit';
 
 const router = Router();
 
+const batchSchema = z.object({
+  // Defaults to every terminal the user can manage
+  terminalIds: z.array(z.string()).min(1).optional(),
+});
+
+const simulateSchema = z.object({
+  routes: z.object({
+    remove: z.array(z.string()).optional(),
+    add: z.array(z.object({
+      id: z.string().optional(),
+      runNumber: z.string().min(1),
+      positions: z.number().int().min(1).optional(),
+      requirementIds: z.array(z.string()).optional(),
+    })).optional(),
+    update: z.array(z.object({
+      id: z.string(),
+      positions: z.number().int().min(1).optional(),
+      requirementIds: z.array(z.string()).optional(),
+    })).optional(),
+  }).optional(),
+  employees: z.array(z.object({
+    employeeId: z.string(),
+    qualificationIds: z.array(z.string()).optional(),
+    isEligible: z.boolean().optional(),
+  })).optional(),
+  selections: z.array(z.object({
+    employeeId: z.string(),
+    choiceIds: z.array(z.string()),
+    retainCurrentRoute: z.boolean().optional(),
+  })).optional(),
+});
+
 // GET /api/assignments - Get all assignments
 router.get('/', authenticateToken, requireAdmin, async (req: Request, res: Response) => {
   try {
@@ -28,8 +69,14 @@ router.get('/', authenticateToken, requireAdmin, async (req: Request, res: Respo
             firstName: true,
             lastName: true,
             hireDate: true,
-            doublesEndorsement: true,
-            chainExperience: true,
+            qualifications: {
+              select: {
+                expiresAt: true,
+                qualification: {
+                  select: { code: true, name: true },
+                },
+              },
+            },
           },
         },
         route: {
@@ -82,8 +129,14 @@ router.get('/period/:periodId', authenticateToken, requireAdmin, async (req: Req
             lastName: true,
             email: true,
             hireDate: true,
-            doublesEndorsement: true,
-            chainExperience: true,
+            qualifications: {
+              select: {
+                expiresAt: true,
+                qualification: {
+                  select: { code: true, name: true },
+                },
+              },
+            },
           },
         },
         route: {
@@ -96,6 +149,7 @@ router.get('/period/:periodId', authenticateToken, requireAdmin, async (req: Req
             days: true,
             startTime: true,
             endTime: true,
+            positions: true,
           },
         },
       },
@@ -163,7 +217,7 @@ router.get('/my/:periodId', authenticateToken, async (req: Request, res: Respons
   }
 });
 
-// POST /api/assignments/process/:periodId - Process assignments for a period
+// POST /api/assignments/process/:periodId - Queue assignment processing for a period; returns a job id to poll
 router.post('/process/:periodId', authenticateToken, requireAdmin, async (req: Request, res: Response) => {
   try {
     const { periodId } = req.params;
@@ -178,21 +232,21 @@ router.post('/process/:periodId', authenticateToken, requireAdmin, async (req: R
       return res.status(404).json({ error: 'Selection period not found' });
     }
 
-    if (selectionPeriod.status !== 'CLOSED' && selectionPeriod.status !== 'PROCESSING') {
-      return res.status(400).json({ 
-        error: 'Selection period must be closed before processing assignments' 
-      });
+    const processingError = periodLifecycleService.getProcessingError(selectionPeriod);
+    if (processingError) {
+      return res.status(400).json({ error: processingError });
     }
 
-    // Update status to processing if not already
-    if (selectionPeriod.status === 'CLOSED') {
-      await prisma.selectionPeriod.update({
-        where: { id: periodId },
-        data: { status: 'PROCESSING' },
+    const activeJob = await jobService.getActiveJobForPeriod(periodId);
+    if (activeJob) {
+      return res.status(409).json({
+        error: 'Assignments are already being processed for this period',
+        jobId: activeJob.id,
       });
     }
 
-    try {
+    // A preview only reads, so it runs in the request and leaves the period as it is
+    if (preview) {
       const engine = new AssignmentEngine();
       const assignments = await engine.processAssignments(periodId);
 
@@ -205,52 +259,465 @@ router.post('/process/:periodId', authenticateToken, requireAdmin, async (req: R
         });
       }
 
-      const summary = engine.getAssignmentSummary();
-
-      if (!preview) {
-        // Save assignments to database
-        await engine.saveAssignments(periodId);
-
-        // Update selection period status
-        await prisma.selectionPeriod.update({
-          where: { id: periodId },
-          data: { status: 'COMPLETED' },
-        });
-
-        // Log the assignment processing
-        await prisma.auditLog.create({
-          data: {
-            userId: req.user!.id,
-            action: 'PROCESS_ASSIGNMENTS',
-            resource: 'SelectionPeriod',
-            details: `Processed assignments for period ${selectionPeriod.name}. Total: ${assignments.length} assignments`,
-          },
-        });
-      }
-
-      res.json({
+      return res.json({
         success: true,
         preview,
-        summary,
+        runId: null,
+        summary: engine.getAssignmentSummary(),
         assignments: assignments.map(a => ({
           employeeId: a.employeeId,
           routeId: a.routeId,
           choiceReceived: a.choiceReceived,
+          forced: a.forced ?? false,
           reason: a.reason,
+          seniorityRank: a.seniorityRank,
+          round: a.round,
+          trace: a.trace,
         })),
       });
+    }
+
+    await periodLifecycleService.startProcessing(selectionPeriod, req.user!.id);
+
+    // Big terminals take longer than a request can wait; poll GET /api/jobs/:id for progress and results
+    const job = await jobService.enqueue('PROCESS_ASSIGNMENTS', { selectionPeriodId: periodId }, req.user!.id);
+
+    res.status(202).json({
+      jobId: job.id,
+      status: job.status,
+    });
+
+  } catch (error) {
+    console.error('Process assignments error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/assignments/batch - Queue processing of every closed bid period in a set of terminals (Admin only)
+router.post('/batch', authenticateToken, requireAdmin, checkTerminalAccess, async (req: TerminalAccessRequest, res: Response) => {
+  try {
+    const data = batchSchema.parse(req.body);
+    const allowedTerminals = req.allowedTerminals || [];
+    const terminalIds = data.terminalIds || allowedTerminals;
+
+    if (terminalIds.some(id => !allowedTerminals.includes(id))) {
+      return res.status(403).json({ error: 'Access denied to this terminal' });
+    }
+
+    const closedPeriods = await prisma.selectionPeriod.findMany({
+      where: {
+        terminalId: { in: terminalIds },
+        status: 'CLOSED',
+        mode: 'BID',
+        // Processed periods wait in CLOSED until a run is published; leave them to their review
+        assignmentRuns: { none: { status: 'DRAFT' } },
+      },
+      orderBy: [{ terminalId: 'asc' }, { startDate: 'asc' }],
+    });
+
+    // Periods already queued on their own are left to that job
+    const periods = [];
+    for (const period of closedPeriods) {
+      if (!(await jobService.getActiveJobForPeriod(period.id))) {
+        periods.push(period);
+      }
+    }
+
+    if (periods.length === 0) {
+      return res.status(400).json({ error: 'No closed periods to process in these terminals' });
+    }
+
+    for (const period of periods) {
+      await periodLifecycleService.startProcessing(period, req.user!.id);
+    }
+
+    const periodIds = periods.map(period => period.id);
+
+    const payload: BatchPayload = { terminalIds, periodIds };
+    const job = await jobService.enqueue('PROCESS_BATCH', { periodIds, payload }, req.user!.id);
+
+    res.status(202).json({
+      jobId: job.id,
+      status: job.status,
+      periods: periods.map(period => ({ id: period.id, name: period.name, terminalId: period.terminalId })),
+    });
+  } catch (error) {
+    console.error('Batch process assignments error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET /api/assignments/batch/:jobId/download - Download every period's results from a batch as one CSV (Admin only)
+router.get('/batch/:jobId/download', authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const job = await prisma.job.findUnique({
+      where: { id: req.params.jobId },
+    });
+
+    if (!job || job.type !== 'PROCESS_BATCH') {
+      return res.status(404).json({ error: 'Batch not found' });
+    }
+
+    if (job.status !== 'SUCCEEDED' || !job.result) {
+      return res.status(400).json({ error: 'Batch has not finished' });
+    }
+
+    const reports: BatchPeriodReport[] = JSON.parse(job.result).periods;
+    const processed = reports.filter(report => report.runId);
+    const runs = await prisma.assignmentRun.findMany({
+      where: { id: { in: processed.map(report => report.runId!) } },
+    });
+    const runsById = new Map(runs.map(run => [run.id, run]));
+
+    const rows = processed.flatMap(report => {
+      const run = runsById.get(report.runId!);
+      return run ? assignmentRunService.getResults(run).map(result => ({ report, run, result })) : [];
+    });
+
+    const [employees, routes] = await Promise.all([
+      prisma.employee.findMany({
+        where: { id: { in: [...new Set(rows.map(({ result }) => result.employeeId))] } },
+        include: { user: true },
+      }),
+      prisma.route.findMany({
+        where: { id: { in: [...new Set(rows.flatMap(({ result }) => result.routeId ? [result.routeId] : []))] } },
+      }),
+    ]);
+    const employeesById = new Map(employees.map(employee => [employee.id, employee]));
+    const routesById = new Map(routes.map(route => [route.id, route]));
+
+    const data = rows.map(({ report, run, result }) => {
+      const employee = employeesById.get(result.employeeId);
+      const route = result.routeId ? routesById.get(result.routeId) : undefined;
+      return {
+        'Terminal': report.terminalName,
+        'Period': report.periodName,
+        'Run': `v${run.version}`,
+        'Seniority': result.seniorityRank,
+        'Employee Number': employee?.employeeId || '',
+        'Name': employee ? `${employee.firstName} ${employee.lastName}` : '',
+        'Email': employee?.user?.email || '',
+        'Assigned Route': route ? route.runNumber : 'Float Pool',
+        'Route Details': route ? `${route.origin} to ${route.destination}` : 'Various',
+        'Choice Received': result.forced ? 'Forced' : result.choiceReceived ? `Choice #${result.choiceReceived}` : 'N/A',
+        'Round': result.round,
+        'Status': result.forced ? 'Force-Assigned' : route ? 'Assigned' : 'Float Pool',
+      };
+    });
 
-    } catch (processingError) {
-      // Reset status to closed if processing failed
-      await prisma.selectionPeriod.update({
-        where: { id: periodId },
-        data: { status: 'CLOSED' },
+    // Periods that didn't produce a run get a row so the file accounts for the whole batch
+    for (const report of reports.filter(r => !r.runId)) {
+      data.push({
+        'Terminal': report.terminalName,
+        'Period': report.periodName,
+        'Run': '',
+        'Seniority': 0,
+        'Employee Number': '',
+        'Name': '',
+        'Email': '',
+        'Assigned Route': '',
+        'Route Details': (report.errors || []).join('; '),
+        'Choice Received': '',
+        'Round': 0,
+        'Status': report.outcome === 'VALIDATION_FAILED' ? 'Validation Failed' : 'Failed',
       });
-      throw processingError;
     }
 
+    const csv = FileProcessor.generateCSV(data);
+    res.setHeader('Content-Type', 'text/csv');
+    res.setHeader('Content-Disposition', `attachment; filename="batch-assignment-results-${job.id}.csv"`);
+    res.send(csv);
   } catch (error) {
-    console.error('Process assignments error:', error);
+    console.error('Download batch results error:', error);
+    res.status(500).json({ error: 'Failed to generate download' });
+  }
+});
+
+// POST /api/assignments/simulate/:periodId - Run the engine with hypothetical edits beside the live baseline
+router.post('/simulate/:periodId', authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const { periodId } = req.params;
+    const overrides = simulateSchema.parse(req.body);
+
+    const selectionPeriod = await prisma.selectionPeriod.findUnique({
+      where: { id: periodId },
+    });
+
+    if (!selectionPeriod) {
+      return res.status(404).json({ error: 'Selection period not found' });
+    }
+
+    // Both engines only read from the database
+    const baselineEngine = new AssignmentEngine();
+    const baselineAssignments = await baselineEngine.processAssignments(periodId);
+
+    const simulationEngine = new AssignmentEngine();
+    const simulatedAssignments = await simulationEngine.simulateAssignments(periodId, overrides);
+
+    const runNumbers = new Map(
+      [...baselineEngine.getRoutes(), ...simulationEngine.getRoutes()].map(route => [route.id, route.runNumber])
+    );
+    const employeeIds = [...new Set([...baselineAssignments, ...simulatedAssignments].map(a => a.employeeId))];
+    const employees = await prisma.employee.findMany({
+      where: { id: { in: employeeIds } },
+      select: {
+        id: true,
+        employeeId: true,
+        firstName: true,
+        lastName: true,
+      },
+    });
+    const employeeMap = new Map(employees.map(e => [e.id, e]));
+
+    const formatAssignments = (assignments: typeof baselineAssignments) => assignments.map(a => ({
+      employeeId: a.employeeId,
+      employeeNumber: employeeMap.get(a.employeeId)?.employeeId,
+      employeeName: employeeMap.has(a.employeeId)
+        ? `${employeeMap.get(a.employeeId)!.firstName} ${employeeMap.get(a.employeeId)!.lastName}`
+        : a.employeeId,
+      routeId: a.routeId,
+      runNumber: a.routeId ? runNumbers.get(a.routeId) || null : null,
+      choiceReceived: a.choiceReceived,
+      viaIncumbency: a.viaIncumbency ?? false,
+      forced: a.forced ?? false,
+      reason: a.reason,
+      seniorityRank: a.seniorityRank,
+    }));
+
+    const baseline = formatAssignments(baselineAssignments);
+    const simulation = formatAssignments(simulatedAssignments);
+
+    // Drivers whose outcome differs, including those added or removed by the simulation
+    const baselineByEmployee = new Map(baseline.map(a => [a.employeeId, a]));
+    const simulationByEmployee = new Map(simulation.map(a => [a.employeeId, a]));
+    const changes = employeeIds
+      .map(employeeId => {
+        const before = baselineByEmployee.get(employeeId);
+        const after = simulationByEmployee.get(employeeId);
+        return {
+          employeeId,
+          employeeNumber: (before || after)!.employeeNumber,
+          employeeName: (before || after)!.employeeName,
+          baselineRunNumber: before ? before.runNumber : undefined,
+          simulatedRunNumber: after ? after.runNumber : undefined,
+          inBaseline: !!before,
+          inSimulation: !!after,
+        };
+      })
+      .filter(change =>
+        change.inBaseline !== change.inSimulation ||
+        change.baselineRunNumber !== change.simulatedRunNumber
+      );
+
+    res.json({
+      baseline: {
+        summary: baselineEngine.getAssignmentSummary(),
+        validation: baselineEngine.validateAssignments(),
+        assignments: baseline,
+      },
+      simulation: {
+        summary: simulationEngine.getAssignmentSummary(),
+        validation: simulationEngine.validateAssignments(),
+        assignments: simulation,
+      },
+      changes,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    console.error('Simulate assignments error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/assignments/second-round/:periodId/open - Open the second round for float-pool drivers
+router.post('/second-round/:periodId/open', authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const { periodId } = req.params;
+
+    const selectionPeriod = await prisma.selectionPeriod.findUnique({
+      where: { id: periodId },
+      include: { terminal: true },
+    });
+
+    if (!selectionPeriod) {
+      return res.status(404).json({ error: 'Selection period not found' });
+    }
+
+    if (!selectionPeriod.secondRoundEnabled) {
+      return res.status(400).json({ error: 'Second round is not enabled for this period' });
+    }
+
+    if (selectionPeriod.status !== 'COMPLETED' || !(await assignmentRunService.getPublishedRun(periodId))) {
+      return res.status(400).json({ error: 'Round one must be processed and published before opening the second round' });
+    }
+
+    if (selectionPeriod.secondRoundStartDate) {
+      return res.status(409).json({ error: 'Second round has already been opened' });
+    }
+
+    const assignments = await prisma.assignment.findMany({
+      where: { selectionPeriodId: periodId },
+      include: {
+        employee: {
+          include: {
+            user: {
+              select: { email: true },
+            },
+          },
+        },
+      },
+    });
+
+    const awardCounts = countAwardsByRoute(assignments);
+    const periodRoutes = await prisma.periodRoute.findMany({
+      where: { selectionPeriodId: periodId },
+      include: {
+        route: {
+          select: { id: true, positions: true },
+        },
+      },
+    });
+    const leftoverRouteCount = periodRoutes.filter(pr => getRemainingPositions(pr.route, awardCounts) > 0).length;
+    const floatPoolAssignments = assignments.filter(a => !a.routeId);
+
+    if (leftoverRouteCount === 0 || floatPoolAssignments.length === 0) {
+      return res.status(400).json({ error: 'There are no unclaimed routes or float-pool drivers for a second round' });
+    }
+
+    const startDate = new Date();
+    const endDate = new Date(startDate.getTime() + selectionPeriod.secondRoundHours * 60 * 60 * 1000);
+
+    await prisma.selectionPeriod.update({
+      where: { id: periodId },
+      data: {
+        secondRoundStartDate: startDate,
+        secondRoundEndDate: endDate,
+      },
+    });
+
+    // Notify every float-pool driver of their window
+    let notificationsSent = 0;
+    let notificationsFailed = 0;
+    await Promise.all(floatPoolAssignments.map(async (assignment) => {
+      if (!assignment.employee.user?.email) return;
+      try {
+        await emailService.sendSecondRoundNotification(
+          assignment.employee.user.email,
+          `${assignment.employee.firstName} ${assignment.employee.lastName}`,
+          {
+            periodName: selectionPeriod.name,
+            endDate,
+            availableRoutes: leftoverRouteCount,
+            timeZone: selectionPeriod.terminal.timeZone,
+          }
+        );
+        notificationsSent++;
+      } catch (error) {
+        console.error(`Failed to send second round email to ${assignment.employee.user.email}:`, error);
+        notificationsFailed++;
+      }
+    }));
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user!.id,
+        action: 'OPEN_SECOND_ROUND',
+        resource: 'SelectionPeriod',
+        details: `Opened second round for period ${selectionPeriod.name} until ${endDate.toISOString()}. ${floatPoolAssignments.length} float-pool drivers, ${leftoverRouteCount} unclaimed routes`,
+      },
+    });
+
+    res.json({
+      success: true,
+      secondRoundStartDate: startDate,
+      secondRoundEndDate: endDate,
+      floatPoolDrivers: floatPoolAssignments.length,
+      availableRoutes: leftoverRouteCount,
+      notificationsSent,
+      notificationsFailed,
+    });
+  } catch (error) {
+    console.error('Open second round error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/assignments/second-round/:periodId/process - Process second round rankings
+router.post('/second-round/:periodId/process', authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const { periodId } = req.params;
+    const { preview = false } = req.body;
+
+    const selectionPeriod = await prisma.selectionPeriod.findUnique({
+      where: { id: periodId },
+    });
+
+    if (!selectionPeriod) {
+      return res.status(404).json({ error: 'Selection period not found' });
+    }
+
+    if (!selectionPeriod.secondRoundStartDate || !selectionPeriod.secondRoundEndDate) {
+      return res.status(400).json({ error: 'Second round has not been opened' });
+    }
+
+    if (selectionPeriod.secondRoundProcessedAt) {
+      return res.status(409).json({ error: 'Second round has already been processed' });
+    }
+
+    if (!preview && new Date() < selectionPeriod.secondRoundEndDate) {
+      return res.status(400).json({ error: 'Second round window is still open' });
+    }
+
+    const engine = new AssignmentEngine();
+    const assignments = await engine.processSecondRound(periodId);
+
+    const validation = engine.validateAssignments();
+    if (!validation.isValid) {
+      return res.status(400).json({ 
+        error: 'Assignment validation failed', 
+        details: validation.errors 
+      });
+    }
+
+    const summary = engine.getAssignmentSummary();
+    let runId: string | null = null;
+
+    if (!preview) {
+      runId = await engine.saveSecondRoundAssignments(periodId, req.user!.id);
+
+      await prisma.auditLog.create({
+        data: {
+          userId: req.user!.id,
+          action: 'PROCESS_SECOND_ROUND',
+          resource: 'SelectionPeriod',
+          details: `Processed second round for period ${selectionPeriod.name}. ${assignments.filter(a => a.routeId).length} of ${assignments.length} float-pool drivers awarded a route. Run ${runId} awaiting publish`,
+        },
+      });
+    }
+
+    res.json({
+      success: true,
+      preview,
+      runId,
+      summary,
+      assignments: assignments.map(a => ({
+        employeeId: a.employeeId,
+        routeId: a.routeId,
+        choiceReceived: a.choiceReceived,
+        forced: a.forced ?? false,
+        reason: a.reason,
+        seniorityRank: a.seniorityRank,
+        round: a.round,
+        trace: a.trace,
+      })),
+    });
+  } catch (error) {
+    console.error('Process second round error:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
@@ -277,6 +744,7 @@ router.post('/manual/:periodId', authenticateToken, requireAdmin, async (req: Re
     // Check if employee exists
     const employee = await prisma.employee.findUnique({
       where: { id: employeeId },
+      include: { qualifications: true },
     });
 
     if (!employee) {
@@ -287,31 +755,34 @@ router.post('/manual/:periodId', authenticateToken, requireAdmin, async (req: Re
     if (routeId) {
       const route = await prisma.route.findUnique({
         where: { id: routeId },
+        include: routeRequirementsInclude,
       });
 
       if (!route) {
         return res.status(404).json({ error: 'Route not found' });
       }
 
-      // Check if route is already assigned
-      const existingAssignment = await prisma.assignment.findFirst({
+      // Check the route still has an open position, not counting this employee's own assignment
+      const holders = await prisma.assignment.count({
         where: {
           selectionPeriodId: periodId,
           routeId,
+          employeeId: { not: employeeId },
         },
       });
 
-      if (existingAssignment) {
-        return res.status(409).json({ error: 'Route is already assigned to another employee' });
+      if (holders >= route.positions) {
+        return res.status(409).json({
+          error: route.positions > 1
+            ? `All ${route.positions} positions on this route are already assigned`
+            : 'Route is already assigned to another employee',
+        });
       }
 
       // Check qualifications
-      if (route.requiresDoublesEndorsement && !employee.doublesEndorsement) {
-        return res.status(400).json({ error: 'Employee does not have required doubles endorsement' });
-      }
-
-      if (route.requiresChainExperience && !employee.chainExperience) {
-        return res.status(400).json({ error: 'Employee does not have required chain experience' });
+      const missingRequirement = getMissingRequirement(employee, route);
+      if (missingRequirement) {
+        return res.status(400).json({ error: `Employee does not have required qualification: ${missingRequirement}` });
       }
     }
 
@@ -448,7 +919,7 @@ router.get('/summary/:periodId', authenticateToken, requireAdmin, async (req: Re
     });
 
     const totalEmployees = await prisma.employee.count({
-      where: { isEligible: true },
+      where: periodRosterService.getParticipantWhere(period),
     });
 
     const summary = {
@@ -457,10 +928,9 @@ router.get('/summary/:periodId', authenticateToken, requireAdmin, async (req: Re
       assignedToRoutes: assignments.filter(a => a.routeId).length,
       inFloatPool: assignments.filter(a => !a.routeId).length,
       choiceDistribution: {
-        firstChoice: assignments.filter(a => a.choiceReceived === 1).length,
-        secondChoice: assignments.filter(a => a.choiceReceived === 2).length,
-        thirdChoice: assignments.filter(a => a.choiceReceived === 3).length,
-        manual: assignments.filter(a => a.choiceReceived === null && a.routeId).length,
+        byRank: countByRank(assignments),
+        manual: assignments.filter(a => a.choiceReceived === null && a.routeId && !a.forced).length,
+        forced: assignments.filter(a => a.forced).length,
         floatPool: assignments.filter(a => !a.routeId).length,
       },
       routeTypeDistribution: assignments.reduce((acc: any, assignment) => {
@@ -485,6 +955,73 @@ router.get('/summary/:periodId', authenticateToken, requireAdmin, async (req: Re
   }
 });
 
+// GET /api/assignments/trace/:periodId - Get the per-employee decision trace of the last processing run
+router.get('/trace/:periodId', authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const { periodId } = req.params;
+    const { employeeId } = req.query;
+
+    const period = await prisma.selectionPeriod.findUnique({
+      where: { id: periodId },
+    });
+
+    if (!period) {
+      return res.status(404).json({ error: 'Selection period not found' });
+    }
+
+    const where: any = { selectionPeriodId: periodId };
+    if (employeeId) {
+      where.employeeId = employeeId as string;
+    }
+
+    const traces = await prisma.assignmentTrace.findMany({
+      where,
+      include: {
+        employee: {
+          select: {
+            id: true,
+            employeeId: true,
+            firstName: true,
+            lastName: true,
+            hireDate: true,
+          },
+        },
+      },
+      orderBy: { seniorityRank: 'asc' },
+    });
+
+    // Resolve awarded run numbers for display
+    const routeIds = traces.map(t => t.routeId).filter((id): id is string => !!id);
+    const routes = await prisma.route.findMany({
+      where: { id: { in: routeIds } },
+      select: { id: true, runNumber: true },
+    });
+    const runNumbers = new Map(routes.map(r => [r.id, r.runNumber]));
+
+    res.json({
+      period: {
+        id: period.id,
+        name: period.name,
+        status: period.status,
+      },
+      processedAt: traces[0]?.createdAt || null,
+      traces: traces.map(trace => ({
+        id: trace.id,
+        seniorityRank: trace.seniorityRank,
+        employee: trace.employee,
+        routeId: trace.routeId,
+        runNumber: trace.routeId ? runNumbers.get(trace.routeId) || null : null,
+        choiceReceived: trace.choiceReceived,
+        reason: trace.reason,
+        steps: JSON.parse(trace.steps),
+      })),
+    });
+  } catch (error) {
+    console.error('Get assignment trace error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // POST /api/assignments/notify/:periodId - Send assignment notifications
 router.post('/notify/:periodId', authenticateToken, requireAdmin, async (req: Request, res: Response) => {
   try {
@@ -501,9 +1038,9 @@ router.post('/notify/:periodId', authenticateToken, requireAdmin, async (req: Re
       return res.status(404).json({ error: 'Selection period not found' });
     }
 
-    if (period.status !== 'COMPLETED') {
+    if (period.status !== 'COMPLETED' || !(await assignmentRunService.getPublishedRun(periodId))) {
       return res.status(400).json({ 
-        error: 'Assignments must be completed before sending notifications' 
+        error: 'Assignments must be published before sending notifications' 
       });
     }
 
@@ -640,8 +1177,10 @@ router.get('/download/:periodId', authenticateToken, requireAdmin, async (req: R
       'Assigned Route': assignment.route ? assignment.route.runNumber : 'Float Pool',
       'Route Details': assignment.route ? `${assignment.route.origin} to ${assignment.route.destination}` : 'Various',
       'Schedule': assignment.route ? `${assignment.route.days} | ${assignment.route.startTime} - ${assignment.route.endTime}` : 'As Needed',
-      'Choice Received': assignment.choiceReceived ? `Choice #${assignment.choiceReceived}` : 'N/A',
-      'Status': assignment.route ? 'Assigned' : 'Float Pool',
+      'Choice Received': assignment.forced ? 'Forced' : assignment.choiceReceived ? `Choice #${assignment.choiceReceived}` : 'N/A',
+      'Incumbency': assignment.viaIncumbency ? 'Yes' : 'No',
+      'Round': assignment.round,
+      'Status': assignment.forced ? 'Force-Assigned' : assignment.route ? 'Assigned' : 'Float Pool',
     }));
 
     if (format === 'pdf') {
@@ -667,19 +1206,21 @@ router.get('/download/:periodId', authenticateToken, requireAdmin, async (req: R
       // Add summary statistics
       const assignedCount = assignments.filter(a => a.route).length;
       const floatPoolCount = assignments.filter(a => !a.route).length;
-      const firstChoiceCount = assignments.filter(a => a.choiceReceived === 1).length;
-      const secondChoiceCount = assignments.filter(a => a.choiceReceived === 2).length;
-      const thirdChoiceCount = assignments.filter(a => a.choiceReceived === 3).length;
+      const byRank = countByRank(assignments);
+      const incumbencyCount = assignments.filter(a => a.viaIncumbency).length;
+      const forcedCount = assignments.filter(a => a.forced).length;
 
       doc.fontSize(14).text('Summary Statistics', { underline: true });
       doc.fontSize(10);
       doc.text(`Total Drivers: ${assignments.length}`);
       doc.text(`Assigned to Routes: ${assignedCount}`);
       doc.text(`Float Pool: ${floatPoolCount}`);
-      doc.text(`First Choice Assignments: ${firstChoiceCount}`);
-      doc.text(`Second Choice Assignments: ${secondChoiceCount}`);
-      doc.text(`Third Choice Assignments: ${thirdChoiceCount}`);
-      doc.text(`First Choice Success Rate: ${assignedCount > 0 ? Math.round((firstChoiceCount / assignedCount) * 100) : 0}%`);
+      getAwardedRanks(byRank).forEach(rank => {
+        doc.text(`${getOrdinal(rank)} Choice Assignments: ${byRank[rank]}`);
+      });
+      doc.text(`Retained by Incumbency: ${incumbencyCount}`);
+      doc.text(`Force-Assigned (no bid): ${forcedCount}`);
+      doc.text(`First Choice Success Rate: ${assignedCount > 0 ? Math.round(((byRank[1] || 0) / assignedCount) * 100) : 0}%`);
       doc.moveDown(2);
 
       // Add assignments table header
@@ -704,7 +1245,13 @@ router.get('/download/:periodId', authenticateToken, requireAdmin, async (req: R
           doc.text(`   Route Details: ${assignment.route.origin} to ${assignment.route.destination}`);
           doc.text(`   Schedule: ${assignment.route.days} | ${assignment.route.startTime} - ${assignment.route.endTime}`);
           if (assignment.choiceReceived) {
-            doc.text(`   Choice Received: ${assignment.choiceReceived === 1 ? '1st' : assignment.choiceReceived === 2 ? '2nd' : '3rd'} Choice`);
+            doc.text(`   Choice Received: ${getOrdinal(assignment.choiceReceived)} Choice`);
+          }
+          if (assignment.forced) {
+            doc.text(`   Awarded By: Force-assigned (unclaimed route, no choice)`);
+          }
+          if (assignment.viaIncumbency) {
+            doc.text(`   Awarded By: Incumbency (current route retained)`);
           }
         } else {
           doc.fillColor('orange').text(`   Assignment: Float Pool`);
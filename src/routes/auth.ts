@@ -22,8 +22,7 @@ const createUserSchema = z.object({
     lastName: z.string(),
     phone: z.string().optional(),
     hireDate: z.string(),
-    doublesEndorsement: z.boolean().optional().default(false),
-    chainExperience: z.boolean().optional().default(false),
+    qualificationIds: z.array(z.string()).optional().default([]),
   }).optional(),
 });
 
@@ -112,11 +111,15 @@ router.post('/register', async (req: Request, res: Response) => {
 
       let employee = null;
       if (data.employeeData) {
+        const { qualificationIds, ...employeeData } = data.employeeData;
         employee = await tx.employee.create({
           data: {
-            ...data.employeeData,
+            ...employeeData,
             email: data.email,
             hireDate: new Date(data.employeeData.hireDate),
+            qualifications: {
+              create: qualificationIds.map(qualificationId => ({ qualificationId })),
+            },
           },
         });
       }
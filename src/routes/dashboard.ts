@@ -2,6 +2,8 @@ import { Router, Response } from 'express';
 import { authenticateToken } from '../middleware/auth.js';
 import { AuthRequest } from '../types/index.js';
 import prisma from '../utils/database.js';
+import periodRosterService from '../services/periodRoster.js';
+import submissionWindowService from '../services/submissionWindows.js';
 
 const router = Router();
 
@@ -27,12 +29,19 @@ router.get('/stats', authenticateToken, async (req: AuthRequest, res: Response)
         name: true,
         startDate: true,
         endDate: true,
+        terminalId: true,
+        submissionBands: true,
+        rosterCapturedAt: true,
+        terminal: {
+          select: { timeZone: true },
+        },
       },
     });
 
     // Get selection counts
     let pendingSelections = 0;
     let completedSelections = 0;
+    let submissionWindow = null;
 
     if (activePeriod) {
       if (req.user?.role === 'DRIVER') {
@@ -52,6 +61,11 @@ router.get('/stats', authenticateToken, async (req: AuthRequest, res: Response)
           completedSelections = 0;
           pendingSelections = 1;
         }
+
+        // Drivers in a seniority-banded period see when their own band may submit
+        if (req.user.employeeId) {
+          submissionWindow = await submissionWindowService.getSubmissionWindow(activePeriod, req.user.employeeId);
+        }
       } else {
         // For admin/manager, count all selections for the active period
         const totalSelections = await prisma.selection.count({
@@ -63,9 +77,9 @@ router.get('/stats', authenticateToken, async (req: AuthRequest, res: Response)
         // For admin view, we'll show all submitted selections as completed
         completedSelections = totalSelections;
         
-        // Count eligible employees who haven't submitted
+        // Count drivers on the period's roster who haven't submitted
         const eligibleEmployees = await prisma.employee.count({
-          where: { isEligible: true },
+          where: periodRosterService.getParticipantWhere(activePeriod),
         });
         
         pendingSelections = Math.max(0, eligibleEmployees - totalSelections);
@@ -78,6 +92,7 @@ router.get('/stats', authenticateToken, async (req: AuthRequest, res: Response)
       activePeriod,
       pendingSelections,
       completedSelections,
+      submissionWindow,
     });
   } catch (error) {
     console.error('Error fetching dashboard stats:', error);
@@ -0,0 +1,277 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import prisma from '../utils/database.js';
+import { authenticateToken, requireAdmin } from '../middleware/auth.js';
+import draftService from '../services/draft.js';
+import { getMissingRequirements, routeRequirementsInclude } from '../utils/qualifications.js';
+import { getRouteChoiceError } from '../utils/routeChoices.js';
+
+const router = Router();
+
+const pickSchema = z.object({
+  routeId: z.string(),
+});
+
+const skipSchema = z.object({
+  // The pick on the clock when the admin chose to skip, so a pick made meanwhile isn't lost
+  draftPickId: z.string(),
+});
+
+// GET /api/draft/:periodId/board - Live draft board with pick order and open routes
+router.get('/:periodId/board', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const { periodId } = req.params;
+
+    const selectionPeriod = await prisma.selectionPeriod.findUnique({
+      where: { id: periodId },
+    });
+
+    if (!selectionPeriod) {
+      return res.status(404).json({ error: 'Selection period not found' });
+    }
+
+    if (selectionPeriod.mode !== 'DRAFT') {
+      return res.status(400).json({ error: 'This period does not use a live draft' });
+    }
+
+    // Don't wait on the scheduler to move past a lapsed window
+    await draftService.advanceExpiredWindows(periodId);
+
+    const [picks, periodRoutes, period, viewer] = await Promise.all([
+      prisma.draftPick.findMany({
+        where: { selectionPeriodId: periodId },
+        orderBy: { position: 'asc' },
+        include: {
+          employee: {
+            select: {
+              id: true,
+              employeeId: true,
+              firstName: true,
+              lastName: true,
+            },
+          },
+          route: {
+            select: {
+              id: true,
+              runNumber: true,
+            },
+          },
+        },
+      }),
+      prisma.periodRoute.findMany({
+        where: { selectionPeriodId: periodId },
+        include: {
+          route: {
+            include: routeRequirementsInclude,
+          },
+        },
+      }),
+      prisma.selectionPeriod.findUnique({
+        where: { id: periodId },
+      }),
+      req.user?.employeeId ? prisma.employee.findUnique({
+        where: { id: req.user.employeeId },
+        include: { qualifications: true },
+      }) : null,
+    ]);
+
+    const picksByRoute = new Map<string, typeof picks>();
+    for (const pick of picks) {
+      if (pick.routeId) {
+        picksByRoute.set(pick.routeId, [...(picksByRoute.get(pick.routeId) || []), pick]);
+      }
+    }
+
+    res.json({
+      period: {
+        id: period!.id,
+        name: period!.name,
+        status: period!.status,
+        mode: period!.mode,
+        draftPickMinutes: period!.draftPickMinutes,
+        draftSkipPolicy: period!.draftSkipPolicy,
+        draftStartedAt: period!.draftStartedAt,
+      },
+      picks,
+      currentPick: picks.find(p => p.status === 'ACTIVE') || null,
+      myPick: req.user?.employeeId ? picks.find(p => p.employeeId === req.user!.employeeId) || null : null,
+      routes: periodRoutes
+        .map(pr => {
+          const routePicks = picksByRoute.get(pr.route.id) || [];
+          return {
+            ...pr.route,
+            takenBy: routePicks.map(pick => `${pick.employee.firstName} ${pick.employee.lastName}`),
+            remainingPositions: Math.max(0, pr.route.positions - routePicks.length),
+            // Requirements the viewing driver lacks, from the same checker the pick endpoint applies
+            missingRequirements: viewer ? getMissingRequirements(viewer, pr.route) : [],
+          };
+        })
+        .sort((a, b) => a.runNumber.localeCompare(b.runNumber, undefined, { numeric: true })),
+    });
+  } catch (error) {
+    console.error('Get draft board error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/draft/:periodId/start - Build the pick order and open the first window
+router.post('/:periodId/start', authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const { periodId } = req.params;
+
+    const selectionPeriod = await prisma.selectionPeriod.findUnique({
+      where: { id: periodId },
+      include: {
+        _count: {
+          select: { routes: true },
+        },
+      },
+    });
+
+    if (!selectionPeriod) {
+      return res.status(404).json({ error: 'Selection period not found' });
+    }
+
+    if (selectionPeriod.mode !== 'DRAFT') {
+      return res.status(400).json({ error: 'This period does not use a live draft' });
+    }
+
+    if (selectionPeriod.status !== 'UPCOMING' && selectionPeriod.status !== 'OPEN') {
+      return res.status(400).json({ error: 'Only upcoming or open periods can start a draft' });
+    }
+
+    if (selectionPeriod.draftStartedAt) {
+      return res.status(409).json({ error: 'The draft has already started' });
+    }
+
+    if (selectionPeriod._count.routes === 0) {
+      return res.status(400).json({ error: 'Add routes to the period before starting the draft' });
+    }
+
+    const participants = await draftService.startDraft(periodId, req.user!.id);
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user!.id,
+        action: 'START_DRAFT',
+        resource: 'SelectionPeriod',
+        details: `Started live draft for period ${selectionPeriod.name} with ${participants} drivers and ${selectionPeriod._count.routes} routes`,
+      },
+    });
+
+    res.json({ success: true, participants });
+  } catch (error) {
+    console.error('Start draft error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/draft/:periodId/pick - Claim a route during the active pick window
+router.post('/:periodId/pick', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const { periodId } = req.params;
+    const { routeId } = pickSchema.parse(req.body);
+    const isAdmin = req.user!.role === 'ADMIN' || req.user!.role === 'MANAGER';
+
+    await draftService.advanceExpiredWindows(periodId);
+
+    const activePick = await prisma.draftPick.findFirst({
+      where: { selectionPeriodId: periodId, status: 'ACTIVE' },
+      include: {
+        employee: {
+          include: { qualifications: true },
+        },
+      },
+    });
+
+    if (!activePick) {
+      return res.status(400).json({ error: 'No pick window is currently open' });
+    }
+
+    // Admins may enter a pick phoned in by the driver on the clock
+    if (!isAdmin && activePick.employeeId !== req.user!.employeeId) {
+      return res.status(403).json({ error: 'It is not your turn to pick' });
+    }
+
+    const availableRoutes = await draftService.getAvailableRoutes(periodId);
+    const route = availableRoutes.find(r => r.id === routeId);
+
+    if (!route) {
+      return res.status(400).json({ error: 'Route is not available in this draft' });
+    }
+
+    // Draft picks are solo, one route at a time, from what is still unclaimed
+    const choiceError = getRouteChoiceError([route.id], {
+      employee: activePick.employee,
+      periodRoutes: availableRoutes,
+      reservedRouteIds: new Set(),
+      hasConfirmedTeam: false,
+      maxChoices: 1,
+      isVacancy: false,
+    });
+    if (choiceError) {
+      return res.status(400).json({ error: choiceError });
+    }
+
+    if (!(await draftService.submitPick(periodId, activePick.id, route.id))) {
+      return res.status(409).json({ error: 'The pick window closed before the pick was made' });
+    }
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user!.id,
+        action: 'DRAFT_PICK',
+        resource: 'DraftPick',
+        details: `${activePick.employee.firstName} ${activePick.employee.lastName} (${activePick.employee.employeeId}) claimed route ${route.runNumber}${isAdmin && activePick.employeeId !== req.user!.employeeId ? ' (entered by admin)' : ''}`,
+      },
+    });
+
+    res.json({ success: true, routeId: route.id, runNumber: route.runNumber });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    console.error('Draft pick error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/draft/:periodId/skip - Skip the driver currently on the clock
+router.post('/:periodId/skip', authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const { periodId } = req.params;
+    const { draftPickId } = skipSchema.parse(req.body);
+
+    const activePick = await prisma.draftPick.findUnique({
+      where: { id: draftPickId },
+      include: { employee: true },
+    });
+
+    if (!activePick || activePick.selectionPeriodId !== periodId) {
+      return res.status(404).json({ error: 'Draft pick not found' });
+    }
+
+    if (!(await draftService.skipPick(periodId, activePick.id))) {
+      return res.status(409).json({ error: 'This driver is no longer on the clock' });
+    }
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user!.id,
+        action: 'SKIP_DRAFT_PICK',
+        resource: 'DraftPick',
+        details: `Skipped ${activePick.employee.firstName} ${activePick.employee.lastName} (${activePick.employee.employeeId}) in the live draft`,
+      },
+    });
+
+    res.json({ success: true });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    console.error('Skip draft pick error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -3,6 +3,8 @@ import { z } from 'zod';
 import prisma from '../utils/database.js';
 import { authenticateToken, requireAdmin, requireAdminOrSelf } from '../middleware/auth.js';
 import { checkTerminalAccess, validateTerminalAccess, TerminalAccessRequest } from '../middleware/terminalAccess.js';
+import { getEffectiveSeniorityDate, getSeniorityPolicy, seniorityAdjustmentsInclude, sortBySeniority } from '../utils/seniority.js';
+import { employeeQualificationsInclude } from '../utils/qualifications.js';
 
 const router = Router();
 
@@ -13,21 +15,36 @@ const createEmployeeSchema = z.object({
   email: z.string().email(),
   phone: z.string().optional(),
   hireDate: z.string(),
-  doublesEndorsement: z.boolean().default(false),
-  chainExperience: z.boolean().default(false),
+  seniorityDate: z.string().optional().nullable(),
+  ssnLastFour: z.string().regex(/^\d{4}$/, 'Must be four digits').optional().nullable(),
+  qualifications: z.array(z.object({
+    qualificationId: z.string(),
+    issuedAt: z.string().optional().nullable(),
+    expiresAt: z.string().optional().nullable(),
+  })).optional(),
   isEligible: z.boolean().default(true),
   terminalId: z.string(),
 });
 
 const updateEmployeeSchema = createEmployeeSchema.partial();
 
+const seniorityAdjustmentSchema = z.object({
+  days: z.number().int().refine(days => days !== 0, 'Adjustment must move the seniority date'),
+  reason: z.string().min(3),
+});
+
+const toQualificationData = (qualification: { qualificationId: string; issuedAt?: string | null; expiresAt?: string | null }) => ({
+  qualificationId: qualification.qualificationId,
+  issuedAt: qualification.issuedAt ? new Date(qualification.issuedAt) : null,
+  expiresAt: qualification.expiresAt ? new Date(qualification.expiresAt) : null,
+});
+
 // GET /api/employees - Get all employees with optional filtering
 router.get('/', authenticateToken, requireAdmin, checkTerminalAccess, async (req: TerminalAccessRequest, res: Response) => {
   try {
     const {
       isEligible,
-      doublesEndorsement,
-      chainExperience,
+      qualificationId,
       searchTerm,
       terminalId,
     } = req.query;
@@ -49,12 +66,8 @@ router.get('/', authenticateToken, requireAdmin, checkTerminalAccess, async (req
       where.isEligible = isEligible === 'true';
     }
 
-    if (doublesEndorsement !== undefined) {
-      where.doublesEndorsement = doublesEndorsement === 'true';
-    }
-
-    if (chainExperience !== undefined) {
-      where.chainExperience = chainExperience === 'true';
+    if (qualificationId) {
+      where.qualifications = { some: { qualificationId: qualificationId as string } };
     }
 
     // Get emails of inactive users
@@ -132,10 +145,15 @@ router.get('/', authenticateToken, requireAdmin, checkTerminalAccess, async (req
             isActive: true,
           },
         },
+        ...employeeQualificationsInclude,
+        ...seniorityAdjustmentsInclude,
       },
     });
 
-    res.json(employees);
+    res.json(employees.map(({ seniorityAdjustments, ...employee }) => ({
+      ...employee,
+      effectiveSeniorityDate: getEffectiveSeniorityDate({ ...employee, seniorityAdjustments }),
+    })));
   } catch (error) {
     console.error('Get employees error:', error);
     res.status(500).json({ error: 'Internal server error' });
@@ -145,6 +163,8 @@ router.get('/', authenticateToken, requireAdmin, checkTerminalAccess, async (req
 // GET /api/employees/seniority - Get employees sorted by seniority
 router.get('/seniority', authenticateToken, requireAdmin, async (req: Request, res: Response) => {
   try {
+    const { terminalId } = req.query;
+
     // Get emails of inactive users
     const inactiveUserEmails = await prisma.user.findMany({
       where: { isActive: false },
@@ -152,6 +172,9 @@ router.get('/seniority', authenticateToken, requireAdmin, async (req: Request, r
     }).then(users => users.map(u => u.email));
 
     const where: any = { isEligible: true };
+    if (terminalId) {
+      where.terminalId = terminalId as string;
+    }
     
     // Exclude employees with inactive user accounts
     if (inactiveUserEmails.length > 0) {
@@ -160,27 +183,30 @@ router.get('/seniority', authenticateToken, requireAdmin, async (req: Request, r
 
     const employees = await prisma.employee.findMany({
       where,
-      orderBy: [
-        { hireDate: 'asc' },
-        { lastName: 'asc' },
-      ],
       select: {
         id: true,
         employeeId: true,
         firstName: true,
         lastName: true,
         hireDate: true,
-        doublesEndorsement: true,
-        chainExperience: true,
+        seniorityDate: true,
+        ssnLastFour: true,
         isEligible: true,
+        ...employeeQualificationsInclude,
+        ...seniorityAdjustmentsInclude,
       },
     });
 
-    // Add seniority rank
-    const employeesWithRank = employees.map((employee, index) => ({
-      ...employee,
-      seniorityRank: index + 1,
-    }));
+    // Rank with the same tie-breaker policy the assignment engine uses
+    const policy = await getSeniorityPolicy(terminalId as string | undefined);
+    const employeesWithRank = sortBySeniority(employees, policy).map((employee, index) => {
+      const { ssnLastFour: _ssnLastFour, seniorityAdjustments: _seniorityAdjustments, ...rest } = employee;
+      return {
+        ...rest,
+        effectiveSeniorityDate: getEffectiveSeniorityDate(employee),
+        seniorityRank: index + 1,
+      };
+    });
 
     res.json(employeesWithRank);
   } catch (error) {
@@ -206,6 +232,7 @@ router.get('/by-user/:userId', authenticateToken, async (req: Request, res: Resp
             role: true,
           },
         },
+        ...employeeQualificationsInclude,
       },
     });
 
@@ -265,28 +292,17 @@ router.get('/:id', authenticateToken, requireAdminOrSelf, async (req: Request, r
         },
         selections: {
           include: {
-            firstChoice: {
-              select: {
-                id: true,
-                runNumber: true,
-                origin: true,
-                destination: true,
-              },
-            },
-            secondChoice: {
-              select: {
-                id: true,
-                runNumber: true,
-                origin: true,
-                destination: true,
-              },
-            },
-            thirdChoice: {
-              select: {
-                id: true,
-                runNumber: true,
-                origin: true,
-                destination: true,
+            choices: {
+              orderBy: { rank: 'asc' },
+              include: {
+                route: {
+                  select: {
+                    id: true,
+                    runNumber: true,
+                    origin: true,
+                    destination: true,
+                  },
+                },
               },
             },
             selectionPeriod: {
@@ -306,6 +322,7 @@ router.get('/:id', authenticateToken, requireAdminOrSelf, async (req: Request, r
             isActive: true,
           },
         },
+        ...employeeQualificationsInclude,
       },
     });
 
@@ -378,11 +395,17 @@ router.post('/', authenticateToken, requireAdmin, async (req: Request, res: Resp
       });
     }
 
+    const { qualifications = [], ...employeeData } = data;
     const employee = await prisma.employee.create({
       data: {
-        ...data,
+        ...employeeData,
         hireDate: new Date(data.hireDate),
+        seniorityDate: data.seniorityDate ? new Date(data.seniorityDate) : null,
+        qualifications: {
+          create: qualifications.map(toQualificationData),
+        },
       },
+      include: employeeQualificationsInclude,
     });
 
     res.status(201).json(employee);
@@ -447,10 +470,22 @@ router.put('/:id', authenticateToken, requireAdmin, async (req: Request, res: Re
       }
     }
 
-    const updateData: any = { ...data };
+    const { qualifications, ...employeeData } = data;
+    const updateData: any = { ...employeeData };
     if (data.hireDate) {
       updateData.hireDate = new Date(data.hireDate);
     }
+    if (data.seniorityDate !== undefined) {
+      updateData.seniorityDate = data.seniorityDate ? new Date(data.seniorityDate) : null;
+    }
+
+    // A supplied qualification list replaces everything the employee held
+    if (qualifications) {
+      updateData.qualifications = {
+        deleteMany: {},
+        create: qualifications.map(toQualificationData),
+      };
+    }
 
     const employee = await prisma.employee.update({
       where: { id: req.params.id },
@@ -464,6 +499,7 @@ router.put('/:id', authenticateToken, requireAdmin, async (req: Request, res: Re
             isActive: true,
           },
         },
+        ...employeeQualificationsInclude,
       },
     });
 
@@ -607,4 +643,91 @@ router.delete('/:id/disqualify/:disqualificationId', authenticateToken, requireA
   }
 });
 
+// GET /api/employees/:id/seniority-adjustments - Get an employee's seniority adjustment history (Admin only)
+router.get('/:id/seniority-adjustments', authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const employee = await prisma.employee.findUnique({
+      where: { id: req.params.id },
+      include: {
+        seniorityAdjustments: {
+          orderBy: { createdAt: 'asc' },
+          include: {
+            approvedBy: {
+              select: {
+                id: true,
+                name: true,
+                email: true,
+              },
+            },
+          },
+        },
+      },
+    });
+
+    if (!employee) {
+      return res.status(404).json({ error: 'Employee not found' });
+    }
+
+    res.json({
+      hireDate: employee.hireDate,
+      seniorityDate: employee.seniorityDate,
+      effectiveSeniorityDate: getEffectiveSeniorityDate(employee),
+      adjustments: employee.seniorityAdjustments,
+    });
+  } catch (error) {
+    console.error('Get seniority adjustments error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/employees/:id/seniority-adjustments - Record a seniority adjustment approved by the current user (Admin only)
+router.post('/:id/seniority-adjustments', authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const data = seniorityAdjustmentSchema.parse(req.body);
+
+    const employee = await prisma.employee.findUnique({
+      where: { id: req.params.id },
+    });
+
+    if (!employee) {
+      return res.status(404).json({ error: 'Employee not found' });
+    }
+
+    const adjustment = await prisma.seniorityAdjustment.create({
+      data: {
+        employeeId: employee.id,
+        days: data.days,
+        reason: data.reason,
+        approvedById: req.user!.id,
+      },
+      include: {
+        approvedBy: {
+          select: {
+            id: true,
+            name: true,
+            email: true,
+          },
+        },
+      },
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user!.id,
+        action: 'ADJUST_SENIORITY',
+        resource: 'Employee',
+        details: `Adjusted seniority of ${employee.firstName} ${employee.lastName} (${employee.employeeId}) by ${data.days} day(s): ${data.reason}`,
+      },
+    });
+
+    res.status(201).json(adjustment);
+  } catch (error) {
+    console.error('Create seniority adjustment error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 export default router;
\ No newline at end of file
@@ -2,6 +2,8 @@ import { Router, Request, Response } from 'express';
 import prisma from '../utils/database.js';
 import { authenticateToken, requireAdmin } from '../middleware/auth.js';
 import { FileProcessor } from '../utils/fileProcessor.js';
+import { getEffectiveSeniorityDate, getSeniorityPolicy, seniorityAdjustmentsInclude, sortBySeniority } from '../utils/seniority.js';
+import { formatQualificationCodes, formatRequirementCodes } from '../utils/qualifications.js';
 
 const router = Router();
 
@@ -32,23 +34,34 @@ router.get('/routes', authenticateToken, requireAdmin, async (req: Request, res:
         distance: true,
         rateType: true,
         workTime: true,
-        requiresDoublesEndorsement: true,
-        requiresChainExperience: true,
+        positions: true,
+        requirements: {
+          select: {
+            qualification: {
+              select: { code: true },
+            },
+          },
+        },
         isActive: true,
         createdAt: true,
         updatedAt: true,
       },
     });
 
+    const exportData = routes.map(({ requirements, ...route }) => ({
+      ...route,
+      requirements: formatRequirementCodes(requirements),
+    }));
+
     const filename = `routes_export_${new Date().toISOString().split('T')[0]}`;
 
     if (format === 'csv') {
-      const csvData = FileProcessor.generateCSV(routes);
+      const csvData = FileProcessor.generateCSV(exportData);
       res.setHeader('Content-Type', 'text/csv');
       res.setHeader('Content-Disposition', `attachment; filename="${filename}.csv"`);
       res.send(csvData);
     } else {
-      const excelData = FileProcessor.generateExcel(routes, filename);
+      const excelData = FileProcessor.generateExcel(exportData, filename);
       res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
       res.setHeader('Content-Disposition', `attachment; filename="${filename}.xlsx"`);
       res.send(excelData);
@@ -95,8 +108,15 @@ router.get('/employees', authenticateToken, requireAdmin, async (req: Request, r
         email: true,
         phone: true,
         hireDate: true,
-        doublesEndorsement: true,
-        chainExperience: true,
+        ssnLastFour: true,
+        qualifications: {
+          select: {
+            expiresAt: true,
+            qualification: {
+              select: { code: true },
+            },
+          },
+        },
         isEligible: true,
         terminal: {
           select: {
@@ -121,9 +141,9 @@ router.get('/employees', authenticateToken, requireAdmin, async (req: Request, r
       email: employee.email,
       phone: employee.phone,
       hireDate: employee.hireDate.toISOString().split('T')[0],
+      ssnLastFour: employee.ssnLastFour || '',
       terminal: employee.terminal?.code || '',
-      doublesEndorsement: employee.doublesEndorsement,
-      chainExperience: employee.chainExperience,
+      qualifications: formatQualificationCodes(employee.qualifications),
       isEligible: employee.isEligible,
       currentRoute: employee.route?.runNumber || '',
       createdAt: employee.createdAt,
@@ -184,19 +204,14 @@ router.get('/selections/:periodId', authenticateToken, requireAdmin, async (req:
             hireDate: true,
           },
         },
-        firstChoice: {
-          select: {
-            runNumber: true,
-          },
-        },
-        secondChoice: {
-          select: {
-            runNumber: true,
-          },
-        },
-        thirdChoice: {
-          select: {
-            runNumber: true,
+        choices: {
+          orderBy: { rank: 'asc' },
+          include: {
+            route: {
+              select: {
+                runNumber: true,
+              },
+            },
           },
         },
       },
@@ -207,17 +222,22 @@ router.get('/selections/:periodId', authenticateToken, requireAdmin, async (req:
       },
     });
 
-    const exportData = selections.map(selection => ({
-      employeeId: selection.employee.employeeId,
-      firstName: selection.employee.firstName,
-      lastName: selection.employee.lastName,
-      hireDate: selection.employee.hireDate.toISOString().split('T')[0],
-      firstChoice: selection.firstChoice?.runNumber || '',
-      secondChoice: selection.secondChoice?.runNumber || '',
-      thirdChoice: selection.thirdChoice?.runNumber || '',
-      confirmationNumber: selection.confirmationNumber,
-      submittedAt: selection.submittedAt.toISOString(),
-    }));
+    const exportData = selections.map(selection => {
+      const choiceColumns: Record<string, string> = {};
+      for (let rank = 1; rank <= period.requiredSelections; rank++) {
+        choiceColumns[`choice${rank}`] = selection.choices.find(c => c.rank === rank)?.route.runNumber || '';
+      }
+
+      return {
+        employeeId: selection.employee.employeeId,
+        firstName: selection.employee.firstName,
+        lastName: selection.employee.lastName,
+        hireDate: selection.employee.hireDate.toISOString().split('T')[0],
+        ...choiceColumns,
+        confirmationNumber: selection.confirmationNumber,
+        submittedAt: selection.submittedAt.toISOString(),
+      };
+    });
 
     const filename = `selections_${period.name.replace(/\s+/g, '_')}_${new Date().toISOString().split('T')[0]}`;
 
@@ -271,8 +291,14 @@ router.get('/assignments/:periodId', authenticateToken, requireAdmin, async (req
             firstName: true,
             lastName: true,
             hireDate: true,
-            doublesEndorsement: true,
-            chainExperience: true,
+            qualifications: {
+              select: {
+                expiresAt: true,
+                qualification: {
+                  select: { code: true },
+                },
+              },
+            },
           },
         },
         route: {
@@ -299,8 +325,7 @@ router.get('/assignments/:periodId', authenticateToken, requireAdmin, async (req
       firstName: assignment.employee.firstName,
       lastName: assignment.employee.lastName,
       hireDate: assignment.employee.hireDate.toISOString().split('T')[0],
-      doublesEndorsement: assignment.employee.doublesEndorsement,
-      chainExperience: assignment.employee.chainExperience,
+      qualifications: formatQualificationCodes(assignment.employee.qualifications),
       assignedRoute: assignment.route?.runNumber || 'FLOAT POOL',
       routeType: assignment.route?.type || '',
       routeOrigin: assignment.route?.origin || '',
@@ -308,7 +333,10 @@ router.get('/assignments/:periodId', authenticateToken, requireAdmin, async (req
       routeDays: assignment.route?.days || '',
       routeStartTime: assignment.route?.startTime || '',
       routeEndTime: assignment.route?.endTime || '',
-      choiceReceived: assignment.choiceReceived || 'FLOAT',
+      choiceReceived: assignment.forced ? 'FORCED' : assignment.choiceReceived || 'FLOAT',
+      forced: assignment.forced ? 'YES' : 'NO',
+      viaIncumbency: assignment.viaIncumbency ? 'YES' : 'NO',
+      round: assignment.round,
       effectiveDate: assignment.effectiveDate.toISOString().split('T')[0],
     }));
 
@@ -344,21 +372,31 @@ router.get('/assignments/:periodId', authenticateToken, requireAdmin, async (req
 // GET /api/export/seniority - Export seniority list
 router.get('/seniority', authenticateToken, requireAdmin, async (req: Request, res: Response) => {
   try {
-    const { format = 'xlsx' } = req.query;
+    const { format = 'xlsx', terminalId } = req.query;
 
-    const employees = await prisma.employee.findMany({
-      where: { isEligible: true },
-      orderBy: [
-        { hireDate: 'asc' },
-        { lastName: 'asc' },
-      ],
+    const where: any = { isEligible: true };
+    if (terminalId) {
+      where.terminalId = terminalId as string;
+    }
+
+    const unsortedEmployees = await prisma.employee.findMany({
+      where,
       select: {
         employeeId: true,
         firstName: true,
         lastName: true,
         hireDate: true,
-        doublesEndorsement: true,
-        chainExperience: true,
+        seniorityDate: true,
+        ssnLastFour: true,
+        ...seniorityAdjustmentsInclude,
+        qualifications: {
+          select: {
+            expiresAt: true,
+            qualification: {
+              select: { code: true },
+            },
+          },
+        },
         route: {
           select: {
             runNumber: true,
@@ -367,14 +405,18 @@ router.get('/seniority', authenticateToken, requireAdmin, async (req: Request, r
       },
     });
 
+    // Rank with the same tie-breaker policy the assignment engine uses
+    const policy = await getSeniorityPolicy(terminalId as string | undefined);
+    const employees = sortBySeniority(unsortedEmployees, policy);
+
     const exportData = employees.map((employee, index) => ({
       seniorityRank: index + 1,
       employeeId: employee.employeeId,
       firstName: employee.firstName,
       lastName: employee.lastName,
       hireDate: employee.hireDate.toISOString().split('T')[0],
-      doublesEndorsement: employee.doublesEndorsement,
-      chainExperience: employee.chainExperience,
+      seniorityDate: getEffectiveSeniorityDate(employee).toISOString().split('T')[0],
+      qualifications: formatQualificationCodes(employee.qualifications),
       currentRoute: employee.route?.runNumber || '',
     }));
 
@@ -4,9 +4,16 @@ import prisma from '../utils/database.js';
 import { authenticateToken, requireAdmin } from '../middleware/auth.js';
 import { FileProcessor } from '../utils/fileProcessor.js';
 import { checkTerminalAccess, validateTerminalAccess } from '../middleware/terminalAccess.js';
+import { getQualificationIdsByCode } from '../utils/qualifications.js';
+import { getHoursOfServiceLimits } from '../utils/schedule.js';
 
 const router = Router();
 
+// Codes in an import row that the qualification catalog does not contain
+const findUnknownCodes = (codes: string[], idsByCode: Map<string, string>): string[] => {
+  return codes.filter(code => !idsByCode.has(code));
+};
+
 // Configure multer for file uploads
 const upload = multer({
   storage: multer.memoryStorage(),
@@ -41,7 +48,8 @@ router.post('/routes/preview', authenticateToken, requireAdmin, checkTerminalAcc
       });
     }
 
-    const result = await FileProcessor.processRouteFile(req.file.buffer, req.file.originalname);
+    const limits = await getHoursOfServiceLimits(terminalId);
+    const result = await FileProcessor.processRouteFile(req.file.buffer, req.file.originalname, limits);
 
     res.json({
       preview: true,
@@ -90,11 +98,21 @@ router.post('/routes/execute', authenticateToken, requireAdmin, checkTerminalAcc
       errors: [] as string[],
     };
 
+    const idsByCode = await getQualificationIdsByCode();
+
     for (const routeData of result.data) {
       try {
+        const { requirements, ...routeFields } = routeData;
+        const unknownCodes = findUnknownCodes(requirements, idsByCode);
+        if (unknownCodes.length > 0) {
+          importResults.errors.push(`Route ${routeData.runNumber}: Unknown qualification code(s) ${unknownCodes.join(', ')}`);
+          continue;
+        }
+        const requirementData = requirements.map((code: string) => ({ qualificationId: idsByCode.get(code)! }));
+
         // Add terminalId to route data
         const routeWithTerminal = {
-          ...routeData,
+          ...routeFields,
           terminalId
         };
 
@@ -116,7 +134,13 @@ router.post('/routes/execute', authenticateToken, requireAdmin, checkTerminalAcc
                   terminalId: terminalId
                 }
               },
-              data: routeWithTerminal,
+              data: {
+                ...routeWithTerminal,
+                requirements: {
+                  deleteMany: {},
+                  create: requirementData,
+                },
+              },
             });
             importResults.updated++;
           } else {
@@ -124,7 +148,12 @@ router.post('/routes/execute', authenticateToken, requireAdmin, checkTerminalAcc
           }
         } else {
           await prisma.route.create({
-            data: routeWithTerminal,
+            data: {
+              ...routeWithTerminal,
+              requirements: {
+                create: requirementData,
+              },
+            },
           });
           importResults.created++;
         }
@@ -200,6 +229,8 @@ router.post('/employees/execute', authenticateToken, requireAdmin, upload.single
       errors: [] as string[],
     };
 
+    const idsByCode = await getQualificationIdsByCode();
+
     for (const employeeData of result.data) {
       try {
         // Look up terminal by code
@@ -212,8 +243,21 @@ router.post('/employees/execute', authenticateToken, requireAdmin, upload.single
           continue;
         }
 
+        const unknownCodes = findUnknownCodes(
+          employeeData.qualifications.map((q: { code: string }) => q.code),
+          idsByCode
+        );
+        if (unknownCodes.length > 0) {
+          importResults.errors.push(`Employee ${employeeData.employeeId}: Unknown qualification code(s) ${unknownCodes.join(', ')}`);
+          continue;
+        }
+        const qualificationData = employeeData.qualifications.map((q: { code: string; expiresAt: Date | null }) => ({
+          qualificationId: idsByCode.get(q.code)!,
+          expiresAt: q.expiresAt,
+        }));
+
         // Replace terminal code with terminalId
-        const { terminal: terminalCode, ...employeeWithoutTerminal } = employeeData;
+        const { terminal: terminalCode, qualifications, ...employeeWithoutTerminal } = employeeData;
         const processedEmployeeData = {
           ...employeeWithoutTerminal,
           terminalId: terminal.id,
@@ -227,7 +271,13 @@ router.post('/employees/execute', authenticateToken, requireAdmin, upload.single
           if (overwrite) {
             await prisma.employee.update({
               where: { employeeId: employeeData.employeeId },
-              data: processedEmployeeData,
+              data: {
+                ...processedEmployeeData,
+                qualifications: {
+                  deleteMany: {},
+                  create: qualificationData,
+                },
+              },
             });
             importResults.updated++;
           } else {
@@ -265,7 +315,12 @@ router.post('/employees/execute', authenticateToken, requireAdmin, upload.single
 
           // Create employee
           await prisma.employee.create({
-            data: processedEmployeeData,
+            data: {
+              ...processedEmployeeData,
+              qualifications: {
+                create: qualificationData,
+              },
+            },
           });
           importResults.created++;
         }
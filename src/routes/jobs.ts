@@ -0,0 +1,64 @@
+import { Router, Request, Response } from 'express';
+import prisma from '../utils/database.js';
+import { authenticateToken, requireAdmin } from '../middleware/auth.js';
+
+const router = Router();
+
+const jobSummarySelect = {
+  id: true,
+  type: true,
+  status: true,
+  selectionPeriodId: true,
+  phase: true,
+  processed: true,
+  total: true,
+  attempts: true,
+  error: true,
+  createdAt: true,
+  startedAt: true,
+  finishedAt: true,
+  createdBy: { select: { id: true, name: true, email: true } },
+} as const;
+
+// GET /api/jobs - List recent background jobs, optionally for one period (Admin only)
+router.get('/', authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const { selectionPeriodId } = req.query;
+
+    const jobs = await prisma.job.findMany({
+      where: selectionPeriodId ? { selectionPeriodId: selectionPeriodId as string } : {},
+      orderBy: { createdAt: 'desc' },
+      take: 50,
+      select: jobSummarySelect,
+    });
+
+    res.json(jobs);
+  } catch (error) {
+    console.error('Get jobs error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET /api/jobs/:id - Poll a job's progress; the result is included once it has succeeded (Admin only)
+router.get('/:id', authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const job = await prisma.job.findUnique({
+      where: { id: req.params.id },
+      select: { ...jobSummarySelect, result: true },
+    });
+
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    res.json({
+      ...job,
+      result: job.result ? JSON.parse(job.result) : null,
+    });
+  } catch (error) {
+    console.error('Get job error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,174 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import prisma from '../utils/database.js';
+import { authenticateToken, requireAdmin } from '../middleware/auth.js';
+import periodRosterService from '../services/periodRoster.js';
+import submissionWindowService from '../services/submissionWindows.js';
+
+const router = Router();
+
+const addParticipantSchema = z.object({
+  employeeId: z.string(),
+  reason: z.string().min(3),
+});
+
+const removeParticipantSchema = z.object({
+  reason: z.string().min(3),
+});
+
+const userSelect = {
+  select: {
+    id: true,
+    name: true,
+    email: true,
+  },
+} as const;
+
+// GET /api/participants/period/:periodId - List a period's roster, removed drivers included (Admin only)
+router.get('/period/:periodId', authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const selectionPeriod = await prisma.selectionPeriod.findUnique({
+      where: { id: req.params.periodId },
+    });
+
+    if (!selectionPeriod) {
+      return res.status(404).json({ error: 'Selection period not found' });
+    }
+
+    const participants = await prisma.periodParticipant.findMany({
+      where: { selectionPeriodId: selectionPeriod.id },
+      include: {
+        employee: {
+          select: {
+            id: true,
+            employeeId: true,
+            firstName: true,
+            lastName: true,
+            isEligible: true,
+          },
+        },
+        addedBy: userSelect,
+        removedBy: userSelect,
+      },
+      orderBy: [
+        { employee: { lastName: 'asc' } },
+        { employee: { firstName: 'asc' } },
+      ],
+    });
+
+    res.json({
+      rosterCapturedAt: selectionPeriod.rosterCapturedAt,
+      participants,
+    });
+  } catch (error) {
+    console.error('Get period participants error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/participants/period/:periodId - Add a driver to a period's roster (Admin only)
+router.post('/period/:periodId', authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const { periodId } = req.params;
+    const data = addParticipantSchema.parse(req.body);
+
+    const selectionPeriod = await prisma.selectionPeriod.findUnique({
+      where: { id: periodId },
+    });
+
+    if (!selectionPeriod) {
+      return res.status(404).json({ error: 'Selection period not found' });
+    }
+
+    const rosterError = periodRosterService.getRosterChangeError(selectionPeriod);
+    if (rosterError) {
+      return res.status(400).json({ error: rosterError });
+    }
+
+    const employee = await prisma.employee.findUnique({
+      where: { id: data.employeeId },
+    });
+
+    if (!employee || employee.terminalId !== selectionPeriod.terminalId) {
+      return res.status(400).json({ error: 'Employee not found at this period\'s terminal' });
+    }
+
+    if (await periodRosterService.isParticipant(selectionPeriod, employee.id)) {
+      return res.status(409).json({ error: 'This driver is already on the roster' });
+    }
+
+    const band = await submissionWindowService.getAddedDriverBand(selectionPeriod, employee.id);
+    const participant = await periodRosterService.addParticipant(periodId, employee.id, data.reason, req.user!.id, band);
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user!.id,
+        action: 'ADD_PERIOD_PARTICIPANT',
+        resource: 'PeriodParticipant',
+        details: `Added ${employee.firstName} ${employee.lastName} (${employee.employeeId}) to the roster of period ${selectionPeriod.name}: ${data.reason}`,
+      },
+    });
+
+    res.status(201).json(participant);
+  } catch (error) {
+    console.error('Add period participant error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// DELETE /api/participants/period/:periodId/:employeeId - Remove a driver from a period's roster (Admin only)
+router.delete('/period/:periodId/:employeeId', authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const { periodId, employeeId } = req.params;
+    const data = removeParticipantSchema.parse(req.body);
+
+    const selectionPeriod = await prisma.selectionPeriod.findUnique({
+      where: { id: periodId },
+    });
+
+    if (!selectionPeriod) {
+      return res.status(404).json({ error: 'Selection period not found' });
+    }
+
+    const rosterError = periodRosterService.getRosterChangeError(selectionPeriod);
+    if (rosterError) {
+      return res.status(400).json({ error: rosterError });
+    }
+
+    const participant = await prisma.periodParticipant.findUnique({
+      where: {
+        selectionPeriodId_employeeId: { selectionPeriodId: periodId, employeeId },
+      },
+      include: { employee: true },
+    });
+
+    if (!participant || participant.removedAt) {
+      return res.status(404).json({ error: 'This driver is not on the roster' });
+    }
+
+    const removed = await periodRosterService.removeParticipant(periodId, employeeId, data.reason, req.user!.id);
+
+    const { employee } = participant;
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user!.id,
+        action: 'REMOVE_PERIOD_PARTICIPANT',
+        resource: 'PeriodParticipant',
+        details: `Removed ${employee.firstName} ${employee.lastName} (${employee.employeeId}) from the roster of period ${selectionPeriod.name}: ${data.reason}`,
+      },
+    });
+
+    res.json(removed);
+  } catch (error) {
+    console.error('Remove period participant error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
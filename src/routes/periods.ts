@@ -3,7 +3,21 @@ import { z } from 'zod';
 import prisma from '../utils/database.js';
 import { authenticateToken, requireAdmin } from '../middleware/auth.js';
 import emailService from '../services/email.js';
-import { updatePeriodStatusMiddleware } from '../middleware/updatePeriodStatus.js';
+import { PERIOD_MODES, DRAFT_SKIP_POLICIES } from '../services/draft.js';
+import { INCUMBENCY_RULES, TEAM_SENIORITY_RULES } from '../services/assignmentEngine.js';
+import {
+  DEFAULT_ASSIGNMENT_STRATEGY,
+  getStrategyConfigError,
+  listAssignmentStrategies,
+  normalizeStrategyParams,
+} from '../services/assignmentStrategies.js';
+import periodLifecycleService, { PERIOD_STATUSES, PeriodTransition } from '../services/periodLifecycle.js';
+import periodTemplateService from '../services/periodTemplates.js';
+import periodRosterService from '../services/periodRoster.js';
+import submissionWindowService, { submissionBandSchema } from '../services/submissionWindows.js';
+import { countByRank } from '../utils/choiceRanks.js';
+import { employeeQualificationsInclude, routeRequirementsInclude } from '../utils/qualifications.js';
+import { getPeriodWindow, toZonedDateString } from '../utils/timeZone.js';
 
 const router = Router();
 
@@ -13,7 +27,19 @@ const createPeriodSchema = z.object({
   startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format'),
   endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format'),
   routeIds: z.array(z.string()).optional(),
-  requiredSelections: z.number().min(1).max(3).optional().default(3),
+  requiredSelections: z.number().min(1).optional().default(3),
+  secondRoundEnabled: z.boolean().optional().default(false),
+  secondRoundHours: z.number().int().min(1).optional().default(48),
+  mode: z.enum(PERIOD_MODES).optional().default('BID'),
+  draftPickMinutes: z.number().int().min(1).optional().default(60),
+  draftSkipPolicy: z.enum(DRAFT_SKIP_POLICIES).optional().default('FLOAT_POOL'),
+  incumbencyRule: z.enum(INCUMBENCY_RULES).optional().default('FIRST_CHOICE'),
+  forceAssignEnabled: z.boolean().optional().default(false),
+  forceAssignCap: z.number().int().min(1).nullable().optional(),
+  teamSeniorityRule: z.enum(TEAM_SENIORITY_RULES).optional().default('JUNIOR'),
+  assignmentStrategy: z.string().optional().default(DEFAULT_ASSIGNMENT_STRATEGY),
+  strategyParams: z.record(z.unknown()).optional(),
+  submissionBands: z.array(submissionBandSchema).optional(),
   terminalId: z.string(),
 });
 
@@ -23,12 +49,62 @@ const updatePeriodSchema = z.object({
   startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format').optional(),
   endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format').optional(),
   routeIds: z.array(z.string()).nullable().optional(),
-  requiredSelections: z.number().min(1).max(3).optional(),
-  status: z.enum(['UPCOMING', 'OPEN', 'CLOSED', 'PROCESSING', 'COMPLETED']).optional(),
+  requiredSelections: z.number().min(1).optional(),
+  secondRoundEnabled: z.boolean().optional(),
+  secondRoundHours: z.number().int().min(1).optional(),
+  mode: z.enum(PERIOD_MODES).optional(),
+  draftPickMinutes: z.number().int().min(1).optional(),
+  draftSkipPolicy: z.enum(DRAFT_SKIP_POLICIES).optional(),
+  incumbencyRule: z.enum(INCUMBENCY_RULES).optional(),
+  forceAssignEnabled: z.boolean().optional(),
+  forceAssignCap: z.number().int().min(1).nullable().optional(),
+  teamSeniorityRule: z.enum(TEAM_SENIORITY_RULES).optional(),
+  assignmentStrategy: z.string().optional(),
+  strategyParams: z.record(z.unknown()).optional(),
+  submissionBands: z.array(submissionBandSchema).optional(),
+  status: z.enum(PERIOD_STATUSES).optional(),
 });
 
+const clonePeriodSchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  description: z.string().nullable().optional(),
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format'),
+  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format'),
+  addRouteIds: z.array(z.string()).optional().default([]),
+});
+
+// Vacancy bids run alongside the regular calendar, so only regular periods can overlap
+const findOverlappingPeriod = (terminalId: string, startDate: Date, endDate: Date) => {
+  return prisma.selectionPeriod.findFirst({
+    where: {
+      terminalId,
+      kind: 'REGULAR',
+      OR: [
+        {
+          AND: [
+            { startDate: { lte: startDate } },
+            { endDate: { gte: startDate } },
+          ],
+        },
+        {
+          AND: [
+            { startDate: { lte: endDate } },
+            { endDate: { gte: endDate } },
+          ],
+        },
+        {
+          AND: [
+            { startDate: { gte: startDate } },
+            { endDate: { lte: endDate } },
+          ],
+        },
+      ],
+    },
+  });
+};
+
 // GET /api/periods - Get all selection periods
-router.get('/', authenticateToken, updatePeriodStatusMiddleware, async (req: Request, res: Response) => {
+router.get('/', authenticateToken, async (req: Request, res: Response) => {
   try {
     const { terminalId } = req.query;
     
@@ -62,6 +138,20 @@ router.get('/', authenticateToken, updatePeriodStatusMiddleware, async (req: Req
             },
           },
         },
+        parentPeriod: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+        terminal: {
+          select: {
+            id: true,
+            code: true,
+            name: true,
+            timeZone: true,
+          },
+        },
       },
     });
 
@@ -81,6 +171,16 @@ router.get('/', authenticateToken, updatePeriodStatusMiddleware, async (req: Req
   }
 });
 
+// GET /api/periods/strategies - List the registered assignment strategies (Admin only)
+router.get('/strategies', authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    res.json(listAssignmentStrategies());
+  } catch (error) {
+    console.error('Get assignment strategies error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // GET /api/periods/active - Get currently active period
 router.get('/active', authenticateToken, async (req: Request, res: Response) => {
   try {
@@ -104,6 +204,14 @@ router.get('/active', authenticateToken, async (req: Request, res: Response) =>
             id: true,
           },
         },
+        terminal: {
+          select: {
+            id: true,
+            code: true,
+            name: true,
+            timeZone: true,
+          },
+        },
       },
     });
 
@@ -149,41 +257,22 @@ router.get('/:id', authenticateToken, async (req: Request, res: Response) => {
                 firstName: true,
                 lastName: true,
                 hireDate: true,
-                doublesEndorsement: true,
-                chainExperience: true,
+                ...employeeQualificationsInclude,
               },
             },
-            firstChoice: {
-              select: {
-                id: true,
-                runNumber: true,
-                origin: true,
-                destination: true,
-                type: true,
-                requiresDoublesEndorsement: true,
-                requiresChainExperience: true,
-              },
-            },
-            secondChoice: {
-              select: {
-                id: true,
-                runNumber: true,
-                origin: true,
-                destination: true,
-                type: true,
-                requiresDoublesEndorsement: true,
-                requiresChainExperience: true,
-              },
-            },
-            thirdChoice: {
-              select: {
-                id: true,
-                runNumber: true,
-                origin: true,
-                destination: true,
-                type: true,
-                requiresDoublesEndorsement: true,
-                requiresChainExperience: true,
+            choices: {
+              orderBy: { rank: 'asc' },
+              include: {
+                route: {
+                  select: {
+                    id: true,
+                    runNumber: true,
+                    origin: true,
+                    destination: true,
+                    type: true,
+                    ...routeRequirementsInclude,
+                  },
+                },
               },
             },
           },
@@ -213,6 +302,14 @@ router.get('/:id', authenticateToken, async (req: Request, res: Response) => {
             route: true,
           },
         },
+        terminal: {
+          select: {
+            id: true,
+            code: true,
+            name: true,
+            timeZone: true,
+          },
+        },
       },
     });
 
@@ -232,10 +329,16 @@ router.post('/', authenticateToken, requireAdmin, async (req: Request, res: Resp
   try {
     const data = createPeriodSchema.parse(req.body);
 
-    // Check for overlapping periods
-    // Parse dates to ensure they're treated as local dates, not UTC
-    const startDate = new Date(data.startDate + 'T00:00:00');
-    const endDate = new Date(data.endDate + 'T23:59:59');
+    const terminal = await prisma.terminal.findUnique({
+      where: { id: data.terminalId },
+    });
+
+    if (!terminal) {
+      return res.status(404).json({ error: 'Terminal not found' });
+    }
+
+    // Dates are calendar days at the terminal, so the window opens and closes on its clock
+    const { startDate, endDate } = getPeriodWindow(data.startDate, data.endDate, terminal.timeZone);
 
     // Validate dates are valid
     if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
@@ -246,32 +349,18 @@ router.post('/', authenticateToken, requireAdmin, async (req: Request, res: Resp
       return res.status(400).json({ error: 'Start date must be before end date' });
     }
 
-    const overlappingPeriod = await prisma.selectionPeriod.findFirst({
-      where: {
-        terminalId: data.terminalId,
-        OR: [
-          {
-            AND: [
-              { startDate: { lte: startDate } },
-              { endDate: { gte: startDate } },
-            ],
-          },
-          {
-            AND: [
-              { startDate: { lte: endDate } },
-              { endDate: { gte: endDate } },
-            ],
-          },
-          {
-            AND: [
-              { startDate: { gte: startDate } },
-              { endDate: { lte: endDate } },
-            ],
-          },
-        ],
-      },
-    });
+    const strategyError = getStrategyConfigError(data.assignmentStrategy, data.strategyParams);
+    if (strategyError) {
+      return res.status(400).json({ error: strategyError });
+    }
 
+    const submissionBands = data.submissionBands || [];
+    const bandsError = submissionWindowService.getSubmissionBandsError(submissionBands, startDate, endDate, terminal.timeZone);
+    if (bandsError) {
+      return res.status(400).json({ error: bandsError });
+    }
+
+    const overlappingPeriod = await findOverlappingPeriod(data.terminalId, startDate, endDate);
     if (overlappingPeriod) {
       return res.status(409).json({ error: 'Period overlaps with existing selection period' });
     }
@@ -285,6 +374,18 @@ router.post('/', authenticateToken, requireAdmin, async (req: Request, res: Resp
         startDate,
         endDate,
         requiredSelections: data.requiredSelections || 3,
+        secondRoundEnabled: data.secondRoundEnabled,
+        secondRoundHours: data.secondRoundHours,
+        mode: data.mode,
+        draftPickMinutes: data.draftPickMinutes,
+        draftSkipPolicy: data.draftSkipPolicy,
+        incumbencyRule: data.incumbencyRule,
+        forceAssignEnabled: data.forceAssignEnabled,
+        forceAssignCap: data.forceAssignCap ?? null,
+        teamSeniorityRule: data.teamSeniorityRule,
+        assignmentStrategy: data.assignmentStrategy,
+        strategyParams: JSON.stringify(normalizeStrategyParams(data.assignmentStrategy, data.strategyParams)),
+        submissionBands: submissionBands.length > 0 ? JSON.stringify(submissionBands) : null,
         terminalId: data.terminalId,
         routes: data.routeIds && data.routeIds.length > 0 ? {
           create: data.routeIds.map(routeId => ({
@@ -337,45 +438,63 @@ router.put('/:id', authenticateToken, requireAdmin, async (req: Request, res: Re
 
     const existingPeriod = await prisma.selectionPeriod.findUnique({
       where: { id: req.params.id },
+      include: { terminal: true },
     });
 
     if (!existingPeriod) {
       return res.status(404).json({ error: 'Selection period not found' });
     }
 
-    // Validate status transitions
-    if (data.status) {
-      const validTransitions: Record<string, string[]> = {
-        'UPCOMING': ['OPEN', 'CLOSED'],
-        'OPEN': ['CLOSED', 'PROCESSING'],
-        'CLOSED': ['OPEN', 'PROCESSING'],
-        'PROCESSING': ['COMPLETED', 'OPEN'],
-        'COMPLETED': [],
-      };
-
-      const allowedNextStates = validTransitions[existingPeriod.status] || [];
-      if (!allowedNextStates.includes(data.status)) {
-        return res.status(400).json({ 
-          error: `Cannot transition from ${existingPeriod.status} to ${data.status}` 
-        });
+    const statusChanged = data.status !== undefined && data.status !== existingPeriod.status;
+    if (statusChanged) {
+      const transitionError = periodLifecycleService.getTransitionError(existingPeriod, data.status!, 'MANUAL');
+      if (transitionError) {
+        return res.status(400).json({ error: transitionError });
+      }
+    }
+
+    if (data.mode && data.mode !== existingPeriod.mode && existingPeriod.draftStartedAt) {
+      return res.status(400).json({ error: 'Cannot change the bidding mode after the draft has started' });
+    }
+
+    if (data.mode === 'DRAFT' && existingPeriod.kind === 'VACANCY') {
+      return res.status(400).json({ error: 'Vacancy bids are processed by seniority and cannot run as a live draft' });
+    }
+
+    // A new strategy starts from its own defaults; the same strategy keeps its stored parameters
+    const strategyChanged = data.assignmentStrategy !== undefined && data.assignmentStrategy !== existingPeriod.assignmentStrategy;
+    const assignmentStrategy = data.assignmentStrategy ?? existingPeriod.assignmentStrategy;
+    const strategyParams = data.strategyParams
+      ?? (strategyChanged || !existingPeriod.strategyParams ? {} : JSON.parse(existingPeriod.strategyParams));
+    if (data.assignmentStrategy !== undefined || data.strategyParams !== undefined) {
+      const strategyError = getStrategyConfigError(assignmentStrategy, strategyParams);
+      if (strategyError) {
+        return res.status(400).json({ error: strategyError });
       }
     }
 
     // Check for overlapping periods if dates are being changed
-    const startDateChanged = data.startDate && new Date(data.startDate + 'T00:00:00').getTime() !== existingPeriod.startDate.getTime();
-    const endDateChanged = data.endDate && new Date(data.endDate + 'T23:59:59').getTime() !== existingPeriod.endDate.getTime();
+    const { timeZone } = existingPeriod.terminal;
+    const window = getPeriodWindow(
+      data.startDate || toZonedDateString(existingPeriod.startDate, timeZone),
+      data.endDate || toZonedDateString(existingPeriod.endDate, timeZone),
+      timeZone
+    );
+    const startDateChanged = data.startDate && window.startDate.getTime() !== existingPeriod.startDate.getTime();
+    const endDateChanged = data.endDate && window.endDate.getTime() !== existingPeriod.endDate.getTime();
     
     if (startDateChanged || endDateChanged) {
-      const startDate = data.startDate ? new Date(data.startDate + 'T00:00:00') : existingPeriod.startDate;
-      const endDate = data.endDate ? new Date(data.endDate + 'T23:59:59') : existingPeriod.endDate;
+      const startDate = data.startDate ? window.startDate : existingPeriod.startDate;
+      const endDate = data.endDate ? window.endDate : existingPeriod.endDate;
 
       if (startDate >= endDate) {
         return res.status(400).json({ error: 'Start date must be before end date' });
       }
 
-      const overlappingPeriod = await prisma.selectionPeriod.findFirst({
+      const overlappingPeriod = existingPeriod.kind === 'VACANCY' ? null : await prisma.selectionPeriod.findFirst({
         where: {
           id: { not: req.params.id },
+          kind: 'REGULAR',
           OR: [
             {
               AND: [
@@ -404,6 +523,27 @@ router.put('/:id', authenticateToken, requireAdmin, async (req: Request, res: Re
       }
     }
 
+    // Drivers' bands are stored on the roster when it's captured, so the bands can't be reshaped after that
+    const bandsChanged = data.submissionBands !== undefined
+      && JSON.stringify(data.submissionBands) !== JSON.stringify(submissionWindowService.getBands(existingPeriod));
+    if (bandsChanged && existingPeriod.rosterCapturedAt) {
+      return res.status(400).json({ error: 'Seniority bands are fixed once the period opens and its roster is captured' });
+    }
+
+    // Bands are checked against the period's days whenever either changes
+    const submissionBands = data.submissionBands ?? submissionWindowService.getBands(existingPeriod);
+    if (data.submissionBands !== undefined || startDateChanged || endDateChanged) {
+      const bandsError = submissionWindowService.getSubmissionBandsError(
+        submissionBands,
+        data.startDate ? window.startDate : existingPeriod.startDate,
+        data.endDate ? window.endDate : existingPeriod.endDate,
+        timeZone
+      );
+      if (bandsError) {
+        return res.status(400).json({ error: bandsError });
+      }
+    }
+
     // Build update data with proper types
     const updateData: {
       name?: string;
@@ -411,27 +551,63 @@ router.put('/:id', authenticateToken, requireAdmin, async (req: Request, res: Re
       startDate?: Date;
       endDate?: Date;
       requiredSelections?: number;
-      status?: string;
+      secondRoundEnabled?: boolean;
+      secondRoundHours?: number;
+      mode?: string;
+      draftPickMinutes?: number;
+      draftSkipPolicy?: string;
+      incumbencyRule?: string;
+      forceAssignEnabled?: boolean;
+      forceAssignCap?: number | null;
+      teamSeniorityRule?: string;
+      assignmentStrategy?: string;
+      strategyParams?: string;
+      submissionBands?: string | null;
     } = {};
 
     // Only include fields that are provided
     if (data.name !== undefined) updateData.name = data.name;
     if (data.description !== undefined) updateData.description = data.description || '';
     if (data.requiredSelections !== undefined) updateData.requiredSelections = data.requiredSelections;
-    if (data.status !== undefined) updateData.status = data.status;
+    if (data.secondRoundEnabled !== undefined) updateData.secondRoundEnabled = data.secondRoundEnabled;
+    if (data.secondRoundHours !== undefined) updateData.secondRoundHours = data.secondRoundHours;
+    if (data.mode !== undefined) updateData.mode = data.mode;
+    if (data.draftPickMinutes !== undefined) updateData.draftPickMinutes = data.draftPickMinutes;
+    if (data.draftSkipPolicy !== undefined) updateData.draftSkipPolicy = data.draftSkipPolicy;
+    if (data.incumbencyRule !== undefined) updateData.incumbencyRule = data.incumbencyRule;
+    if (data.forceAssignEnabled !== undefined) updateData.forceAssignEnabled = data.forceAssignEnabled;
+    if (data.forceAssignCap !== undefined) updateData.forceAssignCap = data.forceAssignCap;
+    if (data.teamSeniorityRule !== undefined) updateData.teamSeniorityRule = data.teamSeniorityRule;
+    if (data.assignmentStrategy !== undefined || data.strategyParams !== undefined) {
+      updateData.assignmentStrategy = assignmentStrategy;
+      updateData.strategyParams = JSON.stringify(normalizeStrategyParams(assignmentStrategy, strategyParams));
+    }
+    if (data.submissionBands !== undefined) {
+      updateData.submissionBands = submissionBands.length > 0 ? JSON.stringify(submissionBands) : null;
+    }
     
     // Handle date conversions
-    if (data.startDate) updateData.startDate = new Date(data.startDate + 'T00:00:00');
-    if (data.endDate) updateData.endDate = new Date(data.endDate + 'T23:59:59');
+    if (data.startDate) updateData.startDate = window.startDate;
+    if (data.endDate) updateData.endDate = window.endDate;
 
     // Handle route updates in a transaction
+    let transition: PeriodTransition | null = null;
     const period = await prisma.$transaction(async (tx) => {
       // Update the period
-      const updatedPeriod = await tx.selectionPeriod.update({
+      await tx.selectionPeriod.update({
         where: { id: req.params.id },
         data: updateData,
       });
 
+      // After the other edits, so opening captures the roster with the period as saved
+      if (statusChanged) {
+        transition = await periodLifecycleService.transition(req.params.id, data.status!, {
+          trigger: 'MANUAL',
+          userId: req.user!.id,
+          tx,
+        });
+      }
+
       // If routeIds are provided, update the routes
       if (data.routeIds !== undefined && data.routeIds !== null) {
         // Validate that all route IDs exist
@@ -451,15 +627,24 @@ router.put('/:id', authenticateToken, requireAdmin, async (req: Request, res: Re
           }
         }
 
-        // Delete existing route associations
-        await tx.periodRoute.deleteMany({
+        // Only touch associations that changed, so reservations on kept routes survive
+        const currentRoutes = await tx.periodRoute.findMany({
           where: { selectionPeriodId: req.params.id },
+          select: { routeId: true },
         });
+        const currentRouteIds = currentRoutes.map(pr => pr.routeId);
 
-        // Create new route associations
-        if (data.routeIds.length > 0) {
+        await tx.periodRoute.deleteMany({
+          where: {
+            selectionPeriodId: req.params.id,
+            routeId: { notIn: data.routeIds },
+          },
+        });
+
+        const addedRouteIds = data.routeIds.filter(routeId => !currentRouteIds.includes(routeId));
+        if (addedRouteIds.length > 0) {
           await tx.periodRoute.createMany({
-            data: data.routeIds.map(routeId => ({
+            data: addedRouteIds.map(routeId => ({
               selectionPeriodId: req.params.id,
               routeId,
             })),
@@ -480,6 +665,11 @@ router.put('/:id', authenticateToken, requireAdmin, async (req: Request, res: Re
       });
     });
 
+    // Open and close notices go out once the status change has committed
+    if (transition) {
+      periodLifecycleService.runCommitHooks(transition);
+    }
+
     res.json(period);
   } catch (error: any) {
     console.error('Update period error:', error);
@@ -534,25 +724,14 @@ router.patch('/:id', authenticateToken, requireAdmin, async (req: Request, res:
       return res.status(404).json({ error: 'Selection period not found' });
     }
 
-    // Validate status transitions
-    const validTransitions: Record<string, string[]> = {
-      'UPCOMING': ['OPEN', 'CLOSED'],
-      'OPEN': ['CLOSED', 'PROCESSING'],
-      'CLOSED': ['OPEN', 'PROCESSING'],
-      'PROCESSING': ['COMPLETED', 'OPEN'],
-      'COMPLETED': [],
-    };
-
-    const allowedNextStates = validTransitions[existingPeriod.status] || [];
-    if (!allowedNextStates.includes(status)) {
-      return res.status(400).json({ 
-        error: `Cannot transition from ${existingPeriod.status} to ${status}` 
-      });
+    const transitionError = periodLifecycleService.getTransitionError(existingPeriod, status, 'MANUAL');
+    if (transitionError) {
+      return res.status(400).json({ error: transitionError });
     }
 
-    const period = await prisma.selectionPeriod.update({
-      where: { id: req.params.id },
-      data: { status },
+    const { period } = await periodLifecycleService.transition(existingPeriod.id, status, {
+      trigger: 'MANUAL',
+      userId: req.user!.id,
     });
 
     res.json(period);
@@ -562,6 +741,143 @@ router.patch('/:id', authenticateToken, requireAdmin, async (req: Request, res:
   }
 });
 
+// GET /api/periods/:id/clone-preview - Suggested dates and route changes for cloning a period (Admin only)
+router.get('/:id/clone-preview', authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const source = await prisma.selectionPeriod.findUnique({
+      where: { id: req.params.id },
+      include: { terminal: true },
+    });
+
+    if (!source) {
+      return res.status(404).json({ error: 'Selection period not found' });
+    }
+
+    if (source.kind !== 'REGULAR') {
+      return res.status(400).json({ error: 'Only regular periods can be cloned' });
+    }
+
+    const changes = await periodTemplateService.getRouteChanges(source.id);
+
+    res.json({
+      source: {
+        id: source.id,
+        name: source.name,
+        description: source.description,
+        requiredSelections: source.requiredSelections,
+        mode: source.mode,
+        assignmentStrategy: source.assignmentStrategy,
+      },
+      ...periodTemplateService.getSuggestedDates(source, source.terminal.timeZone),
+      ...changes,
+    });
+  } catch (error) {
+    console.error('Clone preview error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/periods/:id/clone - Create an UPCOMING period from a past period's settings and routes (Admin only)
+router.post('/:id/clone', authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const data = clonePeriodSchema.parse(req.body);
+
+    const source = await prisma.selectionPeriod.findUnique({
+      where: { id: req.params.id },
+      include: { terminal: true },
+    });
+
+    if (!source) {
+      return res.status(404).json({ error: 'Selection period not found' });
+    }
+
+    if (source.kind !== 'REGULAR') {
+      return res.status(400).json({ error: 'Only regular periods can be cloned' });
+    }
+
+    const { startDate, endDate } = getPeriodWindow(data.startDate, data.endDate, source.terminal.timeZone);
+
+    if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
+      return res.status(400).json({ error: 'Invalid date format' });
+    }
+
+    if (startDate >= endDate) {
+      return res.status(400).json({ error: 'Start date must be before end date' });
+    }
+
+    const overlappingPeriod = await findOverlappingPeriod(source.terminalId, startDate, endDate);
+    if (overlappingPeriod) {
+      return res.status(409).json({ error: 'Period overlaps with existing selection period' });
+    }
+
+    const bandsError = submissionWindowService.getSubmissionBandsError(
+      submissionWindowService.getBands(source),
+      startDate,
+      endDate,
+      source.terminal.timeZone
+    );
+    if (bandsError) {
+      return res.status(400).json({ error: `${bandsError}; shorten the source's bands or lengthen the new period` });
+    }
+
+    const addRoutesError = await periodTemplateService.getAddRoutesError(source.id, data.addRouteIds);
+    if (addRoutesError) {
+      return res.status(400).json({ error: addRoutesError });
+    }
+
+    const result = await periodTemplateService.clonePeriod(source.id, {
+      name: data.name,
+      description: data.description,
+      startDate,
+      endDate,
+      addRouteIds: data.addRouteIds,
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user!.id,
+        action: 'CLONE_PERIOD',
+        resource: 'SelectionPeriod',
+        details: JSON.stringify({
+          sourcePeriodId: source.id,
+          selectionPeriodId: result.period.id,
+          name: result.period.name,
+          routes: result.period.routes.length,
+          droppedInactiveRoutes: result.inactiveRoutes.map(route => route.runNumber),
+        }),
+      },
+    });
+
+    res.status(201).json(result);
+  } catch (error) {
+    console.error('Clone period error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET /api/periods/:id/status-history - List the period's status changes (Admin only)
+router.get('/:id/status-history', authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const changes = await prisma.periodStatusChange.findMany({
+      where: { selectionPeriodId: req.params.id },
+      include: {
+        user: {
+          select: { id: true, email: true, name: true },
+        },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    res.json(changes);
+  } catch (error) {
+    console.error('Get period status history error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // DELETE /api/periods/:id - Delete selection period (Admin only)
 router.delete('/:id', authenticateToken, requireAdmin, async (req: Request, res: Response) => {
   try {
@@ -610,8 +926,6 @@ router.get('/:id/statistics', authenticateToken, requireAdmin, async (req: Reque
             employee: {
               select: {
                 hireDate: true,
-                doublesEndorsement: true,
-                chainExperience: true,
                 isEligible: true,
               },
             },
@@ -631,7 +945,7 @@ router.get('/:id/statistics', authenticateToken, requireAdmin, async (req: Reque
 
     // Calculate statistics
     const totalEligibleEmployees = await prisma.employee.count({
-      where: { isEligible: true },
+      where: periodRosterService.getParticipantWhere(period),
     });
 
     const submissionCount = period.selections.length;
@@ -639,9 +953,7 @@ router.get('/:id/statistics', authenticateToken, requireAdmin, async (req: Reque
 
     const assignmentStats = {
       total: period.assignments.length,
-      firstChoice: period.assignments.filter(a => a.choiceReceived === 1).length,
-      secondChoice: period.assignments.filter(a => a.choiceReceived === 2).length,
-      thirdChoice: period.assignments.filter(a => a.choiceReceived === 3).length,
+      byRank: countByRank(period.assignments),
       floatPool: period.assignments.filter(a => a.choiceReceived === null).length,
     };
 
@@ -681,6 +993,7 @@ router.post('/:id/notify', authenticateToken, requireAdmin, async (req: Request,
     
     const period = await prisma.selectionPeriod.findUnique({
       where: { id: req.params.id },
+      include: { terminal: true },
     });
 
     if (!period) {
@@ -698,10 +1011,7 @@ router.post('/:id/notify', authenticateToken, requireAdmin, async (req: Request,
 
     // Get all eligible employees who haven't been notified
     const allEligibleEmployees = await prisma.employee.findMany({
-      where: {
-        isEligible: true,
-        terminalId: period.terminalId,
-      },
+      where: periodRosterService.getParticipantWhere(period),
       include: {
         user: {
           select: {
@@ -753,6 +1063,7 @@ router.post('/:id/notify', authenticateToken, requireAdmin, async (req: Request,
                 name: period.name,
                 startDate: period.startDate,
                 endDate: period.endDate,
+                timeZone: period.terminal.timeZone,
               }
             );
             successCount++;
@@ -832,7 +1143,9 @@ router.get('/:id/routes', authenticateToken, async (req: Request, res: Response)
     const periodRoutes = await prisma.periodRoute.findMany({
       where: { selectionPeriodId: id },
       include: {
-        route: true,
+        route: {
+          include: routeRequirementsInclude,
+        },
       },
     });
 
@@ -867,12 +1180,9 @@ router.get('/:id/submission-status', authenticateToken, requireAdmin, async (req
       return res.status(404).json({ error: 'Selection period not found' });
     }
 
-    // Get all eligible employees for this terminal
+    // Get the drivers competing in the period
     const allEligibleEmployees = await prisma.employee.findMany({
-      where: {
-        isEligible: true,
-        terminalId: period.terminalId,
-      },
+      where: periodRosterService.getParticipantWhere(period),
       include: {
         user: {
           select: {
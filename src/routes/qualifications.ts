@@ -0,0 +1,166 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import prisma from '../utils/database.js';
+import { authenticateToken, requireAdmin } from '../middleware/auth.js';
+
+const router = Router();
+
+const createQualificationSchema = z.object({
+  code: z.string().min(2).max(20).regex(/^[A-Za-z0-9_]+$/, 'Letters, numbers and underscores only').transform(code => code.toUpperCase()),
+  name: z.string().min(2),
+  description: z.string().optional().nullable(),
+  isActive: z.boolean().optional().default(true),
+});
+
+const updateQualificationSchema = createQualificationSchema.partial();
+
+// GET /api/qualifications - Get the qualification catalog
+router.get('/', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const { isActive } = req.query;
+
+    const where: any = {};
+    if (isActive !== undefined) {
+      where.isActive = isActive === 'true';
+    }
+
+    const qualifications = await prisma.qualification.findMany({
+      where,
+      orderBy: { name: 'asc' },
+      include: {
+        _count: {
+          select: {
+            employeeQualifications: true,
+            routeRequirements: true,
+          },
+        },
+      },
+    });
+
+    res.json(qualifications);
+  } catch (error) {
+    console.error('Get qualifications error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/qualifications - Add a qualification to the catalog (Admin only)
+router.post('/', authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const data = createQualificationSchema.parse(req.body);
+
+    const existingQualification = await prisma.qualification.findUnique({
+      where: { code: data.code },
+    });
+
+    if (existingQualification) {
+      return res.status(409).json({ error: 'Qualification with this code already exists' });
+    }
+
+    const qualification = await prisma.qualification.create({
+      data,
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user!.id,
+        action: 'CREATE_QUALIFICATION',
+        resource: 'Qualification',
+        details: `Added qualification ${qualification.code} (${qualification.name})`,
+      },
+    });
+
+    res.status(201).json(qualification);
+  } catch (error) {
+    console.error('Create qualification error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// PUT /api/qualifications/:id - Update a qualification (Admin only)
+router.put('/:id', authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const data = updateQualificationSchema.parse(req.body);
+
+    const existingQualification = await prisma.qualification.findUnique({
+      where: { id: req.params.id },
+    });
+
+    if (!existingQualification) {
+      return res.status(404).json({ error: 'Qualification not found' });
+    }
+
+    if (data.code && data.code !== existingQualification.code) {
+      const conflictingQualification = await prisma.qualification.findUnique({
+        where: { code: data.code },
+      });
+
+      if (conflictingQualification) {
+        return res.status(409).json({ error: 'Qualification with this code already exists' });
+      }
+    }
+
+    const qualification = await prisma.qualification.update({
+      where: { id: req.params.id },
+      data,
+    });
+
+    res.json(qualification);
+  } catch (error) {
+    console.error('Update qualification error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// DELETE /api/qualifications/:id - Delete an unused qualification (Admin only)
+router.delete('/:id', authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const existingQualification = await prisma.qualification.findUnique({
+      where: { id: req.params.id },
+      include: {
+        _count: {
+          select: {
+            employeeQualifications: true,
+            routeRequirements: true,
+          },
+        },
+      },
+    });
+
+    if (!existingQualification) {
+      return res.status(404).json({ error: 'Qualification not found' });
+    }
+
+    if (existingQualification._count.employeeQualifications > 0 || existingQualification._count.routeRequirements > 0) {
+      return res.status(409).json({
+        error: 'Cannot delete a qualification held by employees or required by routes. Consider deactivating it instead.'
+      });
+    }
+
+    await prisma.qualification.delete({
+      where: { id: req.params.id },
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user!.id,
+        action: 'DELETE_QUALIFICATION',
+        resource: 'Qualification',
+        details: `Deleted qualification ${existingQualification.code}`,
+      },
+    });
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Delete qualification error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
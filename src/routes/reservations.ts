@@ -0,0 +1,222 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import prisma from '../utils/database.js';
+import { authenticateToken, requireAdmin } from '../middleware/auth.js';
+import { getMissingRequirement, routeRequirementsInclude } from '../utils/qualifications.js';
+
+const router = Router();
+
+const createReservationSchema = z.object({
+  routeId: z.string(),
+  employeeId: z.string(),
+  reason: z.string().min(3),
+});
+
+const reservationInclude = {
+  route: {
+    select: {
+      id: true,
+      runNumber: true,
+      origin: true,
+      destination: true,
+    },
+  },
+  employee: {
+    select: {
+      id: true,
+      employeeId: true,
+      firstName: true,
+      lastName: true,
+    },
+  },
+  approvedBy: {
+    select: {
+      id: true,
+      name: true,
+      email: true,
+    },
+  },
+} as const;
+
+// GET /api/reservations/period/:periodId - List the routes reserved out of a period's bid (Admin only)
+router.get('/period/:periodId', authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const reservations = await prisma.routeReservation.findMany({
+      where: { selectionPeriodId: req.params.periodId },
+      orderBy: { createdAt: 'asc' },
+      include: {
+        periodRoute: {
+          include: { route: reservationInclude.route },
+        },
+        employee: reservationInclude.employee,
+        approvedBy: reservationInclude.approvedBy,
+      },
+    });
+
+    res.json(reservations.map(({ periodRoute, ...reservation }) => ({
+      ...reservation,
+      route: periodRoute.route,
+    })));
+  } catch (error) {
+    console.error('Get route reservations error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/reservations/period/:periodId - Reserve a position on a period route for a driver (Admin only)
+router.post('/period/:periodId', authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const { periodId } = req.params;
+    const data = createReservationSchema.parse(req.body);
+
+    const selectionPeriod = await prisma.selectionPeriod.findUnique({
+      where: { id: periodId },
+    });
+
+    if (!selectionPeriod) {
+      return res.status(404).json({ error: 'Selection period not found' });
+    }
+
+    if (['PROCESSING', 'COMPLETED'].includes(selectionPeriod.status) || selectionPeriod.draftStartedAt) {
+      return res.status(400).json({ error: 'Routes can only be reserved before the period is processed or drafted' });
+    }
+
+    const periodRoute = await prisma.periodRoute.findUnique({
+      where: {
+        selectionPeriodId_routeId: {
+          selectionPeriodId: periodId,
+          routeId: data.routeId,
+        },
+      },
+      include: {
+        route: {
+          include: routeRequirementsInclude,
+        },
+        _count: {
+          select: { reservations: true },
+        },
+      },
+    });
+
+    if (!periodRoute) {
+      return res.status(400).json({ error: 'Route is not part of this selection period' });
+    }
+
+    if (periodRoute._count.reservations >= periodRoute.route.positions) {
+      return res.status(409).json({ error: `Every position on route ${periodRoute.route.runNumber} is already reserved` });
+    }
+
+    const employee = await prisma.employee.findUnique({
+      where: { id: data.employeeId },
+      include: { qualifications: true },
+    });
+
+    if (!employee || employee.terminalId !== selectionPeriod.terminalId) {
+      return res.status(400).json({ error: 'Employee not found at this period\'s terminal' });
+    }
+
+    const existingReservation = await prisma.routeReservation.findUnique({
+      where: {
+        selectionPeriodId_employeeId: {
+          selectionPeriodId: periodId,
+          employeeId: employee.id,
+        },
+      },
+    });
+
+    if (existingReservation) {
+      return res.status(409).json({ error: 'This driver already holds a reservation in this period' });
+    }
+
+    const missingRequirement = getMissingRequirement(employee, periodRoute.route);
+    if (missingRequirement) {
+      return res.status(400).json({ error: `Route ${periodRoute.route.runNumber} requires ${missingRequirement}` });
+    }
+
+    const reservation = await prisma.routeReservation.create({
+      data: {
+        selectionPeriodId: periodId,
+        routeId: data.routeId,
+        employeeId: employee.id,
+        reason: data.reason,
+        approvedById: req.user!.id,
+      },
+      include: {
+        employee: reservationInclude.employee,
+        approvedBy: reservationInclude.approvedBy,
+      },
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user!.id,
+        action: 'CREATE_ROUTE_RESERVATION',
+        resource: 'RouteReservation',
+        details: `Reserved route ${periodRoute.route.runNumber} in period ${selectionPeriod.name} for ${employee.firstName} ${employee.lastName} (${employee.employeeId}): ${data.reason}`,
+      },
+    });
+
+    res.status(201).json({
+      ...reservation,
+      route: {
+        id: periodRoute.route.id,
+        runNumber: periodRoute.route.runNumber,
+        origin: periodRoute.route.origin,
+        destination: periodRoute.route.destination,
+      },
+    });
+  } catch (error) {
+    console.error('Create route reservation error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// DELETE /api/reservations/:id - Release a reservation back into the bid (Admin only)
+router.delete('/:id', authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const reservation = await prisma.routeReservation.findUnique({
+      where: { id: req.params.id },
+      include: {
+        periodRoute: {
+          include: {
+            route: { select: { runNumber: true } },
+            selectionPeriod: { select: { name: true, status: true, draftStartedAt: true } },
+          },
+        },
+        employee: reservationInclude.employee,
+      },
+    });
+
+    if (!reservation) {
+      return res.status(404).json({ error: 'Reservation not found' });
+    }
+
+    const { selectionPeriod, route } = reservation.periodRoute;
+    if (['PROCESSING', 'COMPLETED'].includes(selectionPeriod.status) || selectionPeriod.draftStartedAt) {
+      return res.status(400).json({ error: 'Reservations cannot be released after the period is processed or drafted' });
+    }
+
+    await prisma.routeReservation.delete({
+      where: { id: reservation.id },
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user!.id,
+        action: 'RELEASE_ROUTE_RESERVATION',
+        resource: 'RouteReservation',
+        details: `Released reservation of route ${route.runNumber} in period ${selectionPeriod.name} for ${reservation.employee.firstName} ${reservation.employee.lastName} (${reservation.employee.employeeId})`,
+      },
+    });
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Delete route reservation error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -4,6 +4,10 @@ import prisma from '../utils/database.js';
 import { authenticateToken, requireAdmin } from '../middleware/auth.js';
 import { RouteFilters } from '../types/index.js';
 import { checkTerminalAccess, validateTerminalAccess, TerminalAccessRequest } from '../middleware/terminalAccess.js';
+import { getMissingRequirements, routeRequirementsInclude } from '../utils/qualifications.js';
+import { countAwardsByRoute, getRemainingPositions } from '../utils/routePositions.js';
+import { getReservationCounts } from '../utils/reservations.js';
+import { HoursOfServiceLimits, getHoursOfServiceLimits, getScheduleWarnings } from '../utils/schedule.js';
 
 const router = Router();
 
@@ -18,21 +22,34 @@ const createRouteSchema = z.object({
   distance: z.number(),
   rateType: z.enum(['HOURLY', 'MILEAGE', 'FLAT_RATE']),
   workTime: z.number(),
-  requiresDoublesEndorsement: z.boolean().default(false),
-  requiresChainExperience: z.boolean().default(false),
+  positions: z.number().int().min(1).default(1),
+  teamOnly: z.boolean().default(false),
+  requirementIds: z.array(z.string()).optional(),
   isActive: z.boolean().default(true),
   terminalId: z.string(),
 });
 
 const updateRouteSchema = createRouteSchema.partial();
 
+// Doubles routes always require the doubles endorsement, whatever the form sent
+const resolveRequirementIds = async (type: string | undefined, requirementIds: string[]): Promise<string[]> => {
+  if (type !== 'DOUBLES') {
+    return requirementIds;
+  }
+
+  const doubles = await prisma.qualification.findUnique({
+    where: { code: 'DOUBLES' },
+  });
+
+  return doubles && !requirementIds.includes(doubles.id) ? [...requirementIds, doubles.id] : requirementIds;
+};
+
 // GET /api/routes - Get all routes with optional filtering
 router.get('/', authenticateToken, checkTerminalAccess, async (req: TerminalAccessRequest, res: Response) => {
   try {
     const {
       type,
-      requiresDoublesEndorsement,
-      requiresChainExperience,
+      qualificationId,
       searchTerm,
       isActive,
       terminalId,
@@ -59,12 +76,8 @@ router.get('/', authenticateToken, checkTerminalAccess, async (req: TerminalAcce
       where.type = type;
     }
 
-    if (requiresDoublesEndorsement) {
-      where.requiresDoublesEndorsement = requiresDoublesEndorsement === 'true';
-    }
-
-    if (requiresChainExperience) {
-      where.requiresChainExperience = requiresChainExperience === 'true';
+    if (qualificationId) {
+      where.requirements = { some: { qualificationId: qualificationId as string } };
     }
 
     if (searchTerm) {
@@ -109,10 +122,20 @@ router.get('/', authenticateToken, checkTerminalAccess, async (req: TerminalAcce
             },
           },
         },
+        ...routeRequirementsInclude,
       },
     });
 
-    res.json(routes);
+    // Flag schedules that can't be parsed or break the terminal's hours-of-service limits
+    const limitsByTerminal = new Map<string, HoursOfServiceLimits>();
+    for (const routeTerminalId of new Set(routes.map(route => route.terminalId))) {
+      limitsByTerminal.set(routeTerminalId, await getHoursOfServiceLimits(routeTerminalId));
+    }
+
+    res.json(routes.map(route => ({
+      ...route,
+      scheduleWarnings: getScheduleWarnings(route, limitsByTerminal.get(route.terminalId)),
+    })));
   } catch (error) {
     console.error('Get routes error:', error);
     res.status(500).json({ error: 'Internal server error' });
@@ -128,13 +151,50 @@ router.get('/period/:periodId', authenticateToken, async (req: Request, res: Res
     const periodRoutes = await prisma.periodRoute.findMany({
       where: { selectionPeriodId: periodId },
       include: {
-        route: true,
+        route: {
+          include: routeRequirementsInclude,
+        },
       },
     });
 
-    const routes = periodRoutes.map(pr => pr.route).filter(r => r.isActive);
+    const reservations = await prisma.routeReservation.findMany({
+      where: { selectionPeriodId: periodId },
+      select: { routeId: true, employeeId: true },
+    });
+    const reservationCounts = countAwardsByRoute(reservations);
+
+    // Fully reserved routes stay listed but are out of the open bid
+    const routes = periodRoutes
+      .map(pr => pr.route)
+      .filter(r => r.isActive)
+      .map(route => {
+        const reservedPositions = reservationCounts.get(route.id) || 0;
+        return {
+          ...route,
+          reservedPositions,
+          reserved: reservedPositions >= route.positions,
+          reservedForMe: reservations.some(r => r.routeId === route.id && r.employeeId === req.user?.employeeId),
+        };
+      });
+
+    // Annotate with the shared checker so drivers see the same eligibility the engine applies
+    const employee = req.user?.employeeId ? await prisma.employee.findUnique({
+      where: { id: req.user.employeeId },
+      include: { qualifications: true },
+    }) : null;
+
+    if (!employee) {
+      return res.json(routes);
+    }
 
-    res.json(routes);
+    res.json(routes.map(route => {
+      const missingRequirements = getMissingRequirements(employee, route);
+      return {
+        ...route,
+        qualified: missingRequirements.length === 0,
+        missingRequirements,
+      };
+    }));
   } catch (error) {
     console.error('Get period routes error:', error);
     res.status(500).json({ error: 'Internal server error' });
@@ -168,10 +228,7 @@ router.get('/available/:selectionPeriodId', authenticateToken, async (req: Reque
 
     const employee = req.user?.employeeId ? await prisma.employee.findUnique({
       where: { id: req.user.employeeId },
-      select: {
-        doublesEndorsement: true,
-        chainExperience: true,
-      }
+      include: { qualifications: true },
     }) : null;
 
     console.log('Employee profile:', employee);
@@ -188,20 +245,20 @@ router.get('/available/:selectionPeriodId', authenticateToken, async (req: Reque
     console.log('Available routes - Period routes found:', periodRoutes.length);
     console.log('Available routes - Period route IDs:', periodRouteIds);
 
-    // Get routes that are active and not yet assigned for this period
-    const assignedRouteIds = await prisma.assignment.findMany({
+    // Get routes that are active and still have an open position for this period
+    const periodAssignments = await prisma.assignment.findMany({
       where: { selectionPeriodId },
       select: { routeId: true },
     });
 
-    const assignedIds = assignedRouteIds
-      .filter(a => a.routeId)
-      .map(a => a.routeId as string);
+    // Reserved positions are never open, whether or not the period has been processed yet
+    const awardCounts = periodAssignments.length > 0
+      ? countAwardsByRoute(periodAssignments)
+      : await getReservationCounts(selectionPeriodId);
 
     console.log('Building where clause:', {
       periodRouteIds,
-      assignedIds,
-      hasAssignedIds: assignedIds.length > 0
+      assignedRoutes: awardCounts.size,
     });
 
     const whereClause: any = {
@@ -211,30 +268,6 @@ router.get('/available/:selectionPeriodId', authenticateToken, async (req: Reque
       isActive: true,
     };
 
-    // Only add notIn if there are actually assigned IDs
-    if (assignedIds.length > 0) {
-      whereClause.id.notIn = assignedIds;
-    }
-
-    // If it's a driver, filter out routes they don't qualify for
-    if (req.user?.role === 'DRIVER' && employee) {
-      whereClause.AND = [];
-      
-      // Filter doubles routes if driver doesn't have endorsement
-      if (!employee.doublesEndorsement) {
-        whereClause.AND.push({
-          requiresDoublesEndorsement: false
-        });
-      }
-      
-      // Filter chain experience routes if driver doesn't have experience
-      if (!employee.chainExperience) {
-        whereClause.AND.push({
-          requiresChainExperience: false
-        });
-      }
-    }
-
     console.log('Final where clause:', JSON.stringify(whereClause, null, 2));
 
     let availableRoutes;
@@ -242,6 +275,7 @@ router.get('/available/:selectionPeriodId', authenticateToken, async (req: Reque
       availableRoutes = await prisma.route.findMany({
         where: whereClause,
         orderBy: { runNumber: 'asc' },
+        include: routeRequirementsInclude,
       });
       console.log('Found available routes:', availableRoutes.length);
     } catch (queryError: any) {
@@ -254,7 +288,14 @@ router.get('/available/:selectionPeriodId', authenticateToken, async (req: Reque
       throw queryError;
     }
 
-    res.json(availableRoutes);
+    // If it's a driver, filter out routes they don't qualify for
+    if (req.user?.role === 'DRIVER' && employee) {
+      availableRoutes = availableRoutes.filter(route => getMissingRequirements(employee, route).length === 0);
+    }
+
+    res.json(availableRoutes
+      .map(route => ({ ...route, remainingPositions: getRemainingPositions(route, awardCounts) }))
+      .filter(route => route.remainingPositions > 0));
   } catch (error: any) {
     console.error('Get available routes error:', error);
     console.error('Error details:', {
@@ -307,6 +348,7 @@ router.get('/:id', authenticateToken, async (req: Request, res: Response) => {
             createdAt: 'desc',
           },
         },
+        ...routeRequirementsInclude,
       },
     });
 
@@ -359,13 +401,15 @@ router.post('/', authenticateToken, requireAdmin, checkTerminalAccess, async (re
       data.rateType = 'FLAT_RATE';
     }
 
-    // Automatically set requiresDoublesEndorsement for doubles routes
-    if (data.type === 'DOUBLES') {
-      data.requiresDoublesEndorsement = true;
-    }
-
+    const { requirementIds = [], ...routeData } = data;
     const route = await prisma.route.create({
-      data,
+      data: {
+        ...routeData,
+        requirements: {
+          create: (await resolveRequirementIds(data.type, requirementIds)).map(qualificationId => ({ qualificationId })),
+        },
+      },
+      include: routeRequirementsInclude,
     });
 
     res.status(201).json(route);
@@ -392,6 +436,18 @@ router.put('/:id', authenticateToken, requireAdmin, async (req: Request, res: Re
       return res.status(404).json({ error: 'Route not found' });
     }
 
+    // Deactivating a held route would strand its drivers; abolishing it gives them bump rights
+    if (data.isActive === false && existingRoute.isActive) {
+      const holderCount = await prisma.employee.count({
+        where: { currentRouteId: existingRoute.id },
+      });
+      if (holderCount > 0) {
+        return res.status(409).json({
+          error: `Route ${existingRoute.runNumber} is held by ${holderCount} driver(s). Abolish it instead so they can exercise bump rights.`
+        });
+      }
+    }
+
     // Check if run number is being changed and if it conflicts
     if (data.runNumber && data.runNumber !== existingRoute.runNumber) {
       const conflictingRoute = await prisma.route.findUnique({
@@ -419,14 +475,25 @@ router.put('/:id', authenticateToken, requireAdmin, async (req: Request, res: Re
       data.rateType = 'FLAT_RATE';
     }
 
-    // Automatically set requiresDoublesEndorsement for doubles routes
-    if (data.type === 'DOUBLES') {
-      data.requiresDoublesEndorsement = true;
+    const { requirementIds, ...routeData } = data;
+    const updateData: any = { ...routeData };
+
+    // A supplied requirement list replaces the route's requirements
+    if (requirementIds || data.type === 'DOUBLES') {
+      const currentIds = requirementIds ?? (await prisma.routeRequirement.findMany({
+        where: { routeId: req.params.id },
+      })).map(r => r.qualificationId);
+
+      updateData.requirements = {
+        deleteMany: {},
+        create: (await resolveRequirementIds(data.type, currentIds)).map(qualificationId => ({ qualificationId })),
+      };
     }
 
     const route = await prisma.route.update({
       where: { id: req.params.id },
-      data,
+      data: updateData,
+      include: routeRequirementsInclude,
     });
 
     res.json(route);
@@ -447,9 +514,9 @@ router.delete('/:id', authenticateToken, requireAdmin, async (req: Request, res:
       where: { id: req.params.id },
       include: {
         assignments: true,
-        firstChoiceSelections: true,
-        secondChoiceSelections: true,
-        thirdChoiceSelections: true,
+        selectionChoices: true,
+        secondRoundChoices: true,
+        currentEmployees: { select: { id: true } },
       },
     });
 
@@ -459,10 +526,9 @@ router.delete('/:id', authenticateToken, requireAdmin, async (req: Request, res:
 
     // Check if route has any assignments or selections
     const hasAssignments = existingRoute.assignments.length > 0;
-    const hasSelections = 
-      existingRoute.firstChoiceSelections.length > 0 ||
-      existingRoute.secondChoiceSelections.length > 0 ||
-      existingRoute.thirdChoiceSelections.length > 0;
+    const hasSelections =
+      existingRoute.selectionChoices.length > 0 ||
+      existingRoute.secondRoundChoices.length > 0;
 
     if (hasAssignments || hasSelections) {
       return res.status(409).json({ 
@@ -470,6 +536,12 @@ router.delete('/:id', authenticateToken, requireAdmin, async (req: Request, res:
       });
     }
 
+    if (existingRoute.currentEmployees.length > 0) {
+      return res.status(409).json({
+        error: `Route ${existingRoute.runNumber} is held by ${existingRoute.currentEmployees.length} driver(s). Abolish it instead so they can exercise bump rights.`
+      });
+    }
+
     await prisma.route.delete({
       where: { id: req.params.id },
     });
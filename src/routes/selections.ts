@@ -5,19 +5,67 @@ import { authenticateToken, requireAdmin, requireAdminOrSelf } from '../middlewa
 import emailService from '../services/email.js';
 import { FileProcessor } from '../utils/fileProcessor.js';
 import PDFDocument from 'pdfkit';
-import { AssignmentEngine } from '../services/assignmentEngine.js';
+import jobService from '../services/jobs.js';
+import periodLifecycleService from '../services/periodLifecycle.js';
+import periodRosterService from '../services/periodRoster.js';
+import submissionWindowService from '../services/submissionWindows.js';
+import { employeeQualificationsInclude, getMissingRequirement, routeRequirementsInclude } from '../utils/qualifications.js';
+import { countAwardsByRoute, getRemainingPositions } from '../utils/routePositions.js';
+import { getFullyReservedRouteIds } from '../utils/reservations.js';
+import { getRouteChoiceError, loadRouteChoiceContext } from '../utils/routeChoices.js';
 
 const router = Router();
 
 const createSelectionSchema = z.object({
   selectionPeriodId: z.string(),
-  firstChoiceId: z.string().optional(),
-  secondChoiceId: z.string().optional(),
-  thirdChoiceId: z.string().optional(),
+  // Route IDs in preference order, most preferred first
+  choiceIds: z.array(z.string()).default([]),
+  // Bid to keep the driver's current route; weighed by the period's incumbency rule
+  retainCurrentRoute: z.boolean().default(false),
 });
 
 const updateSelectionSchema = createSelectionSchema.partial().omit({ selectionPeriodId: true });
 
+// Returns why the driver can't bid to keep their current route in this period, or null if they can
+const getRetainCurrentRouteError = async (
+  employee: { currentRouteId: string | null; qualifications: { qualificationId: string; expiresAt: Date | null }[] },
+  selectionPeriodId: string
+): Promise<string | null> => {
+  if (!employee.currentRouteId) {
+    return 'You do not currently hold a route to retain';
+  }
+
+  const periodRoute = await prisma.periodRoute.findUnique({
+    where: {
+      selectionPeriodId_routeId: {
+        selectionPeriodId,
+        routeId: employee.currentRouteId,
+      },
+    },
+    include: {
+      route: {
+        include: routeRequirementsInclude,
+      },
+    },
+  });
+
+  if (!periodRoute || !periodRoute.route.isActive) {
+    return 'Your current route is not part of this selection period';
+  }
+
+  const missingRequirement = getMissingRequirement(employee, periodRoute.route);
+  if (missingRequirement) {
+    return `Your current route ${periodRoute.route.runNumber} requires ${missingRequirement}`;
+  }
+
+  const reservedRouteIds = await getFullyReservedRouteIds(selectionPeriodId, [periodRoute.route]);
+  if (reservedRouteIds.has(periodRoute.route.id)) {
+    return `Route ${periodRoute.route.runNumber} is reserved and not open for bidding`;
+  }
+
+  return null;
+};
+
 // GET /api/selections - Get all selections (Admin only)
 router.get('/', authenticateToken, requireAdmin, async (req: Request, res: Response) => {
   try {
@@ -38,9 +86,8 @@ router.get('/', authenticateToken, requireAdmin, async (req: Request, res: Respo
             firstName: true,
             lastName: true,
             hireDate: true,
-            doublesEndorsement: true,
-            chainExperience: true,
             isEligible: true,
+            ...employeeQualificationsInclude,
           },
         },
         selectionPeriod: {
@@ -50,31 +97,18 @@ router.get('/', authenticateToken, requireAdmin, async (req: Request, res: Respo
             status: true,
           },
         },
-        firstChoice: {
-          select: {
-            id: true,
-            runNumber: true,
-            origin: true,
-            destination: true,
-            type: true,
-          },
-        },
-        secondChoice: {
-          select: {
-            id: true,
-            runNumber: true,
-            origin: true,
-            destination: true,
-            type: true,
-          },
-        },
-        thirdChoice: {
-          select: {
-            id: true,
-            runNumber: true,
-            origin: true,
-            destination: true,
-            type: true,
+        choices: {
+          orderBy: { rank: 'asc' },
+          include: {
+            route: {
+              select: {
+                id: true,
+                runNumber: true,
+                origin: true,
+                destination: true,
+                type: true,
+              },
+            },
           },
         },
       },
@@ -97,9 +131,17 @@ router.get('/period/:periodId', authenticateToken, requireAdmin, async (req: Req
   try {
     const { periodId } = req.params;
 
-    // Get all eligible employees
+    const period = await prisma.selectionPeriod.findUnique({
+      where: { id: periodId },
+    });
+
+    if (!period) {
+      return res.status(404).json({ error: 'Selection period not found' });
+    }
+
+    // Get the drivers competing in the period
     const allEmployees = await prisma.employee.findMany({
-      where: { isEligible: true },
+      where: periodRosterService.getParticipantWhere(period),
       include: {
         user: {
           select: {
@@ -125,40 +167,29 @@ router.get('/period/:periodId', authenticateToken, requireAdmin, async (req: Req
             },
           },
         },
-        firstChoice: {
-          select: {
-            id: true,
-            runNumber: true,
-            origin: true,
-            destination: true,
-            type: true,
-            requiresDoublesEndorsement: true,
-            requiresChainExperience: true,
-          },
-        },
-        secondChoice: {
-          select: {
-            id: true,
-            runNumber: true,
-            origin: true,
-            destination: true,
-            type: true,
-            requiresDoublesEndorsement: true,
-            requiresChainExperience: true,
-          },
-        },
-        thirdChoice: {
-          select: {
-            id: true,
-            runNumber: true,
-            origin: true,
-            destination: true,
-            type: true,
-            requiresDoublesEndorsement: true,
-            requiresChainExperience: true,
+        choices: {
+          orderBy: { rank: 'asc' },
+          include: {
+            route: {
+              select: {
+                id: true,
+                runNumber: true,
+                origin: true,
+                destination: true,
+                type: true,
+                ...routeRequirementsInclude,
+              },
+            },
           },
         },
-        assignedRoute: {
+      },
+    });
+
+    // Assigned routes live on the period's assignments, not on the selection
+    const assignments = await prisma.assignment.findMany({
+      where: { selectionPeriodId: periodId },
+      include: {
+        route: {
           select: {
             id: true,
             runNumber: true,
@@ -169,6 +200,9 @@ router.get('/period/:periodId', authenticateToken, requireAdmin, async (req: Req
         },
       },
     });
+    const assignedRouteMap = new Map(
+      assignments.map(a => [a.employeeId, a.route])
+    );
 
     // Create a map of selections by employee ID
     const selectionMap = new Map(
@@ -190,10 +224,8 @@ router.get('/period/:periodId', authenticateToken, requireAdmin, async (req: Req
           hireDate: employee.hireDate,
           isEligible: employee.isEligible,
         },
-        firstChoice: selection?.firstChoice || null,
-        secondChoice: selection?.secondChoice || null,
-        thirdChoice: selection?.thirdChoice || null,
-        assignedRoute: selection?.assignedRoute || null,
+        choices: selection?.choices || [],
+        assignedRoute: assignedRouteMap.get(employee.id) || null,
         submittedAt: selection?.submittedAt || null,
         confirmationNumber: selection?.confirmationNumber || null,
       };
@@ -232,40 +264,21 @@ router.get('/my/:periodId', authenticateToken, async (req: Request, res: Respons
             endDate: true,
           },
         },
-        firstChoice: {
-          select: {
-            id: true,
-            runNumber: true,
-            origin: true,
-            destination: true,
-            type: true,
-            days: true,
-            startTime: true,
-            endTime: true,
-          },
-        },
-        secondChoice: {
-          select: {
-            id: true,
-            runNumber: true,
-            origin: true,
-            destination: true,
-            type: true,
-            days: true,
-            startTime: true,
-            endTime: true,
-          },
-        },
-        thirdChoice: {
-          select: {
-            id: true,
-            runNumber: true,
-            origin: true,
-            destination: true,
-            type: true,
-            days: true,
-            startTime: true,
-            endTime: true,
+        choices: {
+          orderBy: { rank: 'asc' },
+          include: {
+            route: {
+              select: {
+                id: true,
+                runNumber: true,
+                origin: true,
+                destination: true,
+                type: true,
+                days: true,
+                startTime: true,
+                endTime: true,
+              },
+            },
           },
         },
       },
@@ -278,6 +291,184 @@ router.get('/my/:periodId', authenticateToken, async (req: Request, res: Respons
   }
 });
 
+// Loads the period, the driver's round-one assignment and the routes with positions still unclaimed after round one
+const loadSecondRoundContext = async (periodId: string, employeeId: string) => {
+  const selectionPeriod = await prisma.selectionPeriod.findUnique({
+    where: { id: periodId },
+    include: { terminal: true },
+  });
+
+  if (!selectionPeriod) {
+    return null;
+  }
+
+  const assignments = await prisma.assignment.findMany({
+    where: { selectionPeriodId: periodId },
+    select: { employeeId: true, routeId: true },
+  });
+  const awardCounts = countAwardsByRoute(assignments);
+  const ownAssignment = assignments.find(a => a.employeeId === employeeId) || null;
+
+  const periodRoutes = await prisma.periodRoute.findMany({
+    where: { selectionPeriodId: periodId },
+    include: {
+      route: {
+        include: routeRequirementsInclude,
+      },
+    },
+  });
+  const availableRoutes = periodRoutes
+    .map(pr => ({ ...pr.route, remainingPositions: getRemainingPositions(pr.route, awardCounts) }))
+    .filter(route => route.remainingPositions > 0);
+
+  return {
+    selectionPeriod,
+    isFloatPool: !!ownAssignment && !ownAssignment.routeId,
+    availableRoutes,
+  };
+};
+
+// GET /api/selections/second-round/:periodId - Get current user's second round window, routes and ranking
+router.get('/second-round/:periodId', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const { periodId } = req.params;
+
+    if (!req.user?.employeeId) {
+      return res.status(403).json({ error: 'Employee profile required' });
+    }
+
+    const context = await loadSecondRoundContext(periodId, req.user.employeeId);
+    if (!context) {
+      return res.status(404).json({ error: 'Selection period not found' });
+    }
+
+    const choices = await prisma.secondRoundChoice.findMany({
+      where: {
+        selectionPeriodId: periodId,
+        employeeId: req.user.employeeId,
+      },
+      orderBy: { rank: 'asc' },
+    });
+
+    const { selectionPeriod } = context;
+    const now = new Date();
+
+    res.json({
+      period: {
+        id: selectionPeriod.id,
+        name: selectionPeriod.name,
+        requiredSelections: selectionPeriod.requiredSelections,
+        secondRoundStartDate: selectionPeriod.secondRoundStartDate,
+        secondRoundEndDate: selectionPeriod.secondRoundEndDate,
+        terminal: { timeZone: selectionPeriod.terminal.timeZone },
+      },
+      isFloatPool: context.isFloatPool,
+      isOpen: !!selectionPeriod.secondRoundStartDate &&
+        !!selectionPeriod.secondRoundEndDate &&
+        !selectionPeriod.secondRoundProcessedAt &&
+        now >= selectionPeriod.secondRoundStartDate &&
+        now <= selectionPeriod.secondRoundEndDate,
+      availableRoutes: context.availableRoutes,
+      choiceIds: choices.map(c => c.routeId),
+    });
+  } catch (error) {
+    console.error('Get second round selection error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// PUT /api/selections/second-round/:periodId - Submit or replace second round ranking
+router.put('/second-round/:periodId', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const { periodId } = req.params;
+    const { choiceIds } = z.object({ choiceIds: z.array(z.string()) }).parse(req.body);
+
+    if (!req.user?.employeeId) {
+      return res.status(403).json({ error: 'Employee profile required' });
+    }
+    const employeeId = req.user.employeeId;
+
+    const context = await loadSecondRoundContext(periodId, employeeId);
+    if (!context) {
+      return res.status(404).json({ error: 'Selection period not found' });
+    }
+
+    const { selectionPeriod } = context;
+    const now = new Date();
+    if (
+      !selectionPeriod.secondRoundStartDate ||
+      !selectionPeriod.secondRoundEndDate ||
+      selectionPeriod.secondRoundProcessedAt ||
+      now < selectionPeriod.secondRoundStartDate ||
+      now > selectionPeriod.secondRoundEndDate
+    ) {
+      return res.status(400).json({ error: 'Second round is not currently open' });
+    }
+
+    if (!context.isFloatPool) {
+      return res.status(403).json({ error: 'Only float-pool drivers may bid in the second round' });
+    }
+
+    const employee = await prisma.employee.findUnique({
+      where: { id: employeeId },
+      include: { qualifications: true },
+    });
+
+    if (!employee) {
+      return res.status(404).json({ error: 'Employee not found' });
+    }
+
+    // Only leftover routes may be ranked, and the driver bids on their own
+    const availableRoutes = new Map(context.availableRoutes.map(route => [route.id, route]));
+    const choiceError = getRouteChoiceError(choiceIds, {
+      employee,
+      periodRoutes: context.availableRoutes,
+      reservedRouteIds: new Set(),
+      hasConfirmedTeam: false,
+      maxChoices: selectionPeriod.requiredSelections,
+      isVacancy: false,
+    });
+    if (choiceError) {
+      return res.status(400).json({ error: choiceError });
+    }
+
+    await prisma.$transaction([
+      prisma.secondRoundChoice.deleteMany({
+        where: { selectionPeriodId: periodId, employeeId },
+      }),
+      prisma.secondRoundChoice.createMany({
+        data: choiceIds.map((routeId, index) => ({
+          employeeId,
+          selectionPeriodId: periodId,
+          routeId,
+          rank: index + 1,
+        })),
+      }),
+    ]);
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user.id,
+        action: 'SUBMIT_SECOND_ROUND_SELECTION',
+        resource: 'Selection',
+        details: JSON.stringify({
+          employeeId,
+          selectionPeriodId: periodId,
+          choices: choiceIds.map(id => availableRoutes.get(id)?.runNumber),
+        }),
+      },
+    });
+
+    res.json({ success: true, choiceIds });
+  } catch (error) {
+    console.error('Submit second round selection error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // POST /api/selections - Submit route selection
 router.post('/', authenticateToken, async (req: Request, res: Response) => {
   try {
@@ -287,33 +478,48 @@ router.post('/', authenticateToken, async (req: Request, res: Response) => {
       return res.status(403).json({ error: 'Employee profile required' });
     }
 
-    // Check if employee is eligible
     const employee = await prisma.employee.findUnique({
       where: { id: req.user.employeeId },
+      include: { qualifications: true },
     });
 
-    if (!employee || !employee.isEligible) {
+    if (!employee) {
       return res.status(403).json({ error: 'Employee not eligible for route selection' });
     }
 
     // Check if selection period exists and is open
     const selectionPeriod = await prisma.selectionPeriod.findUnique({
       where: { id: data.selectionPeriodId },
+      include: { terminal: true },
     });
 
     if (!selectionPeriod) {
       return res.status(404).json({ error: 'Selection period not found' });
     }
 
+    // Only drivers on the period's roster may bid
+    if (!(await periodRosterService.isParticipant(selectionPeriod, employee.id))) {
+      return res.status(403).json({ error: 'Employee not eligible for route selection' });
+    }
+
     if (selectionPeriod.status !== 'OPEN') {
       return res.status(400).json({ error: 'Selection period is not open' });
     }
 
+    if (selectionPeriod.mode === 'DRAFT') {
+      return res.status(400).json({ error: 'This period uses a live draft. Claim your route from the draft board.' });
+    }
+
     const now = new Date();
     if (now < selectionPeriod.startDate || now > selectionPeriod.endDate) {
       return res.status(400).json({ error: 'Selection period is not currently active' });
     }
 
+    const windowError = await submissionWindowService.getSubmissionWindowError(selectionPeriod, req.user.employeeId, now);
+    if (windowError) {
+      return res.status(400).json({ error: windowError });
+    }
+
     // Check if employee already has a selection for this period
     const existingSelection = await prisma.selection.findUnique({
       where: {
@@ -328,46 +534,34 @@ router.post('/', authenticateToken, async (req: Request, res: Response) => {
       return res.status(409).json({ error: 'Selection already submitted for this period' });
     }
 
-    // Validate that choices are different and routes exist
-    const choiceIds = [data.firstChoiceId, data.secondChoiceId, data.thirdChoiceId].filter((id): id is string => id !== null && id !== undefined);
-    const uniqueChoiceIds = new Set(choiceIds);
-    
-    // Validate number of selections doesn't exceed the period's requirement
-    if (choiceIds.length > selectionPeriod.requiredSelections) {
-      return res.status(400).json({ 
-        error: `This period allows a maximum of ${selectionPeriod.requiredSelections} route selection${selectionPeriod.requiredSelections > 1 ? 's' : ''}` 
+    // A team bids on its lead's list, so the invited partner doesn't submit their own
+    const partneredTeam = await prisma.bidTeam.findUnique({
+      where: {
+        selectionPeriodId_partnerEmployeeId: {
+          selectionPeriodId: data.selectionPeriodId,
+          partnerEmployeeId: req.user.employeeId,
+        },
+      },
+      include: { lead: true },
+    });
+
+    if (partneredTeam) {
+      return res.status(400).json({
+        error: `Your team's joint list is submitted by ${partneredTeam.lead.firstName} ${partneredTeam.lead.lastName}`
       });
     }
 
-    if (choiceIds.length !== uniqueChoiceIds.size) {
-      return res.status(400).json({ error: 'Route choices must be different' });
+    // Validate the choices against the period's routes, the driver's qualifications and team
+    const choiceIds = data.choiceIds;
+    const choiceError = getRouteChoiceError(choiceIds, await loadRouteChoiceContext(selectionPeriod, employee));
+    if (choiceError) {
+      return res.status(400).json({ error: choiceError });
     }
 
-    // Validate routes exist and employee qualifies
-    if (choiceIds.length > 0) {
-      const routes = await prisma.route.findMany({
-        where: {
-          id: { in: choiceIds },
-          isActive: true,
-        },
-      });
-
-      if (routes.length !== choiceIds.length) {
-        return res.status(400).json({ error: 'One or more selected routes not found or inactive' });
-      }
-
-      // Check qualifications
-      for (const route of routes) {
-        if (route.requiresDoublesEndorsement && !employee.doublesEndorsement) {
-          return res.status(400).json({ 
-            error: `Route ${route.runNumber} requires doubles endorsement` 
-          });
-        }
-        if (route.requiresChainExperience && !employee.chainExperience) {
-          return res.status(400).json({ 
-            error: `Route ${route.runNumber} requires chain experience` 
-          });
-        }
+    if (data.retainCurrentRoute) {
+      const retainError = await getRetainCurrentRouteError(employee, data.selectionPeriodId);
+      if (retainError) {
+        return res.status(400).json({ error: retainError });
       }
     }
 
@@ -378,37 +572,28 @@ router.post('/', authenticateToken, async (req: Request, res: Response) => {
       data: {
         employeeId: req.user.employeeId,
         selectionPeriodId: data.selectionPeriodId,
-        firstChoiceId: data.firstChoiceId,
-        secondChoiceId: data.secondChoiceId,
-        thirdChoiceId: data.thirdChoiceId,
         confirmationNumber,
+        retainCurrentRoute: data.retainCurrentRoute,
+        choices: {
+          create: choiceIds.map((routeId, index) => ({
+            routeId,
+            rank: index + 1,
+          })),
+        },
       },
       include: {
-        firstChoice: {
-          select: {
-            id: true,
-            runNumber: true,
-            origin: true,
-            destination: true,
-            type: true,
-          },
-        },
-        secondChoice: {
-          select: {
-            id: true,
-            runNumber: true,
-            origin: true,
-            destination: true,
-            type: true,
-          },
-        },
-        thirdChoice: {
-          select: {
-            id: true,
-            runNumber: true,
-            origin: true,
-            destination: true,
-            type: true,
+        choices: {
+          orderBy: { rank: 'asc' },
+          include: {
+            route: {
+              select: {
+                id: true,
+                runNumber: true,
+                origin: true,
+                destination: true,
+                type: true,
+              },
+            },
           },
         },
       },
@@ -423,9 +608,8 @@ router.post('/', authenticateToken, async (req: Request, res: Response) => {
         details: JSON.stringify({
           selectionId: selection.id,
           selectionPeriodId: data.selectionPeriodId,
-          firstChoice: selection.firstChoice?.runNumber || null,
-          secondChoice: selection.secondChoice?.runNumber || null,
-          thirdChoice: selection.thirdChoice?.runNumber || null,
+          choices: selection.choices.map(c => c.route.runNumber),
+          retainCurrentRoute: data.retainCurrentRoute,
           confirmationNumber: confirmationNumber,
         }),
       },
@@ -450,8 +634,12 @@ router.put('/:id', authenticateToken, async (req: Request, res: Response) => {
     const existingSelection = await prisma.selection.findUnique({
       where: { id: req.params.id },
       include: {
-        employee: true,
-        selectionPeriod: true,
+        employee: {
+          include: { qualifications: true },
+        },
+        selectionPeriod: {
+          include: { terminal: true },
+        },
       },
     });
 
@@ -469,83 +657,73 @@ router.put('/:id', authenticateToken, async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Selection period is no longer open' });
     }
 
+    // A driver removed from the roster can no longer change their bid
+    if (!(await periodRosterService.isParticipant(existingSelection.selectionPeriod, existingSelection.employeeId))) {
+      return res.status(403).json({ error: 'Employee not eligible for route selection' });
+    }
+
     const now = new Date();
     if (now < existingSelection.selectionPeriod.startDate || now > existingSelection.selectionPeriod.endDate) {
       return res.status(400).json({ error: 'Selection period is not currently active' });
     }
 
-    // Validate choices if provided
-    const choiceIds = [data.firstChoiceId, data.secondChoiceId, data.thirdChoiceId].filter((id): id is string => id !== null && id !== undefined);
-    const uniqueChoiceIds = new Set(choiceIds);
-    
-    // Validate number of selections doesn't exceed the period's requirement
-    if (choiceIds.length > existingSelection.selectionPeriod.requiredSelections) {
-      return res.status(400).json({ 
-        error: `This period allows a maximum of ${existingSelection.selectionPeriod.requiredSelections} route selection${existingSelection.selectionPeriod.requiredSelections > 1 ? 's' : ''}` 
-      });
+    // Admins correcting a driver's selection aren't held to the driver's band
+    if (req.user?.role !== 'ADMIN') {
+      const windowError = await submissionWindowService.getSubmissionWindowError(
+        existingSelection.selectionPeriod,
+        existingSelection.employeeId,
+        now
+      );
+      if (windowError) {
+        return res.status(400).json({ error: windowError });
+      }
     }
 
-    if (choiceIds.length !== uniqueChoiceIds.size) {
-      return res.status(400).json({ error: 'Route choices must be different' });
+    // Validate choices if provided
+    const choiceIds = data.choiceIds || [];
+    const choiceError = getRouteChoiceError(
+      choiceIds,
+      await loadRouteChoiceContext(existingSelection.selectionPeriod, existingSelection.employee)
+    );
+    if (choiceError) {
+      return res.status(400).json({ error: choiceError });
     }
 
-    // Validate routes and qualifications if provided
-    if (choiceIds.length > 0) {
-      const routes = await prisma.route.findMany({
-        where: {
-          id: { in: choiceIds },
-          isActive: true,
-        },
-      });
-
-      if (routes.length !== choiceIds.length) {
-        return res.status(400).json({ error: 'One or more selected routes not found or inactive' });
-      }
-
-      const employee = existingSelection.employee;
-      for (const route of routes) {
-        if (route.requiresDoublesEndorsement && !employee.doublesEndorsement) {
-          return res.status(400).json({ 
-            error: `Route ${route.runNumber} requires doubles endorsement` 
-          });
-        }
-        if (route.requiresChainExperience && !employee.chainExperience) {
-          return res.status(400).json({ 
-            error: `Route ${route.runNumber} requires chain experience` 
-          });
-        }
+    if (data.retainCurrentRoute) {
+      const retainError = await getRetainCurrentRouteError(existingSelection.employee, existingSelection.selectionPeriodId);
+      if (retainError) {
+        return res.status(400).json({ error: retainError });
       }
     }
 
     const selection = await prisma.selection.update({
       where: { id: req.params.id },
-      data,
-      include: {
-        firstChoice: {
-          select: {
-            id: true,
-            runNumber: true,
-            origin: true,
-            destination: true,
-            type: true,
-          },
-        },
-        secondChoice: {
-          select: {
-            id: true,
-            runNumber: true,
-            origin: true,
-            destination: true,
-            type: true,
+      data: {
+        ...(data.retainCurrentRoute !== undefined ? { retainCurrentRoute: data.retainCurrentRoute, submittedAt: new Date() } : {}),
+        ...(data.choiceIds ? {
+          submittedAt: new Date(),
+          choices: {
+            deleteMany: {},
+            create: data.choiceIds.map((routeId, index) => ({
+              routeId,
+              rank: index + 1,
+            })),
           },
-        },
-        thirdChoice: {
-          select: {
-            id: true,
-            runNumber: true,
-            origin: true,
-            destination: true,
-            type: true,
+        } : {}),
+      },
+      include: {
+        choices: {
+          orderBy: { rank: 'asc' },
+          include: {
+            route: {
+              select: {
+                id: true,
+                runNumber: true,
+                origin: true,
+                destination: true,
+                type: true,
+              },
+            },
           },
         },
       },
@@ -560,11 +738,8 @@ router.put('/:id', authenticateToken, async (req: Request, res: Response) => {
         details: JSON.stringify({
           selectionId: selection.id,
           selectionPeriodId: existingSelection.selectionPeriodId,
-          updatedChoices: {
-            firstChoice: selection.firstChoice?.runNumber || null,
-            secondChoice: selection.secondChoice?.runNumber || null,
-            thirdChoice: selection.thirdChoice?.runNumber || null,
-          },
+          updatedChoices: selection.choices.map(c => c.route.runNumber),
+          retainCurrentRoute: selection.retainCurrentRoute,
         }),
       },
     });
@@ -662,16 +837,25 @@ router.post('/send-notifications', authenticateToken, requireAdmin, async (req:
             user: true,
           },
         },
-        firstChoice: true,
-        secondChoice: true,
-        thirdChoice: true,
-        assignedRoute: true,
+        choices: {
+          orderBy: { rank: 'asc' },
+          include: { route: true },
+        },
       },
     });
 
+    const assignments = await prisma.assignment.findMany({
+      where: { selectionPeriodId: periodId },
+      include: { route: true },
+    });
+    const assignedRouteMap = new Map(
+      assignments.map(a => [a.employeeId, a.route])
+    );
+
     // Send emails to each employee
     const emailPromises = selections.map(async (selection) => {
       if (!selection.employee.user?.email) return;
+      const assignedRoute = assignedRouteMap.get(selection.employeeId);
 
       const emailContent = {
         to: selection.employee.user.email,
@@ -683,16 +867,14 @@ router.post('/send-notifications', authenticateToken, requireAdmin, async (req:
           <p>Here are your route selection results for ${selectionPeriod.name}:</p>
           
           <h3>Your Selections:</h3>
-          <ul>
-            ${selection.firstChoice ? `<li><strong>First Choice:</strong> Route #${selection.firstChoice.runNumber} - ${selection.firstChoice.origin} to ${selection.firstChoice.destination}</li>` : ''}
-            ${selection.secondChoice ? `<li><strong>Second Choice:</strong> Route #${selection.secondChoice.runNumber} - ${selection.secondChoice.origin} to ${selection.secondChoice.destination}</li>` : ''}
-            ${selection.thirdChoice ? `<li><strong>Third Choice:</strong> Route #${selection.thirdChoice.runNumber} - ${selection.thirdChoice.origin} to ${selection.thirdChoice.destination}</li>` : ''}
-          </ul>
+          <ol>
+            ${selection.choices.map(c => `<li>Route #${c.route.runNumber} - ${c.route.origin} to ${c.route.destination}</li>`).join('')}
+          </ol>
           
-          ${selection.assignedRoute ? `
+          ${assignedRoute ? `
             <h3>Assigned Route:</h3>
-            <p><strong>Route #${selection.assignedRoute.runNumber}</strong> - ${selection.assignedRoute.origin} to ${selection.assignedRoute.destination}</p>
-            <p>Schedule: ${selection.assignedRoute.days} | ${selection.assignedRoute.startTime} - ${selection.assignedRoute.endTime}</p>
+            <p><strong>Route #${assignedRoute.runNumber}</strong> - ${assignedRoute.origin} to ${assignedRoute.destination}</p>
+            <p>Schedule: ${assignedRoute.days} | ${assignedRoute.startTime} - ${assignedRoute.endTime}</p>
           ` : '<p>Route assignment is pending. You will be notified once routes are assigned.</p>'}
           
           <p>Confirmation Number: ${selection.confirmationNumber}</p>
@@ -756,10 +938,10 @@ router.get('/download/:periodId', authenticateToken, requireAdmin, async (req: R
             user: true,
           },
         },
-        firstChoice: true,
-        secondChoice: true,
-        thirdChoice: true,
-        assignedRoute: true,
+        choices: {
+          orderBy: { rank: 'asc' },
+          include: { route: true },
+        },
       },
       orderBy: {
         employee: {
@@ -768,33 +950,49 @@ router.get('/download/:periodId', authenticateToken, requireAdmin, async (req: R
       },
     });
 
-    // Get all employees (including those without selections)
+    // Get every driver on the period's roster (including those without selections)
     const allEmployees = await prisma.employee.findMany({
-      where: { isEligible: true },
+      where: periodRosterService.getParticipantWhere(selectionPeriod),
       include: {
         user: true,
       },
       orderBy: { hireDate: 'asc' },
     });
 
+    const assignments = await prisma.assignment.findMany({
+      where: { selectionPeriodId: periodId },
+      include: { route: true },
+    });
+    const assignmentMap = new Map(
+      assignments.map(a => [a.employeeId, a])
+    );
+
     // Create a map of selections by employee ID
     const selectionMap = new Map(
       selections.map(s => [s.employeeId, s])
     );
 
     // Build the data array including employees without selections
-    const data = allEmployees.map(employee => {
+    const data: Record<string, string>[] = allEmployees.map(employee => {
       const selection = selectionMap.get(employee.id);
+      const assignment = assignmentMap.get(employee.id);
+      const assignedRoute = assignment?.route;
+      // One column per ranked choice the period allows
+      const choiceColumns: Record<string, string> = {};
+      for (let rank = 1; rank <= selectionPeriod.requiredSelections; rank++) {
+        const choice = selection?.choices.find(c => c.rank === rank);
+        choiceColumns[`Choice ${rank}`] = choice ? `#${choice.route.runNumber} - ${choice.route.origin} to ${choice.route.destination}` : '';
+      }
       return {
         'Employee Number': employee.employeeId,
         'Name': `${employee.firstName} ${employee.lastName}`,
         'Email': employee.user?.email || '',
         'Hire Date': employee.hireDate.toISOString().split('T')[0],
         'Status': selection ? 'Submitted' : 'Not Submitted',
-        'First Choice': selection?.firstChoice ? `#${selection.firstChoice.runNumber} - ${selection.firstChoice.origin} to ${selection.firstChoice.destination}` : '',
-        'Second Choice': selection?.secondChoice ? `#${selection.secondChoice.runNumber} - ${selection.secondChoice.origin} to ${selection.secondChoice.destination}` : '',
-        'Third Choice': selection?.thirdChoice ? `#${selection.thirdChoice.runNumber} - ${selection.thirdChoice.origin} to ${selection.thirdChoice.destination}` : '',
-        'Assigned Route': selection?.assignedRoute ? `#${selection.assignedRoute.runNumber} - ${selection.assignedRoute.origin} to ${selection.assignedRoute.destination}` : '',
+        ...choiceColumns,
+        'Assigned Route': assignedRoute ? `#${assignedRoute.runNumber} - ${assignedRoute.origin} to ${assignedRoute.destination}` : '',
+        'Choice Received': assignment?.forced ? 'Forced' : assignment?.choiceReceived ? `Choice #${assignment.choiceReceived}` : 'N/A',
+        'Incumbency': assignment?.viaIncumbency ? 'Yes' : 'No',
         'Confirmation Number': selection?.confirmationNumber || '',
         'Submitted At': selection?.submittedAt ? selection.submittedAt.toISOString() : '',
       };
@@ -842,17 +1040,25 @@ router.get('/download/:periodId', authenticateToken, requireAdmin, async (req: R
         doc.fontSize(10);
         doc.text(`Status: ${employee.Status}`);
         if (employee.Status === 'Submitted') {
-          if (employee['First Choice']) doc.text(`First Choice: ${employee['First Choice']}`);
-          if (employee['Second Choice']) doc.text(`Second Choice: ${employee['Second Choice']}`);
-          if (employee['Third Choice']) doc.text(`Third Choice: ${employee['Third Choice']}`);
-          if (employee['Assigned Route']) {
-            doc.text(`Assigned Route: ${employee['Assigned Route']}`, { 
-              color: 'green',
-              underline: true 
-            });
+          for (let rank = 1; rank <= selectionPeriod.requiredSelections; rank++) {
+            const choice = employee[`Choice ${rank}`];
+            if (choice) doc.text(`Choice ${rank}: ${choice}`);
           }
           doc.text(`Confirmation: ${employee['Confirmation Number']}`);
         }
+        // Forced awards mostly go to drivers who never submitted
+        if (employee['Assigned Route']) {
+          doc.text(`Assigned Route: ${employee['Assigned Route']}`, { 
+            color: 'green',
+            underline: true 
+          });
+          if (employee['Choice Received'] === 'Forced') {
+            doc.text('Awarded By: Force-assigned (unclaimed route, no choice)');
+          }
+          if (employee['Incumbency'] === 'Yes') {
+            doc.text('Awarded By: Incumbency (current route retained)');
+          }
+        }
         doc.moveDown();
       });
 
@@ -876,26 +1082,20 @@ router.post('/admin', authenticateToken, requireAdmin, async (req: Request, res:
     const manualSelectionSchema = z.object({
       employeeId: z.string(),
       selectionPeriodId: z.string(),
-      firstChoiceId: z.string().optional().nullable(),
-      secondChoiceId: z.string().optional().nullable(),
-      thirdChoiceId: z.string().optional().nullable(),
+      choiceIds: z.array(z.string()).default([]),
     });
 
     const data = manualSelectionSchema.parse(req.body);
 
-    // Check if employee exists and is eligible
     const employee = await prisma.employee.findUnique({
       where: { id: data.employeeId },
+      include: { qualifications: true },
     });
 
     if (!employee) {
       return res.status(404).json({ error: 'Employee not found' });
     }
 
-    if (!employee.isEligible) {
-      return res.status(403).json({ error: 'Employee not eligible for route selection' });
-    }
-
     // Check if selection period exists and is open
     const selectionPeriod = await prisma.selectionPeriod.findUnique({
       where: { id: data.selectionPeriodId },
@@ -905,11 +1105,21 @@ router.post('/admin', authenticateToken, requireAdmin, async (req: Request, res:
       return res.status(404).json({ error: 'Selection period not found' });
     }
 
+    // Drivers outside the period's roster are added to it first, with a reason
+    if (!(await periodRosterService.isParticipant(selectionPeriod, employee.id))) {
+      return res.status(403).json({ error: 'Employee is not on this period\'s roster' });
+    }
+
     // Admin can create selections for any period status except COMPLETED
     if (selectionPeriod.status === 'COMPLETED') {
       return res.status(400).json({ error: 'Cannot add selections to completed period' });
     }
 
+    const choiceError = getRouteChoiceError(data.choiceIds, await loadRouteChoiceContext(selectionPeriod, employee));
+    if (choiceError) {
+      return res.status(400).json({ error: choiceError });
+    }
+
     // Check if selection already exists
     const existingSelection = await prisma.selection.findUnique({
       where: {
@@ -928,16 +1138,21 @@ router.post('/admin', authenticateToken, requireAdmin, async (req: Request, res:
       selection = await prisma.selection.update({
         where: { id: existingSelection.id },
         data: {
-          firstChoiceId: data.firstChoiceId || null,
-          secondChoiceId: data.secondChoiceId || null,
-          thirdChoiceId: data.thirdChoiceId || null,
           submittedAt: new Date(),
+          choices: {
+            deleteMany: {},
+            create: data.choiceIds.map((routeId, index) => ({
+              routeId,
+              rank: index + 1,
+            })),
+          },
         },
         include: {
           employee: true,
-          firstChoice: true,
-          secondChoice: true,
-          thirdChoice: true,
+          choices: {
+            orderBy: { rank: 'asc' },
+            include: { route: true },
+          },
         },
       });
       action = 'UPDATE_MANUAL_SELECTION';
@@ -949,17 +1164,21 @@ router.post('/admin', authenticateToken, requireAdmin, async (req: Request, res:
         data: {
           employeeId: data.employeeId,
           selectionPeriodId: data.selectionPeriodId,
-          firstChoiceId: data.firstChoiceId || null,
-          secondChoiceId: data.secondChoiceId || null,
-          thirdChoiceId: data.thirdChoiceId || null,
           submittedAt: new Date(),
           confirmationNumber,
+          choices: {
+            create: data.choiceIds.map((routeId, index) => ({
+              routeId,
+              rank: index + 1,
+            })),
+          },
         },
         include: {
           employee: true,
-          firstChoice: true,
-          secondChoice: true,
-          thirdChoice: true,
+          choices: {
+            orderBy: { rank: 'asc' },
+            include: { route: true },
+          },
         },
       });
       action = 'CREATE_MANUAL_SELECTION';
@@ -976,11 +1195,7 @@ router.post('/admin', authenticateToken, requireAdmin, async (req: Request, res:
           employeeId: data.employeeId,
           employeeName: `${selection.employee.firstName} ${selection.employee.lastName}`,
           selectionPeriodId: data.selectionPeriodId,
-          choices: {
-            first: selection.firstChoice?.runNumber || null,
-            second: selection.secondChoice?.runNumber || null,
-            third: selection.thirdChoice?.runNumber || null,
-          },
+          choices: selection.choices.map(c => c.route.runNumber),
           isManualEntry: true,
         }),
       },
@@ -996,91 +1211,39 @@ router.post('/admin', authenticateToken, requireAdmin, async (req: Request, res:
   }
 });
 
-// POST /api/selections/process/:periodId - Process manual selections for a period
+// POST /api/selections/process/:periodId - Queue processing of a period's selections; same as POST /api/assignments/process/:periodId
 router.post('/process/:periodId', authenticateToken, requireAdmin, async (req: Request, res: Response) => {
   try {
     const { periodId } = req.params;
 
-    // Check if selection period exists and is in the right status
     const selectionPeriod = await prisma.selectionPeriod.findUnique({
       where: { id: periodId },
-      include: {
-        terminal: true,
-      },
     });
 
     if (!selectionPeriod) {
       return res.status(404).json({ error: 'Selection period not found' });
     }
 
-    if (selectionPeriod.status !== 'OPEN') {
-      return res.status(400).json({ 
-        error: 'Selection period must be open before processing assignments' 
-      });
+    const processingError = periodLifecycleService.getProcessingError(selectionPeriod);
+    if (processingError) {
+      return res.status(400).json({ error: processingError });
     }
 
-    // Update status to processing
-    await prisma.selectionPeriod.update({
-      where: { id: periodId },
-      data: { status: 'PROCESSING' },
-    });
-
-    try {
-      const engine = new AssignmentEngine();
-      const assignments = await engine.processAssignments(periodId);
-
-      // Validate assignments
-      const validation = engine.validateAssignments();
-      if (!validation.isValid) {
-        // Reset status if validation failed
-        await prisma.selectionPeriod.update({
-          where: { id: periodId },
-          data: { status: 'OPEN' },
-        });
-        return res.status(400).json({ 
-          error: 'Assignment validation failed', 
-          details: validation.errors 
-        });
-      }
-
-      const summary = engine.getAssignmentSummary();
-
-      // Save assignments to database
-      await engine.saveAssignments(periodId);
-
-      // Update selection period status
-      await prisma.selectionPeriod.update({
-        where: { id: periodId },
-        data: { status: 'COMPLETED' },
+    const activeJob = await jobService.getActiveJobForPeriod(periodId);
+    if (activeJob) {
+      return res.status(409).json({
+        error: 'Assignments are already being processed for this period',
+        jobId: activeJob.id,
       });
-
-      // Log the assignment processing
-      await prisma.auditLog.create({
-        data: {
-          userId: req.user!.id,
-          action: 'PROCESS_SELECTIONS',
-          resource: 'SelectionPeriod',
-          details: `Processed assignments for period ${selectionPeriod.name}. Total: ${summary.totalEmployees} employees, ${summary.assignedRoutes} routes assigned, ${summary.floatPoolEmployees} in float pool`,
-        },
-      });
-
-      res.json({
-        success: true,
-        summary,
-        totalProcessed: assignments.length,
-        totalAssigned: summary.assignedRoutes,
-        totalUnassigned: summary.floatPoolEmployees,
-      });
-
-    } catch (processingError) {
-      // Reset status to open if processing failed
-      await prisma.selectionPeriod.update({
-        where: { id: periodId },
-        data: { status: 'OPEN' },
-      });
-      throw processingError;
     }
 
+    await periodLifecycleService.startProcessing(selectionPeriod, req.user!.id);
+    const job = await jobService.enqueue('PROCESS_ASSIGNMENTS', { selectionPeriodId: periodId }, req.user!.id);
+
+    res.status(202).json({
+      jobId: job.id,
+      status: job.status,
+    });
   } catch (error) {
     console.error('Process selections error:', error);
     res.status(500).json({ error: 'Internal server error' });
@@ -0,0 +1,295 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import prisma from '../utils/database.js';
+import { authenticateToken, requireAdmin } from '../middleware/auth.js';
+import periodRosterService from '../services/periodRoster.js';
+import { getRouteChoiceError, loadRouteChoiceContext } from '../utils/routeChoices.js';
+
+const router = Router();
+
+const registerTeamSchema = z.object({
+  // The partner's employee number, as printed on the seniority list
+  partnerEmployeeId: z.string().min(1),
+});
+
+const teamInclude = {
+  lead: {
+    select: {
+      id: true,
+      employeeId: true,
+      firstName: true,
+      lastName: true,
+    },
+  },
+  partner: {
+    select: {
+      id: true,
+      employeeId: true,
+      firstName: true,
+      lastName: true,
+    },
+  },
+} as const;
+
+// Returns why teams can't be formed or dissolved in the period right now, or null if they can
+const getTeamChangeError = (selectionPeriod: { mode: string; status: string }): string | null => {
+  if (selectionPeriod.mode !== 'BID') {
+    return 'Team bids are only available in ranked-preference periods';
+  }
+  if (!['UPCOMING', 'OPEN'].includes(selectionPeriod.status)) {
+    return 'Teams can only change before the selection period closes';
+  }
+  return null;
+};
+
+// The team the employee leads or partners in for the period, if any
+const findTeamForEmployee = (selectionPeriodId: string, employeeId: string) => {
+  return prisma.bidTeam.findFirst({
+    where: {
+      selectionPeriodId,
+      OR: [
+        { leadEmployeeId: employeeId },
+        { partnerEmployeeId: employeeId },
+      ],
+    },
+    include: teamInclude,
+  });
+};
+
+// GET /api/teams/period/:periodId - List the period's two-driver teams (Admin only)
+router.get('/period/:periodId', authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const teams = await prisma.bidTeam.findMany({
+      where: { selectionPeriodId: req.params.periodId },
+      orderBy: { createdAt: 'asc' },
+      include: teamInclude,
+    });
+
+    res.json(teams);
+  } catch (error) {
+    console.error('Get bid teams error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET /api/teams/period/:periodId/my - The signed-in driver's team for the period
+router.get('/period/:periodId/my', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    if (!req.user?.employeeId) {
+      return res.json(null);
+    }
+
+    const team = await findTeamForEmployee(req.params.periodId, req.user.employeeId);
+    res.json(team);
+  } catch (error) {
+    console.error('Get my bid team error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/teams/period/:periodId - Invite a partner to bid as a team; the inviter's selection is the joint list
+router.post('/period/:periodId', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const { periodId } = req.params;
+    const data = registerTeamSchema.parse(req.body);
+
+    if (!req.user?.employeeId) {
+      return res.status(403).json({ error: 'Employee profile required' });
+    }
+
+    const selectionPeriod = await prisma.selectionPeriod.findUnique({
+      where: { id: periodId },
+    });
+
+    if (!selectionPeriod) {
+      return res.status(404).json({ error: 'Selection period not found' });
+    }
+
+    const changeError = getTeamChangeError(selectionPeriod);
+    if (changeError) {
+      return res.status(400).json({ error: changeError });
+    }
+
+    const [lead, partner] = await Promise.all([
+      prisma.employee.findUnique({ where: { id: req.user.employeeId } }),
+      prisma.employee.findUnique({ where: { employeeId: data.partnerEmployeeId } }),
+    ]);
+
+    // Both drivers must be on the period's roster
+    if (!lead || !(await periodRosterService.isParticipant(selectionPeriod, lead.id))) {
+      return res.status(403).json({ error: 'Employee not eligible for route selection' });
+    }
+
+    if (!partner || !(await periodRosterService.isParticipant(selectionPeriod, partner.id))) {
+      return res.status(400).json({ error: 'Partner not found among the drivers bidding in this period' });
+    }
+
+    if (partner.id === lead.id) {
+      return res.status(400).json({ error: 'Choose a different driver as your partner' });
+    }
+
+    for (const employee of [lead, partner]) {
+      const existingTeam = await findTeamForEmployee(periodId, employee.id);
+      if (existingTeam) {
+        return res.status(409).json({
+          error: `${employee.firstName} ${employee.lastName} is already on a team for this period`
+        });
+      }
+    }
+
+    const team = await prisma.bidTeam.create({
+      data: {
+        selectionPeriodId: periodId,
+        leadEmployeeId: lead.id,
+        partnerEmployeeId: partner.id,
+      },
+      include: teamInclude,
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user.id,
+        action: 'CREATE_BID_TEAM',
+        resource: 'BidTeam',
+        details: `${lead.firstName} ${lead.lastName} (${lead.employeeId}) invited ${partner.firstName} ${partner.lastName} (${partner.employeeId}) to bid as a team in period ${selectionPeriod.name}`,
+      },
+    });
+
+    res.status(201).json(team);
+  } catch (error) {
+    console.error('Create bid team error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/teams/:id/confirm - The invited partner accepts and bids on the lead's list
+router.post('/:id/confirm', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const team = await prisma.bidTeam.findUnique({
+      where: { id: req.params.id },
+      include: { ...teamInclude, selectionPeriod: true },
+    });
+
+    if (!team) {
+      return res.status(404).json({ error: 'Team not found' });
+    }
+
+    if (team.partnerEmployeeId !== req.user?.employeeId) {
+      return res.status(403).json({ error: 'Only the invited partner can confirm the team' });
+    }
+
+    if (team.confirmedAt) {
+      return res.status(400).json({ error: 'Team is already confirmed' });
+    }
+
+    const changeError = getTeamChangeError(team.selectionPeriod);
+    if (changeError) {
+      return res.status(400).json({ error: changeError });
+    }
+
+    const ownSelection = await prisma.selection.findUnique({
+      where: {
+        employeeId_selectionPeriodId: {
+          employeeId: team.partnerEmployeeId,
+          selectionPeriodId: team.selectionPeriodId,
+        },
+      },
+    });
+
+    if (ownSelection) {
+      return res.status(400).json({ error: 'Withdraw your own selection before joining a team; the team bids on one joint list' });
+    }
+
+    const confirmed = await prisma.bidTeam.update({
+      where: { id: team.id },
+      data: { confirmedAt: new Date() },
+      include: teamInclude,
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user!.id,
+        action: 'CONFIRM_BID_TEAM',
+        resource: 'BidTeam',
+        details: `${team.partner.firstName} ${team.partner.lastName} (${team.partner.employeeId}) joined ${team.lead.firstName} ${team.lead.lastName} (${team.lead.employeeId}) as a team in period ${team.selectionPeriod.name}`,
+      },
+    });
+
+    res.json(confirmed);
+  } catch (error) {
+    console.error('Confirm bid team error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// DELETE /api/teams/:id - Dissolve a team or decline an invitation (either partner or an admin)
+router.delete('/:id', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const team = await prisma.bidTeam.findUnique({
+      where: { id: req.params.id },
+      include: { ...teamInclude, selectionPeriod: true },
+    });
+
+    if (!team) {
+      return res.status(404).json({ error: 'Team not found' });
+    }
+
+    const isMember = [team.leadEmployeeId, team.partnerEmployeeId].includes(req.user?.employeeId || '');
+    if (!isMember && req.user?.role !== 'ADMIN' && req.user?.role !== 'MANAGER') {
+      return res.status(403).json({ error: 'Access denied' });
+    }
+
+    const changeError = getTeamChangeError(team.selectionPeriod);
+    if (changeError) {
+      return res.status(400).json({ error: changeError });
+    }
+
+    // The lead's list becomes a solo bid, so it can't keep team-only routes
+    const leadSelection = team.confirmedAt && await prisma.selection.findUnique({
+      where: {
+        employeeId_selectionPeriodId: {
+          employeeId: team.leadEmployeeId,
+          selectionPeriodId: team.selectionPeriodId,
+        },
+      },
+      include: {
+        choices: { orderBy: { rank: 'asc' } },
+        employee: { include: { qualifications: true } },
+      },
+    });
+
+    if (leadSelection) {
+      const context = await loadRouteChoiceContext(team.selectionPeriod, leadSelection.employee);
+      const choiceError = getRouteChoiceError(
+        leadSelection.choices.map(choice => choice.routeId),
+        { ...context, hasConfirmedTeam: false }
+      );
+      if (choiceError) {
+        return res.status(400).json({ error: `Update the team's route list before dissolving the team: ${choiceError}` });
+      }
+    }
+
+    await prisma.bidTeam.delete({
+      where: { id: team.id },
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: req.user!.id,
+        action: 'DELETE_BID_TEAM',
+        resource: 'BidTeam',
+        details: `Dissolved team of ${team.lead.firstName} ${team.lead.lastName} (${team.lead.employeeId}) and ${team.partner.firstName} ${team.partner.lastName} (${team.partner.employeeId}) in period ${team.selectionPeriod.name}`,
+      },
+    });
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Delete bid team error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
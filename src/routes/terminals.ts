@@ -3,6 +3,8 @@ import { z } from 'zod';
 import prisma from '../utils/database.js';
 import { authenticateToken, requireAdmin } from '../middleware/auth.js';
 import { checkTerminalAccess, validateTerminalAccess, TerminalAccessRequest } from '../middleware/terminalAccess.js';
+import { TIE_BREAKER_POLICIES, generateLotterySeed } from '../utils/seniority.js';
+import { getPeriodWindow, isValidTimeZone, toZonedDateString } from '../utils/timeZone.js';
 
 const router = Router();
 
@@ -10,6 +12,12 @@ const createTerminalSchema = z.object({
   code: z.string().min(2).max(10),
   name: z.string().min(3),
   isActive: z.boolean().optional().default(true),
+  seniorityTieBreaker: z.enum(TIE_BREAKER_POLICIES).optional(),
+  lotterySeed: z.string().min(1).optional(),
+  maxShiftHours: z.number().positive().max(24).optional(),
+  maxWeeklyHours: z.number().positive().max(168).optional(),
+  minRestHours: z.number().min(0).max(24).optional(),
+  timeZone: z.string().refine(isValidTimeZone, 'Unknown time zone').optional(),
 });
 
 const updateTerminalSchema = createTerminalSchema.partial();
@@ -29,6 +37,7 @@ router.get('/accessible', authenticateToken, checkTerminalAccess, async (req: Te
         code: true,
         name: true,
         isActive: true,
+        timeZone: true,
       },
     });
     console.log('Returning terminals:', terminals.length);
@@ -58,6 +67,12 @@ router.get('/', authenticateToken, async (req: Request, res: Response) => {
         code: true,
         name: true,
         isActive: true,
+        seniorityTieBreaker: true,
+        lotterySeed: true,
+        maxShiftHours: true,
+        maxWeeklyHours: true,
+        minRestHours: true,
+        timeZone: true,
         _count: {
           select: {
             users: true,
@@ -118,6 +133,11 @@ router.post('/', authenticateToken, requireAdmin, async (req: Request, res: Resp
       return res.status(409).json({ error: 'Terminal with this code already exists' });
     }
 
+    // A lottery tie-breaker always needs a stored seed so the draw can be reproduced
+    if (data.seniorityTieBreaker === 'LOTTERY' && !data.lotterySeed) {
+      data.lotterySeed = generateLotterySeed();
+    }
+
     const terminal = await prisma.terminal.create({
       data,
     });
@@ -157,11 +177,60 @@ router.put('/:id', authenticateToken, requireAdmin, async (req: Request, res: Re
       }
     }
 
+    const tieBreaker = data.seniorityTieBreaker || existingTerminal.seniorityTieBreaker;
+    if (tieBreaker === 'LOTTERY' && !data.lotterySeed && !existingTerminal.lotterySeed) {
+      data.lotterySeed = generateLotterySeed();
+    }
+
     const terminal = await prisma.terminal.update({
       where: { id: req.params.id },
       data,
     });
 
+    // Tie-breaker changes reorder the seniority list, so record who made them
+    if (
+      terminal.seniorityTieBreaker !== existingTerminal.seniorityTieBreaker ||
+      terminal.lotterySeed !== existingTerminal.lotterySeed
+    ) {
+      await prisma.auditLog.create({
+        data: {
+          userId: req.user!.id,
+          action: 'UPDATE_SENIORITY_TIE_BREAKER',
+          resource: 'Terminal',
+          details: JSON.stringify({
+            terminalId: terminal.id,
+            terminalCode: terminal.code,
+            previous: {
+              seniorityTieBreaker: existingTerminal.seniorityTieBreaker,
+              lotterySeed: existingTerminal.lotterySeed,
+            },
+            current: {
+              seniorityTieBreaker: terminal.seniorityTieBreaker,
+              lotterySeed: terminal.lotterySeed,
+            },
+          }),
+        },
+      });
+    }
+
+    // Periods that haven't closed keep their calendar dates in the new zone
+    if (terminal.timeZone !== existingTerminal.timeZone) {
+      const periods = await prisma.selectionPeriod.findMany({
+        where: { terminalId: terminal.id, status: { in: ['UPCOMING', 'OPEN'] } },
+      });
+
+      for (const period of periods) {
+        await prisma.selectionPeriod.update({
+          where: { id: period.id },
+          data: getPeriodWindow(
+            toZonedDateString(period.startDate, existingTerminal.timeZone),
+            toZonedDateString(period.endDate, existingTerminal.timeZone),
+            terminal.timeZone
+          ),
+        });
+      }
+    }
+
     res.json(terminal);
   } catch (error) {
     console.error('Update terminal error:', error);
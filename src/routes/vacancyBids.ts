@@ -0,0 +1,127 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import prisma from '../utils/database.js';
+import { authenticateToken, requireAdmin } from '../middleware/auth.js';
+import vacancyBidService from '../services/vacancyBids.js';
+import { getPeriodWindow } from '../utils/timeZone.js';
+
+const router = Router();
+
+const createVacancyBidSchema = z.object({
+  terminalId: z.string(),
+  routeIds: z.array(z.string()).min(1, 'Select at least one vacated route'),
+  name: z.string().min(1, 'Name is required'),
+  description: z.string().optional(),
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format'),
+  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format'),
+  requiredSelections: z.number().int().min(1).optional(),
+  cascadeVacancies: z.boolean().optional().default(false),
+  parentPeriodId: z.string().nullable().optional(),
+});
+
+// GET /api/vacancy-bids/vacant-routes - Routes with positions no eligible driver holds (Admin only)
+router.get('/vacant-routes', authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const terminalId = req.query.terminalId as string;
+    if (!terminalId) {
+      return res.status(400).json({ error: 'Terminal ID is required' });
+    }
+
+    const routes = await vacancyBidService.getVacantRoutes(terminalId);
+    res.json(routes);
+  } catch (error) {
+    console.error('Get vacant routes error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET /api/vacancy-bids - List vacancy bids with the period or bid each one follows from (Admin only)
+router.get('/', authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const { terminalId } = req.query;
+
+    const vacancyBids = await prisma.selectionPeriod.findMany({
+      where: {
+        kind: 'VACANCY',
+        ...(terminalId ? { terminalId: terminalId as string } : {}),
+      },
+      orderBy: { createdAt: 'desc' },
+      include: {
+        parentPeriod: { select: { id: true, name: true, kind: true } },
+        routes: {
+          include: {
+            route: { select: { id: true, runNumber: true, origin: true, destination: true } },
+          },
+        },
+        _count: { select: { selections: true } },
+      },
+    });
+
+    res.json(vacancyBids);
+  } catch (error) {
+    console.error('Get vacancy bids error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api/vacancy-bids - Open a vacancy bid over one or more vacated routes (Admin only)
+router.post('/', authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+  try {
+    const data = createVacancyBidSchema.parse(req.body);
+
+    const terminal = await prisma.terminal.findUnique({
+      where: { id: data.terminalId },
+    });
+
+    if (!terminal) {
+      return res.status(404).json({ error: 'Terminal not found' });
+    }
+
+    const { startDate, endDate } = getPeriodWindow(data.startDate, data.endDate, terminal.timeZone);
+
+    if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
+      return res.status(400).json({ error: 'Invalid date format' });
+    }
+
+    if (startDate >= endDate) {
+      return res.status(400).json({ error: 'Start date must be before end date' });
+    }
+
+    if (data.parentPeriodId) {
+      const parentPeriod = await prisma.selectionPeriod.findUnique({
+        where: { id: data.parentPeriodId },
+      });
+
+      if (!parentPeriod || parentPeriod.terminalId !== data.terminalId) {
+        return res.status(400).json({ error: 'Parent period not found at this terminal' });
+      }
+
+      if (parentPeriod.status !== 'COMPLETED') {
+        return res.status(400).json({ error: 'Vacancy bids can only follow a completed period' });
+      }
+    }
+
+    const routeIds = Array.from(new Set(data.routeIds));
+    const vacancyError = await vacancyBidService.getVacancyBidError(data.terminalId, routeIds);
+    if (vacancyError) {
+      return res.status(400).json({ error: vacancyError });
+    }
+
+    const period = await vacancyBidService.createVacancyBid({
+      ...data,
+      routeIds,
+      startDate,
+      endDate,
+    }, req.user!.id);
+
+    res.status(201).json(period);
+  } catch (error) {
+    console.error('Create vacancy bid error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid input', details: error.errors });
+    }
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
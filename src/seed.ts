@@ -1,5 +1,6 @@
 import prisma from './utils/database.js';
 import { hashPassword } from './utils/auth.js';
+import { ensureBuiltInQualifications, getQualificationIdsByCode } from './utils/qualifications.js';
 
 async function seed() {
   console.log('🌱 Starting database seed...');
@@ -18,6 +19,10 @@ async function seed() {
     });
     console.log('✅ Created admin user');
 
+    await ensureBuiltInQualifications();
+    const qualificationIds = await getQualificationIdsByCode();
+    console.log('✅ Created qualification catalog');
+
     // Create sample routes
     const routes = [
       {
@@ -31,8 +36,7 @@ async function seed() {
         distance: 45.5,
         rateType: 'HOURLY',
         workTime: 8.0,
-        requiresDoublesEndorsement: false,
-        requiresChainExperience: false,
+        requirements: [],
       },
       {
         runNumber: 'R002',
@@ -45,8 +49,7 @@ async function seed() {
         distance: 173.2,
         rateType: 'MILEAGE',
         workTime: 12.0,
-        requiresDoublesEndorsement: true,
-        requiresChainExperience: true,
+        requirements: ['DOUBLES', 'CHAINS'],
       },
       {
         runNumber: 'R003',
@@ -59,8 +62,7 @@ async function seed() {
         distance: 1135.8,
         rateType: 'MILEAGE',
         workTime: 16.0,
-        requiresDoublesEndorsement: true,
-        requiresChainExperience: false,
+        requirements: ['DOUBLES'],
       },
       {
         runNumber: 'R004',
@@ -73,8 +75,7 @@ async function seed() {
         distance: 33.1,
         rateType: 'HOURLY',
         workTime: 8.0,
-        requiresDoublesEndorsement: false,
-        requiresChainExperience: true,
+        requirements: ['CHAINS'],
       },
       {
         runNumber: 'R005',
@@ -87,16 +88,20 @@ async function seed() {
         distance: 89.3,
         rateType: 'FLAT_RATE',
         workTime: 8.0,
-        requiresDoublesEndorsement: false,
-        requiresChainExperience: false,
+        requirements: [],
       },
     ];
 
-    for (const route of routes) {
+    for (const { requirements, ...route } of routes) {
       await prisma.route.upsert({
         where: { runNumber: route.runNumber },
         update: {},
-        create: route,
+        create: {
+          ...route,
+          requirements: {
+            create: requirements.map(code => ({ qualificationId: qualificationIds.get(code)! })),
+          },
+        },
       });
     }
     console.log('✅ Created sample routes');
@@ -110,8 +115,7 @@ async function seed() {
         email: 'john.anderson@company.com',
         phone: '206-555-0101',
         hireDate: new Date('2018-03-15'),
-        doublesEndorsement: true,
-        chainExperience: true,
+        qualifications: ['DOUBLES', 'CHAINS'],
         isEligible: true,
       },
       {
@@ -121,8 +125,7 @@ async function seed() {
         email: 'sarah.brown@company.com',
         phone: '206-555-0102',
         hireDate: new Date('2019-07-22'),
-        doublesEndorsement: false,
-        chainExperience: true,
+        qualifications: ['CHAINS'],
         isEligible: true,
       },
       {
@@ -132,8 +135,7 @@ async function seed() {
         email: 'michael.davis@company.com',
         phone: '206-555-0103',
         hireDate: new Date('2020-01-08'),
-        doublesEndorsement: true,
-        chainExperience: false,
+        qualifications: ['DOUBLES'],
         isEligible: true,
       },
       {
@@ -143,8 +145,7 @@ async function seed() {
         email: 'lisa.johnson@company.com',
         phone: '206-555-0104',
         hireDate: new Date('2021-05-12'),
-        doublesEndorsement: false,
-        chainExperience: false,
+        qualifications: [],
         isEligible: true,
       },
       {
@@ -154,13 +155,12 @@ async function seed() {
         email: 'robert.wilson@company.com',
         phone: '206-555-0105',
         hireDate: new Date('2017-11-03'),
-        doublesEndorsement: true,
-        chainExperience: true,
+        qualifications: ['DOUBLES', 'CHAINS'],
         isEligible: true,
       },
     ];
 
-    for (const employee of employees) {
+    for (const { qualifications, ...employee } of employees) {
       // Create driver user account first
       const driverPassword = await hashPassword('driver123');
       await prisma.user.upsert({
@@ -177,7 +177,12 @@ async function seed() {
       await prisma.employee.upsert({
         where: { employeeId: employee.employeeId },
         update: {},
-        create: employee,
+        create: {
+          ...employee,
+          qualifications: {
+            create: qualifications.map(code => ({ qualificationId: qualificationIds.get(code)! })),
+          },
+        },
       });
     }
     console.log('✅ Created sample employees and driver accounts');
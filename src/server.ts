@@ -18,9 +18,20 @@ import exportRoutes from './routes/export.js';
 import passwordResetRoutes from './routes/passwordReset.js';
 import userRoutes from './routes/users.js';
 import terminalRoutes from './routes/terminals.js';
+import draftRoutes from './routes/draft.js';
+import assignmentRunRoutes from './routes/assignmentRuns.js';
+import qualificationRoutes from './routes/qualifications.js';
+import reservationRoutes from './routes/reservations.js';
+import participantRoutes from './routes/participants.js';
+import vacancyBidRoutes from './routes/vacancyBids.js';
+import teamRoutes from './routes/teams.js';
+import abolishmentRoutes from './routes/abolishments.js';
+import jobRoutes from './routes/jobs.js';
+import { ensureBuiltInQualifications } from './utils/qualifications.js';
 
 // Import scheduler service
 import schedulerService from './services/scheduler.js';
+import jobService from './services/jobs.js';
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -59,6 +70,15 @@ app.use('/api/export', exportRoutes);
 app.use('/api/password-reset', passwordResetRoutes);
 app.use('/api/users', userRoutes);
 app.use('/api/terminals', terminalRoutes);
+app.use('/api/draft', draftRoutes);
+app.use('/api/assignment-runs', assignmentRunRoutes);
+app.use('/api/qualifications', qualificationRoutes);
+app.use('/api/reservations', reservationRoutes);
+app.use('/api/participants', participantRoutes);
+app.use('/api/vacancy-bids', vacancyBidRoutes);
+app.use('/api/teams', teamRoutes);
+app.use('/api/abolishments', abolishmentRoutes);
+app.use('/api/jobs', jobRoutes);
 
 // Error handling middleware
 app.use((err: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
@@ -81,6 +101,15 @@ app.listen(PORT, () => {
   console.log(`🔐 API Base URL: http://localhost:${PORT}/api`);
   console.log(`📚 Environment: ${process.env.NODE_ENV || 'development'}`);
   console.log(`⏰ Scheduler service started - checking daily for selection period reminders`);
+
+  ensureBuiltInQualifications().catch(error => {
+    console.error('Failed to seed built-in qualifications:', error);
+  });
+
+  // Pick up jobs a previous process left queued or cut off mid-run
+  jobService.recoverInterruptedJobs().catch(error => {
+    console.error('Failed to recover background jobs:', error);
+  });
 });
 
 export default app;
\ No newline at end of file
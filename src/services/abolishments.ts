@@ -0,0 +1,517 @@
+import prisma from '../utils/database.js';
+import { compareSeniority, getSeniorityPolicy, seniorityAdjustmentsInclude, sortBySeniority } from '../utils/seniority.js';
+import { doesEmployeeQualify, employeeQualificationsInclude, routeRequirementsInclude } from '../utils/qualifications.js';
+import emailService from './email.js';
+
+// Abolishments whose route can no longer be bumped onto
+const OPEN_ABOLISHMENT_STATUSES = ['SCHEDULED', 'IN_PROGRESS'];
+
+// Periods that still have bidding or processing ahead of them
+const UNFINISHED_PERIOD_STATUSES = ['UPCOMING', 'OPEN', 'CLOSED', 'PROCESSING'];
+
+export interface BumpOption {
+  routeId: string;
+  runNumber: string;
+  origin: string;
+  destination: string;
+  // The most junior holder of the route, who is displaced in turn
+  holder: {
+    id: string;
+    employeeId: string;
+    firstName: string;
+    lastName: string;
+  };
+}
+
+interface ScheduleAbolishmentInput {
+  routeId: string;
+  effectiveDate: Date;
+  bumpWindowHours: number;
+  reason?: string;
+}
+
+class AbolishmentService {
+  // Returns why the route can't be abolished, or null if it can
+  async getAbolishmentError(routeId: string): Promise<string | null> {
+    const route = await prisma.route.findUnique({ where: { id: routeId } });
+    if (!route || !route.isActive) {
+      return 'Only active routes can be abolished';
+    }
+
+    const openAbolishment = await prisma.routeAbolishment.findFirst({
+      where: { routeId, status: { in: OPEN_ABOLISHMENT_STATUSES } },
+    });
+    if (openAbolishment) {
+      return `Route ${route.runNumber} is already being abolished`;
+    }
+
+    const pendingPeriod = await prisma.periodRoute.findFirst({
+      where: {
+        routeId,
+        selectionPeriod: { status: { in: UNFINISHED_PERIOD_STATUSES } },
+      },
+      include: { selectionPeriod: { select: { name: true } } },
+    });
+    if (pendingPeriod) {
+      return `Route ${route.runNumber} is up for bid in ${pendingPeriod.selectionPeriod.name}; remove it from the period first`;
+    }
+
+    return null;
+  }
+
+  // Records an abolishment checked by getAbolishmentError, starting it at once when it is already effective
+  async scheduleAbolishment(input: ScheduleAbolishmentInput, createdById: string) {
+    const abolishment = await prisma.routeAbolishment.create({
+      data: {
+        routeId: input.routeId,
+        effectiveDate: input.effectiveDate,
+        bumpWindowHours: input.bumpWindowHours,
+        reason: input.reason,
+        createdById,
+      },
+      include: { route: true },
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: createdById,
+        action: 'SCHEDULE_ROUTE_ABOLISHMENT',
+        resource: 'RouteAbolishment',
+        details: JSON.stringify({
+          abolishmentId: abolishment.id,
+          route: abolishment.route.runNumber,
+          effectiveDate: abolishment.effectiveDate,
+          bumpWindowHours: abolishment.bumpWindowHours,
+          reason: abolishment.reason,
+        }),
+      },
+    });
+
+    if (abolishment.effectiveDate <= new Date()) {
+      await this.startAbolishment(abolishment.id);
+    }
+
+    return prisma.routeAbolishment.findUnique({ where: { id: abolishment.id } });
+  }
+
+  // Starts every scheduled abolishment whose effective date has arrived; called by the scheduler
+  async startDueAbolishments(): Promise<number> {
+    const due = await prisma.routeAbolishment.findMany({
+      where: { status: 'SCHEDULED', effectiveDate: { lte: new Date() } },
+    });
+
+    for (const abolishment of due) {
+      await this.startAbolishment(abolishment.id);
+    }
+
+    return due.length;
+  }
+
+  // Takes the route out of service and displaces its holders, most senior first in line to bump
+  async startAbolishment(abolishmentId: string): Promise<void> {
+    const abolishment = await prisma.routeAbolishment.findUnique({
+      where: { id: abolishmentId },
+      include: { route: true },
+    });
+
+    if (!abolishment || abolishment.status !== 'SCHEDULED') {
+      return;
+    }
+
+    const rankById = await this.getSeniorityRanks(abolishment.route.terminalId);
+    const holders = await prisma.employee.findMany({
+      where: { currentRouteId: abolishment.routeId },
+    });
+    const displaced = holders.filter(holder => holder.isEligible && rankById.has(holder.id));
+
+    await prisma.$transaction(async (tx) => {
+      await tx.route.update({
+        where: { id: abolishment.routeId },
+        data: { isActive: false },
+      });
+
+      await tx.employee.updateMany({
+        where: { currentRouteId: abolishment.routeId },
+        data: { currentRouteId: null },
+      });
+
+      await tx.displacement.createMany({
+        data: displaced.map(holder => ({
+          abolishmentId,
+          employeeId: holder.id,
+          fromRouteId: abolishment.routeId,
+          generation: 0,
+          seniorityRank: rankById.get(holder.id)!,
+        })),
+      });
+
+      await tx.routeAbolishment.update({
+        where: { id: abolishmentId },
+        data: { status: 'IN_PROGRESS' },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          userId: abolishment.createdById,
+          action: 'ABOLISH_ROUTE',
+          resource: 'RouteAbolishment',
+          details: JSON.stringify({
+            abolishmentId,
+            route: abolishment.route.runNumber,
+            displaced: displaced.map(holder => holder.employeeId),
+            released: holders.length - displaced.length,
+          }),
+        },
+      });
+    });
+
+    console.log(`Route ${abolishment.route.runNumber} abolished; ${displaced.length} driver(s) displaced`);
+
+    await this.openNextWindow(abolishmentId);
+  }
+
+  // Routes at the driver's terminal they qualify for and that a more junior driver holds
+  async getBumpOptions(displacementId: string): Promise<BumpOption[]> {
+    const displacement = await prisma.displacement.findUnique({
+      where: { id: displacementId },
+      include: {
+        employee: {
+          include: {
+            ...employeeQualificationsInclude,
+            ...seniorityAdjustmentsInclude,
+          },
+        },
+      },
+    });
+
+    if (!displacement) {
+      return [];
+    }
+
+    const { employee } = displacement;
+    const policy = await getSeniorityPolicy(employee.terminalId);
+
+    const routes = await prisma.route.findMany({
+      where: {
+        terminalId: employee.terminalId,
+        isActive: true,
+        teamOnly: false,
+        id: { not: displacement.fromRouteId },
+        abolishments: { none: { status: { in: OPEN_ABOLISHMENT_STATUSES } } },
+      },
+      include: routeRequirementsInclude,
+      orderBy: { runNumber: 'asc' },
+    });
+    const qualifiedRoutes = routes.filter(route => doesEmployeeQualify(employee, route));
+
+    const holders = await prisma.employee.findMany({
+      where: {
+        currentRouteId: { in: qualifiedRoutes.map(route => route.id) },
+        isEligible: true,
+      },
+      include: seniorityAdjustmentsInclude,
+    });
+    const juniorHolders = sortBySeniority(
+      holders.filter(holder => compareSeniority(holder, employee, policy) > 0),
+      policy
+    );
+
+    const options: BumpOption[] = [];
+    for (const route of qualifiedRoutes) {
+      const routeHolders = juniorHolders.filter(holder => holder.currentRouteId === route.id);
+      const mostJunior = routeHolders[routeHolders.length - 1];
+      if (mostJunior) {
+        options.push({
+          routeId: route.id,
+          runNumber: route.runNumber,
+          origin: route.origin,
+          destination: route.destination,
+          holder: {
+            id: mostJunior.id,
+            employeeId: mostJunior.employeeId,
+            firstName: mostJunior.firstName,
+            lastName: mostJunior.lastName,
+          },
+        });
+      }
+    }
+
+    return options;
+  }
+
+  // Moves the driver onto the option's route and displaces its junior holder down the chain
+  async exerciseBump(displacementId: string, option: BumpOption, userId: string): Promise<void> {
+    const displacement = await prisma.displacement.findUnique({
+      where: { id: displacementId },
+      include: { employee: true, fromRoute: true },
+    });
+
+    if (!displacement) {
+      throw new Error('Displacement not found');
+    }
+
+    const rankById = await this.getSeniorityRanks(displacement.employee.terminalId);
+
+    await prisma.$transaction(async (tx) => {
+      await tx.displacement.update({
+        where: { id: displacementId },
+        data: {
+          status: 'BUMPED',
+          bumpedRouteId: option.routeId,
+          bumpedEmployeeId: option.holder.id,
+          decidedAt: new Date(),
+        },
+      });
+
+      await tx.employee.update({
+        where: { id: displacement.employeeId },
+        data: { currentRouteId: option.routeId },
+      });
+
+      await tx.employee.update({
+        where: { id: option.holder.id },
+        data: { currentRouteId: null },
+      });
+
+      await tx.displacement.create({
+        data: {
+          abolishmentId: displacement.abolishmentId,
+          employeeId: option.holder.id,
+          fromRouteId: option.routeId,
+          generation: displacement.generation + 1,
+          seniorityRank: rankById.get(option.holder.id) ?? Number.MAX_SAFE_INTEGER,
+        },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          userId,
+          action: 'BUMP_ROUTE',
+          resource: 'Displacement',
+          details: JSON.stringify({
+            displacementId,
+            employee: displacement.employee.employeeId,
+            fromRoute: displacement.fromRoute.runNumber,
+            toRoute: option.runNumber,
+            bumped: option.holder.employeeId,
+          }),
+        },
+      });
+    });
+
+    await this.notifyOutcome(displacement.employee, displacement.fromRoute.runNumber, option.runNumber);
+    await this.openNextWindow(displacement.abolishmentId);
+  }
+
+  // The driver gives up their bump right and goes to the float pool
+  async declineBump(displacementId: string, userId: string): Promise<void> {
+    const displacement = await prisma.displacement.update({
+      where: { id: displacementId },
+      data: { status: 'DECLINED', decidedAt: new Date() },
+      include: { employee: true, fromRoute: true },
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId,
+        action: 'DECLINE_BUMP',
+        resource: 'Displacement',
+        details: JSON.stringify({
+          displacementId,
+          employee: displacement.employee.employeeId,
+          fromRoute: displacement.fromRoute.runNumber,
+        }),
+      },
+    });
+
+    await this.notifyOutcome(displacement.employee, displacement.fromRoute.runNumber, null);
+    await this.openNextWindow(displacement.abolishmentId);
+  }
+
+  // Sends every driver whose bump window has run out to the float pool; called by the scheduler
+  async advanceExpiredWindows(): Promise<number> {
+    const expired = await prisma.displacement.findMany({
+      where: { status: 'ACTIVE', windowEnd: { lt: new Date() } },
+      include: { employee: true, fromRoute: true, abolishment: true },
+    });
+
+    for (const displacement of expired) {
+      await prisma.displacement.update({
+        where: { id: displacement.id },
+        data: { status: 'EXPIRED', decidedAt: new Date() },
+      });
+
+      await prisma.auditLog.create({
+        data: {
+          userId: displacement.abolishment.createdById,
+          action: 'BUMP_WINDOW_EXPIRED',
+          resource: 'Displacement',
+          details: JSON.stringify({
+            displacementId: displacement.id,
+            employee: displacement.employee.employeeId,
+            fromRoute: displacement.fromRoute.runNumber,
+          }),
+        },
+      });
+
+      await this.notifyOutcome(displacement.employee, displacement.fromRoute.runNumber, null);
+      await this.openNextWindow(displacement.abolishmentId);
+    }
+
+    return expired.length;
+  }
+
+  // Opens the most senior waiting driver's bump window, floating anyone with nothing to bump,
+  // and completes the abolishment once the chain has run out
+  private async openNextWindow(abolishmentId: string): Promise<void> {
+    const abolishment = await prisma.routeAbolishment.findUnique({
+      where: { id: abolishmentId },
+      include: { route: { include: { terminal: true } } },
+    });
+
+    if (!abolishment || abolishment.status !== 'IN_PROGRESS') {
+      return;
+    }
+
+    const activeDisplacement = await prisma.displacement.findFirst({
+      where: { abolishmentId, status: 'ACTIVE' },
+    });
+    if (activeDisplacement) {
+      return;
+    }
+
+    for (;;) {
+      const next = await prisma.displacement.findFirst({
+        where: { abolishmentId, status: 'PENDING' },
+        orderBy: [{ seniorityRank: 'asc' }, { createdAt: 'asc' }],
+        include: { employee: true, fromRoute: true },
+      });
+
+      if (!next) {
+        await prisma.routeAbolishment.update({
+          where: { id: abolishmentId },
+          data: { status: 'COMPLETED', completedAt: new Date() },
+        });
+
+        await prisma.auditLog.create({
+          data: {
+            userId: abolishment.createdById,
+            action: 'COMPLETE_ROUTE_ABOLISHMENT',
+            resource: 'RouteAbolishment',
+            details: JSON.stringify({ abolishmentId }),
+          },
+        });
+        return;
+      }
+
+      const options = await this.getBumpOptions(next.id);
+
+      if (options.length === 0) {
+        await prisma.displacement.update({
+          where: { id: next.id },
+          data: { status: 'NO_OPTIONS', decidedAt: new Date() },
+        });
+
+        await prisma.auditLog.create({
+          data: {
+            userId: abolishment.createdById,
+            action: 'BUMP_NO_OPTIONS',
+            resource: 'Displacement',
+            details: JSON.stringify({
+              displacementId: next.id,
+              employee: next.employee.employeeId,
+              fromRoute: next.fromRoute.runNumber,
+            }),
+          },
+        });
+
+        await this.notifyOutcome(next.employee, next.fromRoute.runNumber, null);
+        continue;
+      }
+
+      const windowStart = new Date();
+      const windowEnd = new Date(windowStart.getTime() + abolishment.bumpWindowHours * 60 * 60 * 1000);
+
+      await prisma.displacement.update({
+        where: { id: next.id },
+        data: { status: 'ACTIVE', windowStart, windowEnd },
+      });
+
+      await prisma.auditLog.create({
+        data: {
+          userId: abolishment.createdById,
+          action: 'OPEN_BUMP_WINDOW',
+          resource: 'Displacement',
+          details: JSON.stringify({
+            displacementId: next.id,
+            employee: next.employee.employeeId,
+            fromRoute: next.fromRoute.runNumber,
+            windowEnd,
+            options: options.length,
+          }),
+        },
+      });
+
+      const bumpedBy = next.generation > 0
+        ? await prisma.displacement.findFirst({
+          where: { abolishmentId, bumpedEmployeeId: next.employeeId, status: 'BUMPED' },
+          orderBy: { decidedAt: 'desc' },
+          include: { employee: true },
+        })
+        : null;
+
+      if (next.employee.email) {
+        try {
+          await emailService.sendBumpWindowNotification(
+            next.employee.email,
+            `${next.employee.firstName} ${next.employee.lastName}`,
+            {
+              runNumber: next.fromRoute.runNumber,
+              displacedBy: bumpedBy ? `${bumpedBy.employee.firstName} ${bumpedBy.employee.lastName}` : null,
+              windowEnd,
+              bumpOptions: options.length,
+              timeZone: abolishment.route.terminal.timeZone,
+            }
+          );
+        } catch (error) {
+          console.error(`Failed to send bump notification to ${next.employee.email}:`, error);
+        }
+      }
+      return;
+    }
+  }
+
+  private async notifyOutcome(
+    employee: { email: string; firstName: string; lastName: string },
+    fromRunNumber: string,
+    newRunNumber: string | null
+  ): Promise<void> {
+    if (!employee.email) {
+      return;
+    }
+
+    try {
+      await emailService.sendBumpOutcomeNotification(
+        employee.email,
+        `${employee.firstName} ${employee.lastName}`,
+        { fromRunNumber, newRunNumber }
+      );
+    } catch (error) {
+      console.error(`Failed to send bump outcome to ${employee.email}:`, error);
+    }
+  }
+
+  // 1-based seniority rank of every eligible driver at the terminal
+  private async getSeniorityRanks(terminalId: string): Promise<Map<string, number>> {
+    const policy = await getSeniorityPolicy(terminalId);
+    const employees = await prisma.employee.findMany({
+      where: { terminalId, isEligible: true },
+      include: seniorityAdjustmentsInclude,
+    });
+    return new Map(sortBySeniority(employees, policy).map((employee, index) => [employee.id, index + 1]));
+  }
+}
+
+// Create and export singleton instance
+const abolishmentService = new AbolishmentService();
+export default abolishmentService;
@@ -1,4 +1,37 @@
+import { Prisma } from '@prisma/client';
+import crypto from 'crypto';
 import prisma from '../utils/database.js';
+import {
+  compareSeniority,
+  getEffectiveSeniorityDate,
+  getSeniorityPolicy,
+  SeniorityPolicy,
+  DEFAULT_SENIORITY_POLICY,
+} from '../utils/seniority.js';
+import {
+  HeldQualification,
+  QualificationHolder,
+  QualificationRequirements,
+  RequiredQualification,
+  getMissingRequirement,
+  routeRequirementsInclude,
+} from '../utils/qualifications.js';
+import { countByRank, getOrdinal } from '../utils/choiceRanks.js';
+import { countAwardsByRoute } from '../utils/routePositions.js';
+import assignmentRunService, { RunResult } from './assignmentRuns.js';
+import periodRosterService from './periodRoster.js';
+import {
+  AssignmentStrategy,
+  DEFAULT_ASSIGNMENT_STRATEGY,
+  getAssignmentStrategy,
+  resolvePeriodStrategy,
+} from './assignmentStrategies.js';
+
+export const INCUMBENCY_RULES = ['FIRST_CHOICE', 'PRIORITY'] as const;
+export type IncumbencyRule = typeof INCUMBENCY_RULES[number];
+
+export const TEAM_SENIORITY_RULES = ['JUNIOR', 'SENIOR'] as const;
+export type TeamSeniorityRule = typeof TEAM_SENIORITY_RULES[number];
 
 interface Employee {
   id: string;
@@ -6,42 +39,135 @@ interface Employee {
   firstName: string;
   lastName: string;
   hireDate: Date;
-  doublesEndorsement: boolean;
-  chainExperience: boolean;
+  seniorityDate: Date | null;
+  seniorityAdjustments: { days: number }[];
+  ssnLastFour: string | null;
   isEligible: boolean;
+  currentRouteId: string | null;
+  qualifications: HeldQualification[];
 }
 
 interface Route {
   id: string;
   runNumber: string;
-  requiresDoublesEndorsement: boolean;
-  requiresChainExperience: boolean;
+  positions: number;
+  teamOnly: boolean;
+  requirements: RequiredQualification[];
+}
+
+interface SelectionChoice {
+  routeId: string;
+  rank: number;
 }
 
 interface Selection {
   id: string;
   employeeId: string;
-  firstChoiceId?: string | null;
-  secondChoiceId?: string | null;
-  thirdChoiceId?: string | null;
+  choices: SelectionChoice[];
+  retainCurrentRoute: boolean;
   employee: Employee;
 }
 
+type TraceOutcome = 'TAKEN' | 'ALREADY_AWARDED' | 'RESERVED' | 'DISQUALIFIED' | 'NOT_IN_PERIOD' | 'TEAM_ONLY' | 'TEAM_SPLIT';
+
+export interface TraceStep {
+  round: number;
+  choice: number;
+  routeId: string;
+  runNumber: string | null;
+  outcome: TraceOutcome;
+  awardedToEmployeeId?: string;
+  awardedToName?: string;
+  failedRequirement?: string;
+}
+
+// Hypothetical edits applied in memory by simulateAssignments; employeeId is the Employee record id.
+// Qualification lists replace the full set held or required, and simulated qualifications never expire.
+export interface SimulationOverrides {
+  routes?: {
+    remove?: string[];
+    add?: {
+      id?: string;
+      runNumber: string;
+      positions?: number;
+      requirementIds?: string[];
+    }[];
+    update?: {
+      id: string;
+      positions?: number;
+      requirementIds?: string[];
+    }[];
+  };
+  employees?: {
+    employeeId: string;
+    qualificationIds?: string[];
+    isEligible?: boolean;
+  }[];
+  selections?: {
+    employeeId: string;
+    choiceIds: string[];
+    retainCurrentRoute?: boolean;
+  }[];
+}
+
+interface Reservation {
+  routeId: string;
+  reason: string;
+}
+
+// A driver bidding alone, or a confirmed team bidding the lead's list in its ranking partner's slot
+interface BiddingUnit {
+  selection: Selection;
+  partner?: Employee;
+}
+
 interface AssignmentResult {
   employeeId: string;
   routeId?: string | null;
   choiceReceived?: number | null;
   reason?: string;
+  viaIncumbency?: boolean;
+  forced?: boolean;
+  seniorityRank: number;
+  round: number;
+  trace: TraceStep[];
+}
+
+export interface AssignmentProgress {
+  phase: 'LOADING' | 'ASSIGNING' | 'SAVING';
+  processed: number;
+  total: number;
 }
 
 export class AssignmentEngine {
   private selections: Selection[] = [];
   private routes: Map<string, Route> = new Map();
-  private assignedRoutes: Set<string> = new Set();
+  // Drivers awarded each route so far, in award order; a route is full once this reaches its positions
+  private routeAwardedTo: Map<string, Employee[]> = new Map();
+  // Routes held out of the bid for specific drivers, keyed by Employee record id
+  private reservations: Map<string, Reservation> = new Map();
   private assignments: AssignmentResult[] = [];
+  private seniorityPolicy: SeniorityPolicy = DEFAULT_SENIORITY_POLICY;
+  private incumbencyRule: IncumbencyRule = 'FIRST_CHOICE';
+  private forceAssign = { enabled: false, cap: null as number | null, afterSecondRound: false };
+  // Vacancy bids are opt-in: only bidders take part, and the routes' remaining holders keep their positions
+  private vacancyBid = false;
+  private currentHolders: Employee[] = [];
+  // Confirmed two-driver teams: lead Employee id -> partner Employee id
+  private teams: Map<string, string> = new Map();
+  private teamSeniorityRule: TeamSeniorityRule = 'JUNIOR';
+  // Orders the bidders; see assignmentStrategies.ts
+  private strategy: AssignmentStrategy = getAssignmentStrategy(DEFAULT_ASSIGNMENT_STRATEGY)!;
+  private strategyParams: object = {};
+  private asOf = new Date();
+  private round = 1;
+
+  // onProgress hears about each phase and each driver or team placed, for background jobs to report
+  constructor(private onProgress?: (progress: AssignmentProgress) => void) {}
 
   async processAssignments(selectionPeriodId: string): Promise<AssignmentResult[]> {
     try {
+      this.onProgress?.({ phase: 'LOADING', processed: 0, total: 0 });
       await this.loadData(selectionPeriodId);
       await this.runAssignmentAlgorithm();
       return this.assignments;
@@ -51,6 +177,35 @@ export class AssignmentEngine {
     }
   }
 
+  // Re-runs the algorithm for float-pool drivers over the routes left unclaimed by round one
+  async processSecondRound(selectionPeriodId: string): Promise<AssignmentResult[]> {
+    try {
+      await this.loadSecondRoundData(selectionPeriodId);
+      await this.runAssignmentAlgorithm();
+      return this.assignments;
+    } catch (error) {
+      console.error('Second round processing error:', error);
+      throw error;
+    }
+  }
+
+  // Runs the algorithm against live data with hypothetical edits applied in memory; nothing is saved
+  async simulateAssignments(selectionPeriodId: string, overrides: SimulationOverrides): Promise<AssignmentResult[]> {
+    try {
+      await this.loadData(selectionPeriodId);
+      await this.applyOverrides(overrides);
+      await this.runAssignmentAlgorithm();
+      return this.assignments;
+    } catch (error) {
+      console.error('Assignment simulation error:', error);
+      throw error;
+    }
+  }
+
+  getRoutes(): Route[] {
+    return Array.from(this.routes.values());
+  }
+
   private async loadData(selectionPeriodId: string): Promise<void> {
     // Get the selection period to find the terminal
     const selectionPeriod = await prisma.selectionPeriod.findUnique({
@@ -61,11 +216,37 @@ export class AssignmentEngine {
       throw new Error('Selection period not found');
     }
 
-    // Load all selections for the period
+    this.seniorityPolicy = await getSeniorityPolicy(selectionPeriod.terminalId);
+    this.loadStrategy(selectionPeriod);
+    this.incumbencyRule = selectionPeriod.incumbencyRule as IncumbencyRule;
+    this.forceAssign = {
+      enabled: selectionPeriod.forceAssignEnabled,
+      cap: selectionPeriod.forceAssignCap,
+      afterSecondRound: selectionPeriod.secondRoundEnabled,
+    };
+    this.vacancyBid = selectionPeriod.kind === 'VACANCY';
+    this.teamSeniorityRule = selectionPeriod.teamSeniorityRule as TeamSeniorityRule;
+
+    const teams = await prisma.bidTeam.findMany({
+      where: { selectionPeriodId, confirmedAt: { not: null } },
+    });
+    this.teams = new Map(teams.map(team => [team.leadEmployeeId, team.partnerEmployeeId]));
+
+    // Regular bids are contested by the period's roster, so drivers removed from it lose their
+    // preferences; vacancy bids are contested by whoever opted in
+    const participantWhere = periodRosterService.getParticipantWhere(selectionPeriod);
     this.selections = await prisma.selection.findMany({
-      where: { selectionPeriodId },
+      where: {
+        selectionPeriodId,
+        ...(this.vacancyBid ? {} : { employee: participantWhere }),
+      },
       include: {
-        employee: true,
+        employee: {
+          include: { qualifications: true, seniorityAdjustments: true },
+        },
+        choices: {
+          orderBy: { rank: 'asc' },
+        },
       },
     });
 
@@ -73,7 +254,9 @@ export class AssignmentEngine {
     const periodRoutes = await prisma.periodRoute.findMany({
       where: { selectionPeriodId },
       include: {
-        route: true,
+        route: {
+          include: routeRequirementsInclude,
+        },
       },
     });
 
@@ -84,14 +267,31 @@ export class AssignmentEngine {
       this.routes.set(route.id, route);
     });
 
-    // Load employees without selections (they go to float pool)
+    const reservations = await prisma.routeReservation.findMany({
+      where: { selectionPeriodId },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    this.reservations.clear();
+    reservations.forEach(reservation => {
+      this.reservations.set(reservation.employeeId, { routeId: reservation.routeId, reason: reservation.reason });
+    });
+
+    // Load employees without selections (they go to float pool unless they hold a reservation).
+    // Drivers who didn't opt in to a vacancy bid aren't part of it at all.
     const employeesWithSelections = this.selections.map(s => s.employeeId);
     const employeesWithoutSelections = await prisma.employee.findMany({
       where: {
-        isEligible: true,
+        OR: this.vacancyBid
+          ? [{ id: { in: Array.from(this.reservations.keys()) } }]
+          : [
+            participantWhere,
+            { id: { in: Array.from(this.reservations.keys()) } },
+          ],
         terminalId: selectionPeriod.terminalId,
         id: { notIn: employeesWithSelections },
       },
+      include: { qualifications: true, seniorityAdjustments: true },
     });
 
     // Add employees without selections to the list (they'll get null assignments)
@@ -99,91 +299,573 @@ export class AssignmentEngine {
       this.selections.push({
         id: `no-selection-${employee.id}`,
         employeeId: employee.id,
-        firstChoiceId: null,
-        secondChoiceId: null,
-        thirdChoiceId: null,
+        choices: [],
+        retainCurrentRoute: false,
         employee,
       });
     });
 
-    this.assignedRoutes.clear();
+    this.currentHolders = this.vacancyBid
+      ? await prisma.employee.findMany({
+        where: {
+          currentRouteId: { in: Array.from(this.routes.keys()) },
+          isEligible: true,
+        },
+        include: { qualifications: true, seniorityAdjustments: true },
+      })
+      : [];
+
+    this.round = 1;
+    this.routeAwardedTo.clear();
+    this.assignments = [];
+  }
+
+  private async loadSecondRoundData(selectionPeriodId: string): Promise<void> {
+    const selectionPeriod = await prisma.selectionPeriod.findUnique({
+      where: { id: selectionPeriodId },
+    });
+
+    if (!selectionPeriod) {
+      throw new Error('Selection period not found');
+    }
+
+    this.seniorityPolicy = await getSeniorityPolicy(selectionPeriod.terminalId);
+    this.loadStrategy(selectionPeriod);
+    this.forceAssign = {
+      enabled: selectionPeriod.forceAssignEnabled,
+      cap: selectionPeriod.forceAssignCap,
+      afterSecondRound: true,
+    };
+
+    const roundOneAssignments = await prisma.assignment.findMany({
+      where: { selectionPeriodId },
+      include: {
+        employee: {
+          include: { qualifications: true, seniorityAdjustments: true },
+        },
+      },
+    });
+
+    // Only positions left unfilled by round one are up for bid
+    const roundOneAwards = countAwardsByRoute(roundOneAssignments);
+    const periodRoutes = await prisma.periodRoute.findMany({
+      where: { selectionPeriodId },
+      include: {
+        route: {
+          include: routeRequirementsInclude,
+        },
+      },
+    });
+
+    this.routes.clear();
+    periodRoutes
+      .map(pr => ({ ...pr.route, positions: pr.route.positions - (roundOneAwards.get(pr.route.id) || 0) }))
+      .filter(route => route.positions > 0)
+      .forEach(route => {
+        this.routes.set(route.id, route);
+      });
+
+    const secondRoundChoices = await prisma.secondRoundChoice.findMany({
+      where: { selectionPeriodId },
+      orderBy: { rank: 'asc' },
+    });
+
+    this.selections = roundOneAssignments
+      .filter(a => !a.routeId)
+      .map(assignment => ({
+        id: `second-round-${assignment.employeeId}`,
+        employeeId: assignment.employeeId,
+        choices: secondRoundChoices
+          .filter(c => c.employeeId === assignment.employeeId)
+          .map(c => ({ routeId: c.routeId, rank: c.rank })),
+        retainCurrentRoute: false,
+        employee: assignment.employee,
+      }));
+
+    // Reserved drivers were placed in round one, so nothing is held back here, and teams
+    // left in the float pool bid individually
+    this.round = 2;
+    this.teams.clear();
+    this.reservations.clear();
+    this.routeAwardedTo.clear();
     this.assignments = [];
   }
 
+  private loadStrategy(selectionPeriod: { assignmentStrategy: string; strategyParams: string | null; startDate: Date }): void {
+    const { strategy, params } = resolvePeriodStrategy(selectionPeriod);
+    this.strategy = strategy;
+    this.strategyParams = params;
+    this.asOf = selectionPeriod.startDate;
+  }
+
+  getStrategy(): { name: string; params: object } {
+    return { name: this.strategy.name, params: this.strategyParams };
+  }
+
+  private async applyOverrides(overrides: SimulationOverrides): Promise<void> {
+    const { routes = {}, employees = [], selections = [] } = overrides;
+
+    const catalog = await prisma.qualification.findMany();
+    const catalogById = new Map(catalog.map(q => [q.id, q]));
+    const toRequirements = (ids: string[]): RequiredQualification[] => ids
+      .filter(id => catalogById.has(id))
+      .map(id => ({ qualificationId: id, qualification: catalogById.get(id)! }));
+
+    for (const routeId of routes.remove || []) {
+      this.routes.delete(routeId);
+    }
+
+    for (const update of routes.update || []) {
+      const route = this.routes.get(update.id);
+      if (route) {
+        this.routes.set(route.id, {
+          ...route,
+          positions: update.positions ?? route.positions,
+          requirements: update.requirementIds ? toRequirements(update.requirementIds) : route.requirements,
+        });
+      }
+    }
+
+    for (const added of routes.add || []) {
+      const id = added.id || `simulated-${added.runNumber}`;
+      this.routes.set(id, {
+        id,
+        runNumber: added.runNumber,
+        positions: added.positions ?? 1,
+        teamOnly: false,
+        requirements: toRequirements(added.requirementIds || []),
+      });
+    }
+
+    // Employees made eligible only by the simulation join with no preferences
+    const competingIds = new Set(this.selections.map(s => s.employeeId));
+    const joiningIds = employees
+      .filter(e => e.isEligible === true && !competingIds.has(e.employeeId))
+      .map(e => e.employeeId);
+
+    if (joiningIds.length > 0) {
+      const joining = await prisma.employee.findMany({
+        where: { id: { in: joiningIds } },
+        include: { qualifications: true, seniorityAdjustments: true },
+      });
+      joining.forEach(employee => {
+        this.selections.push({
+          id: `simulated-${employee.id}`,
+          employeeId: employee.id,
+          choices: [],
+          retainCurrentRoute: false,
+          employee,
+        });
+      });
+    }
+
+    for (const override of employees) {
+      if (override.isEligible === false) {
+        this.selections = this.selections.filter(s => s.employeeId !== override.employeeId);
+        continue;
+      }
+
+      const { qualificationIds } = override;
+      if (!qualificationIds) {
+        continue;
+      }
+
+      this.selections = this.selections.map(selection => selection.employeeId !== override.employeeId ? selection : {
+        ...selection,
+        employee: {
+          ...selection.employee,
+          qualifications: qualificationIds.map(qualificationId => ({ qualificationId, expiresAt: null })),
+        },
+      });
+    }
+
+    for (const override of selections) {
+      this.selections = this.selections.map(selection => selection.employeeId !== override.employeeId ? selection : {
+        ...selection,
+        choices: override.choiceIds.map((routeId, index) => ({ routeId, rank: index + 1 })),
+        retainCurrentRoute: override.retainCurrentRoute ?? selection.retainCurrentRoute,
+      });
+    }
+  }
+
   private async runAssignmentAlgorithm(): Promise<void> {
-    // Sort employees by seniority (hire date ascending, then last name ascending)
-    const sortedSelections = [...this.selections].sort((a, b) => {
-      const hireDateCompare = a.employee.hireDate.getTime() - b.employee.hireDate.getTime();
-      if (hireDateCompare !== 0) {
-        return hireDateCompare;
+    // Sort employees by seniority (effective seniority date ascending, ties broken by the terminal's policy)
+    const sortedSelections = [...this.selections].sort((a, b) =>
+      compareSeniority(a.employee, b.employee, this.seniorityPolicy)
+    );
+
+    // Only a vacancy bid's vacated positions are open; drivers still on the route keep theirs
+    for (const holder of this.currentHolders) {
+      const route = this.routes.get(holder.currentRouteId!);
+      if (route) {
+        this.routeAwardedTo.set(route.id, [...(this.routeAwardedTo.get(route.id) || []), holder]);
       }
-      return a.employee.lastName.localeCompare(b.employee.lastName);
-    });
+    }
+
+    // Reserved positions are filled before anyone bids, so they never come open
+    for (const selection of sortedSelections) {
+      const route = this.getReservedRoute(selection.employee);
+      if (route) {
+        this.routeAwardedTo.set(route.id, [...(this.routeAwardedTo.get(route.id) || []), selection.employee]);
+      }
+    }
+
+    const units = this.getBiddingUnits(sortedSelections);
+
+    // Under the PRIORITY rule incumbents keep their route ahead of everyone else, first in bid
+    // order when more incumbents than positions ask to stay. Teams bid their joint list instead.
+    const incumbentIds = new Set<string>();
+    if (this.incumbencyRule === 'PRIORITY' || this.strategy.incumbencyPriority) {
+      for (const { selection } of units.filter(unit => !unit.partner)) {
+        const route = this.getRetainableRoute(selection);
+        if (route) {
+          this.routeAwardedTo.set(route.id, [...(this.routeAwardedTo.get(route.id) || []), selection.employee]);
+          incumbentIds.add(selection.employeeId);
+        }
+      }
+    }
+
+    // Process each driver or team in the strategy's bid order
+    for (const [index, { selection, partner }] of units.entries()) {
+      if (partner) {
+        this.processTeamSelection(selection, partner, index + 1);
+      } else {
+        await this.processEmployeeSelection(selection, index + 1, incumbentIds.has(selection.employeeId));
+      }
+      this.onProgress?.({ phase: 'ASSIGNING', processed: index + 1, total: units.length });
+    }
+
+    // With a second round enabled, forcing waits until float-pool drivers have had their second bid
+    if (this.forceAssign.enabled && (this.round === 2 || !this.forceAssign.afterSecondRound)) {
+      this.forceAssignUnclaimedRoutes();
+    }
+
+    if (this.vacancyBid) {
+      this.keepCurrentRoutes();
+    }
+  }
 
-    // Process each employee in seniority order
+  // Pairs each confirmed team into one unit placed by its junior or senior partner, per the period's
+  // rule, and puts the units in the strategy's bid order. The partner's own preferences are ignored. A reservation outranks the team: the reserved
+  // partner takes their route and the other bids the joint list alone, as does a lead whose partner
+  // isn't taking part.
+  private getBiddingUnits(sortedSelections: Selection[]): BiddingUnit[] {
+    const selectionsByEmployee = new Map(sortedSelections.map(s => [s.employeeId, s]));
+    const leadByPartner = new Map(Array.from(this.teams.entries()).map(([leadId, partnerId]) => [partnerId, leadId]));
+
+    const units: BiddingUnit[] = [];
     for (const selection of sortedSelections) {
-      await this.processEmployeeSelection(selection);
+      const partnerSelection = selectionsByEmployee.get(this.teams.get(selection.employeeId) || '');
+      const leadSelection = selectionsByEmployee.get(leadByPartner.get(selection.employeeId) || '');
+      const bidsApart = (other: Selection) =>
+        !!this.getReservedRoute(selection.employee) || !!this.getReservedRoute(other.employee);
+
+      if (partnerSelection) {
+        units.push(bidsApart(partnerSelection)
+          ? { selection }
+          : { selection, partner: partnerSelection.employee });
+      } else if (leadSelection) {
+        if (bidsApart(leadSelection)) {
+          units.push({ selection: { ...leadSelection, id: selection.id, employeeId: selection.employeeId, employee: selection.employee, retainCurrentRoute: false } });
+        }
+      } else {
+        units.push({ selection });
+      }
+    }
+
+    const rankingEmployee = ({ selection, partner }: BiddingUnit): Employee => {
+      if (!partner) {
+        return selection.employee;
+      }
+      const leadIsSenior = compareSeniority(selection.employee, partner, this.seniorityPolicy) < 0;
+      return leadIsSenior === (this.teamSeniorityRule === 'SENIOR') ? selection.employee : partner;
+    };
+
+    return this.strategy.orderBidders(units, rankingEmployee, this.strategyParams, {
+      seniorityPolicy: this.seniorityPolicy,
+      asOf: this.asOf,
+    });
+  }
+
+  // Awards a team the first route in its joint list with room for both partners that both qualify for
+  private processTeamSelection(selection: Selection, partner: Employee, seniorityRank: number): void {
+    const members = [selection.employee, partner];
+    const trace: TraceStep[] = [];
+    const choices = [...selection.choices].sort((a, b) => a.rank - b.rank);
+
+    for (const { routeId, rank: choice } of choices) {
+      const route = this.routes.get(routeId);
+      if (!route) {
+        trace.push({ round: this.round, choice, routeId, runNumber: null, outcome: 'NOT_IN_PERIOD' });
+        continue;
+      }
+
+      const holders = this.routeAwardedTo.get(routeId) || [];
+      if (holders.length >= route.positions) {
+        trace.push(this.getFullRouteStep(route, holders, choice));
+        continue;
+      }
+
+      // A team is never split, so a single open position is no use to it
+      if (route.positions - holders.length < 2) {
+        trace.push({ round: this.round, choice, routeId, runNumber: route.runNumber, outcome: 'TEAM_SPLIT' });
+        continue;
+      }
+
+      const unqualified = members
+        .map(member => ({ member, missingRequirement: AssignmentEngine.getMissingRequirement(member, route) }))
+        .find(({ missingRequirement }) => missingRequirement);
+      if (unqualified) {
+        trace.push({
+          round: this.round,
+          choice,
+          routeId,
+          runNumber: route.runNumber,
+          outcome: 'DISQUALIFIED',
+          failedRequirement: `${unqualified.missingRequirement} (${unqualified.member.firstName} ${unqualified.member.lastName})`,
+        });
+        continue;
+      }
+
+      this.routeAwardedTo.set(routeId, [...holders, ...members]);
+      trace.push({ round: this.round, choice, routeId, runNumber: route.runNumber, outcome: 'TAKEN' });
+      members.forEach((member, index) => {
+        const teammate = members[1 - index];
+        this.assignments.push({
+          employeeId: member.id,
+          routeId,
+          choiceReceived: choice,
+          reason: `Assigned ${getOrdinal(choice)} choice route with teammate ${teammate.firstName} ${teammate.lastName}`,
+          seniorityRank,
+          round: this.round,
+          trace: [...trace],
+        });
+      });
+      return;
+    }
+
+    members.forEach(member => {
+      this.assignments.push({
+        employeeId: member.id,
+        routeId: null,
+        choiceReceived: null,
+        reason: choices.length === 0
+          ? 'No route preferences submitted - team assigned to float pool'
+          : 'No route in the team\'s list had room for both partners',
+        seniorityRank,
+        round: this.round,
+        trace: [...trace],
+      });
+    });
+  }
+
+  // Trace step for a route with no open positions, naming the last driver awarded it
+  private getFullRouteStep(route: Route, holders: Employee[], choice: number): TraceStep {
+    if (holders.every(holder => this.reservations.get(holder.id)?.routeId === route.id)) {
+      return { round: this.round, choice, routeId: route.id, runNumber: route.runNumber, outcome: 'RESERVED' };
+    }
+
+    const holder = holders[holders.length - 1];
+    return {
+      round: this.round,
+      choice,
+      routeId: route.id,
+      runNumber: route.runNumber,
+      outcome: 'ALREADY_AWARDED',
+      awardedToEmployeeId: holder?.employeeId,
+      awardedToName: holder ? `${holder.firstName} ${holder.lastName}` : undefined,
+    };
+  }
+
+  // Bidding on a vacancy never costs a driver their route: anyone who wasn't awarded one keeps
+  // the route they already hold, recorded as an incumbency award
+  private keepCurrentRoutes(): void {
+    const employeesById = new Map(this.selections.map(s => [s.employeeId, s.employee]));
+    for (const assignment of this.assignments) {
+      const currentRouteId = employeesById.get(assignment.employeeId)?.currentRouteId;
+      if (assignment.routeId || !currentRouteId) {
+        continue;
+      }
+
+      assignment.routeId = currentRouteId;
+      assignment.viaIncumbency = true;
+      assignment.reason = `${assignment.reason}; keeps current route`;
+    }
+  }
+
+  // Staffs positions nobody bid for with float-pool drivers, most junior first, each taking the
+  // first open route (by run number) they qualify for until the period's cap is reached
+  private forceAssignUnclaimedRoutes(): void {
+    const employeesById = new Map(this.selections.map(s => [s.employeeId, s.employee]));
+    const routes = Array.from(this.routes.values()).sort((a, b) => a.runNumber.localeCompare(b.runNumber));
+    const floatPool = this.assignments
+      .filter(a => !a.routeId)
+      .sort((a, b) => b.seniorityRank - a.seniorityRank);
+
+    let forcedCount = 0;
+    for (const assignment of floatPool) {
+      if (this.forceAssign.cap !== null && forcedCount >= this.forceAssign.cap) {
+        break;
+      }
+
+      const employee = employeesById.get(assignment.employeeId)!;
+      const route = routes.find(r =>
+        !r.teamOnly &&
+        (this.routeAwardedTo.get(r.id) || []).length < r.positions &&
+        AssignmentEngine.doesEmployeeQualify(employee, r)
+      );
+      if (!route) {
+        continue;
+      }
+
+      this.routeAwardedTo.set(route.id, [...(this.routeAwardedTo.get(route.id) || []), employee]);
+      assignment.routeId = route.id;
+      assignment.choiceReceived = null;
+      assignment.forced = true;
+      assignment.reason = `Force-assigned unclaimed route ${route.runNumber} (inverse seniority)`;
+      forcedCount++;
+    }
+  }
+
+  // The driver's ranked choices, led by their current route when they asked to keep it
+  private getEffectiveChoices(selection: Selection): SelectionChoice[] {
+    const currentRouteId = selection.employee.currentRouteId;
+    const ranked = [...selection.choices].sort((a, b) => a.rank - b.rank);
+    if (!selection.retainCurrentRoute || !currentRouteId) {
+      return ranked;
+    }
+
+    return [currentRouteId, ...ranked.map(c => c.routeId).filter(routeId => routeId !== currentRouteId)]
+      .map((routeId, index) => ({ routeId, rank: index + 1 }));
+  }
+
+  // The current route a PRIORITY incumbent is awarded, if it is in the period, they still
+  // qualify, and reservations or more senior incumbents haven't used up its positions
+  private getRetainableRoute(selection: Selection): Route | null {
+    const { employee } = selection;
+    const route = selection.retainCurrentRoute && employee.currentRouteId
+      ? this.routes.get(employee.currentRouteId)
+      : undefined;
+    if (!route || this.getReservedRoute(employee)) {
+      return null;
+    }
+
+    const holders = this.routeAwardedTo.get(route.id) || [];
+    if (holders.length >= route.positions || !AssignmentEngine.doesEmployeeQualify(employee, route)) {
+      return null;
     }
+    return route;
   }
 
-  private async processEmployeeSelection(selection: Selection): Promise<void> {
+  private async processEmployeeSelection(selection: Selection, seniorityRank: number, isIncumbent = false): Promise<void> {
     const employee = selection.employee;
+    const trace: TraceStep[] = [];
+
+    const reservedRoute = this.getReservedRoute(employee);
+    if (reservedRoute) {
+      this.assignments.push({
+        employeeId: employee.id,
+        routeId: reservedRoute.id,
+        choiceReceived: null,
+        reason: `Reserved route: ${this.reservations.get(employee.id)!.reason}`,
+        seniorityRank,
+        round: this.round,
+        trace,
+      });
+      return;
+    }
+
+    if (isIncumbent) {
+      const route = this.routes.get(employee.currentRouteId!)!;
+      trace.push({ round: this.round, choice: 1, routeId: route.id, runNumber: route.runNumber, outcome: 'TAKEN' });
+      this.assignments.push({
+        employeeId: employee.id,
+        routeId: route.id,
+        choiceReceived: 1,
+        reason: 'Retained current route (incumbency ahead of seniority)',
+        viaIncumbency: true,
+        seniorityRank,
+        round: this.round,
+        trace,
+      });
+      return;
+    }
+
+    const choices = this.getEffectiveChoices(selection);
 
     // If employee has no selections, assign to float pool
-    if (!selection.firstChoiceId && !selection.secondChoiceId && !selection.thirdChoiceId) {
+    if (choices.length === 0) {
       this.assignments.push({
         employeeId: employee.id,
         routeId: null,
         choiceReceived: null,
         reason: 'No route preferences submitted - assigned to float pool',
+        seniorityRank,
+        round: this.round,
+        trace,
       });
       return;
     }
 
-    // Try to assign employee's choices in order
-    const choices = [
-      { id: selection.firstChoiceId, choice: 1 },
-      { id: selection.secondChoiceId, choice: 2 },
-      { id: selection.thirdChoiceId, choice: 3 },
-    ].filter(choice => choice.id);
-
-    for (const { id: routeId, choice } of choices) {
-      if (!routeId) continue;
-
+    // Try to assign employee's choices in rank order
+    for (const { routeId, rank: choice } of choices) {
       const route = this.routes.get(routeId);
       if (!route) {
         console.warn(`Route ${routeId} not found for employee ${employee.employeeId}`);
+        trace.push({ round: this.round, choice, routeId, runNumber: null, outcome: 'NOT_IN_PERIOD' });
+        continue;
+      }
+
+      if (route.teamOnly) {
+        trace.push({ round: this.round, choice, routeId, runNumber: route.runNumber, outcome: 'TEAM_ONLY' });
         continue;
       }
 
-      // Check if route is already assigned
-      if (this.assignedRoutes.has(routeId)) {
+      // Check if every position on the route is already assigned
+      const holders = this.routeAwardedTo.get(routeId) || [];
+      if (holders.length >= route.positions) {
+        trace.push(this.getFullRouteStep(route, holders, choice));
         continue;
       }
 
       // Check if employee qualifies for this route
-      if (!this.doesEmployeeQualify(employee, route)) {
+      const missingRequirement = AssignmentEngine.getMissingRequirement(employee, route);
+      if (missingRequirement) {
+        trace.push({
+          round: this.round,
+          choice,
+          routeId,
+          runNumber: route.runNumber,
+          outcome: 'DISQUALIFIED',
+          failedRequirement: missingRequirement,
+        });
         continue;
       }
 
       // Assign the route
-      this.assignedRoutes.add(routeId);
+      this.routeAwardedTo.set(routeId, [...holders, employee]);
+      trace.push({ round: this.round, choice, routeId, runNumber: route.runNumber, outcome: 'TAKEN' });
+      const retained = selection.retainCurrentRoute && routeId === employee.currentRouteId;
       this.assignments.push({
         employeeId: employee.id,
         routeId,
         choiceReceived: choice,
-        reason: `Assigned ${choice === 1 ? '1st' : choice === 2 ? '2nd' : '3rd'} choice route`,
+        reason: retained
+          ? 'Retained current route (incumbency as first choice)'
+          : `Assigned ${getOrdinal(choice)} choice route`,
+        viaIncumbency: retained,
+        seniorityRank,
+        round: this.round,
+        trace,
       });
       return;
     }
 
     // If no choices could be assigned, check for unqualified vs unavailable
     let hasQualifiedChoices = false;
-    for (const { id: routeId } of choices) {
-      if (!routeId) continue;
-
+    for (const { routeId } of choices) {
       const route = this.routes.get(routeId);
-      if (route && this.doesEmployeeQualify(employee, route)) {
+      if (route && AssignmentEngine.doesEmployeeQualify(employee, route)) {
         hasQualifiedChoices = true;
         break;
       }
@@ -197,85 +879,183 @@ export class AssignmentEngine {
       reason: hasQualifiedChoices 
         ? 'All preferred routes were assigned to more senior employees'
         : 'Employee does not qualify for any of their preferred routes',
+      seniorityRank,
+      round: this.round,
+      trace,
     });
   }
 
-  private doesEmployeeQualify(employee: Employee, route: Route): boolean {
-    // Check doubles endorsement requirement
-    if (route.requiresDoublesEndorsement && !employee.doublesEndorsement) {
-      return false;
+  // The route reserved for the employee, if it is still in play; a reservation beyond the
+  // route's positions (possible after a simulated cut) falls back to normal bidding
+  private getReservedRoute(employee: Employee): Route | null {
+    const reservation = this.reservations.get(employee.id);
+    const route = reservation ? this.routes.get(reservation.routeId) : undefined;
+    if (!route) {
+      return null;
     }
 
-    // Check chain experience requirement
-    if (route.requiresChainExperience && !employee.chainExperience) {
-      return false;
-    }
+    const reservedAhead = Array.from(this.reservations.entries())
+      .filter(([, r]) => r.routeId === route.id)
+      .findIndex(([employeeId]) => employeeId === employee.id);
+    return reservedAhead < route.positions ? route : null;
+  }
+
+  // Shared with the live draft so both bidding modes apply the same eligibility rules
+  static doesEmployeeQualify(employee: QualificationHolder, route: QualificationRequirements): boolean {
+    return AssignmentEngine.getMissingRequirement(employee, route) === null;
+  }
+
+  // Returns the first requirement the employee fails for the route, or null if qualified
+  static getMissingRequirement(employee: QualificationHolder, route: QualificationRequirements): string | null {
+    return getMissingRequirement(employee, route);
+  }
+
+  // Fingerprint of everything the algorithm read, so runs over identical inputs can be recognised
+  getInputsHash(): string {
+    const inputs = {
+      round: this.round,
+      seniorityPolicy: this.seniorityPolicy,
+      incumbencyRule: this.incumbencyRule,
+      strategy: this.strategy.name,
+      strategyParams: this.strategyParams,
+      forceAssign: this.forceAssign,
+      vacancyBid: this.vacancyBid,
+      teamSeniorityRule: this.teamSeniorityRule,
+      teams: Array.from(this.teams.entries()).map(([leadId, partnerId]) => `${leadId}:${partnerId}`).sort(),
+      currentHolders: this.currentHolders.map(holder => `${holder.id}:${holder.currentRouteId}`).sort(),
+      routes: Array.from(this.routes.values())
+        .map(route => ({
+          id: route.id,
+          positions: route.positions,
+          teamOnly: route.teamOnly,
+          requirements: route.requirements.map(r => r.qualificationId).sort(),
+        }))
+        .sort((a, b) => a.id.localeCompare(b.id)),
+      reservations: Array.from(this.reservations.entries())
+        .map(([employeeId, reservation]) => `${employeeId}:${reservation.routeId}`)
+        .sort(),
+      selections: this.selections
+        .map(selection => ({
+          employeeId: selection.employeeId,
+          seniorityDate: getEffectiveSeniorityDate(selection.employee).toISOString(),
+          ssnLastFour: selection.employee.ssnLastFour,
+          qualifications: selection.employee.qualifications
+            .map(q => `${q.qualificationId}:${q.expiresAt ? q.expiresAt.toISOString() : ''}`)
+            .sort(),
+          choices: this.getEffectiveChoices(selection).map(c => c.routeId),
+        }))
+        .sort((a, b) => a.employeeId.localeCompare(b.employeeId)),
+    };
+
+    return crypto.createHash('sha256').update(JSON.stringify(inputs)).digest('hex');
+  }
 
-    return true;
+  private getRunResults(): RunResult[] {
+    return this.assignments.map(assignment => ({
+      employeeId: assignment.employeeId,
+      routeId: assignment.routeId ?? null,
+      choiceReceived: assignment.choiceReceived ?? null,
+      round: assignment.round,
+      viaIncumbency: assignment.viaIncumbency ?? false,
+      forced: assignment.forced ?? false,
+      seniorityRank: assignment.seniorityRank,
+      reason: assignment.reason || '',
+      steps: assignment.trace,
+    }));
   }
 
-  async saveAssignments(selectionPeriodId: string): Promise<void> {
-    // Save all assignments in a transaction
-    await prisma.$transaction(async (tx) => {
-      // Delete existing assignments for this period
-      await tx.assignment.deleteMany({
-        where: { selectionPeriodId },
+  // Records the results as a new unpublished run. The period's assignments, traces and
+  // Employee.currentRouteId only change when the run is published. onSaved runs in the same
+  // transaction, so a caller can note the run id atomically with it.
+  async saveAssignments(
+    selectionPeriodId: string,
+    createdById?: string | null,
+    onSaved?: (tx: Prisma.TransactionClient, runId: string) => Promise<unknown>
+  ): Promise<string> {
+    this.onProgress?.({ phase: 'SAVING', processed: this.assignments.length, total: this.assignments.length });
+
+    return prisma.$transaction(async (tx) => {
+      const runId = await assignmentRunService.recordRun(tx, selectionPeriodId, {
+        createdById,
+        inputsHash: this.getInputsHash(),
+        summary: this.getAssignmentSummary(),
+        results: this.getRunResults(),
+        round: this.round,
+        strategy: this.getStrategy(),
       });
 
-      // Create new assignments
-      const assignmentData = this.assignments.map(assignment => ({
-        employeeId: assignment.employeeId,
-        selectionPeriodId,
-        routeId: assignment.routeId,
-        choiceReceived: assignment.choiceReceived,
-        effectiveDate: new Date(), // You might want to make this configurable
-      }));
+      await onSaved?.(tx, runId);
+      return runId;
+    });
+  }
 
-      await tx.assignment.createMany({
-        data: assignmentData,
+  // Records the published round one results, with round two's awards and trace steps applied to
+  // the float-pool drivers, as a new unpublished run
+  async saveSecondRoundAssignments(selectionPeriodId: string, createdById?: string | null): Promise<string> {
+    return prisma.$transaction(async (tx) => {
+      const roundOneRun = await tx.assignmentRun.findFirst({
+        where: { selectionPeriodId, status: 'PUBLISHED' },
       });
 
-      // Update employee current routes
-      for (const assignment of this.assignments) {
-        if (assignment.routeId) {
-          await tx.employee.update({
-            where: { id: assignment.employeeId },
-            data: { currentRouteId: assignment.routeId },
-          });
-        } else {
-          // Clear current route for float pool assignments
-          await tx.employee.update({
-            where: { id: assignment.employeeId },
-            data: { currentRouteId: null },
-          });
-        }
+      if (!roundOneRun) {
+        throw new Error('Round one results have not been published');
       }
+
+      const roundTwo = new Map(this.getRunResults().map(result => [result.employeeId, result]));
+      const results = assignmentRunService.getResults(roundOneRun).map(result => {
+        const secondRound = roundTwo.get(result.employeeId);
+        return secondRound
+          ? { ...secondRound, seniorityRank: result.seniorityRank, steps: [...result.steps, ...secondRound.steps] }
+          : result;
+      });
+
+      await tx.selectionPeriod.update({
+        where: { id: selectionPeriodId },
+        data: { secondRoundProcessedAt: new Date() },
+      });
+
+      return assignmentRunService.recordRun(tx, selectionPeriodId, {
+        createdById,
+        inputsHash: this.getInputsHash(),
+        summary: this.getAssignmentSummary(),
+        results,
+        round: this.round,
+        strategy: this.getStrategy(),
+      });
     });
   }
 
   getAssignmentSummary(): {
     totalEmployees: number;
     totalRoutes: number;
+    totalPositions: number;
     assignedRoutes: number;
+    assignedPositions: number;
+    forcedAssignments: number;
     floatPoolEmployees: number;
-    choiceDistribution: { first: number; second: number; third: number; float: number };
+    // Drivers awarded each preference, keyed by rank; a period may allow any number of choices
+    choiceDistribution: { byRank: Record<number, number>; float: number };
   } {
     const totalEmployees = this.assignments.length;
     const totalRoutes = this.routes.size;
-    const assignedRoutes = this.assignedRoutes.size;
+    const totalPositions = Array.from(this.routes.values()).reduce((total, route) => total + route.positions, 0);
+    const assignedRoutes = this.routeAwardedTo.size;
+    const assignedPositions = this.assignments.filter(a => a.routeId && this.routes.has(a.routeId)).length;
+    const forcedAssignments = this.assignments.filter(a => a.forced).length;
     const floatPoolEmployees = this.assignments.filter(a => !a.routeId).length;
 
     const choiceDistribution = {
-      first: this.assignments.filter(a => a.choiceReceived === 1).length,
-      second: this.assignments.filter(a => a.choiceReceived === 2).length,
-      third: this.assignments.filter(a => a.choiceReceived === 3).length,
+      byRank: countByRank(this.assignments),
       float: floatPoolEmployees,
     };
 
     return {
       totalEmployees,
       totalRoutes,
+      totalPositions,
       assignedRoutes,
+      assignedPositions,
+      forcedAssignments,
       floatPoolEmployees,
       choiceDistribution,
     };
@@ -284,7 +1064,7 @@ export class AssignmentEngine {
   validateAssignments(): { isValid: boolean; errors: string[] } {
     const errors: string[] = [];
 
-    // Check for duplicate route assignments
+    // Check no route was awarded to more drivers than it has positions
     const routeAssignments = new Map<string, string[]>();
     for (const assignment of this.assignments) {
       if (assignment.routeId) {
@@ -296,9 +1076,14 @@ export class AssignmentEngine {
     }
 
     for (const [routeId, employeeIds] of routeAssignments) {
-      if (employeeIds.length > 1) {
-        const route = this.routes.get(routeId);
-        errors.push(`Route ${route?.runNumber || routeId} assigned to multiple employees: ${employeeIds.join(', ')}`);
+      const route = this.routes.get(routeId);
+      // Routes outside the period only appear as current routes kept by unsuccessful vacancy bidders
+      if (!route && this.vacancyBid) {
+        continue;
+      }
+      const positions = route?.positions ?? 1;
+      if (employeeIds.length > positions) {
+        errors.push(`Route ${route?.runNumber || routeId} over capacity: ${employeeIds.length} employees assigned to ${positions} position(s): ${employeeIds.join(', ')}`);
       }
     }
 
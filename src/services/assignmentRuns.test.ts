@@ -0,0 +1,78 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Prisma, SelectionPeriod } from '@prisma/client';
+import assignmentRunService, { RunResult } from './assignmentRuns.js';
+import periodLifecycleService from './periodLifecycle.js';
+
+interface StoredRun {
+  id: string;
+  selectionPeriodId: string;
+  version: number;
+  round: number;
+  status: string;
+  results: string;
+}
+
+// Just enough of a transaction client for recordRun, keeping runs in memory
+const createRunStore = () => {
+  const runs: StoredRun[] = [];
+  const tx = {
+    assignmentRun: {
+      findFirst: async ({ where }: { where: { selectionPeriodId: string } }) =>
+        runs.filter(run => run.selectionPeriodId === where.selectionPeriodId).sort((a, b) => b.version - a.version)[0] ?? null,
+      create: async ({ data }: { data: Omit<StoredRun, 'id'> }) => {
+        const run = { ...data, id: `run-${runs.length + 1}` };
+        runs.push(run);
+        return run;
+      },
+    },
+  } as unknown as Prisma.TransactionClient;
+  return { runs, tx };
+};
+
+const result = (employeeId: string, seniorityRank: number, routeId: string | null): RunResult => ({
+  employeeId,
+  routeId,
+  choiceReceived: routeId ? 1 : null,
+  round: 1,
+  seniorityRank,
+  reason: routeId ? 'Got first choice' : 'Float pool',
+  steps: [],
+});
+
+const closedPeriod = { status: 'CLOSED', mode: 'BID' } as SelectionPeriod;
+
+test('two round-one runs stay DRAFT and can be diffed before either is published', async () => {
+  const { runs, tx } = createRunStore();
+  const options = { inputsHash: 'hash', summary: {} };
+
+  await assignmentRunService.recordRun(tx, 'period-1', {
+    ...options,
+    results: [result('emp-2', 2, 'route-b'), result('emp-1', 1, 'route-a'), result('emp-3', 3, null)],
+  });
+  await assignmentRunService.recordRun(tx, 'period-1', {
+    ...options,
+    results: [result('emp-1', 1, 'route-b'), result('emp-2', 2, 'route-a'), result('emp-3', 3, null)],
+  });
+
+  assert.deepEqual(runs.map(run => [run.version, run.round, run.status]), [[1, 1, 'DRAFT'], [2, 1, 'DRAFT']]);
+  assert.deepEqual(assignmentRunService.getResults(runs[0]).map(r => r.employeeId), ['emp-1', 'emp-2', 'emp-3']);
+
+  const changes = assignmentRunService.diffRuns(
+    assignmentRunService.getResults(runs[0]),
+    assignmentRunService.getResults(runs[1])
+  );
+  assert.deepEqual(changes, [
+    { employeeId: 'emp-1', fromRouteId: 'route-a', toRouteId: 'route-b' },
+    { employeeId: 'emp-2', fromRouteId: 'route-b', toRouteId: 'route-a' },
+  ]);
+});
+
+test('a processed period can be processed again, and only publishing completes it', () => {
+  assert.equal(periodLifecycleService.getTransitionError(closedPeriod, 'PROCESSING', 'SYSTEM'), null);
+  assert.equal(periodLifecycleService.getTransitionError(closedPeriod, 'COMPLETED', 'SYSTEM'), null);
+  assert.equal(
+    periodLifecycleService.getTransitionError(closedPeriod, 'COMPLETED', 'MANUAL'),
+    'Periods complete when an assignment run is published'
+  );
+});
@@ -0,0 +1,202 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../utils/database.js';
+import { TraceStep } from './assignmentEngine.js';
+import periodLifecycleService from './periodLifecycle.js';
+
+export interface RunResult {
+  employeeId: string;
+  routeId: string | null;
+  choiceReceived: number | null;
+  round: number;
+  // Absent from snapshots taken before incumbency was tracked
+  viaIncumbency?: boolean;
+  forced?: boolean;
+  seniorityRank: number;
+  reason: string;
+  steps: TraceStep[];
+}
+
+export interface RunChange {
+  employeeId: string;
+  fromRouteId: string | null | undefined;
+  toRouteId: string | null | undefined;
+}
+
+interface RecordRunOptions {
+  createdById?: string | null;
+  inputsHash: string;
+  summary: unknown;
+  results: RunResult[];
+  round?: number;
+  // The assignment strategy that ordered the bid
+  strategy?: { name: string; params: object };
+}
+
+class AssignmentRunService {
+  // Saves results as a new numbered DRAFT run. Nothing drivers can see changes until it is published.
+  async recordRun(tx: Prisma.TransactionClient, selectionPeriodId: string, options: RecordRunOptions): Promise<string> {
+    const lastRun = await tx.assignmentRun.findFirst({
+      where: { selectionPeriodId },
+      orderBy: { version: 'desc' },
+    });
+
+    const results = [...options.results].sort((a, b) => a.seniorityRank - b.seniorityRank);
+
+    const run = await tx.assignmentRun.create({
+      data: {
+        selectionPeriodId,
+        version: (lastRun?.version || 0) + 1,
+        round: options.round || 1,
+        status: 'DRAFT',
+        inputsHash: options.inputsHash,
+        assignmentStrategy: options.strategy?.name,
+        strategyParams: options.strategy ? JSON.stringify(options.strategy.params) : null,
+        summary: JSON.stringify(options.summary),
+        results: JSON.stringify(results),
+        createdById: options.createdById || null,
+      },
+    });
+
+    return run.id;
+  }
+
+  getResults(run: { results: string }): RunResult[] {
+    return JSON.parse(run.results);
+  }
+
+  // The run whose results are live in the period's assignments, if one has been published
+  async getPublishedRun(selectionPeriodId: string) {
+    return prisma.assignmentRun.findFirst({
+      where: { selectionPeriodId, status: 'PUBLISHED' },
+    });
+  }
+
+  // Drivers whose route differs between two runs; undefined means the driver was absent from that run
+  diffRuns(from: RunResult[], to: RunResult[]): RunChange[] {
+    const fromByEmployee = new Map(from.map(r => [r.employeeId, r]));
+    const toByEmployee = new Map(to.map(r => [r.employeeId, r]));
+    const employeeIds = new Set([...fromByEmployee.keys(), ...toByEmployee.keys()]);
+
+    const changes: RunChange[] = [];
+    for (const employeeId of employeeIds) {
+      const before = fromByEmployee.get(employeeId);
+      const after = toByEmployee.get(employeeId);
+      if (!before || !after || before.routeId !== after.routeId) {
+        changes.push({
+          employeeId,
+          fromRouteId: before?.routeId,
+          toRouteId: after?.routeId,
+        });
+      }
+    }
+
+    return changes;
+  }
+
+  // Makes a run the period's live result: assignment rows, traces and Employee.currentRouteId.
+  // This is the only place those are written from a run.
+  async publishRun(runId: string, publishedById: string): Promise<void> {
+    await prisma.$transaction(tx => this.applyRun(tx, runId, publishedById));
+  }
+
+  // publishRun inside the caller's transaction. The first run published completes the period;
+  // publishedById is null when the system publishes, as a finished live draft does.
+  async applyRun(tx: Prisma.TransactionClient, runId: string, publishedById: string | null): Promise<void> {
+    const run = await tx.assignmentRun.findUnique({
+      where: { id: runId },
+      include: { selectionPeriod: true },
+    });
+    if (!run) {
+      throw new Error('Assignment run not found');
+    }
+
+    const { selectionPeriodId } = run;
+    const results = this.getResults(run);
+
+    // Drivers awarded a route by the outgoing run but absent from this one lose that route
+    const previousRun = await tx.assignmentRun.findFirst({
+      where: { selectionPeriodId, status: 'PUBLISHED' },
+    });
+    const includedIds = new Set(results.map(r => r.employeeId));
+    const orphaned = previousRun
+      ? this.getResults(previousRun).filter(r => r.routeId && !includedIds.has(r.employeeId))
+      : [];
+
+    await tx.assignment.deleteMany({ where: { selectionPeriodId } });
+    await tx.assignment.createMany({
+      data: results.map(result => ({
+        employeeId: result.employeeId,
+        selectionPeriodId,
+        routeId: result.routeId,
+        choiceReceived: result.choiceReceived,
+        round: result.round,
+        viaIncumbency: result.viaIncumbency ?? false,
+        forced: result.forced ?? false,
+        effectiveDate: new Date(),
+      })),
+    });
+
+    await tx.assignmentTrace.deleteMany({ where: { selectionPeriodId } });
+    await tx.assignmentTrace.createMany({
+      data: results.map(result => ({
+        selectionPeriodId,
+        employeeId: result.employeeId,
+        seniorityRank: result.seniorityRank,
+        routeId: result.routeId,
+        choiceReceived: result.choiceReceived,
+        reason: result.reason,
+        steps: JSON.stringify(result.steps),
+      })),
+    });
+
+    // One write per route rather than per driver
+    const employeeIdsByRoute = new Map<string | null, string[]>();
+    for (const result of results) {
+      employeeIdsByRoute.set(result.routeId, [...(employeeIdsByRoute.get(result.routeId) || []), result.employeeId]);
+    }
+    for (const [routeId, employeeIds] of employeeIdsByRoute) {
+      await tx.employee.updateMany({
+        where: { id: { in: employeeIds } },
+        data: { currentRouteId: routeId },
+      });
+    }
+
+    const orphanedByRoute = new Map<string, string[]>();
+    for (const result of orphaned) {
+      orphanedByRoute.set(result.routeId!, [...(orphanedByRoute.get(result.routeId!) || []), result.employeeId]);
+    }
+    for (const [routeId, employeeIds] of orphanedByRoute) {
+      await tx.employee.updateMany({
+        where: { id: { in: employeeIds }, currentRouteId: routeId },
+        data: { currentRouteId: null },
+      });
+    }
+
+    await tx.assignmentRun.updateMany({
+      where: { selectionPeriodId, status: 'PUBLISHED' },
+      data: { status: 'SUPERSEDED' },
+    });
+
+    await tx.assignmentRun.update({
+      where: { id: runId },
+      data: {
+        status: 'PUBLISHED',
+        publishedAt: new Date(),
+        publishedById,
+      },
+    });
+
+    if (run.selectionPeriod.status !== 'COMPLETED') {
+      await periodLifecycleService.transition(selectionPeriodId, 'COMPLETED', {
+        trigger: 'SYSTEM',
+        userId: publishedById,
+        reason: `Run v${run.version} published`,
+        tx,
+      });
+    }
+  }
+}
+
+// Create and export singleton instance
+const assignmentRunService = new AssignmentRunService();
+export default assignmentRunService;
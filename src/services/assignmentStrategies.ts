@@ -0,0 +1,160 @@
+import { z } from 'zod';
+import {
+  SeniorityFields,
+  SeniorityPolicy,
+  compareSeniority,
+  generateLotterySeed,
+  getEffectiveSeniorityDate,
+  getLotteryNumber,
+} from '../utils/seniority.js';
+import { HeldQualification, isQualificationCurrent } from '../utils/qualifications.js';
+
+// Strategies decide the order in which drivers bid; the engine then awards each bidder their
+// highest available choice in that order, so capacity, reservations and teams work the same way
+// whichever strategy a period uses.
+
+export const DEFAULT_ASSIGNMENT_STRATEGY = 'SENIORITY';
+
+export interface StrategyEmployee extends SeniorityFields {
+  id: string;
+  qualifications: HeldQualification[];
+}
+
+export interface StrategyContext {
+  seniorityPolicy: SeniorityPolicy;
+  // Start of the selection period; probation and qualification expiry are judged as of this date
+  asOf: Date;
+}
+
+export interface AssignmentStrategy<P extends object = object> {
+  name: string;
+  label: string;
+  description: string;
+  paramsSchema: z.ZodType<P, z.ZodTypeDef, unknown>;
+  // Incumbents who ask to keep their route keep it before anyone bids, whatever the period's incumbency rule
+  incumbencyPriority?: boolean;
+  // getEmployee gives the driver each bidder is ranked by (a team's ranking partner, for instance)
+  orderBidders<T>(bidders: T[], getEmployee: (bidder: T) => StrategyEmployee, params: P, context: StrategyContext): T[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const bySeniority = <T>(bidders: T[], getEmployee: (bidder: T) => StrategyEmployee, context: StrategyContext): T[] => {
+  return [...bidders].sort((a, b) => compareSeniority(getEmployee(a), getEmployee(b), context.seniorityPolicy));
+};
+
+const seniorityStrategy: AssignmentStrategy = {
+  name: 'SENIORITY',
+  label: 'Seniority',
+  description: 'Drivers bid in seniority order. Requests to keep a current route follow the period\'s incumbency rule.',
+  paramsSchema: z.object({}),
+  orderBidders: (bidders, getEmployee, _params, context) => bySeniority(bidders, getEmployee, context),
+};
+
+const incumbentSeniorityStrategy: AssignmentStrategy = {
+  name: 'INCUMBENT_SENIORITY',
+  label: 'Seniority with incumbency',
+  description: 'Drivers who ask to keep their current route keep it before bidding starts; everyone else bids in seniority order.',
+  paramsSchema: z.object({}),
+  incumbencyPriority: true,
+  orderBidders: (bidders, getEmployee, _params, context) => bySeniority(bidders, getEmployee, context),
+};
+
+const probationaryLotteryStrategy: AssignmentStrategy<{ probationDays: number; seed: string }> = {
+  name: 'PROBATIONARY_LOTTERY',
+  label: 'Lottery among probationary drivers',
+  description: 'Drivers past probation bid in seniority order, then probationary drivers bid in an order drawn by lottery from a published seed.',
+  paramsSchema: z.object({
+    probationDays: z.number().int().min(1).max(3650).default(90),
+    // Generated once when the period is saved, so every run draws the same order
+    seed: z.string().min(1).default(() => generateLotterySeed()),
+  }),
+  orderBidders: (bidders, getEmployee, params, context) => {
+    const probationStart = new Date(context.asOf.getTime() - params.probationDays * DAY_MS);
+    const onProbation = (bidder: typeof bidders[number]) => getEffectiveSeniorityDate(getEmployee(bidder)) > probationStart;
+
+    const drawn = bidders
+      .filter(onProbation)
+      .map(bidder => ({ bidder, draw: getLotteryNumber(params.seed, getEmployee(bidder).employeeId) }))
+      .sort((a, b) => a.draw - b.draw || getEmployee(a.bidder).employeeId.localeCompare(getEmployee(b.bidder).employeeId))
+      .map(({ bidder }) => bidder);
+
+    return [...bySeniority(bidders.filter(bidder => !onProbation(bidder)), getEmployee, context), ...drawn];
+  },
+};
+
+const classRoundRobinStrategy: AssignmentStrategy<{ classQualificationIds: string[] }> = {
+  name: 'CLASS_ROUND_ROBIN',
+  label: 'Round-robin of classes',
+  description: 'Drivers are grouped by the first listed qualification they hold, with everyone else in a final class. Classes take turns, each sending its most senior remaining driver.',
+  paramsSchema: z.object({
+    classQualificationIds: z.array(z.string()).min(1, 'List at least one qualification to group drivers by'),
+  }),
+  orderBidders: (bidders, getEmployee, params, context) => {
+    const classes: (typeof bidders)[] = [...params.classQualificationIds, null].map(() => []);
+    for (const bidder of bySeniority(bidders, getEmployee, context)) {
+      const held = getEmployee(bidder).qualifications.filter(q => isQualificationCurrent(q, context.asOf));
+      const index = params.classQualificationIds.findIndex(id => held.some(q => q.qualificationId === id));
+      classes[index === -1 ? classes.length - 1 : index].push(bidder);
+    }
+
+    const ordered: typeof bidders = [];
+    for (let turn = 0; ordered.length < bidders.length; turn++) {
+      classes.filter(group => turn < group.length).forEach(group => ordered.push(group[turn]));
+    }
+    return ordered;
+  },
+};
+
+const strategies = new Map<string, AssignmentStrategy>();
+
+export const registerAssignmentStrategy = <P extends object>(strategy: AssignmentStrategy<P>): void => {
+  strategies.set(strategy.name, strategy as unknown as AssignmentStrategy);
+};
+
+[seniorityStrategy, incumbentSeniorityStrategy, probationaryLotteryStrategy, classRoundRobinStrategy]
+  .forEach(strategy => registerAssignmentStrategy(strategy));
+
+export const getAssignmentStrategy = (name: string): AssignmentStrategy | null => {
+  return strategies.get(name) || null;
+};
+
+export const listAssignmentStrategies = () => {
+  return Array.from(strategies.values()).map(({ name, label, description, incumbencyPriority }) => ({
+    name,
+    label,
+    description,
+    incumbencyPriority: !!incumbencyPriority,
+  }));
+};
+
+// Returns why the strategy can't run with these parameters, or null if it can
+export const getStrategyConfigError = (name: string, params: unknown): string | null => {
+  const strategy = getAssignmentStrategy(name);
+  if (!strategy) {
+    return `Unknown assignment strategy ${name}`;
+  }
+
+  const result = strategy.paramsSchema.safeParse(params ?? {});
+  if (!result.success) {
+    return `Invalid ${strategy.label} parameters: ${result.error.errors.map(e => e.message).join('; ')}`;
+  }
+  return null;
+};
+
+// Parameters checked by getStrategyConfigError with defaults filled in, as stored on the period
+export const normalizeStrategyParams = (name: string, params: unknown): object => {
+  return getAssignmentStrategy(name)!.paramsSchema.parse(params ?? {});
+};
+
+export const resolvePeriodStrategy = (period: { assignmentStrategy: string; strategyParams: string | null }) => {
+  const strategy = getAssignmentStrategy(period.assignmentStrategy);
+  if (!strategy) {
+    throw new Error(`Unknown assignment strategy ${period.assignmentStrategy}`);
+  }
+
+  return {
+    strategy,
+    params: strategy.paramsSchema.parse(period.strategyParams ? JSON.parse(period.strategyParams) : {}),
+  };
+};
@@ -0,0 +1,329 @@
+import crypto from 'crypto';
+import prisma from '../utils/database.js';
+import { getSeniorityPolicy, seniorityAdjustmentsInclude } from '../utils/seniority.js';
+import { routeRequirementsInclude } from '../utils/qualifications.js';
+import { countAwardsByRoute, getRemainingPositions } from '../utils/routePositions.js';
+import { TraceStep } from './assignmentEngine.js';
+import emailService from './email.js';
+import assignmentRunService from './assignmentRuns.js';
+import { resolvePeriodStrategy } from './assignmentStrategies.js';
+import periodLifecycleService from './periodLifecycle.js';
+import periodRosterService from './periodRoster.js';
+
+export const PERIOD_MODES = ['BID', 'DRAFT'] as const;
+
+export const DRAFT_SKIP_POLICIES = ['FLOAT_POOL', 'REQUEUE'] as const;
+
+// A re-queued driver who misses their second window goes to the float pool
+const MAX_REQUEUES = 1;
+
+class DraftService {
+  // Builds the pick order with the period's assignment strategy and opens the first window
+  async startDraft(selectionPeriodId: string, userId: string): Promise<number> {
+    const selectionPeriod = await prisma.selectionPeriod.findUnique({
+      where: { id: selectionPeriodId },
+    });
+
+    if (!selectionPeriod) {
+      throw new Error('Selection period not found');
+    }
+
+    const policy = await getSeniorityPolicy(selectionPeriod.terminalId);
+    const reservations = await prisma.routeReservation.findMany({
+      where: { selectionPeriodId },
+    });
+    const reservedRouteByEmployee = new Map(reservations.map(r => [r.employeeId, r.routeId]));
+
+    const employees = await prisma.employee.findMany({
+      where: {
+        OR: [
+          periodRosterService.getParticipantWhere(selectionPeriod),
+          { id: { in: Array.from(reservedRouteByEmployee.keys()) } },
+        ],
+        terminalId: selectionPeriod.terminalId,
+      },
+      include: { ...seniorityAdjustmentsInclude, qualifications: true },
+    });
+    const { strategy, params } = resolvePeriodStrategy(selectionPeriod);
+    const pickOrder = strategy.orderBidders(employees, employee => employee, params, {
+      seniorityPolicy: policy,
+      asOf: selectionPeriod.startDate,
+    });
+
+    await prisma.$transaction(async (tx) => {
+      await tx.draftPick.deleteMany({
+        where: { selectionPeriodId },
+      });
+
+      await tx.draftPick.createMany({
+        data: pickOrder.map((employee, index) => ({
+          selectionPeriodId,
+          employeeId: employee.id,
+          position: index + 1,
+          seniorityRank: index + 1,
+          // Reserved drivers hold their route from the start and never get a window
+          ...(reservedRouteByEmployee.has(employee.id)
+            ? { status: 'RESERVED', routeId: reservedRouteByEmployee.get(employee.id) }
+            : {}),
+        })),
+      });
+
+      if (selectionPeriod.status !== 'OPEN') {
+        await periodLifecycleService.transition(selectionPeriodId, 'OPEN', { trigger: 'SYSTEM', userId, reason: 'Draft started', tx });
+      }
+
+      await tx.selectionPeriod.update({
+        where: { id: selectionPeriodId },
+        data: { draftStartedAt: new Date() },
+      });
+    });
+
+    await this.openNextWindow(selectionPeriodId);
+
+    return pickOrder.length;
+  }
+
+  async getAvailableRoutes(selectionPeriodId: string) {
+    const [periodRoutes, picks] = await Promise.all([
+      prisma.periodRoute.findMany({
+        where: { selectionPeriodId },
+        include: {
+          route: {
+            include: routeRequirementsInclude,
+          },
+        },
+      }),
+      prisma.draftPick.findMany({
+        where: { selectionPeriodId, routeId: { not: null } },
+        select: { routeId: true },
+      }),
+    ]);
+
+    const pickCounts = countAwardsByRoute(picks);
+    return periodRoutes
+      .map(pr => ({ ...pr.route, remainingPositions: getRemainingPositions(pr.route, pickCounts) }))
+      .filter(route => route.remainingPositions > 0);
+  }
+
+  // Records the driver's pick and hands the turn to the next driver. Returns false, changing
+  // nothing, if the pick's window was closed (skipped or expired) before the pick landed.
+  async submitPick(selectionPeriodId: string, draftPickId: string, routeId: string): Promise<boolean> {
+    const { count } = await prisma.draftPick.updateMany({
+      where: { id: draftPickId, status: 'ACTIVE' },
+      data: {
+        status: 'PICKED',
+        routeId,
+        pickedAt: new Date(),
+      },
+    });
+
+    if (count !== 1) {
+      return false;
+    }
+
+    await this.openNextWindow(selectionPeriodId);
+    return true;
+  }
+
+  // Ends the driver's turn without a pick, applying the period's skip policy. Only the pick the
+  // caller saw on the clock is skipped: if the driver picked in the meantime, the next driver's
+  // window is left alone and false is returned.
+  async skipPick(selectionPeriodId: string, draftPickId: string): Promise<boolean> {
+    const [selectionPeriod, pick] = await Promise.all([
+      prisma.selectionPeriod.findUnique({ where: { id: selectionPeriodId } }),
+      prisma.draftPick.findUnique({ where: { id: draftPickId } }),
+    ]);
+
+    if (!selectionPeriod || !pick || pick.selectionPeriodId !== selectionPeriodId) {
+      return false;
+    }
+
+    let count: number;
+    if (selectionPeriod.draftSkipPolicy === 'REQUEUE' && pick.requeueCount < MAX_REQUEUES) {
+      const lastPick = await prisma.draftPick.findFirst({
+        where: { selectionPeriodId },
+        orderBy: { position: 'desc' },
+      });
+
+      ({ count } = await prisma.draftPick.updateMany({
+        where: { id: pick.id, status: 'ACTIVE' },
+        data: {
+          status: 'PENDING',
+          position: (lastPick?.position || 0) + 1,
+          requeueCount: pick.requeueCount + 1,
+          windowStart: null,
+          windowEnd: null,
+        },
+      }));
+    } else {
+      ({ count } = await prisma.draftPick.updateMany({
+        where: { id: pick.id, status: 'ACTIVE' },
+        data: { status: 'SKIPPED' },
+      }));
+    }
+
+    if (count !== 1) {
+      return false;
+    }
+
+    await this.openNextWindow(selectionPeriodId);
+    return true;
+  }
+
+  // Skips every driver whose pick window has run out; called by the scheduler and the board
+  async advanceExpiredWindows(selectionPeriodId?: string): Promise<number> {
+    const expiredPicks = await prisma.draftPick.findMany({
+      where: {
+        status: 'ACTIVE',
+        windowEnd: { lt: new Date() },
+        ...(selectionPeriodId ? { selectionPeriodId } : {}),
+      },
+    });
+
+    let skipped = 0;
+    for (const pick of expiredPicks) {
+      if (await this.skipPick(pick.selectionPeriodId, pick.id)) {
+        skipped++;
+      }
+    }
+
+    return skipped;
+  }
+
+  private async openNextWindow(selectionPeriodId: string): Promise<void> {
+    const selectionPeriod = await prisma.selectionPeriod.findUnique({
+      where: { id: selectionPeriodId },
+      include: { terminal: true },
+    });
+
+    if (!selectionPeriod) {
+      return;
+    }
+
+    const activePick = await prisma.draftPick.findFirst({
+      where: { selectionPeriodId, status: 'ACTIVE' },
+    });
+    if (activePick) {
+      return;
+    }
+
+    const availableRoutes = await this.getAvailableRoutes(selectionPeriodId);
+
+    // Once every route is claimed the remaining drivers can only land in the float pool
+    if (availableRoutes.length === 0) {
+      await prisma.draftPick.updateMany({
+        where: { selectionPeriodId, status: 'PENDING' },
+        data: { status: 'SKIPPED' },
+      });
+    }
+
+    const nextPick = await prisma.draftPick.findFirst({
+      where: { selectionPeriodId, status: 'PENDING' },
+      orderBy: { position: 'asc' },
+      include: { employee: true },
+    });
+
+    if (!nextPick) {
+      await this.finalizeDraft(selectionPeriodId);
+      return;
+    }
+
+    const windowStart = new Date();
+    const windowEnd = new Date(windowStart.getTime() + selectionPeriod.draftPickMinutes * 60 * 1000);
+
+    await prisma.draftPick.update({
+      where: { id: nextPick.id },
+      data: {
+        status: 'ACTIVE',
+        windowStart,
+        windowEnd,
+      },
+    });
+
+    if (nextPick.employee.email) {
+      try {
+        await emailService.sendDraftTurnNotification(
+          nextPick.employee.email,
+          `${nextPick.employee.firstName} ${nextPick.employee.lastName}`,
+          {
+            periodName: selectionPeriod.name,
+            windowEnd,
+            availableRoutes: availableRoutes.length,
+            timeZone: selectionPeriod.terminal.timeZone,
+          }
+        );
+      } catch (error) {
+        console.error(`Failed to send draft notification to ${nextPick.employee.email}:`, error);
+      }
+    }
+  }
+
+  // Records the draft results as a run and completes the period. Picks are final once made,
+  // so the run is published immediately.
+  private async finalizeDraft(selectionPeriodId: string): Promise<void> {
+    const [selectionPeriod, picks, reservations] = await Promise.all([
+      prisma.selectionPeriod.findUnique({
+        where: { id: selectionPeriodId },
+      }),
+      prisma.draftPick.findMany({
+        where: { selectionPeriodId },
+        include: { route: true },
+        orderBy: { seniorityRank: 'asc' },
+      }),
+      prisma.routeReservation.findMany({
+        where: { selectionPeriodId },
+      }),
+    ]);
+
+    if (!selectionPeriod) {
+      return;
+    }
+
+    const reservationReasons = new Map(reservations.map(r => [r.employeeId, r.reason]));
+    const isReserved = (pick: { status: string }) => pick.status === 'RESERVED';
+
+    await prisma.$transaction(async (tx) => {
+      await periodLifecycleService.transition(selectionPeriodId, 'COMPLETED', { trigger: 'SYSTEM', reason: 'Last pick made', tx });
+
+      const pickOrder = picks.map(pick => ({ employeeId: pick.employeeId, position: pick.position, routeId: pick.routeId }));
+      const runId = await assignmentRunService.recordRun(tx, selectionPeriodId, {
+        inputsHash: crypto.createHash('sha256').update(JSON.stringify(pickOrder)).digest('hex'),
+        summary: {
+          totalEmployees: picks.length,
+          assignedRoutes: picks.filter(p => p.routeId).length,
+          floatPoolEmployees: picks.filter(p => !p.routeId).length,
+        },
+        results: picks.map(pick => {
+          const steps: TraceStep[] = pick.route && !isReserved(pick)
+            ? [{ round: 1, choice: 1, routeId: pick.route.id, runNumber: pick.route.runNumber, outcome: 'TAKEN' }]
+            : [];
+          return {
+            employeeId: pick.employeeId,
+            routeId: pick.routeId,
+            choiceReceived: pick.routeId && !isReserved(pick) ? 1 : null,
+            round: 1,
+            seniorityRank: pick.seniorityRank,
+            reason: isReserved(pick)
+              ? `Reserved route: ${reservationReasons.get(pick.employeeId) || 'pre-assigned'}`
+              : pick.route
+                ? `Claimed route ${pick.route.runNumber} in live draft`
+                : 'No pick made during the live draft',
+            steps,
+          };
+        }),
+        strategy: {
+          name: selectionPeriod.assignmentStrategy,
+          params: resolvePeriodStrategy(selectionPeriod).params,
+        },
+      });
+
+      await assignmentRunService.applyRun(tx, runId, null);
+    });
+
+    console.log(`Live draft completed for period ${selectionPeriodId}`);
+  }
+}
+
+// Create and export singleton instance
+const draftService = new DraftService();
+export default draftService;
@@ -1,5 +1,7 @@
 import nodemailer from 'nodemailer';
 import { Transporter } from 'nodemailer';
+import { getOrdinal } from '../utils/choiceRanks.js';
+import { formatZonedDate, formatZonedDateTime } from '../utils/timeZone.js';
 
 interface EmailOptions {
   to: string | string[];
@@ -127,6 +129,7 @@ class EmailService {
       name: string;
       startDate: Date;
       endDate: Date;
+      timeZone: string;
     }
   ): Promise<void> {
     const subject = `Route Selection Period Now Open: ${periodDetails.name}`;
@@ -158,8 +161,8 @@ class EmailService {
             
             <h3>Selection Period Details:</h3>
             <ul>
-              <li><strong>Start Date:</strong> ${periodDetails.startDate.toLocaleDateString()}</li>
-              <li><strong>End Date:</strong> ${periodDetails.endDate.toLocaleDateString()}</li>
+              <li><strong>Start Date:</strong> ${formatZonedDate(periodDetails.startDate, periodDetails.timeZone)}</li>
+              <li><strong>End Date:</strong> ${formatZonedDateTime(periodDetails.endDate, periodDetails.timeZone)}</li>
             </ul>
             
             <h3>How to Submit Your Selection:</h3>
@@ -204,8 +207,8 @@ Dear ${recipientName},
 The route selection period "${periodDetails.name}" is now open.
 
 Selection Period Details:
-- Start Date: ${periodDetails.startDate.toLocaleDateString()}
-- End Date: ${periodDetails.endDate.toLocaleDateString()}
+- Start Date: ${formatZonedDate(periodDetails.startDate, periodDetails.timeZone)}
+- End Date: ${formatZonedDateTime(periodDetails.endDate, periodDetails.timeZone)}
 
 How to Submit Your Selection:
 1. Log in to your driver portal
@@ -256,7 +259,7 @@ This is an automated message. Please do not reply to this email.
     const subject = `Route Assignment Notification - ${assignmentDetails.periodName}`;
     
     const assignmentText = assignmentDetails.choiceReceived
-      ? `You have been assigned your ${this.getOrdinal(assignmentDetails.choiceReceived)} choice:`
+      ? `You have been assigned your ${getOrdinal(assignmentDetails.choiceReceived)} choice:`
       : 'You have been assigned to the float pool and will receive the following route:';
 
     const html = `
@@ -346,21 +349,24 @@ This is an automated message. Please do not reply to this email.
     });
   }
 
-  private getOrdinal(n: number): string {
-    const s = ['th', 'st', 'nd', 'rd'];
-    const v = n % 100;
-    return n + (s[(v - 20) % 10] || s[v] || s[0]);
-  }
-
   async sendSelectionPeriodReminder(
     recipientEmail: string,
     recipientName: string,
     periodDetails: {
       name: string;
       endDate: Date;
+      timeZone: string;
+      requiredSelections: number;
+      // The driver's seniority band closes before the period does
+      bandWindow?: boolean;
     }
   ): Promise<void> {
-    const subject = `Reminder: Route Selection Period Closing Soon - ${periodDetails.name}`;
+    const subject = periodDetails.bandWindow
+      ? `Reminder: Your Route Selection Window Closes Soon - ${periodDetails.name}`
+      : `Reminder: Route Selection Period Closing Soon - ${periodDetails.name}`;
+    const closingNotice = periodDetails.bandWindow
+      ? `Your seniority band's window to submit for the route selection period "${periodDetails.name}" closes tomorrow!`
+      : `The route selection period "${periodDetails.name}" will close tomorrow!`;
     
     const html = `
       <!DOCTYPE html>
@@ -386,11 +392,11 @@ This is an automated message. Please do not reply to this email.
             <p>Dear ${recipientName},</p>
             
             <div class="warning">
-              <strong>IMPORTANT:</strong> The route selection period "<strong>${periodDetails.name}</strong>" will close tomorrow!
+              <strong>IMPORTANT:</strong> ${closingNotice}
             </div>
             
             <div class="countdown">
-              Closing Date: ${periodDetails.endDate.toLocaleDateString()}
+              Closing Date: ${formatZonedDateTime(periodDetails.endDate, periodDetails.timeZone)}
             </div>
             
             <p>If you have not yet submitted your route preferences, please do so immediately to ensure you are considered for route assignments.</p>
@@ -399,7 +405,7 @@ This is an automated message. Please do not reply to this email.
             <ol>
               <li>Log in to your driver portal</li>
               <li>Navigate to "Route Selection"</li>
-              <li>Select up to 3 route preferences in order of priority</li>
+              <li>Select up to ${periodDetails.requiredSelections} route preferences in order of priority</li>
               <li>Submit your selections</li>
             </ol>
             
@@ -427,16 +433,16 @@ This is an automated message. Please do not reply to this email.
     const text = `
 Dear ${recipientName},
 
-IMPORTANT: The route selection period "${periodDetails.name}" will close tomorrow!
+IMPORTANT: ${closingNotice}
 
-Closing Date: ${periodDetails.endDate.toLocaleDateString()}
+Closing Date: ${formatZonedDateTime(periodDetails.endDate, periodDetails.timeZone)}
 
 If you have not yet submitted your route preferences, please do so immediately to ensure you are considered for route assignments.
 
 Quick Reminder - How to Submit:
 1. Log in to your driver portal
 2. Navigate to "Route Selection"
-3. Select up to 3 route preferences in order of priority
+3. Select up to ${periodDetails.requiredSelections} route preferences in order of priority
 4. Submit your selections
 
 Drivers who do not submit their preferences will be assigned to the float pool.
@@ -459,6 +465,400 @@ This is an automated reminder. Please do not reply to this email.
     });
   }
 
+  async sendSelectionPeriodClosedNotification(
+    recipientEmail: string,
+    recipientName: string,
+    periodDetails: {
+      name: string;
+      closedAt: Date;
+      timeZone: string;
+      // Whether the driver had a selection in when the period closed
+      submitted: boolean;
+    }
+  ): Promise<void> {
+    const subject = `Route Selection Period Closed: ${periodDetails.name}`;
+    const outcome = periodDetails.submitted
+      ? 'Your route preferences were received and will be processed by seniority.'
+      : 'No route preferences were received from you. Drivers who do not submit are assigned to the float pool.';
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background-color: #4b5563; color: white; padding: 20px; text-align: center; }
+          .content { background-color: #f9f9f9; padding: 20px; }
+          .footer { text-align: center; padding: 20px; color: #666; font-size: 12px; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>Route Selection Period Closed</h1>
+          </div>
+          <div class="content">
+            <p>Dear ${recipientName},</p>
+            
+            <p>The route selection period "<strong>${periodDetails.name}</strong>" closed on ${formatZonedDateTime(periodDetails.closedAt, periodDetails.timeZone)}.</p>
+            
+            <p>${outcome}</p>
+            
+            <p>You will be notified of your assignment once the results are published.</p>
+            
+            <p>Thank you,<br>Route Selection Team</p>
+          </div>
+          <div class="footer">
+            <p>This is an automated message. Please do not reply to this email.</p>
+            <p>&copy; 2024 Route Selection System. All rights reserved.</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+
+    const text = `
+Dear ${recipientName},
+
+The route selection period "${periodDetails.name}" closed on ${formatZonedDateTime(periodDetails.closedAt, periodDetails.timeZone)}.
+
+${outcome}
+
+You will be notified of your assignment once the results are published.
+
+Thank you,
+Route Selection Team
+
+This is an automated message. Please do not reply to this email.
+`;
+
+    await this.sendEmail({
+      to: recipientEmail,
+      subject,
+      text,
+      html,
+    });
+  }
+
+  async sendSecondRoundNotification(
+    recipientEmail: string,
+    recipientName: string,
+    roundDetails: {
+      periodName: string;
+      endDate: Date;
+      availableRoutes: number;
+      timeZone: string;
+    }
+  ): Promise<void> {
+    const subject = `Second Round Route Selection Open - ${roundDetails.periodName}`;
+    
+    const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background-color: #7c3aed; color: white; padding: 20px; text-align: center; }
+          .content { background-color: #f9f9f9; padding: 20px; }
+          .button { background-color: #7c3aed; color: white; padding: 12px 30px; text-decoration: none; border-radius: 5px; display: inline-block; margin: 20px 0; }
+          .footer { text-align: center; padding: 20px; color: #666; font-size: 12px; }
+          .warning { background-color: #fff3cd; border: 1px solid #ffeaa7; padding: 15px; border-radius: 5px; margin: 20px 0; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>Second Round Route Selection</h1>
+          </div>
+          <div class="content">
+            <p>Dear ${recipientName},</p>
+            
+            <p>You were placed in the float pool after the first round of "<strong>${roundDetails.periodName}</strong>". 
+            ${roundDetails.availableRoutes} route${roundDetails.availableRoutes !== 1 ? 's are' : ' is'} still unclaimed, and you may now rank them in a second round.</p>
+            
+            <div class="warning">
+              <strong>Deadline:</strong> ${formatZonedDateTime(roundDetails.endDate, roundDetails.timeZone)}
+            </div>
+            
+            <p>Second round routes are awarded in seniority order, just like the first round. If you do not submit a ranking you will remain in the float pool.</p>
+            
+            <div style="text-align: center;">
+              <a href="${process.env.APP_URL || 'http://localhost:3001'}/login" class="button">Go to Driver Portal</a>
+            </div>
+            
+            <p>Thank you,<br>Route Selection Team</p>
+          </div>
+          <div class="footer">
+            <p>This is an automated message. Please do not reply to this email.</p>
+            <p>&copy; 2024 Route Selection System. All rights reserved.</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+
+    const text = `
+Dear ${recipientName},
+
+You were placed in the float pool after the first round of "${roundDetails.periodName}". ${roundDetails.availableRoutes} route(s) are still unclaimed, and you may now rank them in a second round.
+
+Deadline: ${formatZonedDateTime(roundDetails.endDate, roundDetails.timeZone)}
+
+Second round routes are awarded in seniority order, just like the first round. If you do not submit a ranking you will remain in the float pool.
+
+Driver Portal: ${process.env.APP_URL || 'http://localhost:3001'}/login
+
+Thank you,
+Route Selection Team
+
+This is an automated message. Please do not reply to this email.
+`;
+
+    await this.sendEmail({
+      to: recipientEmail,
+      subject,
+      text,
+      html,
+    });
+  }
+
+  async sendDraftTurnNotification(
+    recipientEmail: string,
+    recipientName: string,
+    turnDetails: {
+      periodName: string;
+      windowEnd: Date;
+      timeZone: string;
+      availableRoutes: number;
+    }
+  ): Promise<void> {
+    const subject = `It's Your Turn to Pick - ${turnDetails.periodName}`;
+    
+    const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background-color: #2563eb; color: white; padding: 20px; text-align: center; }
+          .content { background-color: #f9f9f9; padding: 20px; }
+          .button { background-color: #2563eb; color: white; padding: 12px 30px; text-decoration: none; border-radius: 5px; display: inline-block; margin: 20px 0; }
+          .footer { text-align: center; padding: 20px; color: #666; font-size: 12px; }
+          .warning { background-color: #fff3cd; border: 1px solid #ffeaa7; padding: 15px; border-radius: 5px; margin: 20px 0; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>Your Draft Pick Is Up</h1>
+          </div>
+          <div class="content">
+            <p>Dear ${recipientName},</p>
+            
+            <p>It is now your turn to claim a route in the live draft for "<strong>${turnDetails.periodName}</strong>". 
+            ${turnDetails.availableRoutes} route${turnDetails.availableRoutes !== 1 ? 's are' : ' is'} still open.</p>
+            
+            <div class="warning">
+              <strong>Pick by:</strong> ${formatZonedDateTime(turnDetails.windowEnd, turnDetails.timeZone)}<br>
+              If you do not pick in time, your turn will be skipped.
+            </div>
+            
+            <div style="text-align: center;">
+              <a href="${process.env.APP_URL || 'http://localhost:3001'}/login" class="button">Go to Draft Board</a>
+            </div>
+            
+            <p>Thank you,<br>Route Selection Team</p>
+          </div>
+          <div class="footer">
+            <p>This is an automated message. Please do not reply to this email.</p>
+            <p>&copy; 2024 Route Selection System. All rights reserved.</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+
+    const text = `
+Dear ${recipientName},
+
+It is now your turn to claim a route in the live draft for "${turnDetails.periodName}". ${turnDetails.availableRoutes} route(s) are still open.
+
+Pick by: ${formatZonedDateTime(turnDetails.windowEnd, turnDetails.timeZone)}
+If you do not pick in time, your turn will be skipped.
+
+Draft Board: ${process.env.APP_URL || 'http://localhost:3001'}/login
+
+Thank you,
+Route Selection Team
+
+This is an automated message. Please do not reply to this email.
+`;
+
+    await this.sendEmail({
+      to: recipientEmail,
+      subject,
+      text,
+      html,
+    });
+  }
+
+  async sendBumpWindowNotification(
+    recipientEmail: string,
+    recipientName: string,
+    bumpDetails: {
+      runNumber: string;
+      // Who took the route, or null when the route itself was abolished
+      displacedBy: string | null;
+      windowEnd: Date;
+      timeZone: string;
+      bumpOptions: number;
+    }
+  ): Promise<void> {
+    const subject = `You Have Been Displaced from Route ${bumpDetails.runNumber}`;
+    const cause = bumpDetails.displacedBy
+      ? `${bumpDetails.displacedBy}, who is senior to you, has exercised bump rights onto route ${bumpDetails.runNumber}`
+      : `Route ${bumpDetails.runNumber} has been abolished`;
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background-color: #2563eb; color: white; padding: 20px; text-align: center; }
+          .content { background-color: #f9f9f9; padding: 20px; }
+          .button { background-color: #2563eb; color: white; padding: 12px 30px; text-decoration: none; border-radius: 5px; display: inline-block; margin: 20px 0; }
+          .footer { text-align: center; padding: 20px; color: #666; font-size: 12px; }
+          .warning { background-color: #fff3cd; border: 1px solid #ffeaa7; padding: 15px; border-radius: 5px; margin: 20px 0; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>Your Bump Window Is Open</h1>
+          </div>
+          <div class="content">
+            <p>Dear ${recipientName},</p>
+            
+            <p>${cause}, so you no longer hold it. You may claim a route held by a more junior driver;
+            ${bumpDetails.bumpOptions} route${bumpDetails.bumpOptions !== 1 ? 's are' : ' is'} open to you.</p>
+            
+            <div class="warning">
+              <strong>Decide by:</strong> ${formatZonedDateTime(bumpDetails.windowEnd, bumpDetails.timeZone)}<br>
+              If you do not bump in time, you will be placed in the float pool.
+            </div>
+            
+            <div style="text-align: center;">
+              <a href="${process.env.APP_URL || 'http://localhost:3001'}/login" class="button">Choose a Route</a>
+            </div>
+            
+            <p>Thank you,<br>Route Selection Team</p>
+          </div>
+          <div class="footer">
+            <p>This is an automated message. Please do not reply to this email.</p>
+            <p>&copy; 2024 Route Selection System. All rights reserved.</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+
+    const text = `
+Dear ${recipientName},
+
+${cause}, so you no longer hold it. You may claim a route held by a more junior driver; ${bumpDetails.bumpOptions} route(s) are open to you.
+
+Decide by: ${formatZonedDateTime(bumpDetails.windowEnd, bumpDetails.timeZone)}
+If you do not bump in time, you will be placed in the float pool.
+
+Choose a Route: ${process.env.APP_URL || 'http://localhost:3001'}/login
+
+Thank you,
+Route Selection Team
+
+This is an automated message. Please do not reply to this email.
+`;
+
+    await this.sendEmail({
+      to: recipientEmail,
+      subject,
+      text,
+      html,
+    });
+  }
+
+  async sendBumpOutcomeNotification(
+    recipientEmail: string,
+    recipientName: string,
+    outcome: {
+      fromRunNumber: string;
+      // The route claimed, or null when the driver declined or let the window lapse
+      newRunNumber: string | null;
+    }
+  ): Promise<void> {
+    const subject = outcome.newRunNumber
+      ? `Route ${outcome.newRunNumber} Confirmed`
+      : 'Placed in the Float Pool';
+    const message = outcome.newRunNumber
+      ? `Your bump from route ${outcome.fromRunNumber} onto route <strong>${outcome.newRunNumber}</strong> is confirmed. It is now your current route.`
+      : `You did not bump after being displaced from route ${outcome.fromRunNumber}, so you have been placed in the float pool.`;
+
+    const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background-color: #2563eb; color: white; padding: 20px; text-align: center; }
+          .content { background-color: #f9f9f9; padding: 20px; }
+          .footer { text-align: center; padding: 20px; color: #666; font-size: 12px; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>${subject}</h1>
+          </div>
+          <div class="content">
+            <p>Dear ${recipientName},</p>
+            
+            <p>${message}</p>
+            
+            <p>Thank you,<br>Route Selection Team</p>
+          </div>
+          <div class="footer">
+            <p>This is an automated message. Please do not reply to this email.</p>
+            <p>&copy; 2024 Route Selection System. All rights reserved.</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+
+    const text = `
+Dear ${recipientName},
+
+${message.replace(/<\/?strong>/g, '')}
+
+Thank you,
+Route Selection Team
+
+This is an automated message. Please do not reply to this email.
+`;
+
+    await this.sendEmail({
+      to: recipientEmail,
+      subject,
+      text,
+      html,
+    });
+  }
+
   async sendPasswordResetEmail(
     recipientEmail: string,
     recipientName: string,
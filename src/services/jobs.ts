@@ -0,0 +1,473 @@
+import { Job, Prisma } from '@prisma/client';
+import prisma from '../utils/database.js';
+import { AssignmentEngine } from './assignmentEngine.js';
+import assignmentRunService from './assignmentRuns.js';
+import periodLifecycleService from './periodLifecycle.js';
+
+export const JOB_TYPES = ['PROCESS_ASSIGNMENTS', 'PROCESS_BATCH'] as const;
+export type JobType = typeof JOB_TYPES[number];
+
+// A job interrupted by a server restart is picked up again this many times before it fails
+const MAX_ATTEMPTS = 3;
+
+// Progress is written at most this often, so a big terminal doesn't cost a write per driver
+const PROGRESS_INTERVAL_MS = 1000;
+
+interface JobProgress {
+  phase: string;
+  processed: number;
+  total: number;
+}
+
+type ProgressReporter = (progress: JobProgress) => void;
+
+interface JobHandler {
+  run(job: Job, report: ProgressReporter): Promise<object>;
+  // Puts the job's subject back the way it was once the job gives up
+  onFailed(job: Job, error: string): Promise<void>;
+}
+
+interface ProcessAssignmentsCheckpoint {
+  // Written in the transaction that saves the run, so a resumed job finishes up instead of processing again
+  runId?: string;
+}
+
+export interface BatchPayload {
+  terminalIds: string[];
+  // The CLOSED periods found when the batch was queued, in processing order
+  periodIds: string[];
+}
+
+export interface BatchPeriodReport {
+  selectionPeriodId: string;
+  periodName: string;
+  terminalId: string;
+  terminalName: string;
+  outcome: 'PROCESSED' | 'VALIDATION_FAILED' | 'FAILED';
+  runId?: string;
+  summary?: ReturnType<AssignmentEngine['getAssignmentSummary']>;
+  errors?: string[];
+}
+
+interface BatchCheckpoint {
+  // Periods finished so far; a resumed batch carries on after the last one
+  reports: BatchPeriodReport[];
+  // Each period's run, written in the transaction that saves it, so a resumed batch finishes up a
+  // period whose run was saved instead of processing it again
+  runIds: Record<string, string>;
+}
+
+type PeriodOutcome = { runId: string } | { validationErrors: string[] };
+
+class JobService {
+  private handlers: Record<JobType, JobHandler> = {
+    PROCESS_ASSIGNMENTS: {
+      run: (job, report) => this.processAssignments(job, report),
+      onFailed: (job, error) => this.resetProcessingPeriod(job, error),
+    },
+    PROCESS_BATCH: {
+      run: (job, report) => this.processBatch(job, report),
+      onFailed: (job, error) => this.resetBatchPeriods(job, error),
+    },
+  };
+  private working = false;
+
+  async enqueue(
+    type: JobType,
+    target: { selectionPeriodId?: string; periodIds?: string[]; payload?: object },
+    createdById: string
+  ): Promise<Job> {
+    const job = await prisma.job.create({
+      data: {
+        type,
+        selectionPeriodId: target.selectionPeriodId,
+        payload: target.payload ? JSON.stringify(target.payload) : null,
+        createdById,
+        periods: target.periodIds ? {
+          create: target.periodIds.map(selectionPeriodId => ({ selectionPeriodId })),
+        } : undefined,
+      },
+    });
+
+    this.kick();
+    return job;
+  }
+
+  // A queued or running job that will process the period, on its own or as part of a batch
+  async getActiveJobForPeriod(selectionPeriodId: string): Promise<Job | null> {
+    return prisma.job.findFirst({
+      where: {
+        status: { in: ['QUEUED', 'RUNNING'] },
+        OR: [
+          { selectionPeriodId },
+          { periods: { some: { selectionPeriodId } } },
+        ],
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  // Starts the worker if it is idle; it works through the queue oldest first, one job at a time
+  kick(): void {
+    if (this.working) {
+      return;
+    }
+
+    this.working = true;
+    this.drainQueue()
+      .catch(error => console.error('Job queue error:', error))
+      .finally(() => {
+        this.working = false;
+      });
+  }
+
+  // Called on startup: jobs left RUNNING were cut off by the restart. They go back on the queue
+  // to resume from their checkpoint, or fail once they have used up their attempts.
+  async recoverInterruptedJobs(): Promise<number> {
+    const interrupted = await prisma.job.findMany({
+      where: { status: 'RUNNING' },
+    });
+
+    for (const job of interrupted) {
+      if (job.attempts < MAX_ATTEMPTS) {
+        await prisma.job.update({
+          where: { id: job.id },
+          data: { status: 'QUEUED', phase: null, processed: 0, total: 0 },
+        });
+      } else {
+        await this.failJob(job, 'Interrupted by a server restart too many times');
+      }
+    }
+
+    this.kick();
+    return interrupted.length;
+  }
+
+  private async drainQueue(): Promise<void> {
+    for (let job = await this.claimNext(); job; job = await this.claimNext()) {
+      await this.runJob(job);
+    }
+  }
+
+  private async claimNext(): Promise<Job | null> {
+    const next = await prisma.job.findFirst({
+      where: { status: 'QUEUED' },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    if (!next) {
+      return null;
+    }
+
+    // Only claim the job if nothing else has since
+    const { count } = await prisma.job.updateMany({
+      where: { id: next.id, status: 'QUEUED' },
+      data: {
+        status: 'RUNNING',
+        attempts: { increment: 1 },
+        startedAt: next.startedAt || new Date(),
+      },
+    });
+
+    if (count === 0) {
+      return this.claimNext();
+    }
+
+    return prisma.job.findUnique({ where: { id: next.id } });
+  }
+
+  private async runJob(job: Job): Promise<void> {
+    const handler = this.handlers[job.type as JobType];
+    if (!handler) {
+      await this.failJob(job, `Unknown job type ${job.type}`);
+      return;
+    }
+
+    let lastPhase: string | null = null;
+    let lastWrite = 0;
+    let writes: Promise<unknown> = Promise.resolve();
+    const report: ProgressReporter = ({ phase, processed, total }) => {
+      const now = Date.now();
+      if (phase === lastPhase && processed < total && now - lastWrite < PROGRESS_INTERVAL_MS) {
+        return;
+      }
+
+      lastPhase = phase;
+      lastWrite = now;
+      writes = writes
+        .then(() => prisma.job.update({ where: { id: job.id }, data: { phase, processed, total } }))
+        .catch(error => console.error('Job progress error:', error));
+    };
+
+    try {
+      const result = await handler.run(job, report);
+      await writes;
+
+      await prisma.job.update({
+        where: { id: job.id },
+        data: {
+          status: 'SUCCEEDED',
+          phase: 'DONE',
+          result: JSON.stringify(result),
+          finishedAt: new Date(),
+        },
+      });
+    } catch (error) {
+      console.error(`Job ${job.id} (${job.type}) failed:`, error);
+      await writes;
+      await this.failJob(job, error instanceof Error ? error.message : 'Job failed');
+    }
+  }
+
+  private async failJob(job: Job, message: string): Promise<void> {
+    await prisma.job.update({
+      where: { id: job.id },
+      data: { status: 'FAILED', error: message, finishedAt: new Date() },
+    });
+
+    try {
+      await this.handlers[job.type as JobType]?.onFailed(job, message);
+    } catch (error) {
+      console.error(`Job ${job.id} cleanup error:`, error);
+    }
+  }
+
+  private async saveCheckpoint(jobId: string, checkpoint: ProcessAssignmentsCheckpoint | BatchCheckpoint): Promise<void> {
+    await prisma.job.update({
+      where: { id: jobId },
+      data: { checkpoint: JSON.stringify(checkpoint) },
+    });
+  }
+
+  // Runs the engine for one period and saves its results as a new unpublished run. onSaved runs
+  // in the transaction that saves it.
+  private async processPeriod(
+    periodId: string,
+    createdById: string,
+    report?: ProgressReporter,
+    onSaved?: (tx: Prisma.TransactionClient, runId: string) => Promise<unknown>
+  ): Promise<PeriodOutcome> {
+    const engine = new AssignmentEngine(report);
+    await engine.processAssignments(periodId);
+
+    const validation = engine.validateAssignments();
+    if (!validation.isValid) {
+      return { validationErrors: validation.errors };
+    }
+
+    return { runId: await engine.saveAssignments(periodId, createdById, onSaved) };
+  }
+
+  // The period goes back to CLOSED for the run to be reviewed; publishing a run completes it.
+  // A resumed job may find this already done, or the run already published.
+  private async finishProcessing(periodId: string, runId: string, createdById: string, resultCount: number): Promise<void> {
+    const period = await prisma.selectionPeriod.findUnique({
+      where: { id: periodId },
+    });
+
+    if (period?.status !== 'PROCESSING') {
+      return;
+    }
+
+    const { period: selectionPeriod } = await periodLifecycleService.transition(periodId, 'CLOSED', {
+      trigger: 'SYSTEM',
+      userId: createdById,
+      reason: `Run ${runId} saved; awaiting publish`,
+    });
+
+    await prisma.auditLog.create({
+      data: {
+        userId: createdById,
+        action: 'PROCESS_ASSIGNMENTS',
+        resource: 'SelectionPeriod',
+        details: `Processed assignments for period ${selectionPeriod.name}. Total: ${resultCount} assignments. Run ${runId} awaiting publish`,
+      },
+    });
+  }
+
+  // Processes one period into an unpublished run, then returns it to CLOSED for review
+  private async processAssignments(job: Job, report: ProgressReporter): Promise<object> {
+    const periodId = job.selectionPeriodId!;
+    const checkpoint: ProcessAssignmentsCheckpoint = job.checkpoint ? JSON.parse(job.checkpoint) : {};
+
+    if (!checkpoint.runId) {
+      const outcome = await this.processPeriod(periodId, job.createdById, report, (tx, runId) =>
+        tx.job.update({
+          where: { id: job.id },
+          data: { checkpoint: JSON.stringify({ ...checkpoint, runId }) },
+        })
+      );
+      if ('validationErrors' in outcome) {
+        throw new Error(`Assignment validation failed: ${outcome.validationErrors.join('; ')}`);
+      }
+
+      checkpoint.runId = outcome.runId;
+    }
+
+    const run = await prisma.assignmentRun.findUnique({
+      where: { id: checkpoint.runId },
+    });
+
+    if (!run) {
+      throw new Error('Assignment run not found');
+    }
+
+    const summary = JSON.parse(run.summary);
+    const results = assignmentRunService.getResults(run);
+    await this.finishProcessing(periodId, run.id, job.createdById, results.length);
+
+    return {
+      runId: run.id,
+      summary,
+      totalProcessed: results.length,
+      totalAssigned: summary.assignedRoutes,
+      totalUnassigned: summary.floatPoolEmployees,
+      assignments: results.map(result => ({
+        employeeId: result.employeeId,
+        routeId: result.routeId,
+        choiceReceived: result.choiceReceived,
+        forced: result.forced ?? false,
+        reason: result.reason,
+        seniorityRank: result.seniorityRank,
+        round: result.round,
+        trace: result.steps,
+      })),
+    };
+  }
+
+  // Processes each period in the batch in turn. A period that fails validation or errors goes back
+  // to CLOSED and is reported; the rest of the batch carries on.
+  private async processBatch(job: Job, report: ProgressReporter): Promise<object> {
+    const payload: BatchPayload = JSON.parse(job.payload!);
+    const checkpoint: BatchCheckpoint = { reports: [], runIds: {}, ...(job.checkpoint ? JSON.parse(job.checkpoint) : {}) };
+    const done = new Set(checkpoint.reports.map(r => r.selectionPeriodId));
+
+    const periods = await prisma.selectionPeriod.findMany({
+      where: { id: { in: payload.periodIds } },
+      include: { terminal: true },
+    });
+    const periodsById = new Map(periods.map(period => [period.id, period]));
+
+    for (const periodId of payload.periodIds) {
+      const period = periodsById.get(periodId);
+      if (done.has(periodId) || !period) {
+        continue;
+      }
+
+      report({ phase: 'PROCESSING_PERIODS', processed: checkpoint.reports.length, total: payload.periodIds.length });
+
+      const periodReport: BatchPeriodReport = {
+        selectionPeriodId: period.id,
+        periodName: period.name,
+        terminalId: period.terminalId,
+        terminalName: period.terminal.name,
+        outcome: 'PROCESSED',
+      };
+
+      try {
+        let runId: string | undefined = checkpoint.runIds[period.id];
+        if (!runId) {
+          const outcome = await this.processPeriod(period.id, job.createdById, undefined, (tx, savedRunId) =>
+            tx.job.update({
+              where: { id: job.id },
+              data: {
+                checkpoint: JSON.stringify({ ...checkpoint, runIds: { ...checkpoint.runIds, [period.id]: savedRunId } }),
+              },
+            })
+          );
+          if ('validationErrors' in outcome) {
+            periodReport.outcome = 'VALIDATION_FAILED';
+            periodReport.errors = outcome.validationErrors;
+          } else {
+            runId = outcome.runId;
+            checkpoint.runIds[period.id] = runId;
+          }
+        }
+
+        if (runId) {
+          const run = await prisma.assignmentRun.findUnique({ where: { id: runId } });
+          periodReport.runId = runId;
+          periodReport.summary = run ? JSON.parse(run.summary) : undefined;
+          await this.finishProcessing(period.id, runId, job.createdById, periodReport.summary?.totalEmployees ?? 0);
+        }
+      } catch (error) {
+        console.error(`Batch processing error for period ${period.id}:`, error);
+        periodReport.outcome = 'FAILED';
+        periodReport.errors = [error instanceof Error ? error.message : 'Processing failed'];
+      }
+
+      if (periodReport.outcome !== 'PROCESSED') {
+        await periodLifecycleService.abandonProcessing(period.id, job.createdById, periodReport.errors!.join('; '));
+      }
+
+      checkpoint.reports.push(periodReport);
+      await this.saveCheckpoint(job.id, checkpoint);
+    }
+
+    report({ phase: 'PROCESSING_PERIODS', processed: checkpoint.reports.length, total: payload.periodIds.length });
+
+    const count = (outcome: BatchPeriodReport['outcome']) => checkpoint.reports.filter(r => r.outcome === outcome).length;
+    await prisma.auditLog.create({
+      data: {
+        userId: job.createdById,
+        action: 'PROCESS_BATCH',
+        resource: 'SelectionPeriod',
+        details: JSON.stringify({
+          jobId: job.id,
+          terminalIds: payload.terminalIds,
+          processed: count('PROCESSED'),
+          validationFailed: count('VALIDATION_FAILED'),
+          failed: count('FAILED'),
+        }),
+      },
+    });
+
+    return {
+      terminalIds: payload.terminalIds,
+      processed: count('PROCESSED'),
+      validationFailed: count('VALIDATION_FAILED'),
+      failed: count('FAILED'),
+      periods: checkpoint.reports,
+    };
+  }
+
+  // A failed run leaves the period CLOSED so processing can be tried again
+  private async resetProcessingPeriod(job: Job, error: string): Promise<void> {
+    if (!job.selectionPeriodId) {
+      return;
+    }
+
+    await periodLifecycleService.abandonProcessing(job.selectionPeriodId, job.createdById, error);
+
+    await prisma.auditLog.create({
+      data: {
+        userId: job.createdById,
+        action: 'PROCESS_ASSIGNMENTS_FAILED',
+        resource: 'SelectionPeriod',
+        details: JSON.stringify({ selectionPeriodId: job.selectionPeriodId, jobId: job.id, error }),
+      },
+    });
+  }
+
+  // Periods the batch never got to are left PROCESSING; put them back to CLOSED
+  private async resetBatchPeriods(job: Job, error: string): Promise<void> {
+    const payload: BatchPayload = JSON.parse(job.payload!);
+
+    for (const periodId of payload.periodIds) {
+      await periodLifecycleService.abandonProcessing(periodId, job.createdById, error);
+    }
+
+    await prisma.auditLog.create({
+      data: {
+        userId: job.createdById,
+        action: 'PROCESS_BATCH_FAILED',
+        resource: 'SelectionPeriod',
+        details: JSON.stringify({ jobId: job.id, terminalIds: payload.terminalIds, error }),
+      },
+    });
+  }
+}
+
+// Create and export singleton instance
+const jobService = new JobService();
+export default jobService;
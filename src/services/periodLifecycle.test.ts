@@ -0,0 +1,125 @@
+import { test, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { Prisma, SelectionPeriod } from '@prisma/client';
+import prisma from '../utils/database.js';
+import emailService from './email.js';
+import periodLifecycleService from './periodLifecycle.js';
+
+const period = {
+  id: 'period-1',
+  name: 'Spring 2026 Bid',
+  terminalId: 'terminal-1',
+  status: 'UPCOMING',
+  mode: 'BID',
+  kind: 'REGULAR',
+  startDate: new Date('2026-03-01T05:00:00Z'),
+  endDate: new Date('2026-03-15T03:59:59Z'),
+  rosterCapturedAt: new Date('2026-03-01T05:00:00Z'),
+} as SelectionPeriod;
+
+const driver = (id: string, submitted: boolean) => ({
+  id,
+  firstName: 'Driver',
+  lastName: id,
+  email: `${id}@example.com`,
+  selections: submitted ? [{ id: `selection-${id}` }] : [],
+});
+
+// Prisma's model delegates are proxies that node:test can't mock, so swap their methods directly
+const stubPrisma = (stubs: Record<string, unknown>) => {
+  const client = prisma as unknown as Record<string, Record<string, unknown>>;
+  const restores: (() => void)[] = [];
+  const replace = (target: Record<string, unknown>, key: string, value: unknown) => {
+    const original = target[key];
+    target[key] = value;
+    restores.push(() => {
+      target[key] = original;
+    });
+  };
+
+  for (const [key, stub] of Object.entries(stubs)) {
+    if (typeof stub === 'function') {
+      replace(client, key, stub);
+    } else {
+      for (const [method, fn] of Object.entries(stub as Record<string, unknown>)) {
+        replace(client[key], method, fn);
+      }
+    }
+  }
+
+  return () => restores.reverse().forEach(restore => restore());
+};
+
+// Just enough of a transaction client to move the fake period out of `from`
+const createTx = (from: string) => ({
+  selectionPeriod: {
+    findUnique: async () => ({ ...period, status: from }),
+    updateMany: async () => ({ count: 1 }),
+  },
+  periodStatusChange: {
+    create: async () => ({}),
+  },
+} as unknown as Prisma.TransactionClient);
+
+// Stubs the roster and email, then resolves with the emails sent once `change` has run and both drivers are notified
+const collectNotices = async (
+  tx: Prisma.TransactionClient,
+  emailMethod: keyof typeof emailService,
+  change: (sent: unknown[]) => Promise<void>
+) => {
+  const restorePrisma = stubPrisma({
+    $transaction: async (fn: (client: Prisma.TransactionClient) => unknown) => fn(tx),
+    terminal: { findUnique: async () => ({ id: 'terminal-1', timeZone: 'America/Denver' }) },
+    employee: { findMany: async () => [driver('a', true), driver('b', false)] },
+  });
+
+  const sent: { email: string; details: Record<string, unknown> }[] = [];
+  const allSent = new Promise<void>(resolve => {
+    mock.method(emailService, emailMethod, async (email: string, _name: string, details: Record<string, unknown>) => {
+      sent.push({ email, details });
+      if (sent.length === 2) {
+        resolve();
+      }
+    });
+  });
+  mock.method(console, 'log', () => {});
+
+  await change(sent);
+  await allSent;
+  mock.restoreAll();
+  restorePrisma();
+  return sent;
+};
+
+// Moves the fake period to `to` and resolves with the emails sent once the commit hooks have run
+const transitionAndCollect = async (from: string, to: 'OPEN' | 'CLOSED', emailMethod: keyof typeof emailService) => {
+  return collectNotices(createTx(from), emailMethod, async () => {
+    await periodLifecycleService.transition(period.id, to, { trigger: 'SCHEDULE' });
+  });
+};
+
+test('opening a bid emails the drivers on its roster', async () => {
+  const sent = await transitionAndCollect('UPCOMING', 'OPEN', 'sendSelectionPeriodNotification');
+
+  assert.deepEqual(sent.map(s => s.email), ['a@example.com', 'b@example.com']);
+  assert.equal(sent[0].details.timeZone, 'America/Denver');
+});
+
+test('closing a bid tells each driver whether their selection was in', async () => {
+  const sent = await transitionAndCollect('OPEN', 'CLOSED', 'sendSelectionPeriodClosedNotification');
+
+  assert.deepEqual(sent.map(s => [s.email, s.details.submitted]), [['a@example.com', true], ['b@example.com', false]]);
+});
+
+test('a status change made in the caller\'s transaction is announced when the caller runs the commit hooks', async () => {
+  const tx = createTx('UPCOMING');
+  const sent = await collectNotices(tx, 'sendSelectionPeriodNotification', async sentSoFar => {
+    const transition = await periodLifecycleService.transition(period.id, 'OPEN', { trigger: 'MANUAL', tx });
+    await new Promise(resolve => setImmediate(resolve));
+    assert.equal(sentSoFar.length, 0);
+
+    periodLifecycleService.runCommitHooks(transition);
+  });
+
+  assert.deepEqual(sent.map(s => s.email), ['a@example.com', 'b@example.com']);
+});
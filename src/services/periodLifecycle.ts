@@ -0,0 +1,391 @@
+import { Prisma, SelectionPeriod } from '@prisma/client';
+import prisma from '../utils/database.js';
+import emailService from './email.js';
+import periodRosterService from './periodRoster.js';
+import submissionWindowService from './submissionWindows.js';
+import { DEFAULT_TIME_ZONE, addDays, toZonedDateString } from '../utils/timeZone.js';
+
+export const PERIOD_STATUSES = ['UPCOMING', 'OPEN', 'CLOSED', 'PROCESSING', 'COMPLETED'] as const;
+export type PeriodStatus = typeof PERIOD_STATUSES[number];
+
+// MANUAL changes come from an admin, SCHEDULE from the period's dates, SYSTEM from processing and drafts
+export type TransitionTrigger = 'MANUAL' | 'SCHEDULE' | 'SYSTEM';
+
+export interface PeriodTransition {
+  period: SelectionPeriod;
+  from: PeriodStatus;
+  to: PeriodStatus;
+  trigger: TransitionTrigger;
+  userId?: string | null;
+  reason?: string;
+}
+
+export type TransitionHook = (transition: PeriodTransition, client: Prisma.TransactionClient) => Promise<void>;
+
+export type CommitHook = (transition: PeriodTransition) => Promise<void>;
+
+interface TransitionOptions {
+  trigger: TransitionTrigger;
+  userId?: string | null;
+  reason?: string;
+  // Run inside the caller's transaction, so the change commits or rolls back with its other writes
+  tx?: Prisma.TransactionClient;
+}
+
+const TRANSITIONS: Record<PeriodStatus, PeriodStatus[]> = {
+  UPCOMING: ['OPEN', 'CLOSED'],
+  OPEN: ['CLOSED', 'COMPLETED'],
+  // A processed bid waits in CLOSED for review, and completes when one of its runs is published
+  CLOSED: ['OPEN', 'PROCESSING', 'COMPLETED'],
+  PROCESSING: ['COMPLETED', 'CLOSED'],
+  COMPLETED: [],
+};
+
+class PeriodLifecycleService {
+  private hooks: TransitionHook[] = [];
+  private commitHooks: CommitHook[] = [];
+
+  constructor() {
+    this.onTransition((transition, client) => this.recordTransition(transition, client));
+    this.onTransition(async (transition, client) => {
+      if (transition.to === 'OPEN' && await periodRosterService.captureRoster(transition.period, client)) {
+        await submissionWindowService.captureBands(transition.period, client);
+      }
+    });
+    this.onCommit(async transition => {
+      await this.sendTransitionNotifications(transition);
+    });
+  }
+
+  // Hooks run after each status change, inside the same transaction
+  onTransition(hook: TransitionHook): void {
+    this.hooks.push(hook);
+  }
+
+  // Hooks run once the status change has committed, for side effects that can't be rolled back
+  // like email. They don't hold up the caller, and a failure is only logged.
+  onCommit(hook: CommitHook): void {
+    this.commitHooks.push(hook);
+  }
+
+  // Returns why the period can't move to the status, or null if it can
+  getTransitionError(period: SelectionPeriod, to: string, trigger: TransitionTrigger): string | null {
+    const from = period.status as PeriodStatus;
+
+    if (!(PERIOD_STATUSES as readonly string[]).includes(to)) {
+      return `Unknown period status ${to}`;
+    }
+
+    if (!(TRANSITIONS[from] || []).includes(to as PeriodStatus)) {
+      return `Cannot transition from ${from} to ${to}`;
+    }
+
+    if (trigger === 'MANUAL' && (from === 'PROCESSING' || to === 'PROCESSING')) {
+      return 'Processing is started from Process Selections and ends when the run is saved';
+    }
+
+    if (trigger === 'MANUAL' && to === 'COMPLETED') {
+      return 'Periods complete when an assignment run is published';
+    }
+
+    if (to === 'PROCESSING' && period.mode === 'DRAFT') {
+      return 'Draft periods are awarded as picks are made';
+    }
+
+    if (from === 'OPEN' && to === 'COMPLETED' && period.mode !== 'DRAFT') {
+      return 'Close the period, process its selections and publish a run to complete it';
+    }
+
+    return null;
+  }
+
+  // Moves the period to a new status, checked by getTransitionError, then runs the hooks. Commit
+  // hooks only run here for a transition made in its own transaction. One made in a caller's
+  // transaction can't announce itself before that commits, so the caller passes the returned
+  // transition to runCommitHooks afterwards, unless it's part of a bigger change (a draft
+  // starting, a run publishing) that announces itself.
+  async transition(periodId: string, to: PeriodStatus, options: TransitionOptions): Promise<PeriodTransition> {
+    if (options.tx) {
+      return this.applyTransition(periodId, to, options, options.tx);
+    }
+
+    const transition = await prisma.$transaction(tx => this.applyTransition(periodId, to, options, tx));
+    this.runCommitHooks(transition);
+    return transition;
+  }
+
+  runCommitHooks(transition: PeriodTransition): void {
+    for (const hook of this.commitHooks) {
+      hook(transition).catch(error => console.error(`Period ${transition.period.id} commit hook error:`, error));
+    }
+  }
+
+  private async applyTransition(
+    periodId: string,
+    to: PeriodStatus,
+    options: TransitionOptions,
+    tx: Prisma.TransactionClient
+  ): Promise<PeriodTransition> {
+    const period = await tx.selectionPeriod.findUnique({
+      where: { id: periodId },
+    });
+
+    if (!period) {
+      throw new Error('Selection period not found');
+    }
+
+    const transitionError = this.getTransitionError(period, to, options.trigger);
+    if (transitionError) {
+      throw new Error(transitionError);
+    }
+
+    // Only move the period if nothing else has since it was read
+    const { count } = await tx.selectionPeriod.updateMany({
+      where: { id: periodId, status: period.status },
+      data: { status: to },
+    });
+
+    if (count === 0) {
+      throw new Error('Selection period status changed; try again');
+    }
+
+    const transition: PeriodTransition = {
+      period: { ...period, status: to },
+      from: period.status as PeriodStatus,
+      to,
+      trigger: options.trigger,
+      userId: options.userId,
+      reason: options.reason,
+    };
+
+    for (const hook of this.hooks) {
+      await hook(transition, tx);
+    }
+
+    return transition;
+  }
+
+  // Returns why assignments can't be processed for the period, or null if they can. A period
+  // already PROCESSING is one whose previous attempt was interrupted.
+  getProcessingError(period: SelectionPeriod): string | null {
+    if (period.mode === 'DRAFT') {
+      return 'Draft periods are awarded as picks are made';
+    }
+
+    if (period.status !== 'CLOSED' && period.status !== 'PROCESSING') {
+      return 'Selection period must be closed before processing assignments';
+    }
+
+    return null;
+  }
+
+  async startProcessing(period: SelectionPeriod, userId: string | null): Promise<void> {
+    if (period.status !== 'PROCESSING') {
+      await this.transition(period.id, 'PROCESSING', { trigger: 'SYSTEM', userId });
+    }
+  }
+
+  // Puts a period whose processing failed back to CLOSED so it can be tried again
+  async abandonProcessing(periodId: string, userId: string | null, reason: string): Promise<void> {
+    const period = await prisma.selectionPeriod.findUnique({
+      where: { id: periodId },
+    });
+
+    if (period?.status === 'PROCESSING') {
+      await this.transition(periodId, 'CLOSED', { trigger: 'SYSTEM', userId, reason });
+    }
+  }
+
+  // Opens periods whose start date has come and closes bid periods whose end date has passed.
+  // Live drafts close themselves when the last pick is made.
+  async applyScheduledTransitions(now = new Date()): Promise<{ opened: number; closed: number }> {
+    const due = await prisma.selectionPeriod.findMany({
+      where: {
+        OR: [
+          { status: 'UPCOMING', startDate: { lte: now }, endDate: { gte: now } },
+          { status: 'OPEN', mode: 'BID', endDate: { lt: now } },
+        ],
+      },
+    });
+
+    let opened = 0;
+    let closed = 0;
+    for (const period of due) {
+      const to: PeriodStatus = period.status === 'UPCOMING' ? 'OPEN' : 'CLOSED';
+      try {
+        await this.transition(period.id, to, { trigger: 'SCHEDULE' });
+        if (to === 'OPEN') {
+          opened++;
+        } else {
+          closed++;
+        }
+      } catch (error) {
+        console.error(`Scheduled transition of period ${period.id} to ${to} failed:`, error);
+      }
+    }
+
+    return { opened, closed };
+  }
+
+  // Emails drivers who haven't submitted a bid for a period closing tomorrow. In a period with
+  // seniority bands, each band is reminded the day before its own window closes.
+  async sendClosingReminders(now = new Date()): Promise<number> {
+    // "Tomorrow" is the terminal's next calendar day, wherever the server runs
+    const closesTomorrow = (closesAt: Date, timeZone: string) =>
+      toZonedDateString(closesAt, timeZone) === addDays(toZonedDateString(now, timeZone), 1);
+
+    // Vacancy bids are opt-in, so only regular bids chase drivers who haven't submitted
+    const openPeriods = await prisma.selectionPeriod.findMany({
+      where: {
+        status: 'OPEN',
+        mode: 'BID',
+        kind: 'REGULAR',
+        endDate: { gt: now },
+      },
+      include: { terminal: true },
+    });
+
+    let sent = 0;
+    for (const period of openPeriods) {
+      const bandWindows = await submissionWindowService.getBandWindows(period);
+      const { timeZone } = period.terminal;
+      const closing = bandWindows.length > 0
+        ? bandWindows.filter(window => closesTomorrow(window.closesAt, timeZone))
+        : closesTomorrow(period.endDate, timeZone) ? [{ closesAt: period.endDate, employeeIds: null }] : [];
+
+      for (const window of closing) {
+        const driversWithoutSelections = await prisma.employee.findMany({
+          where: {
+            ...periodRosterService.getParticipantWhere(period),
+            ...(window.employeeIds ? { id: { in: window.employeeIds } } : {}),
+            selections: {
+              none: {
+                selectionPeriodId: period.id,
+              },
+            },
+          },
+        });
+
+        console.log(`Sending reminders to ${driversWithoutSelections.length} drivers for period: ${period.name}`);
+
+        for (const driver of driversWithoutSelections) {
+          if (!driver.email) {
+            continue;
+          }
+
+          try {
+            await emailService.sendSelectionPeriodReminder(
+              driver.email,
+              `${driver.firstName} ${driver.lastName}`,
+              {
+                name: period.name,
+                endDate: window.closesAt,
+                timeZone: period.terminal.timeZone,
+                requiredSelections: period.requiredSelections,
+                bandWindow: bandWindows.length > 0,
+              }
+            );
+            sent++;
+          } catch (error) {
+            console.error(`Failed to send reminder to ${driver.email}:`, error);
+          }
+        }
+      }
+    }
+
+    return sent;
+  }
+
+  // Tells the period's drivers when a bid opens and when it closes. Live drafts tell each driver
+  // when their pick window opens instead.
+  async sendTransitionNotifications(transition: PeriodTransition): Promise<number> {
+    const { period, from, to } = transition;
+    const opened = to === 'OPEN';
+    const closed = from === 'OPEN' && to === 'CLOSED';
+    if (period.mode !== 'BID' || (!opened && !closed)) {
+      return 0;
+    }
+
+    const [terminal, drivers] = await Promise.all([
+      prisma.terminal.findUnique({ where: { id: period.terminalId } }),
+      prisma.employee.findMany({
+        where: periodRosterService.getParticipantWhere(period),
+        include: {
+          selections: {
+            where: { selectionPeriodId: period.id },
+            select: { id: true },
+          },
+        },
+      }),
+    ]);
+    const timeZone = terminal?.timeZone || DEFAULT_TIME_ZONE;
+
+    let sent = 0;
+    for (const driver of drivers) {
+      if (!driver.email) {
+        continue;
+      }
+
+      const driverName = `${driver.firstName} ${driver.lastName}`;
+      try {
+        if (opened) {
+          await emailService.sendSelectionPeriodNotification(driver.email, driverName, {
+            name: period.name,
+            startDate: period.startDate,
+            endDate: period.endDate,
+            timeZone,
+          });
+        } else {
+          await emailService.sendSelectionPeriodClosedNotification(driver.email, driverName, {
+            name: period.name,
+            closedAt: new Date(),
+            timeZone,
+            submitted: driver.selections.length > 0,
+          });
+        }
+        sent++;
+      } catch (error) {
+        console.error(`Failed to send ${opened ? 'open' : 'closed'} notice to ${driver.email}:`, error);
+      }
+    }
+
+    console.log(`Sent ${sent} ${opened ? 'open' : 'closed'} notices for period: ${period.name}`);
+    return sent;
+  }
+
+  private async recordTransition(transition: PeriodTransition, client: Prisma.TransactionClient): Promise<void> {
+    await client.periodStatusChange.create({
+      data: {
+        selectionPeriodId: transition.period.id,
+        fromStatus: transition.from,
+        toStatus: transition.to,
+        trigger: transition.trigger,
+        userId: transition.userId || null,
+        reason: transition.reason,
+      },
+    });
+
+    // Scheduled changes have no user to attribute an audit entry to; the history row covers them
+    if (transition.userId) {
+      await client.auditLog.create({
+        data: {
+          userId: transition.userId,
+          action: 'CHANGE_PERIOD_STATUS',
+          resource: 'SelectionPeriod',
+          details: JSON.stringify({
+            selectionPeriodId: transition.period.id,
+            name: transition.period.name,
+            from: transition.from,
+            to: transition.to,
+            trigger: transition.trigger,
+            reason: transition.reason,
+          }),
+        },
+      });
+    }
+  }
+}
+
+// Create and export singleton instance
+const periodLifecycleService = new PeriodLifecycleService();
+export default periodLifecycleService;
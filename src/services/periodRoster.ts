@@ -0,0 +1,106 @@
+import { Prisma, SelectionPeriod } from '@prisma/client';
+import prisma from '../utils/database.js';
+
+type RosterPeriod = Pick<SelectionPeriod, 'id' | 'terminalId' | 'rosterCapturedAt'>;
+
+class PeriodRosterService {
+  // Captures the terminal's eligible drivers the first time a regular bid opens, returning whether
+  // it did. Reopening a closed period keeps its roster; vacancy bids are opt-in and never have one.
+  async captureRoster(period: SelectionPeriod, client: Prisma.TransactionClient): Promise<boolean> {
+    if (period.kind !== 'REGULAR' || period.rosterCapturedAt) {
+      return false;
+    }
+
+    const drivers = await client.employee.findMany({
+      where: { terminalId: period.terminalId, isEligible: true },
+      select: { id: true },
+    });
+
+    await client.periodParticipant.createMany({
+      data: drivers.map(driver => ({
+        selectionPeriodId: period.id,
+        employeeId: driver.id,
+      })),
+    });
+
+    await client.selectionPeriod.update({
+      where: { id: period.id },
+      data: { rosterCapturedAt: new Date() },
+    });
+
+    return true;
+  }
+
+  // Employee filter for the drivers competing in the period: its roster once captured,
+  // otherwise the terminal's currently eligible drivers
+  getParticipantWhere(period: RosterPeriod): Prisma.EmployeeWhereInput {
+    if (!period.rosterCapturedAt) {
+      return { terminalId: period.terminalId, isEligible: true };
+    }
+
+    return {
+      periodParticipations: {
+        some: { selectionPeriodId: period.id, removedAt: null },
+      },
+    };
+  }
+
+  async isParticipant(period: RosterPeriod, employeeId: string): Promise<boolean> {
+    const count = await prisma.employee.count({
+      where: { id: employeeId, ...this.getParticipantWhere(period) },
+    });
+    return count > 0;
+  }
+
+  // Returns why the period's roster can't be changed, or null if it can
+  getRosterChangeError(period: SelectionPeriod): string | null {
+    if (period.kind !== 'REGULAR') {
+      return 'Vacancy bids are open to the drivers who opt in and have no roster';
+    }
+
+    if (!period.rosterCapturedAt) {
+      return 'The roster is captured when the period opens';
+    }
+
+    if (['PROCESSING', 'COMPLETED'].includes(period.status) || period.draftStartedAt) {
+      return 'The roster is locked once the period is processed or drafted';
+    }
+
+    return null;
+  }
+
+  // Adds a driver to the roster in the given seniority band, or restores one who was removed to
+  // the band they already held
+  async addParticipant(periodId: string, employeeId: string, reason: string, userId: string, band: number | null) {
+    const added = {
+      source: 'ADDED',
+      addedById: userId,
+      addReason: reason,
+    };
+
+    return prisma.periodParticipant.upsert({
+      where: {
+        selectionPeriodId_employeeId: { selectionPeriodId: periodId, employeeId },
+      },
+      create: { selectionPeriodId: periodId, employeeId, band, ...added },
+      update: { ...added, removedAt: null, removedById: null, removeReason: null },
+    });
+  }
+
+  async removeParticipant(periodId: string, employeeId: string, reason: string, userId: string) {
+    return prisma.periodParticipant.update({
+      where: {
+        selectionPeriodId_employeeId: { selectionPeriodId: periodId, employeeId },
+      },
+      data: {
+        removedAt: new Date(),
+        removedById: userId,
+        removeReason: reason,
+      },
+    });
+  }
+}
+
+// Create and export singleton instance
+const periodRosterService = new PeriodRosterService();
+export default periodRosterService;
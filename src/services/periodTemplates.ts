@@ -0,0 +1,168 @@
+import { SelectionPeriod } from '@prisma/client';
+import prisma from '../utils/database.js';
+import { toZonedDateString } from '../utils/timeZone.js';
+import { normalizeStrategyParams } from './assignmentStrategies.js';
+
+// Regular bids run twice a year, so a clone's dates default to the source's six months on
+const DEFAULT_SHIFT_MONTHS = 6;
+
+export interface TemplateRoute {
+  id: string;
+  runNumber: string;
+  type: string;
+  origin: string;
+  destination: string;
+}
+
+export interface TemplateRouteChanges {
+  // Source routes that are still active and carry over to the clone
+  carriedRoutes: TemplateRoute[];
+  // Source routes deactivated since, which are left out of the clone
+  inactiveRoutes: TemplateRoute[];
+  // Active routes at the terminal that the source didn't offer
+  newRoutes: TemplateRoute[];
+}
+
+interface ClonePeriodInput {
+  name: string;
+  description?: string | null;
+  startDate: Date;
+  endDate: Date;
+  // New routes, checked by getAddRoutesError, to offer alongside the carried ones
+  addRouteIds: string[];
+}
+
+const templateRouteSelect = {
+  id: true,
+  runNumber: true,
+  type: true,
+  origin: true,
+  destination: true,
+  isActive: true,
+};
+
+// Adds months to a YYYY-MM-DD date, keeping month-end dates at the end of the month
+const addMonths = (date: string, months: number): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  const lastDay = new Date(Date.UTC(year, month - 1 + months + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month - 1 + months, Math.min(day, lastDay))).toISOString().split('T')[0];
+};
+
+class PeriodTemplateService {
+  async getRouteChanges(sourcePeriodId: string): Promise<TemplateRouteChanges> {
+    const source = await prisma.selectionPeriod.findUnique({
+      where: { id: sourcePeriodId },
+      include: {
+        routes: {
+          include: { route: { select: templateRouteSelect } },
+        },
+      },
+    });
+
+    if (!source) {
+      throw new Error('Selection period not found');
+    }
+
+    const sourceRoutes = source.routes
+      .map(pr => pr.route)
+      .sort((a, b) => a.runNumber.localeCompare(b.runNumber));
+
+    const newRoutes = await prisma.route.findMany({
+      where: {
+        terminalId: source.terminalId,
+        isActive: true,
+        id: { notIn: sourceRoutes.map(route => route.id) },
+      },
+      select: templateRouteSelect,
+      orderBy: { runNumber: 'asc' },
+    });
+
+    const toTemplateRoute = ({ isActive: _isActive, ...route }: TemplateRoute & { isActive: boolean }) => route;
+    return {
+      carriedRoutes: sourceRoutes.filter(route => route.isActive).map(toTemplateRoute),
+      inactiveRoutes: sourceRoutes.filter(route => !route.isActive).map(toTemplateRoute),
+      newRoutes: newRoutes.map(toTemplateRoute),
+    };
+  }
+
+  // Returns why the routes can't be added to a clone of the period, or null if they can
+  async getAddRoutesError(sourcePeriodId: string, addRouteIds: string[]): Promise<string | null> {
+    const { newRoutes } = await this.getRouteChanges(sourcePeriodId);
+    const newRouteIds = new Set(newRoutes.map(route => route.id));
+
+    const unknownRouteId = addRouteIds.find(id => !newRouteIds.has(id));
+    if (unknownRouteId) {
+      return `Route ${unknownRouteId} is not an active route at this terminal outside the source period`;
+    }
+    return null;
+  }
+
+  // The source's calendar dates at its terminal, moved on to the next bid
+  getSuggestedDates(source: SelectionPeriod, timeZone: string): { startDate: string; endDate: string } {
+    return {
+      startDate: addMonths(toZonedDateString(source.startDate, timeZone), DEFAULT_SHIFT_MONTHS),
+      endDate: addMonths(toZonedDateString(source.endDate, timeZone), DEFAULT_SHIFT_MONTHS),
+    };
+  }
+
+  // Copies the source's settings and still-active routes into a new UPCOMING period
+  async clonePeriod(sourcePeriodId: string, input: ClonePeriodInput) {
+    const source = await prisma.selectionPeriod.findUnique({
+      where: { id: sourcePeriodId },
+    });
+
+    if (!source) {
+      throw new Error('Selection period not found');
+    }
+
+    const changes = await this.getRouteChanges(sourcePeriodId);
+
+    // Each period draws its own lottery, so a seeded strategy gets a fresh seed when the clone is saved
+    const strategyParams = source.strategyParams ? JSON.parse(source.strategyParams) : {};
+    delete strategyParams.seed;
+
+    const routeIds = [...changes.carriedRoutes.map(route => route.id), ...input.addRouteIds];
+    const period = await prisma.selectionPeriod.create({
+      data: {
+        name: input.name,
+        description: input.description === undefined ? source.description : input.description,
+        startDate: input.startDate,
+        endDate: input.endDate,
+        requiredSelections: source.requiredSelections,
+        terminalId: source.terminalId,
+        secondRoundEnabled: source.secondRoundEnabled,
+        secondRoundHours: source.secondRoundHours,
+        mode: source.mode,
+        draftPickMinutes: source.draftPickMinutes,
+        draftSkipPolicy: source.draftSkipPolicy,
+        incumbencyRule: source.incumbencyRule,
+        forceAssignEnabled: source.forceAssignEnabled,
+        forceAssignCap: source.forceAssignCap,
+        teamSeniorityRule: source.teamSeniorityRule,
+        assignmentStrategy: source.assignmentStrategy,
+        strategyParams: JSON.stringify(normalizeStrategyParams(source.assignmentStrategy, strategyParams)),
+        submissionBands: source.submissionBands,
+        routes: routeIds.length > 0 ? {
+          create: routeIds.map(routeId => ({ routeId })),
+        } : undefined,
+      },
+      include: {
+        routes: {
+          include: {
+            route: true,
+          },
+        },
+      },
+    });
+
+    return {
+      period,
+      inactiveRoutes: changes.inactiveRoutes,
+      newRoutes: changes.newRoutes.filter(route => !input.addRouteIds.includes(route.id)),
+    };
+  }
+}
+
+// Create and export singleton instance
+const periodTemplateService = new PeriodTemplateService();
+export default periodTemplateService;
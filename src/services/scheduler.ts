@@ -1,11 +1,13 @@
 import cron from 'node-cron';
-import { PrismaClient } from '@prisma/client';
-import emailService from './email';
-
-const prisma = new PrismaClient();
+import draftService from './draft.js';
+import abolishmentService from './abolishments.js';
+import periodLifecycleService from './periodLifecycle.js';
 
 class SchedulerService {
   private reminderJob: any = null;
+  private periodJob: any = null;
+  private draftJob: any = null;
+  private abolishmentJob: any = null;
 
   constructor() {
     this.initializeJobs();
@@ -18,68 +20,70 @@ class SchedulerService {
       await this.sendPeriodEndingReminders();
     });
 
+    // Run every minute to open and close periods on their start and end dates
+    this.periodJob = cron.schedule('* * * * *', async () => {
+      await this.applyPeriodSchedules();
+    });
+
+    // Run every minute to skip drivers whose live draft window has lapsed
+    this.draftJob = cron.schedule('* * * * *', async () => {
+      await this.advanceDraftWindows();
+    });
+
+    // Run every minute to take abolished routes out of service and lapse expired bump windows
+    this.abolishmentJob = cron.schedule('* * * * *', async () => {
+      await this.advanceAbolishments();
+    });
+
     console.log('Scheduler service initialized - checking daily at 9:00 AM for periods ending tomorrow');
   }
 
   async sendPeriodEndingReminders() {
     try {
-      const tomorrow = new Date();
-      tomorrow.setDate(tomorrow.getDate() + 1);
-      tomorrow.setHours(0, 0, 0, 0);
-
-      const dayAfterTomorrow = new Date(tomorrow);
-      dayAfterTomorrow.setDate(dayAfterTomorrow.getDate() + 1);
-
-      // Find all active periods that end tomorrow
-      const periodsEndingTomorrow = await prisma.selectionPeriod.findMany({
-        where: {
-          status: 'ACTIVE',
-          endDate: {
-            gte: tomorrow,
-            lt: dayAfterTomorrow
-          }
-        }
-      });
-
-      console.log(`Found ${periodsEndingTomorrow.length} periods ending tomorrow`);
+      const sent = await periodLifecycleService.sendClosingReminders();
+      console.log(`Sent ${sent} selection period reminder(s)`);
+    } catch (error) {
+      console.error('Error in sendPeriodEndingReminders:', error);
+    }
+  }
 
-      for (const period of periodsEndingTomorrow) {
-        // Get all qualified drivers who haven't submitted selections yet
-        const driversWithoutSelections = await prisma.employee.findMany({
-          where: {
-            isEligible: true,
-            deletedAt: null,
-            selections: {
-              none: {
-                selectionPeriodId: period.id
-              }
-            }
-          }
-        });
+  async applyPeriodSchedules() {
+    try {
+      const { opened, closed } = await periodLifecycleService.applyScheduledTransitions();
+      if (opened > 0) {
+        console.log(`Auto-opened ${opened} selection period(s)`);
+      }
+      if (closed > 0) {
+        console.log(`Auto-closed ${closed} selection period(s)`);
+      }
+    } catch (error) {
+      console.error('Error in applyPeriodSchedules:', error);
+    }
+  }
 
-        console.log(`Sending reminders to ${driversWithoutSelections.length} drivers for period: ${period.name}`);
+  async advanceDraftWindows() {
+    try {
+      const skipped = await draftService.advanceExpiredWindows();
+      if (skipped > 0) {
+        console.log(`Skipped ${skipped} expired draft pick window(s)`);
+      }
+    } catch (error) {
+      console.error('Error in advanceDraftWindows:', error);
+    }
+  }
 
-        // Send reminder to each driver who hasn't made selections
-        for (const driver of driversWithoutSelections) {
-          if (driver.email) {
-            try {
-              await emailService.sendSelectionPeriodReminder(
-                driver.email,
-                `${driver.firstName} ${driver.lastName}`,
-                {
-                  name: period.name,
-                  endDate: period.endDate
-                }
-              );
-              console.log(`Reminder sent to ${driver.firstName} ${driver.lastName} (${driver.email})`);
-            } catch (error) {
-              console.error(`Failed to send reminder to ${driver.email}:`, error);
-            }
-          }
-        }
+  async advanceAbolishments() {
+    try {
+      const started = await abolishmentService.startDueAbolishments();
+      if (started > 0) {
+        console.log(`Started ${started} route abolishment(s)`);
+      }
+      const expired = await abolishmentService.advanceExpiredWindows();
+      if (expired > 0) {
+        console.log(`Expired ${expired} bump window(s)`);
       }
     } catch (error) {
-      console.error('Error in sendPeriodEndingReminders:', error);
+      console.error('Error in advanceAbolishments:', error);
     }
   }
 
@@ -92,8 +96,17 @@ class SchedulerService {
   stop() {
     if (this.reminderJob) {
       this.reminderJob.stop();
-      console.log('Scheduler service stopped');
     }
+    if (this.periodJob) {
+      this.periodJob.stop();
+    }
+    if (this.draftJob) {
+      this.draftJob.stop();
+    }
+    if (this.abolishmentJob) {
+      this.abolishmentJob.stop();
+    }
+    console.log('Scheduler service stopped');
   }
 }
 
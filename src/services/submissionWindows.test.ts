@@ -0,0 +1,59 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Prisma, SelectionPeriod } from '@prisma/client';
+import submissionWindowService from './submissionWindows.js';
+
+const driver = (id: string, hireDate: string) => ({
+  id,
+  employeeId: id.toUpperCase(),
+  lastName: id,
+  hireDate: new Date(hireDate),
+  seniorityDate: null,
+  seniorityAdjustments: [],
+});
+
+const period = {
+  id: 'period-1',
+  terminalId: 'terminal-1',
+  kind: 'REGULAR',
+  submissionBands: JSON.stringify([
+    { percent: 50, startDay: 1, endDay: 3 },
+    { percent: 50, startDay: 4, endDay: 7 },
+  ]),
+} as SelectionPeriod;
+
+test('opening a banded period stores each roster driver\'s band, most senior first', async () => {
+  const updates: { employeeIds: string[]; band: number }[] = [];
+  const tx = {
+    terminal: {
+      findUnique: async () => ({ seniorityTieBreaker: 'EMPLOYEE_NUMBER', lotterySeed: null }),
+    },
+    employee: {
+      findMany: async () => [
+        driver('c', '2019-05-01'),
+        driver('a', '2010-01-15'),
+        driver('d', '2022-09-12'),
+        driver('b', '2014-03-03'),
+      ],
+    },
+    periodParticipant: {
+      updateMany: async ({ where, data }: { where: { employeeId: { in: string[] } }; data: { band: number } }) => {
+        updates.push({ employeeIds: where.employeeId.in, band: data.band });
+        return { count: where.employeeId.in.length };
+      },
+    },
+  } as unknown as Prisma.TransactionClient;
+
+  await submissionWindowService.captureBands(period, tx);
+
+  assert.deepEqual(updates, [
+    { employeeIds: ['a', 'b'], band: 1 },
+    { employeeIds: ['c', 'd'], band: 2 },
+  ]);
+});
+
+test('opening a period without bands leaves the roster unbanded', async () => {
+  const tx = {} as Prisma.TransactionClient;
+
+  await submissionWindowService.captureBands({ ...period, submissionBands: null }, tx);
+});
@@ -0,0 +1,219 @@
+import { z } from 'zod';
+import { Prisma, SelectionPeriod } from '@prisma/client';
+import prisma from '../utils/database.js';
+import { compareSeniority, getSeniorityPolicy, seniorityAdjustmentsInclude, sortBySeniority } from '../utils/seniority.js';
+import periodRosterService from './periodRoster.js';
+import { formatZonedDateTime, getPeriodWindow, toZonedDateString } from '../utils/timeZone.js';
+
+// A band is a share of the terminal's eligible drivers, most senior band first, and the days of the
+// period (day 1 is the start date) in which its drivers may submit or change their selection
+export const submissionBandSchema = z.object({
+  percent: z.number().int().min(1).max(100),
+  startDay: z.number().int().min(1),
+  endDay: z.number().int().min(1),
+});
+
+export type SubmissionBand = z.infer<typeof submissionBandSchema>;
+
+export interface SubmissionWindow {
+  band: number; // 1 = most senior
+  bandCount: number;
+  opensAt: Date;
+  closesAt: Date;
+}
+
+export interface BandWindow extends SubmissionWindow {
+  employeeIds: string[];
+}
+
+type BandedPeriod = Pick<SelectionPeriod, 'id' | 'terminalId' | 'startDate' | 'endDate' | 'submissionBands' | 'rosterCapturedAt'> & {
+  terminal: { timeZone: string };
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Adds days to a YYYY-MM-DD date
+const addDays = (date: string, days: number): string => {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().split('T')[0];
+};
+
+// Calendar days the period spans at its terminal, counting both the start and end dates
+const getPeriodDayCount = (startDate: Date, endDate: Date, timeZone: string): number => {
+  const start = Date.parse(`${toZonedDateString(startDate, timeZone)}T00:00:00Z`);
+  const end = Date.parse(`${toZonedDateString(endDate, timeZone)}T00:00:00Z`);
+  return Math.round((end - start) / DAY_MS) + 1;
+};
+
+// Splits drivers in seniority order by the bands' percentages, most senior band first
+const splitIntoBands = <T>(drivers: T[], bands: SubmissionBand[]): T[][] => {
+  let cumulativePercent = 0;
+  let bandStart = 0;
+  return bands.map(band => {
+    cumulativePercent += band.percent;
+    const bandEnd = Math.ceil(drivers.length * cumulativePercent / 100);
+    const bandDrivers = drivers.slice(bandStart, bandEnd);
+    bandStart = bandEnd;
+    return bandDrivers;
+  });
+};
+
+class SubmissionWindowService {
+  // Returns why the bands can't be used for a period with these dates, or null if they can
+  getSubmissionBandsError(bands: SubmissionBand[], startDate: Date, endDate: Date, timeZone: string): string | null {
+    if (bands.length === 0) {
+      return null;
+    }
+
+    const totalPercent = bands.reduce((sum, band) => sum + band.percent, 0);
+    if (totalPercent !== 100) {
+      return `Seniority bands must cover 100% of drivers (they cover ${totalPercent}%)`;
+    }
+
+    const dayCount = getPeriodDayCount(startDate, endDate, timeZone);
+    for (const [index, band] of bands.entries()) {
+      if (band.startDay > band.endDay) {
+        return `Band ${index + 1} must start on or before the day it ends`;
+      }
+
+      if (band.endDay > dayCount) {
+        return `Band ${index + 1} ends on day ${band.endDay} but the period only lasts ${dayCount} days`;
+      }
+    }
+
+    return null;
+  }
+
+  getBands(period: Pick<SelectionPeriod, 'submissionBands'>): SubmissionBand[] {
+    return period.submissionBands ? JSON.parse(period.submissionBands) : [];
+  }
+
+  // Stores each driver's band on a roster captured as the period opens, so later seniority
+  // corrections or roster changes don't move anyone into another window mid-bid
+  async captureBands(period: SelectionPeriod, client: Prisma.TransactionClient): Promise<void> {
+    const bands = this.getBands(period);
+    if (bands.length === 0) {
+      return;
+    }
+
+    const policy = await getSeniorityPolicy(period.terminalId, client);
+    const drivers = sortBySeniority(await client.employee.findMany({
+      where: {
+        periodParticipations: { some: { selectionPeriodId: period.id, removedAt: null } },
+      },
+      include: seniorityAdjustmentsInclude,
+    }), policy);
+
+    for (const [index, bandDrivers] of splitIntoBands(drivers, bands).entries()) {
+      await client.periodParticipant.updateMany({
+        where: {
+          selectionPeriodId: period.id,
+          employeeId: { in: bandDrivers.map(driver => driver.id) },
+        },
+        data: { band: index + 1 },
+      });
+    }
+  }
+
+  // Band for a driver added to the roster after it was captured: that of the most junior driver
+  // on the roster who is senior to them, or band 1 if they outrank everyone. Null without bands.
+  async getAddedDriverBand(
+    period: Pick<SelectionPeriod, 'id' | 'terminalId' | 'submissionBands'>,
+    employeeId: string
+  ): Promise<number | null> {
+    if (this.getBands(period).length === 0) {
+      return null;
+    }
+
+    const [policy, employee, participants] = await Promise.all([
+      getSeniorityPolicy(period.terminalId),
+      prisma.employee.findUnique({
+        where: { id: employeeId },
+        include: seniorityAdjustmentsInclude,
+      }),
+      prisma.periodParticipant.findMany({
+        where: { selectionPeriodId: period.id, removedAt: null, band: { not: null } },
+        include: { employee: { include: seniorityAdjustmentsInclude } },
+      }),
+    ]);
+
+    if (!employee) {
+      return null;
+    }
+
+    return participants
+      .filter(participant => compareSeniority(participant.employee, employee, policy) < 0)
+      .reduce((band, participant) => Math.max(band, participant.band!), 1);
+  }
+
+  // Every band's window and the drivers in it, most senior band first; empty when the period has no bands.
+  // Once the roster is captured its stored bands are used; before that, and in vacancy bids, drivers
+  // are split by current seniority.
+  async getBandWindows(period: BandedPeriod): Promise<BandWindow[]> {
+    const bands = this.getBands(period);
+    if (bands.length === 0) {
+      return [];
+    }
+
+    let employeeIdsByBand: string[][];
+    if (period.rosterCapturedAt) {
+      const participants = await prisma.periodParticipant.findMany({
+        where: { selectionPeriodId: period.id, removedAt: null, band: { not: null } },
+        select: { employeeId: true, band: true },
+      });
+      employeeIdsByBand = bands.map((_band, index) => participants
+        .filter(participant => participant.band === index + 1)
+        .map(participant => participant.employeeId));
+    } else {
+      const policy = await getSeniorityPolicy(period.terminalId);
+      const drivers = sortBySeniority(await prisma.employee.findMany({
+        where: periodRosterService.getParticipantWhere(period),
+        include: seniorityAdjustmentsInclude,
+      }), policy);
+      employeeIdsByBand = splitIntoBands(drivers, bands).map(bandDrivers => bandDrivers.map(driver => driver.id));
+    }
+
+    const { timeZone } = period.terminal;
+    const firstDay = toZonedDateString(period.startDate, timeZone);
+
+    return bands.map((band, index) => {
+      const window = getPeriodWindow(addDays(firstDay, band.startDay - 1), addDays(firstDay, band.endDay - 1), timeZone);
+      return {
+        band: index + 1,
+        bandCount: bands.length,
+        opensAt: window.startDate,
+        closesAt: window.endDate < period.endDate ? window.endDate : period.endDate,
+        employeeIds: employeeIdsByBand[index],
+      };
+    });
+  }
+
+  // The driver's own window, or null when the period has no bands or the driver isn't in one
+  async getSubmissionWindow(period: BandedPeriod, employeeId: string): Promise<SubmissionWindow | null> {
+    const windows = await this.getBandWindows(period);
+    const window = windows.find(w => w.employeeIds.includes(employeeId));
+    if (!window) {
+      return null;
+    }
+
+    const { employeeIds: _employeeIds, ...submissionWindow } = window;
+    return submissionWindow;
+  }
+
+  // Returns why the driver can't submit or change their selection now, or null if they can
+  async getSubmissionWindowError(period: BandedPeriod, employeeId: string, now = new Date()): Promise<string | null> {
+    const window = await this.getSubmissionWindow(period, employeeId);
+    if (!window || (now >= window.opensAt && now <= window.closesAt)) {
+      return null;
+    }
+
+    const { timeZone } = period.terminal;
+    const range = `${formatZonedDateTime(window.opensAt, timeZone)} to ${formatZonedDateTime(window.closesAt, timeZone)}`;
+    return now < window.opensAt
+      ? `Your seniority band submits from ${range}`
+      : `Your seniority band's window closed; it ran from ${range}`;
+  }
+}
+
+// Create and export singleton instance
+const submissionWindowService = new SubmissionWindowService();
+export default submissionWindowService;
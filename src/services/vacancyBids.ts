@@ -0,0 +1,242 @@
+import prisma from '../utils/database.js';
+import { countAwardsByRoute, getRemainingPositions } from '../utils/routePositions.js';
+
+export const PERIOD_KINDS = ['REGULAR', 'VACANCY'] as const;
+
+// Periods that still have bidding or processing ahead of them
+const UNFINISHED_STATUSES = ['UPCOMING', 'OPEN', 'CLOSED', 'PROCESSING'];
+
+export interface VacantRoute {
+  id: string;
+  runNumber: string;
+  origin: string;
+  destination: string;
+  positions: number;
+  openPositions: number;
+}
+
+interface CreateVacancyBidInput {
+  terminalId: string;
+  routeIds: string[];
+  name: string;
+  description?: string;
+  startDate: Date;
+  endDate: Date;
+  requiredSelections?: number;
+  cascadeVacancies: boolean;
+  parentPeriodId?: string | null;
+}
+
+class VacancyBidService {
+  // Active routes at the terminal with fewer eligible holders than positions
+  async getVacantRoutes(terminalId: string, routeIds?: string[]): Promise<VacantRoute[]> {
+    const routes = await prisma.route.findMany({
+      where: {
+        terminalId,
+        isActive: true,
+        ...(routeIds ? { id: { in: routeIds } } : {}),
+      },
+      orderBy: { runNumber: 'asc' },
+    });
+
+    const holders = await prisma.employee.findMany({
+      where: {
+        currentRouteId: { in: routes.map(route => route.id) },
+        isEligible: true,
+      },
+      select: { currentRouteId: true },
+    });
+    const holderCounts = countAwardsByRoute(holders.map(holder => ({ routeId: holder.currentRouteId })));
+
+    return routes
+      .map(route => ({
+        id: route.id,
+        runNumber: route.runNumber,
+        origin: route.origin,
+        destination: route.destination,
+        positions: route.positions,
+        openPositions: getRemainingPositions(route, holderCounts),
+      }))
+      .filter(route => route.openPositions > 0);
+  }
+
+  // Returns why the routes can't be re-bid together, or null if they can
+  async getVacancyBidError(terminalId: string, routeIds: string[]): Promise<string | null> {
+    if (routeIds.length === 0) {
+      return 'Select at least one vacated route';
+    }
+
+    const routes = await prisma.route.findMany({
+      where: { id: { in: routeIds } },
+    });
+
+    if (routes.length !== routeIds.length || routes.some(route => route.terminalId !== terminalId || !route.isActive)) {
+      return 'Every route must be an active route at this terminal';
+    }
+
+    const vacantIds = new Set((await this.getVacantRoutes(terminalId, routeIds)).map(route => route.id));
+    const filledRoute = routes.find(route => !vacantIds.has(route.id));
+    if (filledRoute) {
+      return `Route ${filledRoute.runNumber} has no vacant positions`;
+    }
+
+    const pendingBid = await prisma.periodRoute.findFirst({
+      where: {
+        routeId: { in: routeIds },
+        selectionPeriod: {
+          kind: 'VACANCY',
+          status: { in: UNFINISHED_STATUSES },
+        },
+      },
+      include: {
+        route: { select: { runNumber: true } },
+        selectionPeriod: { select: { name: true } },
+      },
+    });
+
+    if (pendingBid) {
+      return `Route ${pendingBid.route.runNumber} is already in vacancy bid ${pendingBid.selectionPeriod.name}`;
+    }
+
+    return null;
+  }
+
+  // Opens a vacancy bid over routes checked by getVacancyBidError. Drivers who left or were
+  // disqualified are released from the routes first, so later incumbency checks no longer count them.
+  async createVacancyBid(input: CreateVacancyBidInput, createdById: string) {
+    const requestedIds = Array.from(new Set(input.routeIds));
+
+    return prisma.$transaction(async (tx) => {
+      const released = await tx.employee.updateMany({
+        where: {
+          currentRouteId: { in: requestedIds },
+          isEligible: false,
+        },
+        data: { currentRouteId: null },
+      });
+
+      const period = await tx.selectionPeriod.create({
+        data: {
+          name: input.name,
+          description: input.description,
+          startDate: input.startDate,
+          endDate: input.endDate,
+          kind: 'VACANCY',
+          mode: 'BID',
+          requiredSelections: Math.min(input.requiredSelections || requestedIds.length, requestedIds.length),
+          cascadeVacancies: input.cascadeVacancies,
+          parentPeriodId: input.parentPeriodId || null,
+          terminalId: input.terminalId,
+          routes: {
+            create: requestedIds.map(routeId => ({ routeId })),
+          },
+        },
+        include: {
+          routes: {
+            include: { route: true },
+          },
+        },
+      });
+
+      await tx.auditLog.create({
+        data: {
+          userId: createdById,
+          action: 'CREATE_VACANCY_BID',
+          resource: 'SelectionPeriod',
+          details: JSON.stringify({
+            selectionPeriodId: period.id,
+            parentPeriodId: period.parentPeriodId,
+            routes: period.routes.map(pr => pr.route.runNumber).sort(),
+            cascadeVacancies: period.cascadeVacancies,
+            releasedHolders: released.count,
+          }),
+        },
+      });
+
+      return period;
+    });
+  }
+
+  // Routes a run's winners will leave behind once it is published; read before publishing,
+  // while Employee.currentRouteId still holds each winner's old route
+  async getRoutesVacatedByRun(runId: string): Promise<string[]> {
+    const run = await prisma.assignmentRun.findUnique({ where: { id: runId } });
+    if (!run) {
+      return [];
+    }
+
+    const results: { employeeId: string; routeId: string | null }[] = JSON.parse(run.results);
+    const winners = results.filter(result => result.routeId);
+    const employees = await prisma.employee.findMany({
+      where: { id: { in: winners.map(winner => winner.employeeId) } },
+      select: { id: true, currentRouteId: true },
+    });
+    const currentRouteById = new Map(employees.map(employee => [employee.id, employee.currentRouteId]));
+
+    const vacated = new Set<string>();
+    for (const winner of winners) {
+      const currentRouteId = currentRouteById.get(winner.employeeId);
+      if (currentRouteId && currentRouteId !== winner.routeId) {
+        vacated.add(currentRouteId);
+      }
+    }
+    return Array.from(vacated);
+  }
+
+  // Follows a published vacancy bid with another over the routes its winners vacated,
+  // open for the same length of time. Returns null when nothing was left vacant.
+  async openCascadeBid(parentPeriodId: string, vacatedRouteIds: string[], createdById: string) {
+    const parent = await prisma.selectionPeriod.findUnique({
+      where: { id: parentPeriodId },
+    });
+
+    if (!parent || parent.kind !== 'VACANCY' || !parent.cascadeVacancies || vacatedRouteIds.length === 0) {
+      return null;
+    }
+
+    // Skip routes already re-bid elsewhere or filled since the run was processed
+    const vacantRoutes: VacantRoute[] = [];
+    for (const route of await this.getVacantRoutes(parent.terminalId, vacatedRouteIds)) {
+      if (!(await this.getVacancyBidError(parent.terminalId, [route.id]))) {
+        vacantRoutes.push(route);
+      }
+    }
+    if (vacantRoutes.length === 0) {
+      return null;
+    }
+
+    const generation = await this.countCascadeGeneration(parent.id);
+    const startDate = new Date();
+    const endDate = new Date(startDate.getTime() + (parent.endDate.getTime() - parent.startDate.getTime()));
+
+    return this.createVacancyBid({
+      terminalId: parent.terminalId,
+      routeIds: vacantRoutes.map(route => route.id),
+      name: `${parent.name.replace(/ - cascade \d+$/, '')} - cascade ${generation + 1}`,
+      description: `Routes vacated by the winners of ${parent.name}`,
+      startDate,
+      endDate,
+      requiredSelections: parent.requiredSelections,
+      cascadeVacancies: true,
+      parentPeriodId: parent.id,
+    }, createdById);
+  }
+
+  // How many cascade bids precede this one in its chain
+  private async countCascadeGeneration(periodId: string): Promise<number> {
+    let generation = 0;
+    let period = await prisma.selectionPeriod.findUnique({ where: { id: periodId } });
+    while (period?.parentPeriodId) {
+      period = await prisma.selectionPeriod.findUnique({ where: { id: period.parentPeriodId } });
+      if (period?.kind !== 'VACANCY') {
+        break;
+      }
+      generation++;
+    }
+    return generation;
+  }
+}
+
+// Create and export singleton instance
+const vacancyBidService = new VacancyBidService();
+export default vacancyBidService;
@@ -35,22 +35,19 @@ export interface CreateUserRequest {
     lastName: string;
     phone?: string;
     hireDate: string;
-    doublesEndorsement?: boolean;
-    chainExperience?: boolean;
+    qualificationIds?: string[];
   };
 }
 
 export interface RouteFilters {
   type?: string;
-  requiresDoublesEndorsement?: boolean;
-  requiresChainExperience?: boolean;
+  qualificationId?: string;
   searchTerm?: string;
 }
 
 export interface EmployeeFilters {
   isEligible?: boolean;
-  doublesEndorsement?: boolean;
-  chainExperience?: boolean;
+  qualificationId?: string;
   searchTerm?: string;
 }
 
@@ -0,0 +1,23 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { countByRank, getAwardedRanks, getOrdinal } from './choiceRanks.js';
+
+test('names every rank a driver can list', () => {
+  assert.deepEqual(
+    [1, 2, 3, 4, 7, 11, 12, 13, 15, 21, 22].map(getOrdinal),
+    ['1st', '2nd', '3rd', '4th', '7th', '11th', '12th', '13th', '15th', '21st', '22nd']
+  );
+});
+
+test('counts awards at every rank, leaving out drivers who got none of their choices', () => {
+  const byRank = countByRank([
+    { choiceReceived: 7 },
+    { choiceReceived: 1 },
+    { choiceReceived: null },
+    { choiceReceived: 12 },
+    { choiceReceived: 1 },
+  ]);
+
+  assert.deepEqual(byRank, { 1: 2, 7: 1, 12: 1 });
+  assert.deepEqual(getAwardedRanks(byRank), [1, 7, 12]);
+});
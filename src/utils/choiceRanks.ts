@@ -0,0 +1,22 @@
+// Ordinal for a choice rank: 1st, 2nd, 3rd, 4th ... 11th, 12th ... 21st
+export const getOrdinal = (n: number): string => {
+  const s = ['th', 'st', 'nd', 'rd'];
+  const v = n % 100;
+  return n + (s[(v - 20) % 10] || s[v] || s[0]);
+};
+
+// Drivers awarded each of their ranked choices, keyed by rank; a period may allow any number of choices
+export const countByRank = (assignments: { choiceReceived?: number | null }[]): Record<number, number> => {
+  const byRank: Record<number, number> = {};
+  for (const assignment of assignments) {
+    if (assignment.choiceReceived) {
+      byRank[assignment.choiceReceived] = (byRank[assignment.choiceReceived] || 0) + 1;
+    }
+  }
+  return byRank;
+};
+
+// The ranks awarded, lowest first
+export const getAwardedRanks = (byRank: Record<number, number>): number[] => {
+  return Object.keys(byRank).map(Number).sort((a, b) => a - b);
+};
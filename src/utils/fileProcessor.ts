@@ -1,6 +1,8 @@
 import * as XLSX from 'xlsx';
 import Papa from 'papaparse';
 import { z } from 'zod';
+import { parseQualificationCodes } from './qualifications.js';
+import { DEFAULT_HOURS_OF_SERVICE_LIMITS, HoursOfServiceLimits, getScheduleWarnings } from './schedule.js';
 
 // Define schemas for import validation
 const routeImportSchema = z.object({
@@ -24,8 +26,9 @@ const routeImportSchema = z.object({
     return val;
   }),
   workTime: z.number(),
-  requiresDoublesEndorsement: z.boolean().default(false),
-  requiresChainExperience: z.boolean().default(false),
+  positions: z.number().int().min(1).default(1),
+  // Qualification catalog codes, resolved to ids by the import endpoint
+  requirements: z.array(z.string()).default([]),
   isActive: z.boolean().default(true),
 });
 
@@ -44,8 +47,11 @@ const employeeImportSchema = z.object({
     // Handle standard formats
     return new Date(str);
   }),
-  doublesEndorsement: z.boolean().default(false),
-  chainExperience: z.boolean().default(false),
+  ssnLastFour: z.string().regex(/^\d{4}$/, 'Must be four digits').optional(),
+  qualifications: z.array(z.object({
+    code: z.string(),
+    expiresAt: z.date().nullable(),
+  })).default([]),
   isEligible: z.boolean().default(true),
   terminal: z.string(),
 });
@@ -58,6 +64,12 @@ export interface ImportResult<T> {
     field?: string;
     message: string;
   }>;
+  // Rows that import fine but deserve a second look, e.g. schedules over hours-of-service limits
+  warnings?: Array<{
+    row: number;
+    field?: string;
+    message: string;
+  }>;
   summary: {
     totalRows: number;
     validRows: number;
@@ -96,8 +108,9 @@ export class FileProcessor {
     return result.data;
   }
 
-  static validateRoutes(rawData: any[]): ImportResult<any> {
+  static validateRoutes(rawData: any[], limits: HoursOfServiceLimits = DEFAULT_HOURS_OF_SERVICE_LIMITS): ImportResult<any> {
     const errors: Array<{ row: number; field?: string; message: string }> = [];
+    const warnings: Array<{ row: number; field?: string; message: string }> = [];
     const validData: any[] = [];
 
     // If no data, return early
@@ -179,6 +192,10 @@ export class FileProcessor {
             case 'work_time':
               normalizedRow.workTime = value;
               break;
+            case 'positions':
+            case 'slots':
+              normalizedRow.positions = value;
+              break;
             case 'doubles':
             case 'doublesendorsement':
             case 'requiresdoublesendorsement':
@@ -189,6 +206,10 @@ export class FileProcessor {
             case 'requireschainexperience':
               normalizedRow.requiresChainExperience = value;
               break;
+            case 'requirements':
+            case 'qualifications':
+              normalizedRow.requirements = value;
+              break;
             case 'active':
             case 'isactive':
               normalizedRow.isActive = value;
@@ -216,13 +237,15 @@ export class FileProcessor {
           workTime: normalizedRow.workTime !== undefined && normalizedRow.workTime !== '' 
             ? this.parseNumber(normalizedRow.workTime, `Row ${index + 1}: workTime`) 
             : 8, // Default to 8 hours
+          positions: normalizedRow.positions !== undefined && normalizedRow.positions !== ''
+            ? this.parseNumber(normalizedRow.positions, `Row ${index + 1}: positions`)
+            : 1,
           rateType: String(normalizedRow.rateType || 'HOURLY'),
-          requiresDoublesEndorsement: normalizedRow.requiresDoublesEndorsement !== undefined 
-            ? this.parseBoolean(normalizedRow.requiresDoublesEndorsement) 
-            : false,
-          requiresChainExperience: normalizedRow.requiresChainExperience !== undefined 
-            ? this.parseBoolean(normalizedRow.requiresChainExperience) 
-            : false,
+          requirements: this.mergeLegacyCodes(
+            parseQualificationCodes(normalizedRow.requirements).map(q => q.code),
+            normalizedRow.requiresDoublesEndorsement,
+            normalizedRow.requiresChainExperience
+          ),
           isActive: normalizedRow.isActive !== undefined 
             ? this.parseBoolean(normalizedRow.isActive) 
             : true,
@@ -230,10 +253,14 @@ export class FileProcessor {
 
         const validatedRow = routeImportSchema.parse(processedRow);
         
-        // Automatically set requiresDoublesEndorsement for Doubles routes
-        if (validatedRow.type === 'DOUBLES') {
-          validatedRow.requiresDoublesEndorsement = true;
+        // Doubles routes always require the doubles endorsement
+        if (validatedRow.type === 'DOUBLES' && !validatedRow.requirements.includes('DOUBLES')) {
+          validatedRow.requirements.push('DOUBLES');
         }
+
+        getScheduleWarnings(validatedRow, limits).forEach(message => {
+          warnings.push({ row: index + 1, field: 'schedule', message });
+        });
         
         validData.push(validatedRow);
       } catch (error) {
@@ -258,6 +285,7 @@ export class FileProcessor {
       success: errors.length === 0,
       data: validData,
       errors,
+      warnings,
       summary: {
         totalRows: rawData.length,
         validRows: validData.length,
@@ -276,8 +304,12 @@ export class FileProcessor {
         const processedRow = {
           ...row,
           hireDate: row.hireDate,
-          doublesEndorsement: this.parseBoolean(row.doublesEndorsement),
-          chainExperience: this.parseBoolean(row.chainExperience),
+          ssnLastFour: row.ssnLastFour ? String(row.ssnLastFour).padStart(4, '0') : undefined,
+          qualifications: this.mergeLegacyQualifications(
+            parseQualificationCodes(row.qualifications),
+            row.doublesEndorsement,
+            row.chainExperience
+          ),
           isEligible: row.isEligible !== undefined ? this.parseBoolean(row.isEligible) : true,
           terminal: row.terminal || row.Terminal || row.terminalCode || row.terminal_code || '',
         };
@@ -314,6 +346,24 @@ export class FileProcessor {
     };
   }
 
+  // Older files carry doubles/chains as boolean columns; fold them into catalog codes
+  private static mergeLegacyCodes(codes: string[], doubles: any, chains: any): string[] {
+    const merged = new Set(codes);
+    if (doubles !== undefined && this.parseBoolean(doubles)) merged.add('DOUBLES');
+    if (chains !== undefined && this.parseBoolean(chains)) merged.add('CHAINS');
+    return Array.from(merged);
+  }
+
+  private static mergeLegacyQualifications(
+    qualifications: { code: string; expiresAt: Date | null }[],
+    doubles: any,
+    chains: any
+  ): { code: string; expiresAt: Date | null }[] {
+    const codes = qualifications.map(q => q.code);
+    const legacyCodes = this.mergeLegacyCodes([], doubles, chains).filter(code => !codes.includes(code));
+    return [...qualifications, ...legacyCodes.map(code => ({ code, expiresAt: null }))];
+  }
+
   static generateExcel(data: any[], filename: string): Buffer {
     const worksheet = XLSX.utils.json_to_sheet(data);
     const workbook = XLSX.utils.book_new();
@@ -346,8 +396,8 @@ export class FileProcessor {
         distance: 562,
         rateType: 'Miles',
         workTime: 11.25,
-        requiresDoublesEndorsement: true,
-        requiresChainExperience: false,
+        positions: 1,
+        requirements: 'DOUBLES',
         isActive: true,
         _comment: 'Terminal is automatically set from the import page selection',
       },
@@ -362,8 +412,8 @@ export class FileProcessor {
         distance: 562,
         rateType: 'Miles',
         workTime: 11.25,
-        requiresDoublesEndorsement: true,
-        requiresChainExperience: false,
+        positions: 1,
+        requirements: 'DOUBLES',
         isActive: true,
       },
       {
@@ -377,8 +427,8 @@ export class FileProcessor {
         distance: 616,
         rateType: 'Miles',
         workTime: 11.25,
-        requiresDoublesEndorsement: false,
-        requiresChainExperience: false,
+        positions: 1,
+        requirements: '',
         isActive: true,
       },
       {
@@ -392,8 +442,8 @@ export class FileProcessor {
         distance: 350,
         rateType: 'Flat Rate',
         workTime: 9.0,
-        requiresDoublesEndorsement: false,
-        requiresChainExperience: false,
+        positions: 3,
+        requirements: '',
         isActive: true,
       },
     ];
@@ -411,8 +461,7 @@ export class FileProcessor {
         phone: '334-590-5191',
         hireDate: '03/24/2025',
         terminal: 'DEN',
-        doublesEndorsement: true,
-        chainExperience: true,
+        qualifications: 'DOUBLES;CHAINS;HAZMAT:2027-03-31',
         isEligible: true,
       },
       {
@@ -423,8 +472,7 @@ export class FileProcessor {
         phone: '303-520-1507',
         hireDate: '07/23/2012',
         terminal: 'DEN',
-        doublesEndorsement: true,
-        chainExperience: true,
+        qualifications: 'DOUBLES;CHAINS',
         isEligible: true,
       },
       {
@@ -435,8 +483,7 @@ export class FileProcessor {
         phone: '720-308-3850',
         hireDate: '08/09/2022',
         terminal: 'DEN',
-        doublesEndorsement: false,
-        chainExperience: false,
+        qualifications: '',
         isEligible: true,
       },
       {
@@ -447,8 +494,7 @@ export class FileProcessor {
         phone: '303-915-8716',
         hireDate: '11/14/2005',
         terminal: 'DEN',
-        doublesEndorsement: true,
-        chainExperience: true,
+        qualifications: 'DOUBLES;CHAINS',
         isEligible: true,
       },
     ];
@@ -536,7 +582,7 @@ export class FileProcessor {
     return widths;
   }
 
-  static async processRouteFile(file: Buffer, filename: string): Promise<ImportResult<any>> {
+  static async processRouteFile(file: Buffer, filename: string, limits?: HoursOfServiceLimits): Promise<ImportResult<any>> {
     try {
       let rawData: any[];
 
@@ -549,7 +595,7 @@ export class FileProcessor {
         throw new Error('Unsupported file format. Please use .xlsx, .xls, or .csv');
       }
 
-      return this.validateRoutes(rawData);
+      return this.validateRoutes(rawData, limits);
     } catch (error) {
       return {
         success: false,
@@ -0,0 +1,127 @@
+import prisma from './database.js';
+
+// Catalog entries every terminal starts with; admins can add more through /api/qualifications
+export const BUILT_IN_QUALIFICATIONS = [
+  { code: 'DOUBLES', name: 'Doubles Endorsement', description: 'CDL endorsement to pull double trailers' },
+  { code: 'CHAINS', name: 'Chain Experience', description: 'Experienced chaining up on mountain routes' },
+  { code: 'HAZMAT', name: 'Hazmat Endorsement', description: 'CDL endorsement to haul hazardous materials' },
+  { code: 'TANKER', name: 'Tanker Endorsement', description: 'CDL endorsement to haul liquid in bulk' },
+  { code: 'TWIC', name: 'TWIC Card', description: 'Transportation Worker Identification Credential for port access' },
+  { code: 'FORKLIFT', name: 'Forklift Certification', description: 'Certified to operate a forklift at customer docks' },
+] as const;
+
+export interface HeldQualification {
+  qualificationId: string;
+  expiresAt: Date | null;
+}
+
+export interface RequiredQualification {
+  qualificationId: string;
+  qualification: { code: string; name: string };
+}
+
+export interface QualificationHolder {
+  qualifications: HeldQualification[];
+}
+
+export interface QualificationRequirements {
+  requirements: RequiredQualification[];
+}
+
+// Include fragments so every caller loads what the checker needs
+export const employeeQualificationsInclude = {
+  qualifications: { include: { qualification: true } },
+} as const;
+
+export const routeRequirementsInclude = {
+  requirements: { include: { qualification: true } },
+} as const;
+
+export const isQualificationCurrent = (held: HeldQualification, asOf: Date = new Date()): boolean => {
+  return !held.expiresAt || held.expiresAt >= asOf;
+};
+
+// Names of the route's requirements the employee lacks, marking ones they hold but have let expire
+export const getMissingRequirements = (
+  employee: QualificationHolder,
+  route: QualificationRequirements,
+  asOf: Date = new Date()
+): string[] => {
+  const heldById = new Map(employee.qualifications.map(q => [q.qualificationId, q]));
+
+  return route.requirements
+    .filter(requirement => {
+      const held = heldById.get(requirement.qualificationId);
+      return !held || !isQualificationCurrent(held, asOf);
+    })
+    .map(requirement => heldById.has(requirement.qualificationId)
+      ? `${requirement.qualification.name} (expired)`
+      : requirement.qualification.name);
+};
+
+export const getMissingRequirement = (
+  employee: QualificationHolder,
+  route: QualificationRequirements,
+  asOf: Date = new Date()
+): string | null => {
+  return getMissingRequirements(employee, route, asOf)[0] || null;
+};
+
+export const doesEmployeeQualify = (
+  employee: QualificationHolder,
+  route: QualificationRequirements,
+  asOf: Date = new Date()
+): boolean => {
+  return getMissingRequirements(employee, route, asOf).length === 0;
+};
+
+// Makes sure the built-in catalog exists; safe to call repeatedly
+export const ensureBuiltInQualifications = async (): Promise<void> => {
+  for (const qualification of BUILT_IN_QUALIFICATIONS) {
+    await prisma.qualification.upsert({
+      where: { code: qualification.code },
+      update: {},
+      create: qualification,
+    });
+  }
+};
+
+// Maps upper-cased catalog codes to qualification ids for imports
+export const getQualificationIdsByCode = async (): Promise<Map<string, string>> => {
+  const qualifications = await prisma.qualification.findMany({
+    select: { id: true, code: true },
+  });
+  return new Map(qualifications.map(q => [q.code.toUpperCase(), q.id]));
+};
+
+// Import/export cell format: semicolon-separated codes, each with an optional expiry, e.g. "HAZMAT:2026-05-31;DOUBLES"
+export const formatQualificationCodes = (
+  held: { expiresAt: Date | null; qualification: { code: string } }[]
+): string => {
+  return held
+    .map(q => q.expiresAt ? `${q.qualification.code}:${q.expiresAt.toISOString().split('T')[0]}` : q.qualification.code)
+    .join(';');
+};
+
+export const formatRequirementCodes = (requirements: { qualification: { code: string } }[]): string => {
+  return requirements.map(r => r.qualification.code).join(';');
+};
+
+export const parseQualificationCodes = (value: unknown): { code: string; expiresAt: Date | null }[] => {
+  if (value === undefined || value === null) {
+    return [];
+  }
+
+  return String(value)
+    .split(/[;,]/)
+    .map(entry => entry.trim())
+    .filter(entry => entry.length > 0)
+    .map(entry => {
+      const [code, expiry] = entry.split(':').map(part => part.trim());
+      const expiresAt = expiry ? new Date(expiry) : null;
+      return {
+        code: code.toUpperCase(),
+        expiresAt: expiresAt && !isNaN(expiresAt.getTime()) ? expiresAt : null,
+      };
+    });
+};
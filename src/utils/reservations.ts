@@ -0,0 +1,24 @@
+import prisma from './database.js';
+
+// Number of reserved positions per route in a period
+export const getReservationCounts = async (selectionPeriodId: string): Promise<Map<string, number>> => {
+  const groups = await prisma.routeReservation.groupBy({
+    by: ['routeId'],
+    where: { selectionPeriodId },
+    _count: { _all: true },
+  });
+  return new Map(groups.map(group => [group.routeId, group._count._all]));
+};
+
+// Routes whose every position is reserved, so they are out of the open bid
+export const getFullyReservedRouteIds = async (
+  selectionPeriodId: string,
+  routes: { id: string; positions: number }[]
+): Promise<Set<string>> => {
+  const reservationCounts = await getReservationCounts(selectionPeriodId);
+  return new Set(
+    routes
+      .filter(route => (reservationCounts.get(route.id) || 0) >= route.positions)
+      .map(route => route.id)
+  );
+};
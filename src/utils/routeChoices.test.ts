@@ -0,0 +1,41 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ChoiceRoute, RouteChoiceContext, getRouteChoiceError } from './routeChoices.js';
+
+const route = (id: string, overrides: Partial<ChoiceRoute> = {}): ChoiceRoute => ({
+  id,
+  runNumber: id.toUpperCase(),
+  isActive: true,
+  teamOnly: false,
+  requirements: [],
+  ...overrides,
+});
+
+const context = (overrides: Partial<RouteChoiceContext> = {}): RouteChoiceContext => ({
+  employee: { qualifications: [], currentRouteId: null },
+  periodRoutes: [route('r1'), route('r2'), route('team', { teamOnly: true })],
+  reservedRouteIds: new Set(),
+  hasConfirmedTeam: false,
+  maxChoices: 3,
+  isVacancy: false,
+  ...overrides,
+});
+
+test('accepts a list of the period\'s routes', () => {
+  assert.equal(getRouteChoiceError(['r2', 'r1'], context()), null);
+});
+
+test('rejects a route that is not one of the period\'s routes', () => {
+  assert.equal(
+    getRouteChoiceError(['r1', 'elsewhere'], context()),
+    'One or more selected routes are not open in this selection period'
+  );
+});
+
+test('rejects a team-only route for a driver without a confirmed team', () => {
+  assert.equal(
+    getRouteChoiceError(['r1', 'team'], context()),
+    'Route TEAM is staffed by two-driver teams and can only be awarded through a team bid'
+  );
+  assert.equal(getRouteChoiceError(['r1', 'team'], context({ hasConfirmedTeam: true })), null);
+});
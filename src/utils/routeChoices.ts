@@ -0,0 +1,104 @@
+import prisma from './database.js';
+import {
+  QualificationHolder,
+  QualificationRequirements,
+  getMissingRequirement,
+  routeRequirementsInclude,
+} from './qualifications.js';
+import { getFullyReservedRouteIds } from './reservations.js';
+
+export interface ChoiceRoute extends QualificationRequirements {
+  id: string;
+  runNumber: string;
+  isActive: boolean;
+  teamOnly: boolean;
+}
+
+export interface RouteChoiceContext {
+  employee: QualificationHolder & { currentRouteId: string | null };
+  // The routes in the period's bid; nothing else can be ranked
+  periodRoutes: ChoiceRoute[];
+  reservedRouteIds: Set<string>;
+  // Team-only routes are awarded through a confirmed two-driver team
+  hasConfirmedTeam: boolean;
+  maxChoices: number;
+  // A vacancy bidder keeps their own route anyway if they win nothing
+  isVacancy: boolean;
+}
+
+// Returns why the driver can't rank these routes, or null if they can. Selections, draft picks
+// and teams all check choices here.
+export const getRouteChoiceError = (choiceIds: string[], context: RouteChoiceContext): string | null => {
+  if (choiceIds.length > context.maxChoices) {
+    return `This period allows a maximum of ${context.maxChoices} route selection${context.maxChoices > 1 ? 's' : ''}`;
+  }
+
+  if (new Set(choiceIds).size !== choiceIds.length) {
+    return 'Route choices must be different';
+  }
+
+  const routesById = new Map(context.periodRoutes.map(route => [route.id, route]));
+  for (const routeId of choiceIds) {
+    const route = routesById.get(routeId);
+    if (!route || !route.isActive) {
+      return 'One or more selected routes are not open in this selection period';
+    }
+
+    if (route.teamOnly && !context.hasConfirmedTeam) {
+      return `Route ${route.runNumber} is staffed by two-driver teams and can only be awarded through a team bid`;
+    }
+
+    const missingRequirement = getMissingRequirement(context.employee, route);
+    if (missingRequirement) {
+      return `Route ${route.runNumber} requires ${missingRequirement}`;
+    }
+
+    if (context.reservedRouteIds.has(route.id)) {
+      return `Route ${route.runNumber} is reserved and not open for bidding`;
+    }
+
+    if (context.isVacancy && route.id === context.employee.currentRouteId) {
+      return `You already hold route ${route.runNumber}`;
+    }
+  }
+
+  return null;
+};
+
+// Loads what getRouteChoiceError needs to check a driver's list in the period
+export const loadRouteChoiceContext = async (
+  period: { id: string; kind: string; requiredSelections: number },
+  employee: QualificationHolder & { id: string; currentRouteId: string | null }
+): Promise<RouteChoiceContext> => {
+  const [periodRoutes, confirmedTeam] = await Promise.all([
+    prisma.periodRoute.findMany({
+      where: { selectionPeriodId: period.id },
+      include: {
+        route: {
+          include: routeRequirementsInclude,
+        },
+      },
+    }),
+    prisma.bidTeam.findFirst({
+      where: {
+        selectionPeriodId: period.id,
+        confirmedAt: { not: null },
+        OR: [
+          { leadEmployeeId: employee.id },
+          { partnerEmployeeId: employee.id },
+        ],
+      },
+    }),
+  ]);
+
+  const routes = periodRoutes.map(periodRoute => periodRoute.route);
+
+  return {
+    employee,
+    periodRoutes: routes,
+    reservedRouteIds: await getFullyReservedRouteIds(period.id, routes),
+    hasConfirmedTeam: !!confirmedTeam,
+    maxChoices: period.requiredSelections,
+    isVacancy: period.kind === 'VACANCY',
+  };
+};
@@ -0,0 +1,22 @@
+// A route can be held by as many drivers as it has positions; these helpers keep every
+// award path (engine, draft, manual assignment) counting capacity the same way.
+
+export interface PositionedRoute {
+  id: string;
+  positions: number;
+}
+
+// Number of awards per route id, ignoring float-pool rows
+export const countAwardsByRoute = (awards: { routeId: string | null }[]): Map<string, number> => {
+  const counts = new Map<string, number>();
+  for (const award of awards) {
+    if (award.routeId) {
+      counts.set(award.routeId, (counts.get(award.routeId) || 0) + 1);
+    }
+  }
+  return counts;
+};
+
+export const getRemainingPositions = (route: PositionedRoute, awardCounts: Map<string, number>): number => {
+  return Math.max(0, route.positions - (awardCounts.get(route.id) || 0));
+};
@@ -0,0 +1,207 @@
+import prisma from './database.js';
+
+// Parses the free-text schedule fields on Route and checks them against hours-of-service limits
+
+export interface HoursOfServiceLimits {
+  maxShiftHours: number;
+  maxWeeklyHours: number;
+  minRestHours: number;
+}
+
+// FMCSA property-carrier limits: 14-hour duty window, 60 hours in 7 days, 10 hours off between shifts
+export const DEFAULT_HOURS_OF_SERVICE_LIMITS: HoursOfServiceLimits = {
+  maxShiftHours: 14,
+  maxWeeklyHours: 60,
+  minRestHours: 10,
+};
+
+// How far workTime may drift from the start/end span before it is flagged
+const WORK_TIME_TOLERANCE_HOURS = 0.5;
+
+const DAY_ALIASES: Record<string, number> = {
+  SU: 0, SUN: 0, SUNDAY: 0,
+  M: 1, MO: 1, MON: 1, MONDAY: 1,
+  TU: 2, TUE: 2, TUES: 2, TUESDAY: 2,
+  W: 3, WE: 3, WED: 3, WEDNESDAY: 3,
+  TH: 4, THU: 4, THUR: 4, THURS: 4, THURSDAY: 4,
+  F: 5, FR: 5, FRI: 5, FRIDAY: 5,
+  SA: 6, SAT: 6, SATURDAY: 6,
+};
+
+export interface RouteSchedule {
+  days: number[]; // 0 = Sunday
+  startMinutes: number;
+  endMinutes: number;
+  shiftHours: number;
+  overnight: boolean;
+  weeklyHours: number;
+}
+
+export interface ScheduleFields {
+  days: string;
+  startTime: string;
+  endTime: string;
+  workTime: number;
+}
+
+const parseDay = (token: string): number | null => {
+  const day = DAY_ALIASES[token.trim().toUpperCase().replace(/\.$/, '')];
+  return day === undefined ? null : day;
+};
+
+const expandRange = (from: number, to: number): number[] => {
+  const days: number[] = [];
+  for (let day = from; ; day = (day + 1) % 7) {
+    days.push(day);
+    if (day === to) {
+      return days;
+    }
+  }
+};
+
+// "Mon-Fri" is a range; "Mon-Wed-Fri" (three or more hyphenated days) is a list, as are
+// comma or slash separated days, each of which may itself be a range ("Mon-Wed, Sat")
+export const parseScheduleDays = (value: string): number[] | null => {
+  const normalized = value.trim().toUpperCase();
+  if (!normalized) {
+    return null;
+  }
+
+  if (normalized === 'DAILY' || normalized === 'EVERYDAY' || normalized === 'EVERY DAY') {
+    return [0, 1, 2, 3, 4, 5, 6];
+  }
+
+  const days = new Set<number>();
+  for (const part of normalized.split(/[,/&]| AND /).map(p => p.trim()).filter(Boolean)) {
+    const tokens = part.split(/\s*-\s*|\s+TO\s+/);
+    const parsed = tokens.map(parseDay);
+    if (parsed.some(day => day === null)) {
+      return null;
+    }
+
+    if (parsed.length === 2) {
+      expandRange(parsed[0]!, parsed[1]!).forEach(day => days.add(day));
+    } else {
+      parsed.forEach(day => days.add(day!));
+    }
+  }
+
+  return Array.from(days).sort((a, b) => a - b);
+};
+
+// Minutes after midnight for "HH:MM", "H:MM", "HHMM" or 12-hour "h:MM AM"
+export const parseScheduleTime = (value: string): number | null => {
+  const match = value.trim().match(/^(\d{1,2}):?(\d{2})\s*(AM|PM)?$/i);
+  if (!match) {
+    return null;
+  }
+
+  let hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+  const period = match[3]?.toUpperCase();
+
+  if (period) {
+    if (hours < 1 || hours > 12) {
+      return null;
+    }
+    hours = (hours % 12) + (period === 'PM' ? 12 : 0);
+  }
+
+  if (hours > 24 || minutes > 59 || (hours === 24 && minutes > 0)) {
+    return null;
+  }
+  return hours * 60 + minutes;
+};
+
+// An end time at or before the start time means the run finishes the next morning
+export const parseRouteSchedule = (route: Omit<ScheduleFields, 'workTime'>): RouteSchedule | null => {
+  const days = parseScheduleDays(route.days);
+  const startMinutes = parseScheduleTime(route.startTime);
+  const endMinutes = parseScheduleTime(route.endTime);
+
+  if (!days || startMinutes === null || endMinutes === null) {
+    return null;
+  }
+
+  const overnight = endMinutes <= startMinutes;
+  const shiftHours = ((overnight ? endMinutes + 24 * 60 : endMinutes) - startMinutes) / 60;
+
+  return {
+    days,
+    startMinutes,
+    endMinutes,
+    shiftHours,
+    overnight,
+    weeklyHours: shiftHours * days.length,
+  };
+};
+
+// Shortest off-duty gap between the end of one shift and the start of the next in the weekly cycle
+const getMinimumRestHours = (schedule: RouteSchedule): number => {
+  let minimum = Infinity;
+  schedule.days.forEach((day, index) => {
+    const nextDay = schedule.days[(index + 1) % schedule.days.length];
+    const daysApart = ((nextDay - day + 7) % 7) || 7;
+    minimum = Math.min(minimum, daysApart * 24 - schedule.shiftHours);
+  });
+  return minimum;
+};
+
+// Human-readable problems with a route's schedule; an empty list means it looks workable
+export const getScheduleWarnings = (
+  route: ScheduleFields,
+  limits: HoursOfServiceLimits = DEFAULT_HOURS_OF_SERVICE_LIMITS
+): string[] => {
+  const warnings: string[] = [];
+
+  if (!parseScheduleDays(route.days)) {
+    warnings.push(`Days "${route.days}" could not be read; use e.g. "Mon-Fri" or "Mon-Wed-Fri"`);
+  }
+  if (parseScheduleTime(route.startTime) === null) {
+    warnings.push(`Start time "${route.startTime}" could not be read; use HH:MM`);
+  }
+  if (parseScheduleTime(route.endTime) === null) {
+    warnings.push(`End time "${route.endTime}" could not be read; use HH:MM`);
+  }
+
+  const schedule = parseRouteSchedule(route);
+  if (!schedule) {
+    return warnings;
+  }
+
+  if (schedule.shiftHours > limits.maxShiftHours) {
+    warnings.push(`Shift spans ${schedule.shiftHours.toFixed(1)}h, over the ${limits.maxShiftHours}h on-duty limit`);
+  }
+
+  if (schedule.weeklyHours > limits.maxWeeklyHours) {
+    warnings.push(`${schedule.weeklyHours.toFixed(1)} on-duty hours per week, over the ${limits.maxWeeklyHours}h weekly limit`);
+  }
+
+  const restHours = getMinimumRestHours(schedule);
+  if (restHours < limits.minRestHours) {
+    warnings.push(`Only ${Math.max(0, restHours).toFixed(1)}h off between consecutive shifts; ${limits.minRestHours}h required`);
+  }
+
+  if (Math.abs(route.workTime - schedule.shiftHours) > WORK_TIME_TOLERANCE_HOURS) {
+    warnings.push(`Work time ${route.workTime}h doesn't match the ${schedule.shiftHours.toFixed(1)}h between start and end${schedule.overnight ? ' (overnight)' : ''}`);
+  }
+
+  return warnings;
+};
+
+export const getHoursOfServiceLimits = async (terminalId?: string | null): Promise<HoursOfServiceLimits> => {
+  if (!terminalId) {
+    return DEFAULT_HOURS_OF_SERVICE_LIMITS;
+  }
+
+  const terminal = await prisma.terminal.findUnique({
+    where: { id: terminalId },
+    select: {
+      maxShiftHours: true,
+      maxWeeklyHours: true,
+      minRestHours: true,
+    },
+  });
+
+  return terminal || DEFAULT_HOURS_OF_SERVICE_LIMITS;
+};
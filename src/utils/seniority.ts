@@ -0,0 +1,123 @@
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import prisma from './database.js';
+
+export const TIE_BREAKER_POLICIES = ['LAST_NAME', 'EMPLOYEE_NUMBER', 'SSN_LAST_FOUR', 'LOTTERY'] as const;
+
+export type TieBreakerPolicy = typeof TIE_BREAKER_POLICIES[number];
+
+export interface SeniorityPolicy {
+  tieBreaker: TieBreakerPolicy;
+  lotterySeed: string | null;
+}
+
+export interface SeniorityDateFields {
+  hireDate: Date;
+  seniorityDate: Date | null;
+  seniorityAdjustments: { days: number }[];
+}
+
+export interface SeniorityFields extends SeniorityDateFields {
+  employeeId: string;
+  lastName: string;
+  ssnLastFour?: string | null;
+}
+
+// Include fragment so every caller loads what getEffectiveSeniorityDate needs
+export const seniorityAdjustmentsInclude = {
+  seniorityAdjustments: { select: { days: true } },
+} as const;
+
+export const DEFAULT_SENIORITY_POLICY: SeniorityPolicy = {
+  tieBreaker: 'LAST_NAME',
+  lotterySeed: null,
+};
+
+export const generateLotterySeed = (): string => {
+  return crypto.randomBytes(8).toString('hex');
+};
+
+// Deterministic lottery draw: the same seed always produces the same order
+export const getLotteryNumber = (seed: string, employeeId: string): number => {
+  const hash = crypto.createHash('sha256').update(`${seed}:${employeeId}`).digest('hex');
+  return parseInt(hash.slice(0, 12), 16);
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The seniority date (hire date when none is set) moved by every adjustment in the ledger
+export const getEffectiveSeniorityDate = (employee: SeniorityDateFields): Date => {
+  const start = employee.seniorityDate || employee.hireDate;
+  const adjustmentDays = employee.seniorityAdjustments.reduce((total, adjustment) => total + adjustment.days, 0);
+  return new Date(start.getTime() + adjustmentDays * DAY_MS);
+};
+
+const compareEmployeeNumber = (a: SeniorityFields, b: SeniorityFields): number => {
+  return a.employeeId.localeCompare(b.employeeId, undefined, { numeric: true });
+};
+
+const compareTieBreaker = (a: SeniorityFields, b: SeniorityFields, policy: SeniorityPolicy): number => {
+  switch (policy.tieBreaker) {
+    case 'EMPLOYEE_NUMBER':
+      return compareEmployeeNumber(a, b);
+    case 'SSN_LAST_FOUR': {
+      // Drivers without a surrogate on file rank after those with one
+      if (!a.ssnLastFour || !b.ssnLastFour) {
+        return (a.ssnLastFour ? 0 : 1) - (b.ssnLastFour ? 0 : 1);
+      }
+      return a.ssnLastFour.localeCompare(b.ssnLastFour, undefined, { numeric: true });
+    }
+    case 'LOTTERY': {
+      const seed = policy.lotterySeed || '';
+      return getLotteryNumber(seed, a.employeeId) - getLotteryNumber(seed, b.employeeId);
+    }
+    case 'LAST_NAME':
+    default:
+      return a.lastName.localeCompare(b.lastName);
+  }
+};
+
+export const compareSeniority = (a: SeniorityFields, b: SeniorityFields, policy: SeniorityPolicy): number => {
+  const seniorityDateCompare = getEffectiveSeniorityDate(a).getTime() - getEffectiveSeniorityDate(b).getTime();
+  if (seniorityDateCompare !== 0) {
+    return seniorityDateCompare;
+  }
+
+  const tieBreakerCompare = compareTieBreaker(a, b, policy);
+  if (tieBreakerCompare !== 0) {
+    return tieBreakerCompare;
+  }
+
+  // Employee numbers are unique, so the order is always total
+  return compareEmployeeNumber(a, b);
+};
+
+export const sortBySeniority = <T extends SeniorityFields>(employees: T[], policy: SeniorityPolicy): T[] => {
+  return [...employees].sort((a, b) => compareSeniority(a, b, policy));
+};
+
+export const getSeniorityPolicy = async (
+  terminalId?: string | null,
+  client: Prisma.TransactionClient = prisma
+): Promise<SeniorityPolicy> => {
+  if (!terminalId) {
+    return DEFAULT_SENIORITY_POLICY;
+  }
+
+  const terminal = await client.terminal.findUnique({
+    where: { id: terminalId },
+    select: {
+      seniorityTieBreaker: true,
+      lotterySeed: true,
+    },
+  });
+
+  if (!terminal) {
+    return DEFAULT_SENIORITY_POLICY;
+  }
+
+  return {
+    tieBreaker: terminal.seniorityTieBreaker as TieBreakerPolicy,
+    lotterySeed: terminal.lotterySeed,
+  };
+};
@@ -0,0 +1,79 @@
+// Period dates are entered as calendar days at a terminal and stored as the instants those days
+// start and end in the terminal's IANA time zone
+
+export const DEFAULT_TIME_ZONE = 'America/New_York';
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Milliseconds the zone's wall clock is ahead of UTC at the instant
+const getTimeZoneOffset = (instant: Date, timeZone: string): number => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(instant);
+  const get = (type: string) => parseInt(parts.find(part => part.type === type)!.value);
+
+  const wallClock = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return wallClock - Math.floor(instant.getTime() / 1000) * 1000;
+};
+
+// The instant a YYYY-MM-DD date and HH:mm:ss time occur on the zone's wall clock
+export const zonedTimeToInstant = (date: string, time: string, timeZone: string): Date => {
+  const wallClock = Date.parse(`${date}T${time}Z`);
+  if (isNaN(wallClock)) {
+    return new Date(NaN);
+  }
+
+  const guess = wallClock - getTimeZoneOffset(new Date(wallClock), timeZone);
+  // Recheck at the guess, in case a DST change falls between it and the wall clock time
+  return new Date(wallClock - getTimeZoneOffset(new Date(guess), timeZone));
+};
+
+// A period runs from the first second of its start date to the last second of its end date
+export const getPeriodWindow = (startDate: string, endDate: string, timeZone: string) => ({
+  startDate: zonedTimeToInstant(startDate, '00:00:00', timeZone),
+  endDate: zonedTimeToInstant(endDate, '23:59:59', timeZone),
+});
+
+// The zone's calendar date at the instant, as YYYY-MM-DD
+export const toZonedDateString = (instant: Date, timeZone: string): string => {
+  return new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(instant);
+};
+
+// The YYYY-MM-DD date a number of calendar days after another
+export const addDays = (date: string, days: number): string => {
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() + days);
+  return day.toISOString().split('T')[0];
+};
+
+// Terminal-local date for emails, e.g. "3/14/2025"
+export const formatZonedDate = (instant: Date, timeZone: string): string => {
+  return instant.toLocaleDateString('en-US', { timeZone });
+};
+
+// Terminal-local date and time with the zone abbreviation, e.g. "3/14/2025, 11:59 PM PDT"
+export const formatZonedDateTime = (instant: Date, timeZone: string): string => {
+  return instant.toLocaleString('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZoneName: 'short',
+  });
+};